@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { LineChart as LineChartIcon } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import AppLoader from '@/components/ui/AppLoader';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import {
+  useEnvironmentHistory,
+  type EnvironmentHistoryAggregation,
+  type EnvironmentHistoryBucket,
+} from '@/hooks/useEnvironment';
+
+interface EnvironmentHistoryPanelProps {
+  useFahrenheit?: boolean;
+}
+
+// Each range picks a bucket size that keeps the chart to a readable number of points
+const RANGES: { label: string; days: number; bucket: EnvironmentHistoryBucket }[] = [
+  { label: '24h', days: 1, bucket: 'hour' },
+  { label: '7d', days: 7, bucket: 'hour' },
+  { label: '30d', days: 30, bucket: 'day' },
+  { label: '90d', days: 90, bucket: 'week' },
+];
+
+const AGGREGATIONS: { label: string; value: EnvironmentHistoryAggregation }[] = [
+  { label: 'Avg', value: 'avg' },
+  { label: 'Min', value: 'min' },
+  { label: 'Max', value: 'max' },
+];
+
+const METRICS = [
+  { key: 'temperature', label: 'Temperature', color: '#ef4444' },
+  { key: 'humidity', label: 'Humidity (%)', color: '#3b82f6' },
+  { key: 'soilMoisture', label: 'Soil moisture (m³/m³)', color: '#a16207' },
+] as const;
+
+const toggleClass = (active: boolean) =>
+  `px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${
+    active ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-slate-700 dark:text-gray-300'
+  }`;
+
+export const EnvironmentHistoryPanel: React.FC<EnvironmentHistoryPanelProps> = ({ useFahrenheit = false }) => {
+  const [range, setRange] = useState(RANGES[1]);
+  const [aggregation, setAggregation] = useState<EnvironmentHistoryAggregation>('avg');
+  const { history, isLoading } = useEnvironmentHistory({ days: range.days, bucket: range.bucket, aggregation });
+
+  const labelFormat = range.bucket === 'hour' ? (range.days > 1 ? 'MMM d HH:mm' : 'HH:mm') : 'MMM d';
+  const round = (value: number | null, digits: number) => value == null ? null : Number(value.toFixed(digits));
+  const points = history.map(point => ({
+    label: format(parseISO(point.bucketStart), labelFormat),
+    // Readings are stored in Celsius
+    temperature: round(point.temperature == null ? null : useFahrenheit ? point.temperature * 9 / 5 + 32 : point.temperature, 1),
+    humidity: round(point.humidity, 0),
+    soilMoisture: round(point.soilMoisture, 3),
+  }));
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div className="flex items-center">
+          <LineChartIcon className="h-7 w-7 mr-3 text-teal-500" />
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Environment Trends</h3>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <div className="flex gap-1">
+            {RANGES.map(option => (
+              <button key={option.label} className={toggleClass(option === range)} onClick={() => setRange(option)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            {AGGREGATIONS.map(option => (
+              <button key={option.value} className={toggleClass(option.value === aggregation)} onClick={() => setAggregation(option.value)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <AppLoader title="Loading History" message="Fetching environment readings..." size="small" variant="minimal" />
+      ) : points.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-300">No environment readings in this period.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {METRICS.map(metric => {
+            const label = metric.key === 'temperature' ? `Temperature (${useFahrenheit ? '°F' : '°C'})` : metric.label;
+            const config: ChartConfig = { [metric.key]: { label, color: metric.color } };
+            const hasData = points.some(point => point[metric.key] != null);
+            return (
+              <div key={metric.key}>
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">{label}</p>
+                {hasData ? (
+                  <ChartContainer config={config} className="h-40 w-full aspect-auto">
+                    <LineChart data={points} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={6} minTickGap={24} />
+                      <YAxis tickLine={false} axisLine={false} width={36} domain={['auto', 'auto']} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line type="monotone" dataKey={metric.key} stroke={`var(--color-${metric.key})`} strokeWidth={2} dot={false} connectNulls />
+                    </LineChart>
+                  </ChartContainer>
+                ) : (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">No {metric.label.toLowerCase()} readings.</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+
+export interface HealthTrendPoint {
+  date: string; // YYYY-MM-DD
+  overallHealth: number;
+  waterLevel?: number;
+  lightLevel?: number;
+}
+
+interface HealthTrendChartProps {
+  data: HealthTrendPoint[];
+  showComponents?: boolean; // also plot the water and light scores
+  className?: string;
+}
+
+const chartConfig: ChartConfig = {
+  overallHealth: { label: 'Health', color: 'hsl(var(--primary))' },
+  waterLevel: { label: 'Water', color: '#3b82f6' },
+  lightLevel: { label: 'Light', color: '#eab308' },
+};
+
+export const HealthTrendChart: React.FC<HealthTrendChartProps> = ({ data, showComponents = false, className }) => {
+  const points = data.map(point => ({ ...point, label: format(parseISO(point.date), 'MMM d') }));
+
+  return (
+    <ChartContainer config={chartConfig} className={className ?? 'h-56 w-full aspect-auto'}>
+      <LineChart data={points} margin={{ left: 0, right: 12, top: 8, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+        <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        {showComponents && <ChartLegend content={<ChartLegendContent />} />}
+        <Line type="monotone" dataKey="overallHealth" stroke="var(--color-overallHealth)" strokeWidth={2} dot={false} />
+        {showComponents && (
+          <Line type="monotone" dataKey="waterLevel" stroke="var(--color-waterLevel)" strokeWidth={1.5} dot={false} />
+        )}
+        {showComponents && (
+          <Line type="monotone" dataKey="lightLevel" stroke="var(--color-lightLevel)" strokeWidth={1.5} dot={false} />
+        )}
+      </LineChart>
+    </ChartContainer>
+  );
+};
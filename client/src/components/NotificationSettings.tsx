@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { Bell, CalendarPlus } from 'lucide-react';
+import { useAuth } from '@clerk/clerk-react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { isPushSupported, subscribeToPush, unsubscribeFromPush } from '@/lib/pushNotifications';
+import type { NotificationPreferences } from '@shared/schema';
+
+type PreferencesForm = Pick<NotificationPreferences, 'emailEnabled' | 'pushEnabled' | 'webhookEnabled' | 'webhookUrl' | 'quietHoursStart' | 'quietHoursEnd'>;
+
+export const NotificationSettings: React.FC = () => {
+  const { getToken } = useAuth();
+  const { toast } = useToast();
+  const [form, setForm] = useState<PreferencesForm | null>(null);
+
+  const { data: preferences } = useQuery<PreferencesForm>({
+    queryKey: ['/api/notifications/preferences'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/notifications/preferences', undefined, getToken);
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    if (preferences) setForm(preferences);
+  }, [preferences]);
+
+  const savePreferences = useMutation({
+    mutationFn: async (updates: PreferencesForm) => {
+      // Push needs a subscription for this browser before the server can use it
+      if (updates.pushEnabled && !preferences?.pushEnabled) {
+        await subscribeToPush(getToken);
+      } else if (!updates.pushEnabled && preferences?.pushEnabled) {
+        await unsubscribeFromPush(getToken);
+      }
+      const response = await apiRequest('PUT', '/api/notifications/preferences', {
+        ...updates,
+        webhookUrl: updates.webhookUrl || null,
+        quietHoursStart: updates.quietHoursStart || null,
+        quietHoursEnd: updates.quietHoursEnd || null,
+      }, getToken);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/preferences'] });
+      toast({ title: 'Notification settings saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save notification settings', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // Subscription URL for Google Calendar / Outlook; the token in it is the only credential
+  const copyCalendarLink = async () => {
+    try {
+      const response = await apiRequest('GET', '/api/care-tasks/calendar-feed', undefined, getToken);
+      const { url } = await response.json();
+      await navigator.clipboard.writeText(url);
+      toast({ title: 'Calendar link copied', description: 'Add it in your calendar app as a subscription by URL.' });
+    } catch (error: any) {
+      toast({ title: 'Could not get calendar link', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  if (!form) return null;
+
+  const update = <K extends keyof PreferencesForm>(key: K, value: PreferencesForm[K]) =>
+    setForm(current => current ? { ...current, [key]: value } : current);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
+      <div className="flex items-center mb-4">
+        <Bell className="h-7 w-7 mr-3 text-amber-500" />
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Task Notifications</h3>
+      </div>
+      <div className="space-y-3 text-sm text-gray-700 dark:text-gray-200">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={form.emailEnabled} onChange={e => update('emailEnabled', e.target.checked)} />
+          Email digest
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={form.pushEnabled}
+            disabled={!isPushSupported()}
+            onChange={e => update('pushEnabled', e.target.checked)}
+          />
+          Browser push {isPushSupported() ? '' : '(not supported in this browser)'}
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={form.webhookEnabled} onChange={e => update('webhookEnabled', e.target.checked)} />
+          Webhook
+        </label>
+        {form.webhookEnabled && (
+          <Input
+            type="url"
+            placeholder="https://example.com/hooks/plants"
+            value={form.webhookUrl ?? ''}
+            onChange={e => update('webhookUrl', e.target.value)}
+          />
+        )}
+        <div className="flex items-center gap-2">
+          <span>Quiet hours</span>
+          <Input type="time" className="w-28" value={form.quietHoursStart ?? ''} onChange={e => update('quietHoursStart', e.target.value)} />
+          <span>to</span>
+          <Input type="time" className="w-28" value={form.quietHoursEnd ?? ''} onChange={e => update('quietHoursEnd', e.target.value)} />
+        </div>
+        <Button
+          className="bg-green-600 hover:bg-green-700 text-white"
+          disabled={savePreferences.isPending}
+          onClick={() => savePreferences.mutate(form)}
+        >
+          {savePreferences.isPending ? 'Saving...' : 'Save'}
+        </Button>
+        <Button variant="outline" className="ml-2" onClick={copyCalendarLink}>
+          <CalendarPlus className="h-4 w-4 mr-2" />
+          Copy calendar link
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlarmClock, Lightbulb, Loader2, RefreshCw, ThumbsDown, ThumbsUp, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import AppLoader from '@/components/ui/AppLoader';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  useEnvironment,
+  useGenerateRecommendations,
+  useRecommendationActions,
+  useRecommendations,
+} from '@/hooks/useEnvironment';
+import type { Plant, Recommendation, RecommendationStatus } from '@shared/schema';
+
+interface RecommendationsPanelProps {
+  plants: Plant[];
+  enabled?: boolean;
+}
+
+const FILTERS: { label: string; status: RecommendationStatus }[] = [
+  { label: 'Open', status: 'active' },
+  { label: 'Snoozed', status: 'snoozed' },
+  { label: 'Applied', status: 'applied' },
+  { label: 'Dismissed', status: 'dismissed' },
+  { label: 'Expired', status: 'expired' },
+];
+
+const SNOOZE_OPTIONS = [
+  { label: '1 day', days: 1 },
+  { label: '3 days', days: 3 },
+  { label: '1 week', days: 7 },
+];
+
+const toggleClass = (active: boolean) =>
+  `px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${
+    active ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-slate-700 dark:text-gray-300'
+  }`;
+
+// Dates arrive as ISO strings despite the shared type
+const formatDate = (value: Date | string | null) =>
+  value ? format(typeof value === 'string' ? parseISO(value) : value, 'MMM d') : null;
+
+export const RecommendationsPanel: React.FC<RecommendationsPanelProps> = ({ plants, enabled = true }) => {
+  const [filter, setFilter] = useState<RecommendationStatus>('active');
+  const { applyRecommendation } = useEnvironment({ enabled });
+  const { recommendations, isLoading } = useRecommendations([filter], { enabled });
+  const { dismissRecommendation, snoozeRecommendation, rateRecommendation } = useRecommendationActions();
+  const { generate, job, isGenerating, error } = useGenerateRecommendations();
+
+  const plantName = (plantId: number | null) => plants.find(plant => plant.id === plantId)?.name;
+  const summary = job?.status === 'completed' ? job.result as { plants: number; created: number; failed: number } | null : null;
+
+  const statusNote = (recommendation: Recommendation) => {
+    if (recommendation.status === 'snoozed') return `Snoozed until ${formatDate(recommendation.snoozedUntil)}`;
+    if (recommendation.status === 'active' && recommendation.expiresAt) return `Relevant until ${formatDate(recommendation.expiresAt)}`;
+    return null;
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div className="flex items-center">
+          <Lightbulb className="h-7 w-7 mr-3 text-amber-500" />
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Recommendations</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex gap-1">
+            {FILTERS.map(option => (
+              <button key={option.status} className={toggleClass(option.status === filter)} onClick={() => setFilter(option.status)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={generate} disabled={isGenerating || plants.length === 0}>
+            {isGenerating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            {isGenerating ? 'Generating...' : 'Generate'}
+          </Button>
+        </div>
+      </div>
+
+      {isGenerating && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+          {job?.status === 'running' ? 'Checking each of your plants' : 'Queued'}. You can keep using the app while this runs.
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600 dark:text-red-400 mb-3">{error.message}</p>}
+      {summary && !isGenerating && (
+        <p className="text-sm text-green-700 dark:text-green-400 mb-3">
+          Checked {summary.plants} plant{summary.plants === 1 ? '' : 's'} and added {summary.created} recommendation{summary.created === 1 ? '' : 's'}
+          {summary.failed > 0 ? ` (${summary.failed} could not be checked)` : ''}.
+        </p>
+      )}
+
+      {isLoading ? (
+        <AppLoader title="Loading Recommendations" message="Fetching your recommendations..." size="small" variant="minimal" />
+      ) : recommendations.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {filter === 'active' ? 'No open recommendations. Generate some to get advice for your plants.' : 'Nothing here.'}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {recommendations.map(recommendation => (
+            <li key={recommendation.id} className="p-3 rounded-lg bg-gray-50 dark:bg-slate-700/50">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                    {recommendation.recommendationType}
+                    {plantName(recommendation.plantId) ? ` · ${plantName(recommendation.plantId)}` : ''}
+                  </p>
+                  <p className="text-sm text-gray-800 dark:text-gray-100 mt-1">{recommendation.message}</p>
+                  {statusNote(recommendation) && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{statusNote(recommendation)}</p>
+                  )}
+                </div>
+                {(recommendation.status === 'active' || recommendation.status === 'snoozed') && (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      size="sm"
+                      className="bg-green-600 hover:bg-green-700 text-white"
+                      onClick={() => applyRecommendation.mutate(recommendation.id)}
+                      disabled={applyRecommendation.isPending}
+                    >
+                      Apply
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button size="sm" variant="ghost" title="Snooze" disabled={snoozeRecommendation.isPending}>
+                          <AlarmClock className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {SNOOZE_OPTIONS.map(option => (
+                          <DropdownMenuItem
+                            key={option.days}
+                            onClick={() => snoozeRecommendation.mutate({ recommendationId: recommendation.id, days: option.days })}
+                          >
+                            Snooze {option.label}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Dismiss"
+                      onClick={() => dismissRecommendation.mutate(recommendation.id)}
+                      disabled={dismissRecommendation.isPending}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-1 mt-2">
+                <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">Helpful?</span>
+                <button
+                  className={`p-1 rounded ${recommendation.feedback === 'up' ? 'text-green-600' : 'text-gray-400 hover:text-gray-600'}`}
+                  onClick={() => rateRecommendation.mutate({ recommendationId: recommendation.id, feedback: 'up' })}
+                  aria-label="Helpful"
+                >
+                  <ThumbsUp className="h-4 w-4" />
+                </button>
+                <button
+                  className={`p-1 rounded ${recommendation.feedback === 'down' ? 'text-red-500' : 'text-gray-400 hover:text-gray-600'}`}
+                  onClick={() => rateRecommendation.mutate({ recommendationId: recommendation.id, feedback: 'down' })}
+                  aria-label="Not helpful"
+                >
+                  <ThumbsDown className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useState, type FormEvent } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, KeyRound, Radio, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useDevices, type SensorDeviceEntry, type SensorDeviceWithKey } from '@/hooks/useDevices';
+import { useLocations } from '@/hooks/useLocations';
+import type { Plant } from '@shared/schema';
+
+// A device that posted within this long is shown as online
+const ONLINE_WINDOW_MS = 30 * 60 * 1000;
+
+// Select values for where readings go: "none", "location:<id>" or "plant:<id>"
+const NO_TARGET = 'none';
+
+const targetValue = (device: Pick<SensorDeviceEntry, 'plantId' | 'locationId'>) =>
+  device.plantId ? `plant:${device.plantId}` : device.locationId ? `location:${device.locationId}` : NO_TARGET;
+
+const targetFields = (value: string) => {
+  const [kind, id] = value.split(':');
+  return {
+    plantId: kind === 'plant' ? parseInt(id, 10) : null,
+    locationId: kind === 'location' ? parseInt(id, 10) : null,
+  };
+};
+
+const lastSeenLabel = (lastSeenAt: string | null) => {
+  if (!lastSeenAt) return { online: false, label: 'Never connected' };
+  const seen = new Date(lastSeenAt);
+  return {
+    online: Date.now() - seen.getTime() < ONLINE_WINDOW_MS,
+    label: `Last seen ${formatDistanceToNow(seen, { addSuffix: true })}`,
+  };
+};
+
+interface SensorDevicesPanelProps {
+  plants: Plant[];
+}
+
+export const SensorDevicesPanel: React.FC<SensorDevicesPanelProps> = ({ plants }) => {
+  const { toast } = useToast();
+  const { devices, registerDevice, updateDevice, rotateDeviceKey, deleteDevice } = useDevices();
+  const { locations } = useLocations();
+  const [name, setName] = useState('');
+  const [target, setTarget] = useState(NO_TARGET);
+  // The key is only ever returned once, so keep it on screen until dismissed
+  const [newKey, setNewKey] = useState<SensorDeviceWithKey | null>(null);
+
+  const onRegister = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) {
+      toast({ title: 'Validation Error', description: 'Give the device a name.', variant: 'destructive' });
+      return;
+    }
+    try {
+      setNewKey(await registerDevice.mutateAsync({ name: name.trim(), ...targetFields(target) }));
+      setName('');
+      setTarget(NO_TARGET);
+    } catch (error: any) {
+      toast({ title: 'Could not register device', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  const onRotate = async (device: SensorDeviceEntry) => {
+    if (!window.confirm(`Issue a new key for ${device.name}? The current key stops working immediately.`)) return;
+    try {
+      setNewKey(await rotateDeviceKey.mutateAsync(device.id));
+    } catch (error: any) {
+      toast({ title: 'Could not rotate key', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  const onDelete = async (device: SensorDeviceEntry) => {
+    if (!window.confirm(`Remove ${device.name}? Readings it already sent are kept.`)) return;
+    try {
+      await deleteDevice.mutateAsync(device.id);
+      if (newKey?.id === device.id) setNewKey(null);
+    } catch (error: any) {
+      toast({ title: 'Could not remove device', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  const onChangeTarget = (device: SensorDeviceEntry, value: string) => {
+    updateDevice.mutate({ id: device.id, device: targetFields(value) }, {
+      onError: (error: Error) => toast({ title: 'Could not update device', description: error.message, variant: 'destructive' }),
+    });
+  };
+
+  const copyKey = async (apiKey: string) => {
+    await navigator.clipboard.writeText(apiKey);
+    toast({ title: 'Device key copied' });
+  };
+
+  const targetSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-48">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_TARGET}>Whole home</SelectItem>
+        {locations.map(location => (
+          <SelectItem key={`location:${location.id}`} value={`location:${location.id}`}>{location.name}</SelectItem>
+        ))}
+        {plants.map(plant => (
+          <SelectItem key={`plant:${plant.id}`} value={`plant:${plant.id}`}>{plant.name} (pot)</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
+      <div className="flex items-center mb-4">
+        <Radio className="h-7 w-7 mr-3 text-teal-500" />
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Sensors</h3>
+      </div>
+
+      {newKey && (
+        <div className="mb-4 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm dark:border-amber-700 dark:bg-amber-900/20">
+          <p className="font-medium text-gray-800 dark:text-gray-100">Key for {newKey.name}</p>
+          <p className="text-gray-600 dark:text-gray-300">
+            Copy it now; it won't be shown again. Devices send it in an <code>X-Device-Key</code> header
+            to <code>POST /api/sensor-readings</code>.
+          </p>
+          <div className="mt-2 flex items-center gap-2">
+            <code className="flex-1 truncate rounded bg-white px-2 py-1 dark:bg-slate-900">{newKey.apiKey}</code>
+            <Button size="sm" variant="outline" onClick={() => copyKey(newKey.apiKey)}>
+              <Copy className="h-4 w-4 mr-1" /> Copy
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setNewKey(null)}>Done</Button>
+          </div>
+        </div>
+      )}
+
+      {devices.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          No sensors yet. Register one to let it post temperature, humidity, light and soil moisture readings.
+        </p>
+      ) : (
+        <ul className="mb-4 divide-y divide-gray-100 dark:divide-slate-700">
+          {devices.map(device => {
+            const status = lastSeenLabel(device.lastSeenAt);
+            return (
+              <li key={device.id} className="flex flex-wrap items-center gap-3 py-2 text-sm">
+                <span
+                  className={`h-2.5 w-2.5 rounded-full ${status.online ? 'bg-green-500' : 'bg-gray-300 dark:bg-slate-600'}`}
+                  title={status.online ? 'Online' : 'Offline'}
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium text-gray-800 dark:text-gray-100">{device.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {status.label} · key {device.apiKeyPrefix}…
+                  </p>
+                </div>
+                {targetSelect(targetValue(device), value => onChangeTarget(device, value))}
+                <Button size="icon" variant="ghost" aria-label={`New key for ${device.name}`} onClick={() => onRotate(device)}>
+                  <KeyRound className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" aria-label={`Remove ${device.name}`} onClick={() => onDelete(device)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={onRegister} className="flex flex-wrap items-center gap-2">
+        <Input className="w-48" placeholder="e.g. Balcony ESP32" maxLength={60} value={name} onChange={e => setName(e.target.value)} />
+        {targetSelect(target, setTarget)}
+        <Button type="submit" className="bg-green-600 hover:bg-green-700 text-white" disabled={registerDevice.isPending}>
+          {registerDevice.isPending ? 'Registering...' : 'Register sensor'}
+        </Button>
+      </form>
+    </div>
+  );
+};
@@ -1,15 +1,19 @@
-import { useState } from "react";
+import { useEffect, useState, type FormEvent } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
 import { useForm, type FieldErrors } from "react-hook-form"; // Import FieldErrors
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertPlantSchema, type Plant, type InsertPlant } from "@shared/schema";
+import { type Plant, type SpeciesCandidate } from "@shared/schema";
 import { z } from "zod";
+import { Check, Leaf, Loader2 } from "lucide-react";
 import { apiRequest } from "@/lib/apiRequest";
 import { useToast } from "@/hooks/use-toast";
+import { useSpeciesSearch } from "@/hooks/usePlants";
+import { EMPTY_CARE_VALUES, PlantCareFields, careValuesToBody, type PlantCareValues } from "@/components/plants/PlantCareFields";
 import { queryClient } from "@/lib/queryClient";
 
 interface AddPlantModalProps {
@@ -18,6 +22,9 @@ interface AddPlantModalProps {
   onAddPlant: (newPlant: Plant) => void;
 }
 
+// Wait this long after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
 // Form schema for validation
 const addPlantFormSchema = z.object({
   commonName: z.string().min(1, { message: "Common name is required" }),
@@ -25,11 +32,18 @@ const addPlantFormSchema = z.object({
 // Infer type for form data
 type AddPlantFormData = z.infer<typeof addPlantFormSchema>;
 
+const candidateLabel = (candidate: SpeciesCandidate) =>
+  candidate.commonName || candidate.scientificName[0] || `Species #${candidate.perenualId}`;
+
 export function AddPlantModal({ isOpen, onClose, onAddPlant }: AddPlantModalProps) {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
-
-  // Removed getTodayDateString as default for lastWatered is now new Date()
+  const [searchText, setSearchText] = useState("");
+  const [selected, setSelected] = useState<SpeciesCandidate | null>(null);
+  // Hybrids, cuttings and unlisted cultivars are entered by hand instead of picked from Perenual
+  const [isManual, setIsManual] = useState(false);
+  const [manualName, setManualName] = useState("");
+  const [careValues, setCareValues] = useState<PlantCareValues>(EMPTY_CARE_VALUES);
 
   const form = useForm<AddPlantFormData>({
     resolver: zodResolver(addPlantFormSchema),
@@ -38,23 +52,44 @@ export function AddPlantModal({ isOpen, onClose, onAddPlant }: AddPlantModalProp
     },
   });
 
-  const onSubmit = async (values: AddPlantFormData) => {
+  const commonName = form.watch("commonName");
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchText(commonName), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [commonName]);
+
+  const { data: candidates = [], isFetching: isSearching, error: searchError } = useSpeciesSearch(searchText);
+
+  const resetAndClose = () => {
+    form.reset();
+    setSearchText("");
+    setSelected(null);
+    setIsManual(false);
+    setManualName("");
+    setCareValues(EMPTY_CARE_VALUES);
+    onClose();
+  };
+
+  // Without a picked species the server takes the best match, or adds the plant by name alone
+  // and fills in its details later when the plant database is unavailable. Hand-entered plants
+  // go to /api/plants/custom.
+  const addPlant = async (url: "/api/plants" | "/api/plants/custom", body: { commonName: string; perenualId?: number } | Record<string, unknown>) => {
     setIsSubmitting(true);
-    
+
     try {
-      // ok The backend expects an object like { commonName: "..." }
-      const newPlant = await apiRequest<Plant>("/api/plants", { method: "POST", data: values });
+      const newPlant = await apiRequest<Plant>(url, { method: "POST", data: body });
 
       toast({
         title: "Plant Added!",
-        description: `${newPlant.name || values.commonName || 'Your new plant'} has been successfully added.`,
+        description: newPlant.needsEnrichment
+          ? `${newPlant.name} has been added. Species details will be filled in once the plant database is available.`
+          : `${newPlant.name || 'Your new plant'} has been successfully added.`,
         variant: "default",
       });
       onAddPlant(newPlant); // Call prop with the newly created plant
       queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
-      form.reset();
-      onClose();
+      resetAndClose();
     } catch (error: any) {
       console.error("Failed to add plant:", error);
       toast({
@@ -67,6 +102,33 @@ export function AddPlantModal({ isOpen, onClose, onAddPlant }: AddPlantModalProp
     }
   };
 
+  const onSubmit = async (values: AddPlantFormData) => {
+    if (!selected) {
+      toast({
+        title: "Choose a species",
+        description: "Pick the exact species from the search results before adding the plant.",
+        variant: "destructive",
+      });
+      return;
+    }
+    // The backend creates the plant from the confirmed Perenual species
+    await addPlant("/api/plants", { commonName: selected.commonName || values.commonName, perenualId: selected.perenualId });
+  };
+
+  const startManualEntry = () => {
+    setManualName(form.getValues("commonName").trim());
+    setIsManual(true);
+  };
+
+  const onSubmitManual = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!manualName.trim()) {
+      toast({ title: "Validation Error", description: "Give your plant a name.", variant: "destructive" });
+      return;
+    }
+    await addPlant("/api/plants/custom", { name: manualName.trim(), ...careValuesToBody(careValues) });
+  };
+
   // Use FieldErrors<AddPlantFormData> for more specific error typing if needed
   const onInvalid = (errors: FieldErrors<AddPlantFormData>) => {
     console.error("Form validation errors:", errors); // Optional: for debugging
@@ -79,45 +141,152 @@ export function AddPlantModal({ isOpen, onClose, onAddPlant }: AddPlantModalProp
 
   if (!isOpen) return null;
 
+  const hasQuery = searchText.trim().length >= 2;
+
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={resetAndClose}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
           <DialogTitle className="text-xl font-bold font-poppins">Add New Plant</DialogTitle>
           <DialogDescription>
-            Enter the details of your plant to start tracking its care
+            {isManual
+              ? "Enter what you know about your plant's care; you can change it later"
+              : "Search for your plant and pick the exact species to start tracking its care"}
           </DialogDescription>
         </DialogHeader>
-        
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit, onInvalid)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="commonName"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Common Name*</FormLabel>
-                  <FormControl>
-                    <Input placeholder="e.g. Monstera, Snake Plant" {...field} />
-                  </FormControl>
-                  <FormDescription>
-                    Enter the common name of the plant you want to add.
-                  </FormDescription>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            
-            <div className="flex justify-end pt-4">
-              <Button type="button" variant="outline" onClick={onClose} className="mr-2">
-                Cancel
-              </Button>
-              <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? "Adding..." : "Add Plant"}
+
+        {isManual ? (
+          <form onSubmit={onSubmitManual} className="space-y-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="manual-name">Name*</Label>
+              <Input id="manual-name" placeholder="e.g. Grandma's fig cutting" value={manualName} onChange={event => setManualName(event.target.value)} />
+            </div>
+            <PlantCareFields values={careValues} onChange={setCareValues} />
+            <div className="flex items-center justify-between pt-4">
+              <Button type="button" variant="link" className="p-0" onClick={() => setIsManual(false)}>
+                Back to search
               </Button>
+              <div>
+                <Button type="button" variant="outline" onClick={resetAndClose} className="mr-2">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? "Adding..." : "Add Plant"}
+                </Button>
+              </div>
             </div>
           </form>
-        </Form>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit, onInvalid)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="commonName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Common Name*</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g. Monstera, Snake Plant"
+                        autoComplete="off"
+                        {...field}
+                        onChange={(event) => {
+                          field.onChange(event);
+                          setSelected(null);
+                        }}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Type at least two letters, then choose the matching species.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {hasQuery && (
+                <div className="max-h-72 overflow-y-auto rounded-md border border-gray-200 dark:border-slate-700">
+                  {isSearching && candidates.length === 0 ? (
+                    <div className="flex items-center justify-center p-4 text-sm text-gray-500">
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Searching...
+                    </div>
+                  ) : searchError ? (
+                    <p className="p-4 text-sm text-red-600 dark:text-red-400">Species search failed. Please try again.</p>
+                  ) : candidates.length === 0 ? (
+                    <div className="p-4 text-sm text-gray-500">
+                      <p>No species found for "{searchText.trim()}".</p>
+                      <Button
+                        type="button"
+                        variant="link"
+                        className="h-auto p-0 mt-1"
+                        disabled={isSubmitting}
+                        onClick={() => addPlant("/api/plants", { commonName: searchText.trim() })}
+                      >
+                        Add "{searchText.trim()}" anyway
+                      </Button>
+                    </div>
+                  ) : (
+                    <ul role="listbox" aria-label="Matching species">
+                      {candidates.map(candidate => {
+                        const isSelected = selected?.perenualId === candidate.perenualId;
+                        return (
+                          <li key={candidate.perenualId}>
+                            <button
+                              type="button"
+                              role="option"
+                              aria-selected={isSelected}
+                              onClick={() => setSelected(candidate)}
+                              className={`flex w-full items-center gap-3 p-2 text-left transition-colors ${
+                                isSelected ? 'bg-green-50 dark:bg-green-900/30' : 'hover:bg-gray-50 dark:hover:bg-slate-700/50'
+                              }`}
+                            >
+                              {candidate.imageUrl ? (
+                                <img src={candidate.imageUrl} alt="" className="h-10 w-10 rounded object-cover shrink-0" />
+                              ) : (
+                                <div className="flex h-10 w-10 items-center justify-center rounded bg-green-100 dark:bg-slate-700 shrink-0">
+                                  <Leaf className="h-5 w-5 text-green-600" />
+                                </div>
+                              )}
+                              <div className="min-w-0 flex-1">
+                                <p className="truncate text-sm font-medium text-gray-800 dark:text-gray-100">{candidateLabel(candidate)}</p>
+                                {candidate.scientificName.length > 0 && (
+                                  <p className="truncate text-xs italic text-gray-500 dark:text-gray-400">{candidate.scientificName.join(', ')}</p>
+                                )}
+                              </div>
+                              {candidate.cycle && <Badge variant="secondary" className="shrink-0">{candidate.cycle}</Badge>}
+                              {isSelected && <Check className="h-4 w-4 text-green-600 shrink-0" />}
+                            </button>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {selected && (
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  Adding <span className="font-semibold">{candidateLabel(selected)}</span>
+                  {selected.scientificName[0] && <span className="italic"> ({selected.scientificName[0]})</span>}
+                </p>
+              )}
+
+              <div className="flex items-center justify-between pt-4">
+                <Button type="button" variant="link" className="p-0" onClick={startManualEntry}>
+                  Not listed? Enter details manually
+                </Button>
+                <div>
+                  <Button type="button" variant="outline" onClick={resetAndClose} className="mr-2">
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isSubmitting || !selected}>
+                    {isSubmitting ? "Adding..." : "Add Plant"}
+                  </Button>
+                </div>
+              </div>
+            </form>
+          </Form>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,145 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { OverridablePlantField, Plant } from "@shared/schema";
+import { apiRequest } from "@/lib/apiRequest";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { useLocations } from "@/hooks/useLocations";
+import { PlantCareFields, careValuesFromPlant, careValuesToBody, type PlantCareValues } from "@/components/plants/PlantCareFields";
+
+interface EditPlantModalProps {
+  plant: Plant;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Select value for a plant without a location
+const NO_LOCATION = "none";
+const locationValue = (plant: Plant) => plant.locationId ? String(plant.locationId) : NO_LOCATION;
+
+export function EditPlantModal({ plant, isOpen, onClose }: EditPlantModalProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState(plant.name);
+  const [notes, setNotes] = useState(plant.notes ?? "");
+  const [careValues, setCareValues] = useState<PlantCareValues>(() => careValuesFromPlant(plant));
+  const [locationId, setLocationId] = useState(() => locationValue(plant));
+  const { locations } = useLocations({ enabled: isOpen });
+
+  // Start from the latest saved plant each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(plant.name);
+    setNotes(plant.notes ?? "");
+    setCareValues(careValuesFromPlant(plant));
+    setLocationId(locationValue(plant));
+  }, [isOpen, plant]);
+
+  const savePlant = async (body: Record<string, unknown>) => {
+    setIsSaving(true);
+    try {
+      const updated = await apiRequest<Plant>(`/api/plants/${plant.id}`, { method: "PUT", data: body });
+      queryClient.setQueryData(['/api/plants', plant.id], updated);
+      queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      return updated;
+    } catch (error: any) {
+      console.error("Failed to update plant:", error);
+      toast({ title: "Error saving plant", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) {
+      toast({ title: "Validation Error", description: "Plant name is required.", variant: "destructive" });
+      return;
+    }
+    const body: Record<string, unknown> = careValuesToBody(careValues, careValuesFromPlant(plant));
+    if (name.trim() !== plant.name) body.name = name.trim();
+    if (notes !== (plant.notes ?? "")) body.notes = notes || null;
+    if (locationId !== locationValue(plant)) body.locationId = locationId === NO_LOCATION ? null : parseInt(locationId, 10);
+    if (Object.keys(body).length === 0) {
+      onClose();
+      return;
+    }
+    if (await savePlant(body)) {
+      toast({ title: "Plant updated", description: `${name.trim()} has been saved.` });
+      onClose();
+    }
+  };
+
+  // Hand one field back to the species data; the form picks up the restored value from the saved plant
+  const resetField = async (field: OverridablePlantField) => {
+    if (await savePlant({ clearOverrides: [field] })) {
+      toast({ title: "Restored species value", description: `${field.replace(/_/g, ' ')} now follows the species data again.` });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold font-poppins">Edit Plant</DialogTitle>
+          <DialogDescription>
+            {plant.perenual_id
+              ? "Changes here take priority over the species data and are kept when it's refreshed."
+              : "Update your plant's care details."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={onSubmit} className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="edit-name">Name*</Label>
+            <Input id="edit-name" value={name} onChange={event => setName(event.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Location</Label>
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_LOCATION}>No location</SelectItem>
+                {locations.map(location => (
+                  <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <PlantCareFields
+            values={careValues}
+            onChange={setCareValues}
+            overrides={plant.perenual_id ? plant.userOverrides ?? [] : []}
+            onReset={resetField}
+          />
+          <div className="space-y-1.5">
+            <Label htmlFor="edit-notes">Notes</Label>
+            <textarea
+              id="edit-notes"
+              rows={3}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={notes}
+              onChange={event => setNotes(event.target.value)}
+            />
+          </div>
+          <div className="flex justify-end pt-4">
+            <Button type="button" variant="outline" onClick={onClose} className="mr-2">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Changes"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default EditPlantModal;
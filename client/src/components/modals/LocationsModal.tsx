@@ -0,0 +1,179 @@
+import { useState, type FormEvent } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Home, Trash2, Trees } from "lucide-react";
+import { LIGHT_EXPOSURES, LOCATION_KINDS, type LightExposure, type LocationKind, type PlantLocation } from "@shared/schema";
+import { useLocations } from "@/hooks/useLocations";
+import { useToast } from "@/hooks/use-toast";
+
+export const LOCATION_KIND_LABELS: Record<LocationKind, string> = {
+  room: "Room",
+  balcony: "Balcony",
+  garden_bed: "Garden bed",
+  greenhouse: "Greenhouse",
+  other: "Other",
+};
+
+export const LIGHT_EXPOSURE_LABELS: Record<LightExposure, string> = {
+  low: "Low light",
+  medium: "Medium light",
+  bright_indirect: "Bright indirect",
+  full_sun: "Full sun",
+};
+
+// Select items can't have an empty value, so "not set" gets its own
+const NO_EXPOSURE = "none";
+
+// Balconies and garden beds are outdoors unless the user says otherwise
+const defaultIndoor = (kind: LocationKind) => kind === "room" || kind === "greenhouse" || kind === "other";
+
+interface LocationsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function LocationsModal({ isOpen, onClose }: LocationsModalProps) {
+  const { toast } = useToast();
+  const { locations, createLocation, deleteLocation } = useLocations({ enabled: isOpen });
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<LocationKind>("room");
+  const [lightExposure, setLightExposure] = useState<string>(NO_EXPOSURE);
+  const [isIndoor, setIsIndoor] = useState(true);
+
+  const resetForm = () => {
+    setName("");
+    setKind("room");
+    setLightExposure(NO_EXPOSURE);
+    setIsIndoor(true);
+  };
+
+  const onSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) {
+      toast({ title: "Validation Error", description: "Give the location a name.", variant: "destructive" });
+      return;
+    }
+    if (locations.some(location => location.name.toLowerCase() === trimmed.toLowerCase())) {
+      toast({ title: "Location exists", description: `You already have a location called ${trimmed}.`, variant: "destructive" });
+      return;
+    }
+    try {
+      await createLocation.mutateAsync({
+        name: trimmed,
+        kind,
+        lightExposure: lightExposure === NO_EXPOSURE ? null : lightExposure as LightExposure,
+        isIndoor,
+      });
+      resetForm();
+    } catch (error: any) {
+      toast({ title: "Error adding location", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    }
+  };
+
+  const onDelete = async (location: PlantLocation) => {
+    try {
+      await deleteLocation.mutateAsync(location.id);
+      toast({ title: "Location removed", description: `Plants in ${location.name} are now unassigned.` });
+    } catch (error: any) {
+      toast({ title: "Error removing location", description: error.message || "An unexpected error occurred.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold font-poppins">Locations</DialogTitle>
+          <DialogDescription>
+            Group plants by where they grow. Readings taken in a location are used for the plants kept there.
+          </DialogDescription>
+        </DialogHeader>
+
+        {locations.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No locations yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-slate-700 rounded-md border border-gray-200 dark:border-slate-700">
+            {locations.map(location => (
+              <li key={location.id} className="flex items-center gap-3 p-2">
+                {location.isIndoor ? <Home className="h-4 w-4 text-green-600 shrink-0" /> : <Trees className="h-4 w-4 text-green-600 shrink-0" />}
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium text-gray-800 dark:text-gray-100">{location.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {LOCATION_KIND_LABELS[location.kind as LocationKind] ?? location.kind}
+                    {location.lightExposure && ` · ${LIGHT_EXPOSURE_LABELS[location.lightExposure as LightExposure] ?? location.lightExposure}`}
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove ${location.name}`}
+                  disabled={deleteLocation.isPending}
+                  onClick={() => onDelete(location)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={onSubmit} className="space-y-4 pt-2">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="location-name">Name*</Label>
+              <Input id="location-name" placeholder="e.g. Kitchen window" maxLength={60} value={name} onChange={event => setName(event.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Kind</Label>
+              <Select
+                value={kind}
+                onValueChange={value => {
+                  setKind(value as LocationKind);
+                  setIsIndoor(defaultIndoor(value as LocationKind));
+                }}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {LOCATION_KINDS.map(option => (
+                    <SelectItem key={option} value={option}>{LOCATION_KIND_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Light exposure</Label>
+              <Select value={lightExposure} onValueChange={setLightExposure}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_EXPOSURE}>Not set</SelectItem>
+                  {LIGHT_EXPOSURES.map(option => (
+                    <SelectItem key={option} value={option}>{LIGHT_EXPOSURE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <label className="flex items-center gap-2 text-sm sm:pt-7">
+              <input type="checkbox" className="h-4 w-4 accent-green-600" checked={isIndoor} onChange={event => setIsIndoor(event.target.checked)} />
+              Indoors
+            </label>
+          </div>
+          <div className="flex justify-end pt-2">
+            <Button type="button" variant="outline" onClick={onClose} className="mr-2">
+              Done
+            </Button>
+            <Button type="submit" disabled={createLocation.isPending}>
+              {createLocation.isPending ? "Adding..." : "Add Location"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default LocationsModal;
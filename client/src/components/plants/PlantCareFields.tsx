@@ -0,0 +1,144 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { OverridablePlantField, Plant } from '@shared/schema';
+
+// The care parameters a user can enter or correct by hand
+export interface PlantCareValues {
+  species: string;
+  waterFrequencyDays: string; // kept as typed; converted on submit
+  sunlight: string[];
+  soil: string; // comma-separated
+  indoor: boolean;
+  poisonous_to_pets: boolean;
+  poisonous_to_humans: boolean;
+}
+
+export const EMPTY_CARE_VALUES: PlantCareValues = {
+  species: '',
+  waterFrequencyDays: '',
+  sunlight: [],
+  soil: '',
+  indoor: false,
+  poisonous_to_pets: false,
+  poisonous_to_humans: false,
+};
+
+// Perenual's sunlight vocabulary, so custom plants read like looked-up ones
+const SUNLIGHT_OPTIONS = ['full sun', 'part sun/part shade', 'part shade', 'full shade'];
+
+const toggleClass = (active: boolean) =>
+  `px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${
+    active ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-slate-700 dark:text-gray-300'
+  }`;
+
+export function careValuesFromPlant(plant: Plant): PlantCareValues {
+  return {
+    species: plant.species ?? '',
+    waterFrequencyDays: plant.waterFrequencyDays ? String(plant.waterFrequencyDays) : '',
+    sunlight: plant.sunlight ?? [],
+    soil: (plant.soil ?? []).join(', '),
+    indoor: !!plant.indoor,
+    poisonous_to_pets: !!plant.poisonous_to_pets,
+    poisonous_to_humans: !!plant.poisonous_to_humans,
+  };
+}
+
+/**
+ * Request body fields for the values, in the shape insertPlantSchema expects. Pass `initial` to get
+ * only the fields that changed.
+ */
+export function careValuesToBody(values: PlantCareValues, initial?: PlantCareValues): Record<string, unknown> {
+  const days = parseInt(values.waterFrequencyDays, 10);
+  const body: Record<string, unknown> = {
+    species: values.species.trim() || null,
+    waterFrequencyDays: Number.isInteger(days) && days > 0 ? days : null,
+    sunlight: values.sunlight,
+    soil: values.soil.split(',').map(part => part.trim()).filter(Boolean),
+    indoor: values.indoor,
+    poisonous_to_pets: values.poisonous_to_pets,
+    poisonous_to_humans: values.poisonous_to_humans,
+  };
+  if (!initial) return body;
+  const before = careValuesToBody(initial);
+  return Object.fromEntries(Object.entries(body).filter(([field, value]) => JSON.stringify(value) !== JSON.stringify(before[field])));
+}
+
+interface PlantCareFieldsProps {
+  values: PlantCareValues;
+  onChange: (values: PlantCareValues) => void;
+  // Fields the owner has overridden; shown with a reset link when onReset is given
+  overrides?: string[];
+  onReset?: (field: OverridablePlantField) => void;
+}
+
+export const PlantCareFields: React.FC<PlantCareFieldsProps> = ({ values, onChange, overrides = [], onReset }) => {
+  const set = <K extends keyof PlantCareValues>(field: K, value: PlantCareValues[K]) => onChange({ ...values, [field]: value });
+
+  const resetLink = (field: OverridablePlantField) =>
+    onReset && overrides.includes(field) ? (
+      <button type="button" className="ml-2 text-xs font-normal text-green-700 hover:underline dark:text-green-400" onClick={() => onReset(field)}>
+        Use species value
+      </button>
+    ) : null;
+
+  const flag = (field: 'indoor' | 'poisonous_to_pets' | 'poisonous_to_humans', label: string) => (
+    <label className="flex items-center gap-2 text-sm">
+      <input type="checkbox" className="h-4 w-4 accent-green-600" checked={values[field]} onChange={event => set(field, event.target.checked)} />
+      {label}
+      {resetLink(field)}
+    </label>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-1.5">
+          <Label htmlFor="care-species">Species or cultivar{resetLink('species')}</Label>
+          <Input id="care-species" placeholder="e.g. Monstera deliciosa 'Thai'" value={values.species} onChange={event => set('species', event.target.value)} />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="care-water">Water every (days)</Label>
+          <Input
+            id="care-water"
+            type="number"
+            min={1}
+            placeholder="e.g. 7"
+            value={values.waterFrequencyDays}
+            onChange={event => set('waterFrequencyDays', event.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label>Sunlight{resetLink('sunlight')}</Label>
+        <div className="flex flex-wrap gap-1">
+          {SUNLIGHT_OPTIONS.map(option => {
+            const active = values.sunlight.includes(option);
+            return (
+              <button
+                key={option}
+                type="button"
+                className={toggleClass(active)}
+                onClick={() => set('sunlight', active ? values.sunlight.filter(value => value !== option) : [...values.sunlight, option])}
+              >
+                {option}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="care-soil">Soil{resetLink('soil')}</Label>
+        <Input id="care-soil" placeholder="e.g. Well-drained, Loamy" value={values.soil} onChange={event => set('soil', event.target.value)} />
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        {flag('indoor', 'Indoor plant')}
+        {flag('poisonous_to_pets', 'Toxic to pets')}
+        {flag('poisonous_to_humans', 'Toxic to people')}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,244 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, MessageSquarePlus, Send, Trash2 } from 'lucide-react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/apiRequest';
+import { queryClient } from '@/lib/queryClient';
+
+interface ChatMessage {
+  id: number | string; // string ids are local placeholders until the server confirms the message
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface ConversationSummary {
+  id: number;
+  title: string;
+  updatedAt: string;
+}
+
+interface ConversationDetail extends ConversationSummary {
+  messages: ChatMessage[];
+}
+
+interface PlantChatPanelProps {
+  plantId: number;
+  plantName: string;
+}
+
+// Split a server-sent event stream into { event, data } pairs; returns the unparsed remainder
+function parseEvents(buffer: string): { events: { event: string; data: any }[]; rest: string } {
+  const blocks = buffer.split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events = blocks.map(block => {
+    let event = 'message';
+    let data = '';
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data += line.slice(5).trim();
+    }
+    return { event, data: data ? JSON.parse(data) : null };
+  });
+  return { events, rest };
+}
+
+export const PlantChatPanel: React.FC<PlantChatPanelProps> = ({ plantId, plantName }) => {
+  const { toast } = useToast();
+  const [conversationId, setConversationId] = useState<number | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const conversationsKey = [`/api/plants/${plantId}/conversations`];
+
+  const { data: conversations = [] } = useQuery<ConversationSummary[]>({
+    queryKey: conversationsKey,
+    queryFn: () => apiRequest<ConversationSummary[]>(`/api/plants/${plantId}/conversations`),
+  });
+
+  const openConversation = useMutation({
+    mutationFn: (id: number) => apiRequest<ConversationDetail>(`/api/plants/${plantId}/conversations/${id}`),
+    onSuccess: conversation => {
+      setConversationId(conversation.id);
+      setMessages(conversation.messages);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not open conversation', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteConversation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/plants/${plantId}/conversations/${id}`, { method: 'DELETE' }),
+    onSuccess: (_data, id) => {
+      if (id === conversationId) startNewConversation();
+      queryClient.invalidateQueries({ queryKey: conversationsKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete conversation', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [messages]);
+
+  function startNewConversation() {
+    setConversationId(null);
+    setMessages([]);
+  }
+
+  const appendToReply = (text: string) => {
+    setMessages(current => {
+      const last = current[current.length - 1];
+      return [...current.slice(0, -1), { ...last, content: last.content + text }];
+    });
+  };
+
+  const confirmMessage = (placeholderId: string, id: number) => {
+    setMessages(current => current.map(item => item.id === placeholderId ? { ...item, id } : item));
+  };
+
+  async function sendMessage(event: React.FormEvent) {
+    event.preventDefault();
+    const message = draft.trim();
+    if (!message || isStreaming) return;
+
+    setDraft('');
+    setIsStreaming(true);
+    setMessages(current => [
+      ...current,
+      { id: 'pending-user', role: 'user', content: message },
+      { id: 'pending-reply', role: 'assistant', content: '' },
+    ]);
+
+    try {
+      // The reply streams back as server-sent events, which the JSON apiRequest helper can't read
+      const response = await fetch(`/api/plants/${plantId}/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, ...(conversationId ? { conversationId } : {}) }),
+      });
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(typeof body.error === 'string' ? body.error : `Request failed with status ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const parsed = parseEvents(buffer + decoder.decode(value, { stream: true }));
+        buffer = parsed.rest;
+        for (const { event: name, data } of parsed.events) {
+          if (name === 'conversation') {
+            setConversationId(data.conversationId);
+            confirmMessage('pending-user', data.userMessageId);
+          } else if (name === 'token') {
+            appendToReply(data.text);
+          } else if (name === 'done') {
+            confirmMessage('pending-reply', data.messageId);
+          } else if (name === 'error') {
+            throw new Error(data.error);
+          }
+        }
+      }
+    } catch (error) {
+      // Drop the empty placeholder if nothing arrived; a partial reply is kept as the server keeps it.
+      // Placeholders that never got a server id are renumbered so the next message can reuse the names.
+      setMessages(current => current
+        .filter(item => item.id !== 'pending-reply' || item.content)
+        .map(item => typeof item.id === 'string' ? { ...item, id: `local-${Date.now()}-${item.id}` } : item));
+      toast({ title: 'The assistant could not answer', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsStreaming(false);
+      queryClient.invalidateQueries({ queryKey: conversationsKey });
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-6">
+      <aside className="space-y-2">
+        <Button variant="outline" size="sm" className="w-full justify-start" onClick={startNewConversation} disabled={isStreaming}>
+          <MessageSquarePlus className="mr-2 h-4 w-4" />
+          New conversation
+        </Button>
+        {conversations.length === 0 ? (
+          <p className="text-xs text-muted-foreground dark:text-gray-400 px-1">No saved conversations yet.</p>
+        ) : (
+          <ul className="space-y-1 max-h-80 overflow-y-auto">
+            {conversations.map(conversation => (
+              <li key={conversation.id} className="group flex items-center gap-1">
+                <button
+                  className={`flex-1 text-left rounded-md px-2 py-1.5 text-sm transition-colors ${
+                    conversation.id === conversationId ? 'bg-primary/10 text-primary font-medium' : 'hover:bg-muted/50 dark:hover:bg-gray-700/50'
+                  }`}
+                  onClick={() => openConversation.mutate(conversation.id)}
+                  disabled={isStreaming}
+                >
+                  <span className="block truncate">{conversation.title}</span>
+                  <span className="block text-xs text-muted-foreground dark:text-gray-400">{format(new Date(conversation.updatedAt), 'MMM d, HH:mm')}</span>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+                  disabled={deleteConversation.isPending || isStreaming}
+                  onClick={() => deleteConversation.mutate(conversation.id)}
+                  aria-label="Delete conversation"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </aside>
+
+      <div className="flex flex-col min-h-[24rem]">
+        <div ref={scrollRef} className="flex-1 space-y-3 overflow-y-auto max-h-[28rem] pr-1 mb-4">
+          {openConversation.isPending ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 text-primary animate-spin" />
+            </div>
+          ) : messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground dark:text-gray-400 py-8 text-center">
+              Ask anything about your {plantName}: watering, light, yellow leaves, repotting...
+            </p>
+          ) : (
+            messages.map(message => (
+              <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  className={`max-w-[85%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap ${
+                    message.role === 'user'
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-muted dark:bg-gray-700/60 text-foreground dark:text-gray-100'
+                  }`}
+                >
+                  {message.content || <Loader2 className="h-4 w-4 animate-spin" />}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <form onSubmit={sendMessage} className="flex gap-2">
+          <Input
+            placeholder={`Ask about your ${plantName}...`}
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            maxLength={2000}
+            disabled={isStreaming}
+          />
+          <Button type="submit" disabled={isStreaming || !draft.trim()} className="bg-accent hover:bg-accent-hover text-accent-foreground">
+            {isStreaming ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,244 @@
+import React, { useMemo, useState } from 'react';
+import { Loader2, Plus, Ruler, Trash2 } from 'lucide-react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/apiRequest';
+import { queryClient } from '@/lib/queryClient';
+import type { CustomMetric, PlantMeasurement } from '@shared/schema';
+
+type GrowthStatus = 'insufficient_data' | 'stalled' | 'slow' | 'on_track' | 'fast';
+
+interface GrowthAnalysis {
+  status: GrowthStatus;
+  heightCmPerMonth: number | null;
+  expectedHeightCmPerMonth: number | null;
+  message: string;
+}
+
+interface PlantGrowthChartProps {
+  plantId: number;
+}
+
+const STANDARD_METRICS = [
+  { key: 'heightCm', label: 'Height', unit: 'cm' },
+  { key: 'leafCount', label: 'Leaves', unit: '' },
+  { key: 'stemDiameterMm', label: 'Stem', unit: 'mm' },
+  { key: 'flowerCount', label: 'Flowers', unit: '' },
+] as const;
+
+const STATUS_STYLES: Record<GrowthStatus, { label: string; className: string }> = {
+  insufficient_data: { label: 'Not enough data', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200' },
+  stalled: { label: 'Stalled', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200' },
+  slow: { label: 'Slow', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200' },
+  on_track: { label: 'On track', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200' },
+  fast: { label: 'Fast', className: 'bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-200' },
+};
+
+const emptyForm = { heightCm: '', leafCount: '', stemDiameterMm: '', flowerCount: '', customName: '', customValue: '', customUnit: '' };
+
+// Blank inputs are left out of the request rather than sent as zero
+function toNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+// A chartable value for either a standard column or a custom metric name
+function metricValue(measurement: PlantMeasurement, key: string): number | null {
+  const standard = STANDARD_METRICS.find(metric => metric.key === key);
+  if (standard) return measurement[standard.key] ?? null;
+  const custom = (measurement.customMetrics ?? []).find(metric => metric.name === key);
+  return custom ? custom.value : null;
+}
+
+export const PlantGrowthChart: React.FC<PlantGrowthChartProps> = ({ plantId }) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+  const [selectedMetric, setSelectedMetric] = useState<string>('heightCm');
+  const measurementsKey = [`/api/plants/${plantId}/measurements`];
+  const growthKey = [`/api/plants/${plantId}/measurements/growth`];
+
+  const { data: measurements = [], isLoading } = useQuery<PlantMeasurement[]>({
+    queryKey: measurementsKey,
+    queryFn: () => apiRequest<PlantMeasurement[]>(`/api/plants/${plantId}/measurements`),
+  });
+
+  const { data: growth } = useQuery<GrowthAnalysis>({
+    queryKey: growthKey,
+    queryFn: () => apiRequest<GrowthAnalysis>(`/api/plants/${plantId}/measurements/growth`),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: measurementsKey });
+    queryClient.invalidateQueries({ queryKey: growthKey });
+  };
+
+  const addMeasurement = useMutation({
+    mutationFn: () => {
+      const customMetrics: CustomMetric[] = form.customName.trim() && form.customValue.trim()
+        ? [{ name: form.customName.trim(), value: Number(form.customValue), unit: form.customUnit.trim() || null }]
+        : [];
+      return apiRequest(`/api/plants/${plantId}/measurements`, {
+        method: 'POST',
+        data: {
+          heightCm: toNumber(form.heightCm),
+          leafCount: toNumber(form.leafCount),
+          stemDiameterMm: toNumber(form.stemDiameterMm),
+          flowerCount: toNumber(form.flowerCount),
+          customMetrics,
+        },
+      });
+    },
+    onSuccess: () => {
+      setForm(emptyForm);
+      invalidate();
+      toast({ title: 'Measurement saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save measurement', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMeasurement = useMutation({
+    mutationFn: (measurementId: number) =>
+      apiRequest(`/api/plants/${plantId}/measurements/${measurementId}`, { method: 'DELETE' }),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete measurement', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // Every metric that has been recorded at least once, standard ones first
+  const availableMetrics = useMemo(() => {
+    const options: { key: string; label: string; unit: string }[] = STANDARD_METRICS
+      .filter(metric => measurements.some(m => m[metric.key] != null))
+      .map(metric => ({ ...metric }));
+    for (const measurement of measurements) {
+      for (const custom of measurement.customMetrics ?? []) {
+        if (!options.some(option => option.key === custom.name)) {
+          options.push({ key: custom.name, label: custom.name, unit: custom.unit ?? '' });
+        }
+      }
+    }
+    return options;
+  }, [measurements]);
+
+  const activeMetric = availableMetrics.find(metric => metric.key === selectedMetric) ?? availableMetrics[0];
+
+  const chartData = useMemo(() => {
+    if (!activeMetric) return [];
+    return measurements
+      .map(m => ({ date: format(new Date(m.measuredAt), 'MMM d'), value: metricValue(m, activeMetric.key) }))
+      .filter(point => point.value != null);
+  }, [measurements, activeMetric]);
+
+  const chartConfig: ChartConfig = {
+    value: {
+      label: activeMetric ? `${activeMetric.label}${activeMetric.unit ? ` (${activeMetric.unit})` : ''}` : 'Value',
+      color: 'hsl(var(--primary))',
+    },
+  };
+
+  const update = (key: keyof typeof emptyForm, value: string) => setForm(current => ({ ...current, [key]: value }));
+
+  return (
+    <div className="space-y-6">
+      {growth && (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 p-4 bg-background/50 dark:bg-gray-700/30 rounded-lg">
+          <Badge className={STATUS_STYLES[growth.status].className}>{STATUS_STYLES[growth.status].label}</Badge>
+          <p className="text-sm text-muted-foreground dark:text-gray-300">{growth.message}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-8">
+          <Loader2 className="h-8 w-8 text-primary animate-spin" />
+        </div>
+      ) : availableMetrics.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground dark:text-gray-400">
+          <Ruler className="mx-auto h-10 w-10 mb-3 opacity-50" />
+          <p>No measurements yet. Record height or leaf count below to start the growth chart.</p>
+        </div>
+      ) : (
+        <div>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {availableMetrics.map(metric => (
+              <Button
+                key={metric.key}
+                size="sm"
+                variant={metric.key === activeMetric?.key ? 'default' : 'outline'}
+                onClick={() => setSelectedMetric(metric.key)}
+              >
+                {metric.label}
+              </Button>
+            ))}
+          </div>
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <LineChart data={chartData} margin={{ left: 0, right: 12, top: 8, bottom: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+              <YAxis tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line type="monotone" dataKey="value" stroke="var(--color-value)" strokeWidth={2} dot />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-sm font-semibold text-foreground dark:text-gray-100 mb-2">Record a measurement</h4>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <Input type="number" min="0" step="0.1" placeholder="Height (cm)" value={form.heightCm} onChange={e => update('heightCm', e.target.value)} />
+          <Input type="number" min="0" step="1" placeholder="Leaf count" value={form.leafCount} onChange={e => update('leafCount', e.target.value)} />
+          <Input type="number" min="0" step="0.1" placeholder="Stem diameter (mm)" value={form.stemDiameterMm} onChange={e => update('stemDiameterMm', e.target.value)} />
+          <Input type="number" min="0" step="1" placeholder="Flower count" value={form.flowerCount} onChange={e => update('flowerCount', e.target.value)} />
+          <Input placeholder="Custom metric (e.g. Spread)" value={form.customName} onChange={e => update('customName', e.target.value)} />
+          <Input type="number" step="0.1" placeholder="Value" value={form.customValue} onChange={e => update('customValue', e.target.value)} />
+          <Input placeholder="Unit" value={form.customUnit} onChange={e => update('customUnit', e.target.value)} />
+          <Button
+            onClick={() => addMeasurement.mutate()}
+            disabled={addMeasurement.isPending}
+            className="bg-accent hover:bg-accent-hover text-accent-foreground"
+          >
+            {addMeasurement.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {measurements.length > 0 && (
+        <ul className="divide-y divide-border text-sm">
+          {[...measurements].reverse().map(measurement => (
+            <li key={measurement.id} className="flex items-center justify-between py-2 gap-4">
+              <span className="text-muted-foreground dark:text-gray-400 w-28 shrink-0">
+                {format(new Date(measurement.measuredAt), 'MMM d, yyyy')}
+              </span>
+              <span className="flex-1 text-foreground dark:text-gray-200">
+                {[
+                  ...STANDARD_METRICS
+                    .filter(metric => measurement[metric.key] != null)
+                    .map(metric => `${metric.label} ${measurement[metric.key]}${metric.unit ? ` ${metric.unit}` : ''}`),
+                  ...(measurement.customMetrics ?? []).map(custom => `${custom.name} ${custom.value}${custom.unit ? ` ${custom.unit}` : ''}`),
+                ].join(' · ')}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={deleteMeasurement.isPending}
+                onClick={() => deleteMeasurement.mutate(measurement.id)}
+                aria-label="Delete measurement"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useRef, useState } from 'react';
+import { Camera, Loader2, Trash2, Upload } from 'lucide-react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/apiRequest';
+import { queryClient } from '@/lib/queryClient';
+
+interface PlantPhotoEntry {
+  id: number;
+  plantId: number;
+  caption: string | null;
+  takenAt: string;
+  width: number | null;
+  height: number | null;
+  imageUrl: string;
+  thumbnailUrl: string;
+}
+
+interface PlantPhotoTimelineProps {
+  plantId: number;
+}
+
+// Group photos (already newest first) under one heading per day
+function groupByDay(photos: PlantPhotoEntry[]): { day: string; photos: PlantPhotoEntry[] }[] {
+  const groups: { day: string; photos: PlantPhotoEntry[] }[] = [];
+  for (const photo of photos) {
+    const day = format(new Date(photo.takenAt), 'MMMM d, yyyy');
+    const last = groups[groups.length - 1];
+    if (last && last.day === day) {
+      last.photos.push(photo);
+    } else {
+      groups.push({ day, photos: [photo] });
+    }
+  }
+  return groups;
+}
+
+export const PlantPhotoTimeline: React.FC<PlantPhotoTimelineProps> = ({ plantId }) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [caption, setCaption] = useState('');
+  const queryKey = [`/api/plants/${plantId}/photos`];
+
+  const { data: photos = [], isLoading } = useQuery<PlantPhotoEntry[]>({
+    queryKey,
+    queryFn: () => apiRequest<PlantPhotoEntry[]>(`/api/plants/${plantId}/photos`),
+  });
+
+  const uploadPhoto = useMutation({
+    mutationFn: async (file: File) => {
+      // Multipart upload, so this can't go through the JSON apiRequest helper
+      const formData = new FormData();
+      formData.append('photo', file);
+      if (caption.trim()) formData.append('caption', caption.trim());
+      const response = await fetch(`/api/plants/${plantId}/photos`, { method: 'POST', body: formData });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || `Upload failed with status ${response.status}`);
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      setCaption('');
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: 'Photo added' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not upload photo', description: error.message, variant: 'destructive' });
+    },
+    onSettled: () => {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    },
+  });
+
+  const deletePhoto = useMutation({
+    mutationFn: (photoId: number) => apiRequest(`/api/photos/${photoId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete photo', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) uploadPhoto.mutate(file);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <Input
+          placeholder="Caption (optional)"
+          value={caption}
+          onChange={e => setCaption(e.target.value)}
+          className="sm:max-w-xs"
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploadPhoto.isPending}
+          size="sm"
+          className="bg-accent hover:bg-accent-hover text-accent-foreground min-w-[150px]"
+        >
+          {uploadPhoto.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+          {uploadPhoto.isPending ? 'Uploading...' : 'Add Photo'}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-8">
+          <Loader2 className="h-8 w-8 text-primary animate-spin" />
+        </div>
+      ) : photos.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground dark:text-gray-400">
+          <Camera className="mx-auto h-10 w-10 mb-3 opacity-50" />
+          <p>No photos yet. Add one to start tracking how your plant grows.</p>
+        </div>
+      ) : (
+        <ol className="space-y-6 border-l-2 border-primary/30 pl-6">
+          {groupByDay(photos).map(group => (
+            <li key={group.day}>
+              <p className="text-sm font-semibold text-foreground dark:text-gray-100 mb-3">{group.day}</p>
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+                {group.photos.map(photo => (
+                  <figure key={photo.id} className="relative group">
+                    <a href={photo.imageUrl} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={photo.thumbnailUrl}
+                        alt={photo.caption ?? 'Plant photo'}
+                        loading="lazy"
+                        className="w-full aspect-square object-cover rounded-md shadow-sm"
+                      />
+                    </a>
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      className="absolute top-1 right-1 h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+                      disabled={deletePhoto.isPending}
+                      onClick={() => deletePhoto.mutate(photo.id)}
+                      aria-label="Delete photo"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                    {photo.caption && (
+                      <figcaption className="mt-1 text-xs text-muted-foreground dark:text-gray-400 truncate">{photo.caption}</figcaption>
+                    )}
+                  </figure>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useEffect, useState, type FormEvent } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useEnvironmentAlerts, usePlantThresholds } from '@/hooks/useEnvironmentAlerts';
+import { formatEnvironmentValue } from '@/lib/utils';
+import { ENVIRONMENT_ALERT_LABELS, type EnvironmentMetric, type UpdatePlantEnvironmentThresholds } from '@shared/schema';
+
+type ThresholdColumn = keyof UpdatePlantEnvironmentThresholds;
+
+interface PlantThresholdsPanelProps {
+  plantId: number;
+  useFahrenheit: boolean;
+}
+
+const METRIC_ROWS: { metric: EnvironmentMetric; label: string; min: ThresholdColumn; max: ThresholdColumn }[] = [
+  { metric: 'temperature', label: 'Temperature', min: 'minTemperature', max: 'maxTemperature' },
+  { metric: 'humidity', label: 'Humidity (%)', min: 'minHumidity', max: 'maxHumidity' },
+  { metric: 'soilMoisture', label: 'Soil moisture (%)', min: 'minSoilMoisture', max: 'maxSoilMoisture' },
+  { metric: 'light', label: 'Light (lux)', min: 'minLux', max: 'maxLux' },
+];
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// Inputs show °F for imperial users and soil moisture as a percentage; the API takes °C and m³/m³
+function toDisplay(metric: EnvironmentMetric, value: number, useFahrenheit: boolean): number {
+  if (metric === 'temperature' && useFahrenheit) return round(value * 9 / 5 + 32, 1);
+  if (metric === 'soilMoisture') return round(value * 100, 1);
+  return value;
+}
+
+function toStored(metric: EnvironmentMetric, value: number, useFahrenheit: boolean): number {
+  if (metric === 'temperature' && useFahrenheit) return round((value - 32) * 5 / 9, 1);
+  if (metric === 'soilMoisture') return round(value / 100, 3);
+  return value;
+}
+
+export const PlantThresholdsPanel: React.FC<PlantThresholdsPanelProps> = ({ plantId, useFahrenheit }) => {
+  const { toast } = useToast();
+  const { plantThresholds, isLoading, updateThresholds } = usePlantThresholds(plantId);
+  const { environmentAlerts } = useEnvironmentAlerts();
+  const [form, setForm] = useState<Partial<Record<ThresholdColumn, string>>>({});
+
+  useEffect(() => {
+    if (!plantThresholds) return;
+    const values: Partial<Record<ThresholdColumn, string>> = {};
+    for (const row of METRIC_ROWS) {
+      for (const column of [row.min, row.max]) {
+        const value = plantThresholds.overrides[column];
+        values[column] = value == null ? '' : String(toDisplay(row.metric, value, useFahrenheit));
+      }
+    }
+    setForm(values);
+  }, [plantThresholds, useFahrenheit]);
+
+  const onSave = async (event: FormEvent) => {
+    event.preventDefault();
+    // Blank inputs go back to the species default
+    const updates: UpdatePlantEnvironmentThresholds = {};
+    for (const row of METRIC_ROWS) {
+      for (const column of [row.min, row.max]) {
+        const text = form[column]?.trim() ?? '';
+        updates[column] = text === '' ? null : toStored(row.metric, Number(text), useFahrenheit);
+      }
+    }
+    try {
+      await updateThresholds.mutateAsync(updates);
+      toast({ title: 'Thresholds saved' });
+    } catch (error: any) {
+      toast({ title: 'Could not save thresholds', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  if (isLoading || !plantThresholds) {
+    return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />;
+  }
+
+  const plantAlerts = environmentAlerts.filter(alert => alert.plantId === plantId);
+  const placeholder = (metric: EnvironmentMetric, value: number | null) =>
+    value === null ? 'No limit' : `Default ${formatEnvironmentValue(metric, value, useFahrenheit)}`;
+
+  return (
+    <div className="space-y-4">
+      {plantAlerts.length > 0 && (
+        <ul className="space-y-1 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm dark:border-amber-800 dark:bg-amber-900/20">
+          {plantAlerts.map(alert => (
+            <li key={alert.id} className="flex items-center text-gray-700 dark:text-gray-200">
+              <AlertTriangle className="h-4 w-4 mr-2 text-amber-500" />
+              {ENVIRONMENT_ALERT_LABELS[alert.metric][alert.direction]}: {formatEnvironmentValue(alert.metric, alert.lastValue, useFahrenheit)}
+              {' '}since {new Date(alert.triggeredAt).toLocaleString()}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="text-sm text-muted-foreground dark:text-gray-400">
+        Readings outside these limits raise an alert. Defaults come from the species data; leave a field blank to use it.
+        Low light is judged on the brightest reading of the day.
+      </p>
+
+      <form onSubmit={onSave} className="space-y-3">
+        {METRIC_ROWS.map(row => (
+          <div key={row.metric} className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-center text-sm">
+            <span className="font-medium text-foreground dark:text-gray-100">
+              {row.metric === 'temperature' ? `${row.label} (${useFahrenheit ? '°F' : '°C'})` : row.label}
+            </span>
+            <Input
+              type="number"
+              step="any"
+              aria-label={`${row.label} minimum`}
+              placeholder={`Min · ${placeholder(row.metric, plantThresholds.defaults[row.metric].min)}`}
+              value={form[row.min] ?? ''}
+              onChange={e => setForm(current => ({ ...current, [row.min]: e.target.value }))}
+            />
+            <Input
+              type="number"
+              step="any"
+              aria-label={`${row.label} maximum`}
+              placeholder={`Max · ${placeholder(row.metric, plantThresholds.defaults[row.metric].max)}`}
+              value={form[row.max] ?? ''}
+              onChange={e => setForm(current => ({ ...current, [row.max]: e.target.value }))}
+            />
+          </div>
+        ))}
+        <Button type="submit" className="bg-green-600 hover:bg-green-700 text-white" disabled={updateThresholds.isPending}>
+          {updateThresholds.isPending ? 'Saving...' : 'Save thresholds'}
+        </Button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { InsertSensorDevice, SensorDeviceSummary, UpdateSensorDevice } from "@shared/schema";
+import { apiRequest } from "@/lib/apiRequest";
+import { queryClient } from "@/lib/queryClient";
+
+// Dates arrive as ISO strings
+export type SensorDeviceEntry = Omit<SensorDeviceSummary, 'lastSeenAt' | 'createdAt'> & {
+  lastSeenAt: string | null;
+  createdAt: string | null;
+};
+
+// Returned once, when a device is registered or its key rotated
+export type SensorDeviceWithKey = SensorDeviceEntry & { apiKey: string };
+
+// Refetch now and then so last-seen times stay current while the dashboard is open
+const DEVICE_REFRESH_MS = 60 * 1000;
+
+export function useDevices(options?: { enabled?: boolean }) {
+  const { data: devices = [], isLoading, error } = useQuery<SensorDeviceEntry[]>({
+    queryKey: ['/api/devices'],
+    queryFn: async () => {
+      const response = await fetch(`/api/devices`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch devices');
+      }
+      return response.json();
+    },
+    enabled: options?.enabled,
+    refetchInterval: DEVICE_REFRESH_MS,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/devices'] });
+
+  const registerDevice = useMutation({
+    mutationFn: async (device: InsertSensorDevice) => {
+      return apiRequest<SensorDeviceWithKey>('/api/devices', { method: 'POST', data: device });
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateDevice = useMutation({
+    mutationFn: async ({ id, device }: { id: number; device: UpdateSensorDevice }) => {
+      return apiRequest<SensorDeviceEntry>(`/api/devices/${id}`, { method: 'PUT', data: device });
+    },
+    onSuccess: invalidate,
+  });
+
+  const rotateDeviceKey = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest<SensorDeviceWithKey>(`/api/devices/${id}/rotate-key`, { method: 'POST' });
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteDevice = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest<void>(`/api/devices/${id}`, { method: 'DELETE' });
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    devices,
+    isLoading,
+    error,
+    registerDevice,
+    updateDevice,
+    rotateDeviceKey,
+    deleteDevice,
+  };
+}
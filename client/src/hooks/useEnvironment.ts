@@ -1,8 +1,14 @@
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { EnvironmentReading, Recommendation } from "@shared/schema";
+import { EnvironmentReading, EnvironmentHistoryPoint, FrostAlert, Job, LocationContext, LocationStats, Recommendation, RecommendationFeedback, RecommendationStatus } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 
+// Per-location plant counts and latest reading; the reading time arrives as an ISO string
+export type LocationStatsEntry = Omit<LocationStats, 'latestReading'> & {
+  latestReading: (Omit<NonNullable<LocationStats['latestReading']>, 'readingTimestamp'> & { readingTimestamp: string | null }) | null;
+};
+
 // Define interfaces for dashboard stats
 interface ProcessedDashboardStats {
   totalPlants: number;
@@ -12,6 +18,7 @@ interface ProcessedDashboardStats {
   upcomingTasks: number; // Ensured to be a number
   newPlantsThisMonth: number;
   name?: string; // Used in Dashboard.tsx
+  locations: LocationStatsEntry[]; // Empty until the user adds a location
   // Include any other properties returned by /api/dashboard-stats
 }
 
@@ -20,8 +27,11 @@ interface ApiDashboardStats extends Omit<ProcessedDashboardStats, 'upcomingTasks
   upcomingTasks: any; 
 }
 
+// Latest reading merged with the weather at the user's saved location
+type EnvironmentWithLocation = EnvironmentReading & { location?: LocationContext | null };
+
 export function useEnvironment(options?: { enabled?: boolean }) {
-  const { data: environmentData, isLoading: isEnvironmentLoading, error: environmentError } = useQuery<EnvironmentReading>({
+  const { data: environmentData, isLoading: isEnvironmentLoading, error: environmentError } = useQuery<EnvironmentWithLocation>({
     queryKey: ['/api/environment'],
     queryFn: async () => {
       const [environmentResponse, weatherResponse] = await Promise.all([
@@ -42,7 +52,7 @@ export function useEnvironment(options?: { enabled?: boolean }) {
       const environment = await environmentResponse.json();
       const weather = await weatherResponse.json();
 
-      // Combine environment data with weather data, prioritizing existing environment data
+      // Combine environment data with weather data for the user's location, prioritizing existing environment data
       return {
         ...environment,
         temperature: environment.temperature ?? weather.current.temperature_2m,
@@ -50,6 +60,7 @@ export function useEnvironment(options?: { enabled?: boolean }) {
         soil_moisture_0_to_10cm: environment.soil_moisture_0_to_10cm ?? weather.current.soil_moisture_0_to_10cm,
         // Note: Light level is not directly available from Open-Meteo, keep existing or set to null/default
         lightLevel: environment.lightLevel ?? null, // Or a default like 'unknown'
+        location: weather.location ?? null, // Resolved location profile, incl. unit preference
       };
     },
     enabled: options?.enabled,
@@ -103,6 +114,186 @@ export function useEnvironment(options?: { enabled?: boolean }) {
   };
 }
 
+/**
+ * Recommendations in the given states (GET /api/recommendations?status=...). Shares the
+ * '/api/recommendations' key prefix, so anything that invalidates recommendations refreshes it too.
+ */
+export function useRecommendations(statuses: RecommendationStatus[], options?: { enabled?: boolean }) {
+  const status = statuses.join(',');
+  const { data: recommendations = [], isLoading, error } = useQuery<Recommendation[]>({
+    queryKey: ['/api/recommendations', status],
+    queryFn: async () => {
+      const response = await fetch(`/api/recommendations?status=${encodeURIComponent(status)}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch recommendations');
+      }
+      return response.json();
+    },
+    enabled: options?.enabled,
+  });
+
+  return {
+    recommendations,
+    isLoading,
+    error,
+  };
+}
+
+// Dismiss, snooze and rate recommendations
+export function useRecommendationActions() {
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/recommendations'] });
+
+  const dismissRecommendation = useMutation({
+    mutationFn: async (recommendationId: number) => {
+      return apiRequest('PUT', `/api/recommendations/${recommendationId}/dismiss`, {});
+    },
+    onSuccess: invalidate,
+  });
+
+  const snoozeRecommendation = useMutation({
+    mutationFn: async ({ recommendationId, days }: { recommendationId: number; days: number }) => {
+      return apiRequest('PUT', `/api/recommendations/${recommendationId}/snooze`, { days });
+    },
+    onSuccess: invalidate,
+  });
+
+  const rateRecommendation = useMutation({
+    mutationFn: async ({ recommendationId, feedback, comment }: { recommendationId: number; feedback: RecommendationFeedback; comment?: string }) => {
+      return apiRequest('PUT', `/api/recommendations/${recommendationId}/feedback`, { feedback, comment });
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    dismissRecommendation,
+    snoozeRecommendation,
+    rateRecommendation,
+  };
+}
+
+// A background job as reported by GET /api/jobs/:id; dates arrive as ISO strings
+export type JobStatusEntry = Omit<Job, 'payload' | 'lockedAt' | 'userId' | 'runAt' | 'createdAt' | 'updatedAt' | 'completedAt'> & {
+  runAt: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+};
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Start a recommendation run and poll its job until it finishes. The run happens on the server's
+ * job worker, so the list is refreshed once the job completes rather than when the request returns.
+ */
+export function useGenerateRecommendations() {
+  const [jobId, setJobId] = useState<number | null>(null);
+
+  const startGeneration = useMutation({
+    mutationFn: async (): Promise<{ jobId: number; status: string }> => {
+      const response = await fetch('/api/recommendations/generate', { method: 'POST' });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to start generating recommendations');
+      }
+      return body;
+    },
+    onSuccess: data => setJobId(data.jobId),
+  });
+
+  const { data: job, error: jobError } = useQuery<JobStatusEntry>({
+    queryKey: ['/api/jobs', jobId],
+    queryFn: async () => {
+      const response = await fetch(`/api/jobs/${jobId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch job status');
+      }
+      return response.json();
+    },
+    enabled: jobId != null,
+    // Poll until the job settles
+    refetchInterval: query => {
+      const status = query.state.data?.status;
+      return status === 'completed' || status === 'failed' ? false : JOB_POLL_INTERVAL_MS;
+    },
+  });
+
+  const status = job?.status;
+  useEffect(() => {
+    if (status === 'completed') {
+      queryClient.invalidateQueries({ queryKey: ['/api/recommendations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+    }
+  }, [status]);
+
+  const isGenerating = startGeneration.isPending || (jobId != null && !jobError && status !== 'completed' && status !== 'failed');
+
+  return {
+    generate: () => startGeneration.mutate(),
+    job,
+    isGenerating,
+    error: startGeneration.error || jobError || (status === 'failed' ? new Error(job?.lastError || 'Generating recommendations failed') : null),
+  };
+}
+
+export type EnvironmentHistoryBucket = 'hour' | 'day' | 'week';
+export type EnvironmentHistoryAggregation = 'min' | 'max' | 'avg';
+
+// Aggregated history points; bucketStart arrives as an ISO string
+export type EnvironmentHistoryEntry = Omit<EnvironmentHistoryPoint, 'bucketStart'> & { bucketStart: string };
+
+export function useEnvironmentHistory(
+  params: { days: number; bucket: EnvironmentHistoryBucket; aggregation: EnvironmentHistoryAggregation },
+  options?: { enabled?: boolean }
+) {
+  const { data: history = [], isLoading, error } = useQuery<EnvironmentHistoryEntry[]>({
+    queryKey: ['/api/environment/history', params.days, params.bucket, params.aggregation],
+    queryFn: async () => {
+      const from = new Date(Date.now() - params.days * 24 * 60 * 60 * 1000);
+      const search = new URLSearchParams({ from: from.toISOString(), bucket: params.bucket, aggregation: params.aggregation });
+      const response = await fetch(`/api/environment/history?${search}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch environment history');
+      }
+      const body = await response.json();
+      return body.points;
+    },
+    enabled: options?.enabled,
+  });
+
+  return {
+    history,
+    isLoading,
+    error,
+  };
+}
+
+// Frost alerts come back with the plant name joined in; dates arrive as ISO strings
+export type FrostAlertWithPlant = Omit<FrostAlert, 'eventStart' | 'eventEnd'> & {
+  eventStart: string;
+  eventEnd: string;
+  plantName: string;
+};
+
+export function useFrostAlerts(options?: { enabled?: boolean }) {
+  const { data: frostAlerts = [], isLoading, error } = useQuery<FrostAlertWithPlant[]>({
+    queryKey: ['/api/frost-alerts'],
+    queryFn: async () => {
+      const response = await fetch(`/api/frost-alerts`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch frost alerts');
+      }
+      return response.json();
+    },
+    enabled: options?.enabled,
+  });
+
+  return {
+    frostAlerts,
+    isLoading,
+    error,
+  };
+}
+
 export function useDashboardStats(options?: { enabled?: boolean }) {
   const {
     data: stats,
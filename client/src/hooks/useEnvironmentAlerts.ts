@@ -0,0 +1,71 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { EnvironmentAlert, EnvironmentThresholds, UpdatePlantEnvironmentThresholds } from "@shared/schema";
+import { apiRequest } from "@/lib/apiRequest";
+import { queryClient } from "@/lib/queryClient";
+
+// Alerts come back with the plant name joined in; dates arrive as ISO strings
+export type EnvironmentAlertEntry = Omit<EnvironmentAlert, 'triggeredAt' | 'resolvedAt' | 'createdAt'> & {
+  triggeredAt: string;
+  resolvedAt: string | null;
+  createdAt: string | null;
+  plantName: string;
+};
+
+export interface PlantThresholdsEntry {
+  thresholds: EnvironmentThresholds; // in force
+  defaults: EnvironmentThresholds; // from the species data
+  overrides: UpdatePlantEnvironmentThresholds; // set by the owner
+}
+
+// Sensors post every few minutes, so keep open alerts current while the page is open
+const ALERT_REFRESH_MS = 60 * 1000;
+
+export function useEnvironmentAlerts(options?: { enabled?: boolean }) {
+  const { data: environmentAlerts = [], isLoading, error } = useQuery<EnvironmentAlertEntry[]>({
+    queryKey: ['/api/environment-alerts'],
+    queryFn: async () => {
+      const response = await fetch(`/api/environment-alerts`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch environment alerts');
+      }
+      return response.json();
+    },
+    enabled: options?.enabled,
+    refetchInterval: ALERT_REFRESH_MS,
+  });
+
+  return {
+    environmentAlerts,
+    isLoading,
+    error,
+  };
+}
+
+export function usePlantThresholds(plantId: number) {
+  const thresholdsKey = [`/api/plants/${plantId}/thresholds`];
+
+  const { data: plantThresholds, isLoading, error } = useQuery<PlantThresholdsEntry>({
+    queryKey: thresholdsKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/plants/${plantId}/thresholds`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch thresholds');
+      }
+      return response.json();
+    },
+  });
+
+  const updateThresholds = useMutation({
+    mutationFn: async (thresholds: UpdatePlantEnvironmentThresholds) => {
+      return apiRequest<PlantThresholdsEntry>(`/api/plants/${plantId}/thresholds`, { method: 'PUT', data: thresholds });
+    },
+    onSuccess: (saved) => queryClient.setQueryData(thresholdsKey, saved),
+  });
+
+  return {
+    plantThresholds,
+    isLoading,
+    error,
+    updateThresholds,
+  };
+}
@@ -0,0 +1,58 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { InsertPlantLocation, PlantLocation, UpdatePlantLocation } from "@shared/schema";
+import { apiRequest } from "@/lib/apiRequest";
+import { queryClient } from "@/lib/queryClient";
+
+// Rooms, balconies and garden beds; plants, readings and dashboard stats refer to them
+export function useLocations(options?: { enabled?: boolean }) {
+  const { data: locations = [], isLoading, error } = useQuery<PlantLocation[]>({
+    queryKey: ['/api/locations'],
+    queryFn: async () => {
+      const response = await fetch(`/api/locations`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch locations');
+      }
+      return response.json();
+    },
+    enabled: options?.enabled,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/locations'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+  };
+
+  const createLocation = useMutation({
+    mutationFn: async (location: InsertPlantLocation) => {
+      return apiRequest<PlantLocation>('/api/locations', { method: 'POST', data: location });
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateLocation = useMutation({
+    mutationFn: async ({ id, location }: { id: number; location: UpdatePlantLocation }) => {
+      return apiRequest<PlantLocation>(`/api/locations/${id}`, { method: 'PUT', data: location });
+    },
+    onSuccess: invalidate,
+  });
+
+  // Plants in a deleted location are kept, unassigned
+  const deleteLocation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest<void>(`/api/locations/${id}`, { method: 'DELETE' });
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
+    },
+  });
+
+  return {
+    locations,
+    isLoading,
+    error,
+    createLocation,
+    updateLocation,
+    deleteLocation,
+  };
+}
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
+import { apiRequest } from '@/lib/queryClient';
 import type { PlantCareTask } from '@shared/schema';
 
 export function usePlantCareTasks(plantId?: string) {
@@ -30,16 +31,23 @@ export function usePlantCareTasks(plantId?: string) {
     },
   });
   const updateTaskMutation = useMutation({    mutationFn: async ({ taskId, updates }: { taskId: string; updates: Partial<PlantCareTask> }) => {
+      // Completing or skipping goes through the API so the server can schedule the next occurrence
+      if (updates.status === 'done' || updates.status === 'completed') {
+        await apiRequest('PUT', `/api/care-tasks/${taskId}/complete`, {});
+        return;
+      }
+      if (updates.status === 'skipped') {
+        await apiRequest('PUT', `/api/care-tasks/${taskId}/skip`, {});
+        return;
+      }
+
       // Transform the updates to match database column names
       const dbUpdates: any = {
-        status: updates.status === 'done' ? 'completed' : updates.status,
+        status: updates.status,
       };
       if (updates.dueDate) dbUpdates.due_date = updates.dueDate.toISOString();
-      // Always set completed_at when status is 'done' or 'completed'
-      if (updates.status === 'done' || updates.status === 'completed') {
-        dbUpdates.completed_at = new Date().toISOString();
-      } else if (updates.status === 'pending' || updates.status === 'skipped') {
-        dbUpdates.completed_at = null; // Clear completed_at if task is not completed
+      if (updates.status === 'pending') {
+        dbUpdates.completed_at = null; // Clear completed_at if task is reopened
       }
 
       const { error } = await supabase
@@ -51,6 +59,9 @@ export function usePlantCareTasks(plantId?: string) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['plantCareTasks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/care-tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
     },
   });
 
@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueries } from "@tanstack/react-query";
-import { Plant, PlantHealthMetric } from "@shared/schema";
+import { Plant, PlantHealthMetric, PlantHealthSnapshot, SpeciesCandidate } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 
@@ -133,3 +133,50 @@ export function usePlantDetails(plantId: number) {
     error: plantError || healthError,
   };
 }
+
+// Daily health snapshots for one plant, oldest first
+export function usePlantHealthHistory(plantId: number, days: number = 30) {
+  return useQuery<PlantHealthSnapshot[]>({
+    queryKey: ['/api/plants', plantId, 'health', 'history', days],
+    queryFn: async () => {
+      const response = await fetch(`/api/plants/${plantId}/health/history?days=${days}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch plant health history');
+      }
+      return response.json();
+    },
+    enabled: !!plantId,
+  });
+}
+
+// Daily health snapshots across all of the user's plants
+export function useHealthHistory(days: number = 30, options: { enabled?: boolean } = {}) {
+  return useQuery<(PlantHealthSnapshot & { plantName: string })[]>({
+    queryKey: ['/api/health/history', days],
+    queryFn: async () => {
+      const response = await fetch(`/api/health/history?days=${days}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch health history');
+      }
+      return response.json();
+    },
+    enabled: options.enabled ?? true,
+  });
+}
+
+// Ranked species for the add-plant picker; waits until at least two characters are typed
+export function useSpeciesSearch(query: string) {
+  const trimmed = query.trim();
+  return useQuery<SpeciesCandidate[]>({
+    queryKey: ['/api/species/search', trimmed],
+    queryFn: async () => {
+      const response = await fetch(`/api/species/search?q=${encodeURIComponent(trimmed)}`);
+      if (!response.ok) {
+        throw new Error('Failed to search species');
+      }
+      return response.json();
+    },
+    enabled: trimmed.length >= 2,
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,55 @@
+import { apiRequest } from "@/lib/queryClient";
+
+type GetToken = () => Promise<string | null>;
+
+export function isPushSupported(): boolean {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+// VAPID keys are base64url; PushManager wants the raw bytes
+function urlBase64ToUint8Array(base64String: string): Uint8Array {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+}
+
+/**
+ * Register the service worker, subscribe this browser to push and store the subscription server-side.
+ */
+export async function subscribeToPush(getToken?: GetToken): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error('Push notifications are not supported in this browser.');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notification permission was not granted.');
+  }
+
+  // apiRequest throws on non-2xx, e.g. 503 when the server has no VAPID keys
+  const keyResponse = await apiRequest('GET', '/api/notifications/vapid-public-key', undefined, getToken);
+  const { publicKey } = await keyResponse.json();
+
+  const registration = await navigator.serviceWorker.register('/sw.js');
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(publicKey),
+    });
+
+  await apiRequest('POST', '/api/notifications/push-subscriptions', subscription.toJSON(), getToken);
+}
+
+/**
+ * Remove this browser's push subscription locally and on the server.
+ */
+export async function unsubscribeFromPush(getToken?: GetToken): Promise<void> {
+  if (!isPushSupported()) return;
+  const registration = await navigator.serviceWorker.getRegistration('/sw.js');
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await apiRequest('DELETE', '/api/notifications/push-subscriptions', { endpoint: subscription.endpoint }, getToken);
+  await subscription.unsubscribe();
+}
@@ -1,6 +1,7 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 import { addDays, format, formatDistanceToNow, isBefore } from "date-fns";
+import type { EnvironmentMetric } from "@shared/schema";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -96,6 +97,20 @@ export function getEnvironmentStatus(value: number, metric: 'temperature' | 'hum
   return { status: 'Unknown', color: 'text-muted-foreground' };
 }
 
+// Thresholds are stored in °C, % humidity, m³/m³ soil moisture and lux
+export function formatEnvironmentValue(metric: EnvironmentMetric, value: number, useFahrenheit = false): string {
+  switch (metric) {
+    case 'temperature':
+      return useFahrenheit ? `${Math.round(value * 9 / 5 + 32)}°F` : `${Math.round(value * 10) / 10}°C`;
+    case 'humidity':
+      return `${Math.round(value)}%`;
+    case 'soilMoisture':
+      return `${Math.round(value * 100)}%`;
+    case 'light':
+      return `${Math.round(value).toLocaleString()} lux`;
+  }
+}
+
 export function getLightLevelInfo(level: string): { label: string; status: string; color: string } {
   switch (level?.toLowerCase()) {
     case 'high':
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react"; // Added useEffect
-import { Plus, Thermometer, Droplet, Sun, Sprout, BarChartHorizontalBig, BrainCircuit, Leaf, Wind, Scissors, CheckCircle, Clock } from "lucide-react";
+import { Plus, Thermometer, Droplet, Sun, Sprout, BarChartHorizontalBig, BrainCircuit, Leaf, Wind, Scissors, CheckCircle, Clock, Shovel, SprayCan, Snowflake, MapPin, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import LottieDoneIcon from "@/components/ui/LottieDoneIcon";
 import Sidebar from "@/components/layout/Sidebar";
@@ -8,12 +8,18 @@ import PlantsList from "@/components/plants/PlantsList";
 import AddPlantModal from "@/components/modals/AddPlantModal";
 import { useDashboardStats } from "@/hooks/useEnvironment"; // Assuming this provides totalPlants
 import { usePlants } from "@/hooks/usePlants";
-import { useEnvironment } from "@/hooks/useEnvironment";
+import { useEnvironment, useFrostAlerts } from "@/hooks/useEnvironment";
+import { useEnvironmentAlerts } from "@/hooks/useEnvironmentAlerts";
+import { formatEnvironmentValue } from "@/lib/utils";
 import { useAuth } from "@clerk/clerk-react";
 import { queryClient, apiRequest } from "@/lib/queryClient"; // Added apiRequest
 import AppLoader from "@/components/ui/AppLoader";
-import type { Plant } from "@shared/schema";
+import { ENVIRONMENT_ALERT_LABELS, type Plant } from "@shared/schema";
 import { TaskReminder } from "@/components/TaskReminder";
+import { NotificationSettings } from "@/components/NotificationSettings";
+import { SensorDevicesPanel } from "@/components/SensorDevicesPanel";
+import { EnvironmentHistoryPanel } from "@/components/EnvironmentHistoryPanel";
+import { RecommendationsPanel } from "@/components/RecommendationsPanel";
 import { usePlantCareTasks } from "@/hooks/usePlantCareTasks";
 
 // Helper to check if a date is today (UTC-safe)
@@ -58,6 +64,8 @@ export default function Dashboard() {
   // Unified task logic: use only usePlantCareTasks
   const { tasks: careTasks, isLoading: isCareTasksLoading, updateTask } = usePlantCareTasks();
   const { environmentData, recommendations, isLoading: isEnvironmentLoading } = useEnvironment({ enabled: !!isSignedIn && !!clerkUserId });
+  const { frostAlerts } = useFrostAlerts({ enabled: !!isSignedIn && !!clerkUserId });
+  const { environmentAlerts } = useEnvironmentAlerts({ enabled: !!isSignedIn && !!clerkUserId });
 
   const handleAddPlant = (newPlant: Plant) => {
     queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
@@ -80,7 +88,7 @@ export default function Dashboard() {
       ...task,
       plantId, // always attach plantId
       completed: task.status === 'done',
-      taskType: task.type, // 'watering', 'fertilizing', 'pruning'
+      taskType: task.type, // 'watering', 'fertilizing', 'pruning', 'repotting', 'misting'
       plantName: plantName || 'Unknown Plant',
     };
   });
@@ -134,8 +142,13 @@ export default function Dashboard() {
   let weatherConditionText = "Clear";
   // Basic logic for condition text, can be expanded
   if (environmentData?.humidity && environmentData.humidity > 75) weatherConditionText = "Humid";
-  if (environmentData?.temperature && environmentData.temperature < 10) weatherConditionText = "Cold"; // Assuming Celsius, adjust if Fahrenheit
-  if (environmentData?.temperature && environmentData.temperature > 30) weatherConditionText = "Hot";  // Assuming Celsius, adjust if Fahrenheit
+  if (environmentData?.temperature && environmentData.temperature < 10) weatherConditionText = "Cold"; // Celsius
+  if (environmentData?.temperature && environmentData.temperature > 30) weatherConditionText = "Hot";  // Celsius
+  // Readings are stored in Celsius; convert for users who prefer imperial units
+  const useFahrenheit = environmentData?.location?.unitPreference === 'imperial';
+  const displayTemperature = environmentData?.temperature == null
+    ? null
+    : useFahrenheit ? Math.round(environmentData.temperature * 9 / 5 + 32) : environmentData.temperature;
   // For simplicity, we'll use a generic Sun icon for 'Clear' or default
   let WeatherConditionIcon = Sun;
   if (weatherConditionText === "Humid") WeatherConditionIcon = Droplet; // Or a cloud icon
@@ -193,8 +206,8 @@ export default function Dashboard() {
             <div className="flex flex-col sm:flex-row gap-3">
               <WeatherCard 
                 icon={Thermometer}
-                value={isEnvironmentLoading ? '--' : environmentData?.temperature ?? '--'}
-                unit="°F" 
+                value={isEnvironmentLoading ? '--' : displayTemperature ?? '--'}
+                unit={useFahrenheit ? '°F' : '°C'}
                 label="Temperature"
                 iconBgClass="bg-orange-100 dark:bg-orange-800"
                 iconColorClass="text-orange-500 dark:text-orange-300"
@@ -218,6 +231,51 @@ export default function Dashboard() {
             </div>
           </div>
 
+          {/* Frost alerts for outdoor plants */}
+          {frostAlerts.length > 0 && (
+            <div className="mb-8 p-5 rounded-xl bg-sky-50 dark:bg-slate-800 border border-sky-200 dark:border-sky-800 shadow-sm">
+              <div className="flex items-center mb-3">
+                <Snowflake className="h-6 w-6 mr-3 text-sky-500" />
+                <h2 className="text-lg font-semibold text-sky-800 dark:text-sky-300">Frost Alerts</h2>
+              </div>
+              <ul className="space-y-2">
+                {frostAlerts.map(alert => (
+                  <li key={alert.id} className="text-sm text-gray-700 dark:text-gray-200">
+                    <span className="font-semibold">{alert.plantName}</span>
+                    {' – '}
+                    {alert.action === 'bring_inside' ? 'Bring inside' : 'Cover overnight'}
+                    {' from '}
+                    {new Date(alert.eventStart).toLocaleDateString()}
+                    {alert.eventEnd !== alert.eventStart && ` to ${new Date(alert.eventEnd).toLocaleDateString()}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Plants whose readings are outside their thresholds */}
+          {environmentAlerts.length > 0 && (
+            <div className="mb-8 p-5 rounded-xl bg-amber-50 dark:bg-slate-800 border border-amber-200 dark:border-amber-800 shadow-sm">
+              <div className="flex items-center mb-3">
+                <AlertTriangle className="h-6 w-6 mr-3 text-amber-500" />
+                <h2 className="text-lg font-semibold text-amber-800 dark:text-amber-300">Environment Alerts</h2>
+              </div>
+              <ul className="space-y-2">
+                {environmentAlerts.map(alert => (
+                  <li key={alert.id} className="text-sm text-gray-700 dark:text-gray-200">
+                    <span className="font-semibold">{alert.plantName}</span>
+                    {' – '}
+                    {ENVIRONMENT_ALERT_LABELS[alert.metric][alert.direction]}
+                    {`: ${formatEnvironmentValue(alert.metric, alert.lastValue, useFahrenheit)}`}
+                    {` (limit ${formatEnvironmentValue(alert.metric, alert.threshold, useFahrenheit)})`}
+                    {' since '}
+                    {new Date(alert.triggeredAt).toLocaleString()}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Your Plant Collection Section */}
           <div className="mb-8">
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6">
@@ -306,6 +364,66 @@ export default function Dashboard() {
               </div>
             </div>
 
+            {/* Plants and latest readings per location */}
+            {(stats?.locations?.length ?? 0) > 0 && (
+              <div className="mt-8 bg-white dark:bg-slate-800 p-6 rounded-xl shadow-lg">
+                <div className="flex items-center mb-4">
+                  <MapPin className="h-7 w-7 mr-3 text-green-500" />
+                  <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">By Location</h3>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {stats!.locations.map(location => {
+                    const reading = location.latestReading;
+                    const temperature = reading?.temperature == null ? null
+                      : useFahrenheit ? Math.round(reading.temperature * 9 / 5 + 32) : reading.temperature;
+                    return (
+                      <div key={location.locationId ?? 'none'} className="rounded-lg border border-gray-100 dark:border-slate-700 p-4">
+                        <div className="flex items-center justify-between">
+                          <p className="font-medium text-gray-800 dark:text-gray-100">{location.name}</p>
+                          {location.isIndoor !== null && (
+                            <span className="text-xs text-gray-500 dark:text-gray-400">{location.isIndoor ? 'Indoor' : 'Outdoor'}</span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                          {location.plantCount} {location.plantCount === 1 ? 'plant' : 'plants'}
+                          {location.plantsNeedingCare > 0 && (
+                            <span className="text-amber-600 dark:text-amber-400"> · {location.plantsNeedingCare} need care</span>
+                          )}
+                        </p>
+                        {reading && (
+                          <div className="flex gap-4 mt-2 text-xs text-gray-500 dark:text-gray-400">
+                            {temperature != null && <span className="flex items-center"><Thermometer className="h-3.5 w-3.5 mr-1" />{temperature}{useFahrenheit ? '°F' : '°C'}</span>}
+                            {reading.humidity != null && <span className="flex items-center"><Droplet className="h-3.5 w-3.5 mr-1" />{reading.humidity}%</span>}
+                            {reading.lightLevel && <span className="flex items-center"><Sun className="h-3.5 w-3.5 mr-1" />{reading.lightLevel}</span>}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* AI recommendations, generated in the background */}
+            <div className="mt-8">
+              <RecommendationsPanel plants={plants} enabled={!!isSignedIn && !!clerkUserId} />
+            </div>
+
+            {/* Temperature, humidity and soil moisture over time */}
+            <div className="mt-8">
+              <EnvironmentHistoryPanel useFahrenheit={useFahrenheit} />
+            </div>
+
+            {/* Registered sensors, their keys and last-seen status */}
+            <div className="mt-8">
+              <SensorDevicesPanel plants={plants} />
+            </div>
+
+            {/* Notification channels and quiet hours for due-task digests */}
+            <div className="mt-8">
+              <NotificationSettings />
+            </div>
+
             {/* Task Reminders Section */}
             <div className="mt-8">
               <div className="flex items-center mb-4">
@@ -327,10 +445,14 @@ export default function Dashboard() {
                           {task.taskType === 'watering' && <Droplet className="w-7 h-7 text-blue-500" />}
                           {task.taskType === 'fertilizing' && <Sun className="w-7 h-7 text-yellow-500" />}
                           {task.taskType === 'pruning' && <Scissors className="w-7 h-7 text-green-700" />}
+                          {task.taskType === 'repotting' && <Shovel className="w-7 h-7 text-amber-700" />}
+                          {task.taskType === 'misting' && <SprayCan className="w-7 h-7 text-sky-500" />}
+                          {task.taskType === 'frost_protection' && <Snowflake className="w-7 h-7 text-sky-600" />}
                         </div>
                         <div>
                           <div className="font-semibold text-lg capitalize text-gray-900 dark:text-gray-100 mb-1">{task.taskType} <span className="text-base font-normal text-gray-500 dark:text-gray-300">for</span> {task.plantName}</div>
                           <div className="text-xs text-gray-500 dark:text-gray-400">Due: {new Date(task.dueDate).toLocaleDateString()}</div>
+                          {task.notes && <div className="text-xs text-sky-600 dark:text-sky-400 mt-1">{task.notes}</div>}
                         </div>
                       </div>
                       <div className="flex items-center gap-3 mt-3 sm:mt-0">
@@ -5,6 +5,8 @@ import { Badge } from "@/components/ui/badge";
 import { PlantAvatar } from "@/components/ui/PlantAvatar";
 import { useAuth } from "@clerk/clerk-react";
 import { apiRequest } from "@/lib/queryClient";
+import { useHealthHistory } from "@/hooks/usePlants";
+import { HealthTrendChart, type HealthTrendPoint } from "@/components/HealthTrendChart";
 import Sidebar from "@/components/layout/Sidebar";
 import MobileNavigation from "@/components/layout/MobileNavigation";
 import { 
@@ -39,6 +41,7 @@ export default function HistoryPage() {
   const [search, setSearch] = useState("");
   const [isLoading, setIsLoading] = useState(true);
   const [selectedFilter, setSelectedFilter] = useState("all");
+  const { data: healthHistory = [] } = useHealthHistory(30, { enabled: !!isSignedIn });
 
   useEffect(() => {
     if (!isSignedIn || !clerkUserId) return;
@@ -52,6 +55,20 @@ export default function HistoryPage() {
       .finally(() => setIsLoading(false));
   }, [isSignedIn, clerkUserId, getToken]);
 
+  // Average health across all plants for each day
+  const healthTrend = useMemo<HealthTrendPoint[]>(() => {
+    const byDate = new Map<string, { total: number; count: number }>();
+    for (const snapshot of healthHistory) {
+      const day = byDate.get(snapshot.snapshotDate) ?? { total: 0, count: 0 };
+      day.total += snapshot.overallHealth;
+      day.count += 1;
+      byDate.set(snapshot.snapshotDate, day);
+    }
+    return Array.from(byDate.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, day]) => ({ date, overallHealth: Math.round(day.total / day.count) }));
+  }, [healthHistory]);
+
   const filteredLogs = useMemo(() => {
     let filtered = logs;
     
@@ -178,6 +195,12 @@ export default function HistoryPage() {
                   <div className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">{logs.length}</div>
                   <div className="text-xs text-slate-500 dark:text-slate-400">Total Activities</div>
                 </div>
+                {healthTrend.length > 0 && (
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">{healthTrend[healthTrend.length - 1].overallHealth}%</div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400">Avg Health</div>
+                  </div>
+                )}
                 
               </div>
             </div>
@@ -221,6 +244,12 @@ export default function HistoryPage() {
         </header>
 
         <main className="flex-1 w-full max-w-4xl mx-auto px-4 py-8">
+          {healthTrend.length > 1 && (
+            <Card className="mb-6 p-4 border-0 shadow-sm rounded-2xl bg-white/80 dark:bg-slate-900/80">
+              <h2 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Average plant health, last 30 days</h2>
+              <HealthTrendChart data={healthTrend} />
+            </Card>
+          )}
           {isLoading ? (
             <div className="flex flex-col justify-center items-center h-64 space-y-4">
               <div className="animate-spin rounded-full h-12 w-12 border-4 border-emerald-200 border-t-emerald-600"></div>
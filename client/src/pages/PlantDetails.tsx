@@ -1,6 +1,6 @@
 import { useState, useEffect, ElementType } from "react";
 import { useParams, Link, useLocation } from "wouter";
-import { ArrowLeft, Droplet, Sun, Heart, Edit, Trash2, AlertTriangle, Sparkles, RefreshCcw, Globe, Info, BookOpen, ClipboardList, AlertCircle, Leaf as LeafIcon, Thermometer, Scissors, ShieldCheck, Zap, Loader2 } from "lucide-react";
+import { ArrowLeft, Droplet, Sun, Heart, Edit, Trash2, AlertTriangle, Sparkles, RefreshCcw, Globe, Info, BookOpen, ClipboardList, AlertCircle, Leaf as LeafIcon, Thermometer, Scissors, ShieldCheck, Zap, Loader2, Camera, Ruler, MessageCircle } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import AppLoader from "@/components/ui/AppLoader";
 import Sidebar from "@/components/layout/Sidebar";
@@ -8,7 +8,14 @@ import MobileNavigation from "@/components/layout/MobileNavigation";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ProgressBar } from "@/components/ui/progress-bar";
-import { usePlantDetails } from "@/hooks/usePlants";
+import { usePlantDetails, usePlantHealthHistory } from "@/hooks/usePlants";
+import { useEnvironment } from "@/hooks/useEnvironment";
+import { PlantPhotoTimeline } from "@/components/plants/PlantPhotoTimeline";
+import { PlantGrowthChart } from "@/components/plants/PlantGrowthChart";
+import { PlantChatPanel } from "@/components/plants/PlantChatPanel";
+import { PlantThresholdsPanel } from "@/components/plants/PlantThresholdsPanel";
+import { HealthTrendChart } from "@/components/HealthTrendChart";
+import { EditPlantModal } from "@/components/modals/EditPlantModal";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { formatDate, formatNextWatering, getHealthStatus } from "@/lib/utils";
@@ -107,6 +114,7 @@ export default function PlantDetails() {
   const plantId = parseInt(id || "0");
   const { toast } = useToast();
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isEditOpen, setIsEditOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [location, navigate] = useLocation();
   const [aiCareTips, setAiCareTips] = useState<Array<{ category: string; tip: string }>>([]);
@@ -119,6 +127,10 @@ export default function PlantDetails() {
   const [perenualDetailsError, setPerenualDetailsError] = useState<string | null>(null);
   
   const { plant, healthMetrics, isLoading, error } = usePlantDetails(plantId);
+  // Readings are stored in Celsius; thresholds are shown in the user's preferred unit
+  const { environmentData } = useEnvironment();
+  const useFahrenheit = environmentData?.location?.unitPreference === 'imperial';
+  const { data: healthHistory = [] } = usePlantHealthHistory(plantId);
   
   useEffect(() => {
     const loadSavedAiCareTips = async () => {
@@ -392,7 +404,16 @@ export default function PlantDetails() {
               <p className="text-md sm:text-lg text-gray-300 italic">
                 {perenualPlantDetails?.scientific_name?.join(', ') || 'Scientific name not available'}
               </p>
-            </div>            <div className="absolute top-4 right-4">
+            </div>            <div className="absolute top-4 right-4 flex gap-2">
+              <Button
+                variant="secondary"
+                size="icon"
+                className="rounded-full h-10 w-10 shadow-md"
+                onClick={() => setIsEditOpen(true)}
+                title="Edit Plant"
+              >
+                <Edit className="h-5 w-5" />
+              </Button>
               <Button
                 variant="destructive"
                 size="icon"
@@ -429,14 +450,72 @@ export default function PlantDetails() {
             </CardContent>
           </Card>
 
+          {/* Health scores and 30-day trend */}
+          <Card className="mb-8 shadow-lg bg-card dark:bg-gray-800/50">
+            <CardContent className="p-4 md:p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center">
+                  <Heart className="h-6 w-6 mr-3 text-primary" />
+                  <h3 className="text-xl font-semibold font-poppins text-foreground dark:text-gray-100">Health</h3>
+                </div>
+                <span className={`px-3 py-1 rounded-full text-xs font-semibold ${healthStatus.color}`}>
+                  {healthStatus.status} · {overallHealth}%
+                </span>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4 text-sm">
+                <div>
+                  <div className="flex justify-between mb-1 text-muted-foreground dark:text-gray-400">
+                    <span className="flex items-center"><Droplet className="h-4 w-4 mr-1 text-blue-500" />Water</span>
+                    <span>{waterLevel}%</span>
+                  </div>
+                  <ProgressBar value={waterLevel} maxValue={100} className="bg-muted" color="bg-blue-500" />
+                </div>
+                <div>
+                  <div className="flex justify-between mb-1 text-muted-foreground dark:text-gray-400">
+                    <span className="flex items-center"><Sun className="h-4 w-4 mr-1 text-yellow-500" />Light</span>
+                    <span>{lightLevel}%</span>
+                  </div>
+                  <ProgressBar value={lightLevel} maxValue={100} className="bg-muted" color="bg-yellow-500" />
+                </div>
+              </div>
+              {healthHistory.length > 1 ? (
+                <HealthTrendChart
+                  data={healthHistory.map(snapshot => ({
+                    date: snapshot.snapshotDate,
+                    overallHealth: snapshot.overallHealth,
+                    waterLevel: snapshot.waterLevel,
+                    lightLevel: snapshot.lightLevel,
+                  }))}
+                  showComponents
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground dark:text-gray-400">The health trend appears once there are a few days of history.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Environment thresholds and the alerts they raise */}
+          <Card className="mb-8 shadow-lg bg-card dark:bg-gray-800/50">
+            <CardContent className="p-4 md:p-6">
+              <div className="flex items-center mb-4">
+                <AlertTriangle className="h-6 w-6 mr-3 text-primary" />
+                <h3 className="text-xl font-semibold font-poppins text-foreground dark:text-gray-100">Environment Alerts</h3>
+              </div>
+              <PlantThresholdsPanel plantId={plantId} useFahrenheit={useFahrenheit} />
+            </CardContent>
+          </Card>
+
           {/* Tabs for Detailed Information */}
           <Tabs defaultValue="overview" className="w-full">
-            <TabsList className="grid w-full grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-2 mb-6 bg-card dark:bg-gray-800/50 p-1 rounded-lg shadow">
+            <TabsList className="grid w-full grid-cols-2 sm:grid-cols-3 md:grid-cols-8 gap-2 mb-6 bg-card dark:bg-gray-800/50 p-1 rounded-lg shadow">
               <TabsTrigger value="overview" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md hover:bg-muted/50 dark:hover:bg-gray-700/50 rounded-md transition-all">Overview</TabsTrigger>
               <TabsTrigger value="care" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md hover:bg-muted/50 dark:hover:bg-gray-700/50 rounded-md transition-all">Care Guide</TabsTrigger>
               <TabsTrigger value="characteristics" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md hover:bg-muted/50 dark:hover:bg-gray-700/50 rounded-md transition-all">Characteristics</TabsTrigger>
               <TabsTrigger value="healthSafety" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md hover:bg-muted/50 dark:hover:bg-gray-700/50 rounded-md transition-all">Health & Safety</TabsTrigger>
               <TabsTrigger value="aiTips" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md hover:bg-muted/50 dark:hover:bg-gray-700/50 rounded-md transition-all">AI Tips</TabsTrigger>
+              <TabsTrigger value="photos" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md hover:bg-muted/50 dark:hover:bg-gray-700/50 rounded-md transition-all">Photos</TabsTrigger>
+              <TabsTrigger value="growth" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md hover:bg-muted/50 dark:hover:bg-gray-700/50 rounded-md transition-all">Growth</TabsTrigger>
+              <TabsTrigger value="chat" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md hover:bg-muted/50 dark:hover:bg-gray-700/50 rounded-md transition-all">Ask AI</TabsTrigger>
             </TabsList>
 
             {tabsConfigData.map(tab => (
@@ -519,8 +598,46 @@ export default function PlantDetails() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="photos">
+              <Card className="shadow-lg bg-card dark:bg-gray-800/50">
+                <CardContent className="p-6">
+                  <div className="flex items-center mb-6">
+                    <Camera className="h-6 w-6 mr-3 text-primary" />
+                    <h3 className="text-2xl font-semibold font-poppins text-foreground dark:text-gray-100">Photo Journal</h3>
+                  </div>
+                  <PlantPhotoTimeline plantId={plantId} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="growth">
+              <Card className="shadow-lg bg-card dark:bg-gray-800/50">
+                <CardContent className="p-6">
+                  <div className="flex items-center mb-6">
+                    <Ruler className="h-6 w-6 mr-3 text-primary" />
+                    <h3 className="text-2xl font-semibold font-poppins text-foreground dark:text-gray-100">Growth Tracking</h3>
+                  </div>
+                  <PlantGrowthChart plantId={plantId} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="chat">
+              <Card className="shadow-lg bg-card dark:bg-gray-800/50">
+                <CardContent className="p-6">
+                  <div className="flex items-center mb-6">
+                    <MessageCircle className="h-6 w-6 mr-3 text-primary" />
+                    <h3 className="text-2xl font-semibold font-poppins text-foreground dark:text-gray-100">Plant Assistant</h3>
+                  </div>
+                  <PlantChatPanel plantId={plantId} plantName={plant.name} />
+                </CardContent>
+              </Card>
+            </TabsContent>
           </Tabs>
 
+          <EditPlantModal plant={plant} isOpen={isEditOpen} onClose={() => setIsEditOpen(false)} />
+
           {/* Delete Confirmation Dialog (preserved) */}
           <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
             <DialogContent className="bg-card dark:bg-gray-800">
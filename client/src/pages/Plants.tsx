@@ -1,13 +1,16 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Plus } from "lucide-react";
+import { MapPin, Plus } from "lucide-react";
 import Sidebar from "@/components/layout/Sidebar";
 import MobileNavigation from "@/components/layout/MobileNavigation";
 import { PlantCard } from "@/components/plants/PlantCard";
 import AddPlantModal from "@/components/modals/AddPlantModal";
+import LocationsModal from "@/components/modals/LocationsModal";
 import { usePlants } from "@/hooks/usePlants";
+import { useLocations } from "@/hooks/useLocations";
 import AppLoader from "@/components/ui/AppLoader";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useAuth } from "@clerk/clerk-react";
 import { queryClient } from "@/lib/queryClient";
 import type { Plant } from "@shared/schema";
@@ -15,9 +18,14 @@ import type { Plant } from "@shared/schema";
 export default function Plants() {
   const userId = 1; // In a real app, this would come from authentication
   const [isAddPlantModalOpen, setIsAddPlantModalOpen] = useState(false);
+  const [isLocationsModalOpen, setIsLocationsModalOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  // "all", "none" for unassigned plants, or a location id
+  const [locationFilter, setLocationFilter] = useState("all");
+  const [groupByLocation, setGroupByLocation] = useState(false);
   
   const { plants, healthMetrics, isLoading } = usePlants({ enabled: !!userId });
+  const { locations } = useLocations({ enabled: !!userId });
   
   const handleAddPlant = (newPlant: Plant) => {
     queryClient.invalidateQueries({ queryKey: ['/api/plants'] });
@@ -33,10 +41,35 @@ export default function Plants() {
     // Apply search filter
     const matchesSearch = plant.name.toLowerCase().includes(searchQuery.toLowerCase()) || 
                          (plant.species || "").toLowerCase().includes(searchQuery.toLowerCase());
+    const matchesLocation = locationFilter === "all" ||
+                         (locationFilter === "none" ? !plant.locationId : String(plant.locationId) === locationFilter);
     
-    return matchesSearch;
+    return matchesSearch && matchesLocation;
   });
 
+  // One section per location in name order, then plants without a location; empty sections are left out
+  const plantGroups = [
+    ...locations.map(location => ({ key: String(location.id), title: location.name, plants: filteredPlants.filter(plant => plant.locationId === location.id) })),
+    { key: "none", title: "No location", plants: filteredPlants.filter(plant => !plant.locationId || !locations.some(location => location.id === plant.locationId)) },
+  ].filter(group => group.plants.length > 0);
+
+  const isFiltered = !!searchQuery || locationFilter !== "all";
+  const clearFilters = () => {
+    setSearchQuery("");
+    setLocationFilter("all");
+  };
+
+  const renderGrid = (gridPlants: Plant[]) => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+      {gridPlants.map((plant) => (
+        <PlantCard
+          key={plant.id}
+          plant={plant}
+        />
+      ))}
+    </div>
+  );
+
   if (isLoading) {
     return (
       <div className="flex h-screen bg-background">
@@ -110,7 +143,11 @@ export default function Plants() {
                 Manage and track all your plants in one place
               </p>
             </div>
-            <div className="mt-4 md:mt-0">
+            <div className="mt-4 md:mt-0 flex gap-2">
+              <Button variant="outline" onClick={() => setIsLocationsModalOpen(true)}>
+                <MapPin className="h-4 w-4 mr-2" />
+                <span>Locations</span>
+              </Button>
               <Button 
                 className="bg-primary hover:bg-primary-light text-white"
                 onClick={handleOpenAddPlantModal}
@@ -121,8 +158,8 @@ export default function Plants() {
             </div>
           </div>
           
-          {/* Search */}
-          <div className="flex mb-6">
+          {/* Search and location filter */}
+          <div className="flex flex-col sm:flex-row gap-3 mb-6">
             <div className="relative flex-1">
               <Input
                 placeholder="Search plants..."
@@ -137,18 +174,40 @@ export default function Plants() {
                 </svg>
               </div>
             </div>
+            {locations.length > 0 && (
+              <>
+                <Select value={locationFilter} onValueChange={setLocationFilter}>
+                  <SelectTrigger className="sm:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All locations</SelectItem>
+                    <SelectItem value="none">No location</SelectItem>
+                    {locations.map(location => (
+                      <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant={groupByLocation ? "default" : "outline"}
+                  onClick={() => setGroupByLocation(!groupByLocation)}
+                >
+                  Group by location
+                </Button>
+              </>
+            )}
           </div>
           
           {/* Plants Grid */}
           {filteredPlants.length === 0 ? (
             <div className="text-center py-16 bg-white dark:bg-card rounded-lg shadow-natural">
-              {searchQuery ? (
+              {isFiltered ? (
                 <>
                   <h3 className="text-lg font-poppins font-semibold mb-2">No plants found</h3>
                   <p className="text-muted-foreground mb-6">No plants match your search criteria.</p>
                   <Button 
                     variant="outline" 
-                    onClick={() => setSearchQuery("")}
+                    onClick={clearFilters}
                   >
                     Clear Search
                   </Button>
@@ -167,15 +226,19 @@ export default function Plants() {
                 </>
               )}
             </div>
-          ) : (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredPlants.map((plant) => (
-                <PlantCard
-                  key={plant.id}
-                  plant={plant}
-                />
+          ) : groupByLocation && locations.length > 0 ? (
+            <div className="space-y-8">
+              {plantGroups.map(group => (
+                <section key={group.key}>
+                  <h2 className="text-lg font-poppins font-semibold mb-3 text-textColor dark:text-foreground">
+                    {group.title} <span className="text-sm font-normal text-muted-foreground">({group.plants.length})</span>
+                  </h2>
+                  {renderGrid(group.plants)}
+                </section>
               ))}
             </div>
+          ) : (
+            renderGrid(filteredPlants)
           )}
         </div>
       </main>
@@ -191,6 +254,11 @@ export default function Plants() {
         onClose={() => setIsAddPlantModalOpen(false)}
         onAddPlant={handleAddPlant}
       />
+
+      <LocationsModal
+        isOpen={isLocationsModalOpen}
+        onClose={() => setIsLocationsModalOpen(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -2,7 +2,6 @@ import * as dotenv from 'dotenv';
 import './env'; // Load environment variables first
 import path from 'path'; 
 import { fileURLToPath } from 'url'; 
-import axios from 'axios';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -11,8 +10,17 @@ import { ClerkExpressRequireAuth, ClerkExpressWithAuth, clerkClient, type Requir
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import historyRouter from "./routes/history";
-import { initializeDatabase } from "./storage";
+import { initializeDatabase, storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
+import { startNotificationScheduler } from "./services/notificationService";
+import { startHealthSnapshotScheduler } from "./services/healthSnapshotService";
+import { setAiUsageStore } from "./services/aiUsageService";
+import { scheduleRecurringJob, startJobWorker } from "./services/jobQueue";
+import { startMqttBridge } from "./services/mqttBridge";
+import { registerJobHandlers, JOB_TYPES } from "./services/jobHandlers";
+import { PLANT_ENRICHMENT_INTERVAL_MS, SPECIES_REFRESH_INTERVAL_MS, getSpecies, searchSpecies, speciesToPlantFields } from "./services/speciesCatalogService";
+import { FROST_CHECK_INTERVAL_MS } from "./services/frostAlertService";
+import { PerenualUnavailableError, perenualUnavailableError, type PerenualSpeciesDetails } from "./services/perenualClient";
 
 const app = express();
 app.use(express.json());
@@ -23,10 +31,26 @@ app.use(ClerkExpressWithAuth());
 import { dbInstance } from './storage';
 import { z } from 'zod';
 import * as schema from '../shared/schema';
-import { plants as plantsTable, users as usersTable } from '../shared/schema';
+import { plants as plantsTable, users as usersTable, withoutOverriddenFields } from '../shared/schema';
 import { eq, and, sql, desc } from 'drizzle-orm';
 
-const CACHE_DURATION_DAYS = 7;
+// 503 with Retry-After when Perenual is out of quota, paused by the circuit breaker or not configured
+function sendPerenualUnavailable(res: Response, error: PerenualUnavailableError) {
+  if (error.retryAt) {
+    res.set('Retry-After', String(Math.max(1, Math.ceil((error.retryAt.getTime() - Date.now()) / 1000))));
+  }
+  return res.status(503).json({ message: 'Plant data is temporarily unavailable. Please try again later.', reason: error.reason, retryAt: error.retryAt });
+}
+
+// Fields the owner has overridden on their plant of this species; upserts leave those columns alone
+async function overriddenPlantFields(userId: number, perenualId: number | null | undefined) {
+  if (!perenualId) return null;
+  const existing = await dbInstance.query.plants.findFirst({
+    where: and(eq(plantsTable.userId, userId), eq(plantsTable.perenual_id, perenualId)),
+    columns: { userOverrides: true },
+  });
+  return existing?.userOverrides ?? null;
+}
 
 app.get('/api/plant-details/:plantName', ClerkExpressRequireAuth(), async (req: Request, res: Response, next: NextFunction) => {
   const { plantName } = req.params;
@@ -58,129 +82,32 @@ app.get('/api/plant-details/:plantName', ClerkExpressRequireAuth(), async (req:
     return res.status(400).json({ message: 'Plant name is required' });
   }
 
-  const apiKey = process.env.PERENUAL_API_KEY;
-  if (!apiKey) {
-    console.error('PERENUAL_API_KEY is not set in environment variables.');
-    log('PERENUAL_API_KEY is not set in environment variables.');
-    return res.status(500).json({ message: 'API key configuration error.' });
-  }
-
   try {
-    log(`Fetching species list for: ${plantName} from Perenual API`);
-    const speciesListOptions = {
-      method: 'GET',
-      url: 'https://perenual.com/api/v2/species-list',
-      params: {
-        key: apiKey,
-        q: plantName
-      }
-    };
-
-    const speciesListResponse = await axios.request(speciesListOptions);
-    log(`Successfully fetched species list for: ${plantName}. Status: ${speciesListResponse.status}`);
-
-    if (!speciesListResponse.data || !speciesListResponse.data.data || speciesListResponse.data.data.length === 0) {
-      log(`No plant found for: ${plantName} in Perenual species list.`);
+    log(`Searching species for: ${plantName}`);
+    const [bestMatch] = await searchSpecies(plantName, 10);
+    if (!bestMatch) {
+      const unavailable = perenualUnavailableError();
+      if (unavailable) return sendPerenualUnavailable(res, unavailable);
+      log(`No plant found for: ${plantName} in the species catalog or Perenual.`);
       return res.status(404).json({ message: `No plant found matching the name '${plantName}'.` });
     }
+    const plantId = bestMatch.perenualId;
 
-    const plantId = speciesListResponse.data.data[0].id;
-    if (!plantId) {
-      log(`Could not extract plant ID for: ${plantName} from species list response.`);
-      return res.status(500).json({ message: 'Failed to retrieve plant ID from Perenual API response.' });
-    }
-
-    log(`Fetching detailed information for plant ID: ${plantId} (name: ${plantName}) from Perenual API`);
-    const plantDetailsOptions = {
-      method: 'GET',
-      url: `https://perenual.com/api/v2/species/details/${plantId}`,
-      params: {
-        key: apiKey
-      }
-    };
-
-    // Check cache first using Perenual plant ID
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - CACHE_DURATION_DAYS);
-
-    const cachedPlant = await dbInstance.query.plants.findFirst({
-      where: and(
-        eq(plantsTable.perenual_id, plantId),
-        eq(plantsTable.userId, internalUserId),
-        // Optional: only return if last_api_sync is not null and recent
-        // sql`${plantsTable.last_api_sync} IS NOT NULL AND ${plantsTable.last_api_sync} > ${sevenDaysAgo.toISOString()}` 
-      )
-    });
-
-    if (cachedPlant && cachedPlant.last_api_sync && new Date(cachedPlant.last_api_sync) > sevenDaysAgo) {
-      log(`Returning cached data for Perenual ID: ${plantId}, user ID: ${internalUserId}`);
-      // TODO: Ensure the cachedPlant structure matches what the frontend expects
-      // For now, we assume it's compatible or we'd transform it here.
-      // The Perenual API response is nested under 'data', our cache is flat.
-      // We might need to re-fetch from Perenual if frontend expects exact API structure.
-      // For simplicity, let's return the cached data as is, assuming frontend can handle it or we adjust later.
-      return res.json(cachedPlant); 
+    // Details come from the shared species catalog; Perenual is only asked when the entry is missing or stale
+    const species = await getSpecies(plantId);
+    if (!species) {
+      log(`No details found for plant ID: ${plantId} (name: ${plantName}) in Perenual.`);
+      return res.status(404).json({ message: `No plant details found for '${plantName}'.` });
     }
-
-    log(`Fetching detailed information for plant ID: ${plantId} (name: ${plantName}) from Perenual API. Cache miss or stale.`);
-    const plantApiDetailsOptions = {
-      method: 'GET',
-      url: `https://perenual.com/api/v2/species/details/${plantId}`,
-      params: {
-        key: apiKey
-      }
-    };
-
-    const plantDetailsResponse = await axios.request(plantApiDetailsOptions);
-    log(`Successfully fetched detailed information for plant ID: ${plantId}. Status: ${plantDetailsResponse.status}`);
-    
-    const apiData = plantDetailsResponse.data;
+    const apiData = species.payload as PerenualSpeciesDetails;
 
     // Prepare data for DB upsert
     const plantDataToUpsert = {
       userId: internalUserId,
-      name: apiData.common_name || plantName, // Use common_name from API if available
-      perenual_id: apiData.id, 
-      scientific_name: apiData.scientific_name || [],
-      other_name: apiData.other_name || [],
-      family: apiData.family || null,
-      origin: apiData.origin || [],
-      type: apiData.type || null,
-      dimensions: apiData.dimensions || {},
-      cycle: apiData.cycle || null,
-      watering_general_benchmark: apiData.watering_general_benchmark || { value: null, unit: null },
-      sunlight: apiData.sunlight || [],
-      pruning_month: apiData.pruning_month || [],
-      hardiness: apiData.hardiness || { min: null, max: null },
-      flowers: apiData.flowers || false,
-      flowering_season: apiData.flowering_season || null,
-      soil: apiData.soil || [],
-      pest_susceptibility: apiData.pest_susceptibility || [],
-      cones: apiData.cones || false,
-      fruits: apiData.fruits || false,
-      edible_fruit: apiData.edible_fruit || false,
-      fruiting_season: apiData.fruiting_season || null,
-      leaf: apiData.leaf || false,
-      edible_leaf: apiData.edible_leaf || false,
-      growth_rate: apiData.growth_rate || null,
-      maintenance: apiData.maintenance || null,
-      medicinal: apiData.medicinal || false,
-      poisonous_to_humans: apiData.poisonous_to_humans || false,
-      poisonous_to_pets: apiData.poisonous_to_pets || false,
-      drought_tolerant: apiData.drought_tolerant || false,
-      salt_tolerant: apiData.salt_tolerant || false,
-      thorny: apiData.thorny || false,
-      invasive: apiData.invasive || false,
-      rare: apiData.rare || false,
-      tropical: apiData.tropical || false,
-      cuisine: apiData.cuisine || false,
-      indoor: apiData.indoor || false,
-      care_level: apiData.care_level || null,
-      description: apiData.description || null,
-      api_image_url: apiData.default_image?.regular_url || apiData.default_image?.original_url || null,
-      last_api_sync: new Date(),
-      // Original fields that might not be directly from Perenual but need defaults or to be preserved
-      species: apiData.scientific_name?.[0] || null, // Best guess for species
+      name: species.commonName || plantName, // Use common_name from API if available
+      speciesId: species.id,
+      ...speciesToPlantFields(apiData),
+      last_api_sync: species.lastApiSync,
       // imageUrl: user might upload this, keep separate or use api_image_url as default
       // acquiredDate: should be set when user adds plant to their collection
       // status: default 'healthy'
@@ -190,11 +117,12 @@ app.get('/api/plant-details/:plantName', ClerkExpressRequireAuth(), async (req:
     };
 
     try {
+      const overrides = await overriddenPlantFields(internalUserId, plantDataToUpsert.perenual_id);
       const result = await dbInstance.insert(plantsTable)
         .values(plantDataToUpsert)
         .onConflictDoUpdate({
           target: [plantsTable.userId, plantsTable.perenual_id],
-          set: { ...plantDataToUpsert, id: undefined }, // Exclude 'id' from set on update
+          set: { ...withoutOverriddenFields(plantDataToUpsert, overrides), id: undefined }, // Exclude 'id' from set on update
         })
         .returning();
       log(`Upserted plant data to DB for perenual_id: ${apiData.id}, user: ${internalUserId}`);
@@ -242,6 +170,7 @@ app.get('/api/plant-details/:plantName', ClerkExpressRequireAuth(), async (req:
 
 
   } catch (error: any) {
+    if (error instanceof PerenualUnavailableError) return sendPerenualUnavailable(res, error);
     console.error('Error fetching plant details from Perenual API:', error.response ? error.response.data : error.message);
     log(`Error fetching plant details for ${plantName} from Perenual API: ${error.message}`);
     
@@ -290,87 +219,37 @@ app.get('/api/perenual-details/:perenualId', ClerkExpressRequireAuth(), async (r
     return next(dbError);
   }
 
-  const apiKey = process.env.PERENUAL_API_KEY;
-  if (!apiKey) {
-    console.error('PERENUAL_API_KEY is not set in environment variables.');
-    log('PERENUAL_API_KEY is not set in environment variables.');
-    return res.status(500).json({ message: 'API key configuration error.' });
-  }
-
   try {
-    log(`Fetching detailed information for Perenual ID: ${perenualId} from Perenual API`);
-    const plantApiDetailsOptions = {
-      method: 'GET',
-      url: `https://perenual.com/api/v2/species/details/${perenualId}`,
-      params: { key: apiKey }
-    };
-
-    const plantDetailsResponse = await axios.request(plantApiDetailsOptions);
-    log(`Successfully fetched detailed information for Perenual ID: ${perenualId}. Status: ${plantDetailsResponse.status}`);
-    
-    const apiData = plantDetailsResponse.data;
-    if (!apiData || !apiData.id) {
+    log(`Fetching detailed information for Perenual ID: ${perenualId} from the species catalog`);
+    const species = await getSpecies(perenualId);
+    if (!species) {
         log(`No data or ID returned from Perenual for ID: ${perenualId}`);
         return res.status(404).json({ message: `No plant details found for Perenual ID '${perenualId}'.` });
     }
+    const apiData = species.payload as PerenualSpeciesDetails;
 
     // Prepare data for DB upsert
     const plantDataToUpsert = {
       userId: internalUserId,
-      name: apiData.common_name || `Plant ID ${apiData.id}`, // Use common_name or a placeholder
-      perenual_id: apiData.id,
-      scientific_name: apiData.scientific_name || [],
-      other_name: apiData.other_name || [],
-      family: apiData.family || null,
-      origin: apiData.origin || [],
-      type: apiData.type || null,
-      dimensions: apiData.dimensions || {},
-      cycle: apiData.cycle || null,
-      watering_general_benchmark: apiData.watering_general_benchmark || { value: null, unit: null },
-      sunlight: apiData.sunlight || [],
-      pruning_month: apiData.pruning_month || [],
-      hardiness: apiData.hardiness || { min: null, max: null },
-      flowers: apiData.flowers || false,
-      flowering_season: apiData.flowering_season || null,
-      soil: apiData.soil || [],
-      pest_susceptibility: apiData.pest_susceptibility || [],
-      cones: apiData.cones || false,
-      fruits: apiData.fruits || false,
-      edible_fruit: apiData.edible_fruit || false,
-      fruiting_season: apiData.fruiting_season || null,
-      leaf: apiData.leaf || false,
-      edible_leaf: apiData.edible_leaf || false,
-      growth_rate: apiData.growth_rate || null,
-      maintenance: apiData.maintenance || null,
-      medicinal: apiData.medicinal || false,
-      poisonous_to_humans: apiData.poisonous_to_humans || false,
-      poisonous_to_pets: apiData.poisonous_to_pets || false,
-      drought_tolerant: apiData.drought_tolerant || false,
-      salt_tolerant: apiData.salt_tolerant || false,
-      thorny: apiData.thorny || false,
-      invasive: apiData.invasive || false,
-      rare: apiData.rare || false,
-      tropical: apiData.tropical || false,
-      cuisine: apiData.cuisine || false,
-      indoor: apiData.indoor || false,
-      care_level: apiData.care_level || null,
-      description: apiData.description || null,
-      api_image_url: apiData.default_image?.regular_url || apiData.default_image?.original_url || null,
-      last_api_sync: new Date(),
-      species: apiData.scientific_name?.[0] || null,
+      name: species.commonName || `Plant ID ${apiData.id}`, // Use common_name or a placeholder
+      speciesId: species.id,
+      ...speciesToPlantFields(apiData),
+      last_api_sync: species.lastApiSync,
     };
 
+    const overrides = await overriddenPlantFields(internalUserId, plantDataToUpsert.perenual_id);
     const result = await dbInstance.insert(plantsTable)
       .values(plantDataToUpsert)
       .onConflictDoUpdate({
         target: [plantsTable.userId, plantsTable.perenual_id],
-        set: { ...plantDataToUpsert, id: undefined }, // Exclude 'id' from set on update
+        set: { ...withoutOverriddenFields(plantDataToUpsert, overrides), id: undefined }, // Exclude 'id' from set on update
       })
       .returning();
     log(`Upserted plant data to DB for perenual_id: ${apiData.id}, user: ${internalUserId} (via /api/perenual-details)`);
     res.json(result[0]); // Return the upserted data from DB
 
   } catch (error: any) {
+    if (error instanceof PerenualUnavailableError) return sendPerenualUnavailable(res, error);
     console.error(`Error in /api/perenual-details/${perenualIdParam}:`, error.response ? error.response.data : error.message);
     log(`Error in /api/perenual-details for Perenual ID ${perenualIdParam}: ${error.message}`);
     if (error.response && error.response.status && error.response.data) {
@@ -426,11 +305,13 @@ app.get('/api/plants/:plantId/health', ClerkExpressRequireAuth(), async (req: Re
 });
 
 
-// New endpoint to add a plant by common name
+// New endpoint to add a plant by common name (looked up on Perenual)
 const addPlantRequestBodySchema = z.object({
   commonName: z.string().min(1, { message: 'Common name is required' }),
+  perenualId: z.number().int().positive().optional(), // species chosen in the picker (GET /api/species/search)
 });
 
+// Plants entered by hand ({ name, ...care fields }) are created by POST /api/plants/custom in routes.ts
 app.post('/api/plants', ClerkExpressRequireAuth(), async (req: Request, res: Response, next: NextFunction) => {
   const validation = addPlantRequestBodySchema.safeParse(req.body);
   if (!validation.success) {
@@ -438,7 +319,7 @@ app.post('/api/plants', ClerkExpressRequireAuth(), async (req: Request, res: Res
     return res.status(400).json({ message: 'Invalid request body', errors: validation.error.errors });
   }
 
-  const { commonName } = validation.data;
+  const { commonName, perenualId } = validation.data;
   const clerkId = (req as RequireAuthProp<Request>).auth.userId;
 
   if (!clerkId) {
@@ -463,99 +344,69 @@ app.post('/api/plants', ClerkExpressRequireAuth(), async (req: Request, res: Res
     return next(dbError);
   }
 
-  const apiKey = process.env.PERENUAL_API_KEY;
-  if (!apiKey) {
-    console.error('PERENUAL_API_KEY is not set in environment variables for POST /api/plants.');
-    log('PERENUAL_API_KEY is not set for POST /api/plants.');
-    return res.status(500).json({ message: 'API key configuration error.' });
-  }
-
   try {
-    log(`POST /api/plants: Fetching species list for: ${commonName} from Perenual API`);
-    const speciesListResponse = await axios.request({
-      method: 'GET',
-      url: 'https://perenual.com/api/v2/species-list',
-      params: { key: apiKey, q: commonName }
-    });
-    log(`POST /api/plants: Successfully fetched species list for: ${commonName}. Status: ${speciesListResponse.status}`);
-
-    if (!speciesListResponse.data || !speciesListResponse.data.data || speciesListResponse.data.data.length === 0) {
-      log(`POST /api/plants: No plant found for: ${commonName} in Perenual species list.`);
-      return res.status(404).json({ message: `No plant found matching the name '${commonName}'.` });
-    }
+    // The add-plant picker sends the species the user confirmed; a bare name gets the best-ranked match.
+    // When Perenual can't be used (quota, circuit breaker, outage) the plant is added under the user's
+    // name alone and the enrichment job fills in the species details later.
+    let perenualPlantId = perenualId;
+    let species: schema.SpeciesCatalogEntry | undefined;
+    try {
+      if (!perenualPlantId) {
+        log(`POST /api/plants: Searching species for: ${commonName}`);
+        const [bestMatch] = await searchSpecies(commonName, 10);
+        if (!bestMatch) {
+          const unavailable = perenualUnavailableError();
+          if (unavailable) throw unavailable;
+          log(`POST /api/plants: No plant found for: ${commonName} in the species catalog or Perenual.`);
+          return res.status(404).json({ message: `No plant found matching the name '${commonName}'.` });
+        }
+        perenualPlantId = bestMatch.perenualId;
+      }
 
-    const perenualPlantId = speciesListResponse.data.data[0].id;
-    if (!perenualPlantId) {
-      log(`POST /api/plants: Could not extract plant ID for: ${commonName} from species list response.`);
-      return res.status(500).json({ message: 'Failed to retrieve plant ID from Perenual API response.' });
+      log(`POST /api/plants: Loading species ${perenualPlantId} (name: ${commonName}) from the species catalog`);
+      species = await getSpecies(perenualPlantId);
+      if (!species) {
+        log(`POST /api/plants: No details found for Perenual plant ID: ${perenualPlantId}`);
+        return res.status(404).json({ message: `No plant details found for '${commonName}'.` });
+      }
+    } catch (lookupError: any) {
+      if (!(lookupError instanceof PerenualUnavailableError) && !lookupError.isAxiosError) throw lookupError;
+      log(`POST /api/plants: ${lookupError.message}; adding '${commonName}' without species details for now`);
     }
 
-    log(`POST /api/plants: Fetching detailed information for Perenual plant ID: ${perenualPlantId} (name: ${commonName})`);
-    const plantDetailsResponse = await axios.request({
-      method: 'GET',
-      url: `https://perenual.com/api/v2/species/details/${perenualPlantId}`,
-      params: { key: apiKey }
-    });
-    log(`POST /api/plants: Successfully fetched detailed information for Perenual plant ID: ${perenualPlantId}. Status: ${plantDetailsResponse.status}`);
-    
-    const apiData = plantDetailsResponse.data;
-
-    const plantDataForDb: schema.InsertPlant = {
+    const plantDataForDb: schema.InsertPlant = species ? {
       userId: internalUserId,
-      name: apiData.common_name || commonName,
-      perenual_id: apiData.id,
-      scientific_name: apiData.scientific_name || [],
-      other_name: apiData.other_name || [],
-      family: apiData.family || null,
-      origin: apiData.origin || [],
-      type: apiData.type || null,
-      dimensions: apiData.dimensions || {},
-      cycle: apiData.cycle || null,
-      watering_general_benchmark: apiData.watering_general_benchmark || { value: null, unit: null },
-      sunlight: apiData.sunlight || [],
-      pruning_month: apiData.pruning_month || [],
-      hardiness: apiData.hardiness || { min: null, max: null },
-      flowers: apiData.flowers || false,
-      flowering_season: apiData.flowering_season || null,
-      soil: apiData.soil || [],
-      pest_susceptibility: apiData.pest_susceptibility || [],
-      cones: apiData.cones || false,
-      fruits: apiData.fruits || false,
-      edible_fruit: apiData.edible_fruit || false,
-      fruiting_season: apiData.fruiting_season || null,
-      leaf: apiData.leaf || false,
-      edible_leaf: apiData.edible_leaf || false,
-      growth_rate: apiData.growth_rate || null,
-      maintenance: apiData.maintenance || null,
-      medicinal: apiData.medicinal || false,
-      poisonous_to_humans: apiData.poisonous_to_humans || false,
-      poisonous_to_pets: apiData.poisonous_to_pets || false,
-      drought_tolerant: apiData.drought_tolerant || false,
-      salt_tolerant: apiData.salt_tolerant || false,
-      thorny: apiData.thorny || false,
-      invasive: apiData.invasive || false,
-      rare: apiData.rare || false,
-      tropical: apiData.tropical || false,
-      cuisine: apiData.cuisine || false,
-      indoor: apiData.indoor || false,
-      care_level: apiData.care_level || null,
-      description: apiData.description || null,
-      api_image_url: apiData.default_image?.regular_url || apiData.default_image?.original_url || null,
-      last_api_sync: new Date(),
+      name: species.commonName || commonName,
+      speciesId: species.id,
+      ...speciesToPlantFields(species.payload as PerenualSpeciesDetails),
+      perenual_id: species.perenualId,
+      last_api_sync: species.lastApiSync,
+      needsEnrichment: false,
       acquiredDate: new Date(), // Set for new plant
       status: 'healthy', // Default status
-      species: apiData.scientific_name?.[0] || null,
       // User-specific fields are null/default initially
       lastWatered: null,
       waterFrequencyDays: null,
       notes: null,
+    } : {
+      userId: internalUserId,
+      name: commonName,
+      perenual_id: perenualPlantId ?? null, // kept so enrichment fetches the species the user picked
+      needsEnrichment: true,
+      acquiredDate: new Date(),
+      status: 'healthy',
+      lastWatered: null,
+      waterFrequencyDays: null,
+      notes: null,
     };
 
     // Prepare data for update, excluding conflict targets and acquiredDate (which should not change on conflict)
     const { userId, perenual_id, acquiredDate, ...updateDataPayload } = plantDataForDb;
     // Ensure last_api_sync is always updated, and other fields are taken from plantDataForDb for update
+    // Fields the owner has overridden on an existing plant of this species are left as they are
+    const overrides = await overriddenPlantFields(internalUserId, perenual_id);
     const finalUpdateData = {
-        ...updateDataPayload,
+        ...withoutOverriddenFields(updateDataPayload, overrides),
         last_api_sync: new Date() // Always update sync time
     };
 
@@ -567,52 +418,27 @@ app.post('/api/plants', ClerkExpressRequireAuth(), async (req: Request, res: Res
       })
       .returning();
 
-    log(`POST /api/plants: Upserted plant data to DB for perenual_id: ${apiData.id}, user: ${internalUserId}`);
+    log(`POST /api/plants: Upserted plant data to DB for perenual_id: ${plantDataForDb.perenual_id}, user: ${internalUserId}`);
     
-    // After upserting, create or update health metrics
+    // After upserting, score the plant's health from its actual care data
     if (result[0] && result[0].id) {
       try {
-        await dbInstance.insert(schema.plantHealthMetrics)
-          .values({ plantId: result[0].id, waterLevel: 100, lightLevel: 100, overallHealth: 100 }) // Default health values
-          .onConflictDoUpdate({
-            target: schema.plantHealthMetrics.plantId,
-            set: { waterLevel: 100, lightLevel: 100, overallHealth: 100, updatedAt: new Date() } // Reset/update to default on conflict
-          });
-        log(`POST /api/plants: Ensured health metrics for plant ID: ${result[0].id}`);
+        await storage.updatePlantHealthMetrics(result[0].id.toString());
+        log(`POST /api/plants: Computed health metrics for plant ID: ${result[0].id}`);
       } catch (healthMetricsError) {
-        console.error(`POST /api/plants: Error ensuring health metrics for plant ID ${result[0].id}:`, healthMetricsError);
-        log(`POST /api/plants: Error ensuring health metrics for plant ID ${result[0].id}: ${healthMetricsError}`);
+        console.error(`POST /api/plants: Error computing health metrics for plant ID ${result[0].id}:`, healthMetricsError);
+        log(`POST /api/plants: Error computing health metrics for plant ID ${result[0].id}: ${healthMetricsError}`);
         // Do not fail the request for this, but log it.
       }
     }
-    // --- Auto-create watering task after upsert if plant is new ---
+    // --- Seed the recurring care schedule (watering, fertilizing, pruning, ...) ---
     try {
       if (result[0] && result[0].id) {
-        let dueDate = new Date();
-        if (typeof result[0].waterFrequencyDays === 'number' && result[0].waterFrequencyDays > 0) {
-          dueDate.setDate(dueDate.getDate() + result[0].waterFrequencyDays);
-        }
-        const existingTasks = await dbInstance.select().from(schema.plantCareTasks)
-          .where(and(
-            eq(schema.plantCareTasks.plantId, result[0].id.toString()),
-            eq(schema.plantCareTasks.type, 'watering')
-          ));
-        if (!existingTasks || existingTasks.length === 0) {
-          await dbInstance.insert(schema.plantCareTasks).values({
-            id: crypto.randomUUID(),
-            plantId: result[0].id.toString(),
-            type: 'watering',
-            status: 'pending',
-            dueDate,
-            completedAt: null,
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          });
-          log(`[index.ts] Auto-created watering task for plant ID: ${result[0].id} with due date: ${dueDate}`);
-        }
+        const seededTasks = await storage.ensureCareSchedule(result[0].id.toString());
+        log(`[index.ts] Seeded ${seededTasks.length} care tasks for plant ID: ${result[0].id}`);
       }
     } catch (taskErr) {
-      console.error(`[index.ts] Error auto-creating watering task for plant ID: ${result[0]?.id}`, taskErr);
+      console.error(`[index.ts] Error seeding care schedule for plant ID: ${result[0]?.id}`, taskErr);
     }
     res.status(201).json(result[0]); // Return the upserted data from DB
 
@@ -663,6 +489,9 @@ app.use((req, res, next) => {
 
 (async () => {
   await initializeDatabase();
+  // Keep the AI response cache and token usage in Postgres rather than process memory
+  setAiUsageStore(storage);
+  registerJobHandlers();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -688,6 +517,21 @@ app.use((req, res, next) => {
     }, () => {
       console.log(`Server running at http://localhost:${port}`);
     });
+
+    // Due-task digests; serverless deployments would trigger runNotificationCycle from a cron instead
+    startNotificationScheduler();
+    // Daily health snapshots; same cron caveat, via refreshAllPlantHealth
+    startHealthSnapshotScheduler();
+    // Background jobs (recommendation generation etc.); serverless would call runDueJobs from a cron
+    startJobWorker();
+    // Species catalog entries past CACHE_DURATION_DAYS are re-fetched in batches by a queued job
+    scheduleRecurringJob(JOB_TYPES.refreshSpeciesCatalog, SPECIES_REFRESH_INTERVAL_MS);
+    // Plants added while Perenual was unavailable get their species details once it's back
+    scheduleRecurringJob(JOB_TYPES.enrichPendingPlants, PLANT_ENRICHMENT_INTERVAL_MS);
+    // Frost alerts for outdoor plants, raised ahead of cold nights even for users who don't open the app
+    scheduleRecurringJob(JOB_TYPES.frostCheck, FROST_CHECK_INTERVAL_MS);
+    // Home-automation sensor feeds (Home Assistant, Zigbee2MQTT); only runs when MQTT_URL is set
+    startMqttBridge().catch(error => console.error('[index.ts] Failed to start MQTT bridge:', error));
   }
 })();
 
@@ -3,7 +3,6 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { 
   insertUserSchema, 
-  insertPlantSchema, 
   insertEnvironmentReadingSchema, 
   insertCareHistorySchema,
   insertRecommendationSchema,
@@ -15,52 +14,77 @@ import {
 import { ZodError } from "zod";
 import { clerkClient, ClerkExpressRequireAuth } from '@clerk/clerk-sdk-node';
 import { generatePlantRecommendations, generateAiCareTips, generateGeneralDashboardTip } from "./services/aiService"; // GeminiPlantData and EnvironmentData are now imported from shared/schema
-import fetch from 'node-fetch'; // Or your preferred HTTP client
-import { insertPlantCareTaskSchema } from '@shared/schema';
-
-// Interface for the expected OpenMeteo API response structure
-interface OpenMeteoCurrentData {
-  temperature_2m: number | null;
-  relative_humidity_2m: number | null;
-  precipitation: number | null;
-  weather_code: number | null;
-  wind_speed_10m: number | null;
-}
-
-interface OpenMeteoApiResponse {
-  current?: OpenMeteoCurrentData;
-  // Add other top-level fields like 'daily' if needed elsewhere
-  latitude: number;
-  longitude: number;
-  generationtime_ms: number;
-  utc_offset_seconds: number;
-  timezone: string;
-  timezone_abbreviation: string;
-  elevation: number;
-  current_units?: { // Make current_units optional as it might not always be present
-    time: string;
-    interval: string;
-    temperature_2m: string;
-    relative_humidity_2m: string;
-    precipitation: string;
-    weather_code: string;
-  };
-}
-
-// Helper function to determine season
-function getSeason(date: Date): string {
-  const month = date.getMonth(); // 0 (Jan) to 11 (Dec)
+import { createCustomPlantSchema, updatePlantSchema, overriddenFieldsIn, type UpdatePlant } from '@shared/schema';
+import { insertPlantCareTaskSchema, insertCareScheduleRuleSchema, updateUserProfileSchema, updateNotificationPreferencesSchema, insertPushSubscriptionSchema, environmentHistoryQuerySchema, recommendationFilterSchema } from '@shared/schema';
+import { buildCareRules } from "./services/careScheduleService";
+import { fetchForecast } from "./services/weatherService";
+import { applyWeatherAdjustments } from "./services/weatherAdjustmentService";
+import { resolveLocation } from "./services/locationService";
+import { checkFrostAlerts } from "./services/frostAlertService";
+import { startOfTodayIn } from "./services/timezoneService";
+import { evaluateEnvironmentReadings } from "./services/environmentAlertService";
+import { buildCareCalendar } from "./services/calendarService";
+import { checkWebhookUrl } from "./services/notificationChannels";
+import { speciesToPlantFields } from "./services/speciesCatalogService";
+import type { PerenualSpeciesDetails } from "./services/perenualClient";
+import { authorizePlant, isOwnLocation } from "./routes/plantAccess";
+
+// Helper function to determine season (seasons are flipped south of the equator)
+function getSeason(date: Date, latitude: number = 0): string {
+  const month = latitude < 0 ? (date.getMonth() + 6) % 12 : date.getMonth(); // 0 (Jan) to 11 (Dec)
   if (month >= 2 && month <= 4) return "Spring"; // Mar, Apr, May
   if (month >= 5 && month <= 7) return "Summer"; // Jun, Jul, Aug
   if (month >= 8 && month <= 10) return "Autumn"; // Sep, Oct, Nov
   return "Winter"; // Dec, Jan, Feb
 }
 
+// First day to include for a ?days= health history window (default 30, capped at a year)
+function healthHistoryStart(daysParam: unknown): Date {
+  const days = Math.min(365, Math.max(1, parseInt(String(daysParam ?? ''), 10) || 30));
+  const start = new Date();
+  start.setDate(start.getDate() - (days - 1));
+  return start;
+}
+
 import historyRouter from "./routes/history";
+import photosRouter from "./routes/photos";
+import measurementsRouter from "./routes/measurements";
+import chatRouter from "./routes/chat";
+import aiUsageRouter, { limitAiRequests } from "./routes/aiUsage";
+import jobsRouter from "./routes/jobs";
+import recommendationsRouter from "./routes/recommendations";
+import speciesRouter from "./routes/species";
+import locationsRouter from "./routes/locations";
+import devicesRouter from "./routes/devices";
+import mqttRouter from "./routes/mqtt";
+import environmentAlertsRouter from "./routes/environmentAlerts";
+import { queueRecommendationRun } from "./services/jobHandlers";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Register plant activity history API endpoint
   app.use("/api/history", historyRouter);
+  // Plant photo journal (upload, timeline, files)
+  app.use("/api", photosRouter);
+  // Growth measurements and growth-rate analysis
+  app.use("/api", measurementsRouter);
+  // Per-plant assistant chat (streamed over SSE) and saved conversations
+  app.use("/api", chatRouter);
+  // Today's AI token usage against the daily quota
+  app.use("/api", aiUsageRouter);
+  // Background job status, for polling queued work such as recommendation generation
+  app.use("/api", jobsRouter);
+  // Dismiss, snooze and rate recommendations
+  app.use("/api", recommendationsRouter);
+  // Species search for picking the exact species when adding a plant
+  app.use("/api", speciesRouter);
+  // Rooms, balconies and garden beds that plants and environment readings belong to
+  app.use("/api", locationsRouter);
+  // Sensor devices and their API-key-authenticated reading ingestion
+  app.use("/api", devicesRouter);
+  // MQTT topic-to-device mappings for the optional broker bridge, and its status
+  app.use("/api", mqttRouter);
+  // Per-plant environment thresholds and the alerts raised when readings cross them
+  app.use("/api", environmentAlertsRouter);
   // Helper function to validate request body
   function validateBody(schema: any, body: any) {
     try {
@@ -147,7 +171,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // New route for AI-powered plant care tips
-  app.post('/api/plants/:id/ai-care-tips', ClerkExpressRequireAuth(), async (req: any, res) => {
+  app.post('/api/plants/:id/ai-care-tips', ClerkExpressRequireAuth(), limitAiRequests, async (req: any, res) => {
     try {
       if (!req.auth || !req.auth.userId) {
         return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated' });
@@ -163,18 +187,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'Plant not found' });
       }
 
-      // Fetch current weather data (reusing the existing weather endpoint logic for simplicity)
-      // In a real app, you might get location from user profile or plant's location settings
-      const defaultLatitude = 21.37; // Nandurbar, India (example)
-      const defaultLongitude = 74.25;
-      const weatherResponse = await fetch(`https://api.open-meteo.com/v1/forecast?latitude=${defaultLatitude}&longitude=${defaultLongitude}&current=temperature_2m,relative_humidity_2m,precipitation,weather_code&timezone=auto`);
-      if (!weatherResponse.ok) {
-        console.error(`Error fetching weather data for AI tips: ${weatherResponse.statusText}`);
-        // Proceed with default/empty weather data or return an error
+      const clerkUserId = req.auth.userId; // Clerk ID is a string
+      const user = await storage.getUserByClerkId(clerkUserId);
+
+      if (!user) {
+        // This case should ideally be rare if ClerkExpressRequireAuth is working
+        // and user exists in our DB, but good to handle.
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+
+      // Fetch current weather for the user's saved location (falls back to the default location)
+      const location = resolveLocation(await storage.getUserProfile(user.id.toString()));
+      let weatherData;
+      try {
+        weatherData = await fetchForecast(location.latitude, location.longitude);
+      } catch (weatherError) {
+        console.error('Error fetching weather data for AI tips:', weatherError);
         // For now, let's send a specific error if weather fails, as it's crucial for the tips
         return res.status(503).json({ error: 'Failed to fetch weather data for care tips.' });
       }
-      const weatherData = await weatherResponse.json() as OpenMeteoApiResponse;
       const currentWeatherData: EnvironmentData = {
         temperature: weatherData.current?.temperature_2m ?? null,
         humidity: weatherData.current?.relative_humidity_2m ?? null,
@@ -183,7 +214,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       const currentDate = new Date();
-      const season = getSeason(currentDate);
+      const season = getSeason(currentDate, location.latitude);
       const plantType = plant.species || plant.name; // Use species if available, otherwise name
 
       const plantForAi: PlantData = {
@@ -192,32 +223,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         waterFrequencyDays: plant.waterFrequencyDays,
         // TODO: Confirm if plant object from storage.getPlantById() consistently includes lightRequirement.
         lastWatered: plant.lastWatered,
+        watering_general_benchmark: plant.watering_general_benchmark,
+        sunlight: plant.sunlight,
+        indoor: plant.indoor,
+        drought_tolerant: plant.drought_tolerant,
+        tropical: plant.tropical,
       };
-      const aiTipString = await generateAiCareTips(plantForAi, currentWeatherData, season, "General Plant Care");
-
-      // Save the generated tips to the database
-      const clerkUserId = req.auth.userId; // Clerk ID is a string
-      const user = await storage.getUserByClerkId(clerkUserId);
-
-      if (!user) {
-        // This case should ideally be rare if ClerkExpressRequireAuth is working
-        // and user exists in our DB, but good to handle.
-        return res.status(404).json({ error: 'User not found in local database.' });
-      }
-
-      let tipsToSaveAndReturn = [];
-      if (aiTipString && typeof aiTipString === 'string') {
-        tipsToSaveAndReturn.push({ category: "AI Reminder", tip: aiTipString });
-        // Assuming storage.saveAiCareTips expects an array of objects with category and tip
-        await storage.saveAiCareTips(plantId, user.id.toString(), tipsToSaveAndReturn);
-      } else {
-        // Handle the case where aiTipString is null or not a string (e.g., AI generation failed)
-        // We can return an empty array or a specific message.
-        // For now, let's log and return an empty array to maintain structure if client expects array.
-        console.warn(`[AI Care Tips Route - Plant ID: ${req.params.id}] AI tip string was not generated, skipping save.`);
-      }
+      // Tips come back validated (or from the rule-based fallback), so they can be saved as-is
+      const tips = await generateAiCareTips(plantForAi, currentWeatherData, season, "General Plant Care", location, user.id);
+      await storage.saveAiCareTips(plantId, user.id.toString(), tips);
 
-      return res.json(tipsToSaveAndReturn);
+      return res.json(tips);
 
     } catch (error) {
       return handleError(res, error, `[AI Care Tips Route - Plant ID: ${req.params.id}]`);
@@ -249,20 +265,173 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Location profile routes
+  app.get('/api/profile/location', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for GET /api/profile/location' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+
+      const profile = await storage.getUserProfile(appUser.id.toString());
+      return res.json(resolveLocation(profile));
+    } catch (error) {
+      return handleError(res, error, 'Failed to get location profile');
+    }
+  });
+
+  app.put('/api/profile/location', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for PUT /api/profile/location' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+
+      const { data: validatedBody, error: validationError } = validateBody(updateUserProfileSchema, req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const profile = await storage.upsertUserProfile(appUser.id.toString(), validatedBody);
+      return res.json(resolveLocation(profile));
+    } catch (error) {
+      return handleError(res, error, 'Failed to update location profile');
+    }
+  });
+
+  // Notification routes
+  app.get('/api/notifications/preferences', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for GET /api/notifications/preferences' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+
+      const prefs = await storage.getNotificationPreferences(appUser.id.toString());
+      // Defaults mirror what the scheduler assumes when nothing is saved
+      return res.json(prefs ?? {
+        userId: appUser.id,
+        emailEnabled: true,
+        pushEnabled: false,
+        webhookEnabled: false,
+        webhookUrl: null,
+        quietHoursStart: null,
+        quietHoursEnd: null,
+      });
+    } catch (error) {
+      return handleError(res, error, 'Failed to get notification preferences');
+    }
+  });
+
+  app.put('/api/notifications/preferences', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for PUT /api/notifications/preferences' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+
+      const { data: validatedBody, error: validationError } = validateBody(updateNotificationPreferencesSchema, req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+      if (validatedBody.webhookUrl) {
+        const webhookProblem = await checkWebhookUrl(validatedBody.webhookUrl);
+        if (webhookProblem) {
+          return res.status(400).json({ error: webhookProblem });
+        }
+      }
+      if (validatedBody.webhookEnabled && !validatedBody.webhookUrl) {
+        const existing = await storage.getNotificationPreferences(appUser.id.toString());
+        if (!existing?.webhookUrl) {
+          return res.status(400).json({ error: 'webhookUrl is required to enable webhook notifications' });
+        }
+      }
+
+      const prefs = await storage.upsertNotificationPreferences(appUser.id.toString(), validatedBody);
+      return res.json(prefs);
+    } catch (error) {
+      return handleError(res, error, 'Failed to update notification preferences');
+    }
+  });
+
+  // Public VAPID key the browser needs to create a push subscription
+  app.get('/api/notifications/vapid-public-key', ClerkExpressRequireAuth(), async (_req: any, res) => {
+    const publicKey = process.env.VAPID_PUBLIC_KEY;
+    if (!publicKey) {
+      return res.status(503).json({ error: 'Web push is not configured on this server.' });
+    }
+    return res.json({ publicKey });
+  });
+
+  app.post('/api/notifications/push-subscriptions', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for POST /api/notifications/push-subscriptions' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+
+      const { data: validatedBody, error: validationError } = validateBody(insertPushSubscriptionSchema, req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const subscription = await storage.savePushSubscription(appUser.id.toString(), validatedBody);
+      return res.status(201).json({ id: subscription.id, endpoint: subscription.endpoint });
+    } catch (error) {
+      return handleError(res, error, 'Failed to save push subscription');
+    }
+  });
+
+  app.delete('/api/notifications/push-subscriptions', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for DELETE /api/notifications/push-subscriptions' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+      if (!req.body?.endpoint || typeof req.body.endpoint !== 'string') {
+        return res.status(400).json({ error: 'endpoint is required' });
+      }
+
+      await storage.deletePushSubscription(req.body.endpoint, appUser.id.toString());
+      return res.status(204).send();
+    } catch (error) {
+      return handleError(res, error, 'Failed to remove push subscription');
+    }
+  });
+
   // Weather route
   app.get('/api/weather', ClerkExpressRequireAuth(), async (req: any, res) => {
     try {
-      // TODO: Get latitude and longitude from user's profile or request
-      // Default location set to Nandurbar, India
-      const latitude = 21.37;
-      const longitude = 74.25;
+      const appUser = req.auth?.userId ? await storage.getUserByClerkId(req.auth.userId) : undefined;
+      const location = resolveLocation(appUser ? await storage.getUserProfile(appUser.id.toString()) : undefined);
+      const weatherData = await fetchForecast(location.latitude, location.longitude);
 
-      const weatherResponse = await fetch(`https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,relative_humidity_2m,apparent_temperature,precipitation,weather_code,wind_speed_10m,soil_moisture_0_to_10cm&hourly=temperature_2m,relative_humidity_2m,weather_code&daily=weather_code,temperature_2m_max,temperature_2m_min,sunrise,sunset,precipitation_sum,precipitation_probability_max&timezone=auto`);
-      if (!weatherResponse.ok) {
-        throw new Error(`Error fetching weather data: ${weatherResponse.statusText}`);
+      // Re-plan outdoor watering against the forecast we already have; never block the weather response on it
+      if (appUser) {
+        applyWeatherAdjustments(appUser.id.toString(), weatherData).catch(adjustError => {
+          console.error('[routes.ts] /api/weather: Failed to apply weather adjustments:', adjustError);
+        });
       }
-      const weatherData = await weatherResponse.json();
-      return res.json(weatherData);
+
+      return res.json({ ...weatherData, location });
     } catch (error) {
       return handleError(res, error);
     }
@@ -334,7 +503,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // New route for plant recommendations
-  app.post('/api/plants/:id/recommendations', ClerkExpressRequireAuth(), async (req: any, res) => {
+  app.post('/api/plants/:id/recommendations', ClerkExpressRequireAuth(), limitAiRequests, async (req: any, res) => {
     try {
       if (!req.auth || !req.auth.userId) {
         return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated' });
@@ -372,10 +541,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: 'Forbidden', details: 'Plant does not belong to the authenticated user.' });
       }
 
-      // Fetch latest environment data for the user
+      // Fetch the latest environment data for the plant's location, or the user's when it has none
       // This might not have soil_moisture_0_to_10cm, which generatePlantRecommendations uses.
       // We'll pass what we have. The AI service might need to handle missing data gracefully.
-      const latestEnvReading = await storage.getLatestEnvironmentReadingByUserId(appUser.id.toString());
+      const latestEnvReading = await storage.getEnvironmentForPlant(plant);
 
       const environmentForAi: EnvironmentData = {
         temperature: latestEnvReading?.temperature ?? null,
@@ -390,12 +559,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         species: plant.species,
         waterFrequencyDays: plant.waterFrequencyDays,
         lastWatered: plant.lastWatered ? new Date(plant.lastWatered) : null,
+        watering_general_benchmark: plant.watering_general_benchmark,
+        sunlight: plant.sunlight,
+        indoor: plant.indoor,
+        drought_tolerant: plant.drought_tolerant,
+        tropical: plant.tropical,
         // lightRequirement: plant.lightRequirement, // Include if part of your PlantData and available
         // location: plant.location, // Include if available
         // notes: plant.notes, // Include if available
       };
 
-      const recommendations = await generatePlantRecommendations(plantForAi, environmentForAi);
+      const location = resolveLocation(await storage.getUserProfile(appUser.id.toString()));
+      const recommendations = await generatePlantRecommendations(plantForAi, environmentForAi, location, appUser.id);
       
       // Optionally, save these recommendations to the database
       // For now, just returning them to the client
@@ -420,7 +595,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // New route for general AI-generated plant tip
-  app.get('/api/ai-general-tip', ClerkExpressRequireAuth(), async (req, res) => {
+  app.get('/api/ai-general-tip', ClerkExpressRequireAuth(), limitAiRequests, async (req, res) => {
     console.log('[routes.ts] /api/ai-general-tip: Route handler started.');
     try {
       if (!req.auth || !req.auth.userId) {
@@ -429,23 +604,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       console.log('[routes.ts] /api/ai-general-tip: User authenticated with Clerk ID:', req.auth.userId);
 
-      const weatherResponse = await fetch('https://api.open-meteo.com/v1/forecast?latitude=52.52&longitude=13.41&current=temperature_2m,relative_humidity_2m,precipitation,weather_code,wind_speed_10m&daily=weather_code,temperature_2m_max,temperature_2m_min,precipitation_sum,precipitation_probability_max&timezone=auto');
-      if (!weatherResponse.ok) {
-        console.error('[routes.ts] /api/ai-general-tip: Failed to fetch weather data. Status:', weatherResponse.status);
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      const location = resolveLocation(appUser ? await storage.getUserProfile(appUser.id.toString()) : undefined);
+      let weatherData;
+      try {
+        weatherData = await fetchForecast(location.latitude, location.longitude);
+      } catch (weatherError) {
+        console.error('[routes.ts] /api/ai-general-tip: Failed to fetch weather data:', weatherError);
         return res.status(503).json({ error: 'Failed to fetch weather data for AI tip.' });
       }
-      const weatherData = await weatherResponse.json() as OpenMeteoApiResponse;
       const currentWeatherData: EnvironmentData = {
         temperature: weatherData.current?.temperature_2m ?? null,
         humidity: weatherData.current?.relative_humidity_2m ?? null,
         lightLevel: null, // EnvironmentData requires lightLevel; OpenMeteo current data doesn't provide it
         soil_moisture_0_to_10cm: null, // Optional in EnvironmentData, keeping as null
       };
-      const season = getSeason(new Date()); 
+      const season = getSeason(new Date(), location.latitude);
       console.log('[routes.ts] /api/ai-general-tip: Fetched weather and season. Weather:', currentWeatherData, 'Season:', season);
 
       console.log('[routes.ts] /api/ai-general-tip: Calling generateGeneralDashboardTip with weather:', currentWeatherData, 'season:', season);
-      const tip = await generateGeneralDashboardTip(currentWeatherData, season);
+      const tip = await generateGeneralDashboardTip(currentWeatherData, season, location, appUser?.id);
       console.log('[routes.ts] /api/ai-general-tip: Received tip from service:', tip);
 
       if (tip) {
@@ -461,19 +639,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/plants', ClerkExpressRequireAuth(), async (req: any, res) => {
-    console.log(`[routes.ts] POST /api/plants - Route handler started. Storage type from import: ${storage.constructor.name}`); // Log storage type
+  // Body: { name, ...any care fields } - a plant entered by hand, without a Perenual species
+  app.post('/api/plants/custom', ClerkExpressRequireAuth(), async (req: any, res) => {
     try {
       if (!req.auth || !req.auth.userId) {
         return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated' });
       }
       const clerkId = req.auth.userId; // This is the Clerk User ID
 
-      // Validate request body using Zod schema (omitting userId as it's derived from auth)
-      const { data: validatedBody, error: validationError } = validateBody(
-        insertPlantSchema.omit({ userId: true }),
-        req.body
-      );
+      // A plant entered by hand: name plus whatever care parameters the user knows
+      const { data: validatedBody, error: validationError } = validateBody(createCustomPlantSchema, req.body);
 
       if (validationError) {
         return res.status(400).json({ error: 'Invalid plant data', details: validationError });
@@ -485,7 +660,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'User not found in Clerk' });
       }
 
-      console.log(`[routes.ts] POST /api/plants - Calling storage.getOrCreateUserByClerkId for clerkId: ${clerkId}`);
       // Get or create user in local database
       const appUser = await storage.getOrCreateUserByClerkId(clerkId, {
         email: clerkUser.emailAddresses.find(e => e.id === clerkUser.primaryEmailAddressId)?.emailAddress || '',
@@ -493,144 +667,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
         firstName: clerkUser.firstName,
         lastName: clerkUser.lastName,
       });
-      console.log(`[routes.ts] POST /api/plants - appUser from storage: ${JSON.stringify(appUser)}`);
-
 
       if (!appUser || typeof appUser.id !== 'number' || appUser.id <= 0) { // More robust check for valid ID
-        console.error(`[routes.ts] POST /api/plants - Invalid appUser or appUser.id: ${appUser?.id}`);
+        console.error(`[routes.ts] POST /api/plants/custom - Invalid appUser id: ${appUser?.id}`);
         return res.status(500).json({ error: 'Failed to get or create a valid local user record' });
       }
+      if (!(await isOwnLocation(appUser.id, validatedBody.locationId))) {
+        return res.status(400).json({ error: 'Unknown location' });
+      }
       
-      // Construct the plant data for database insertion
+      // Construct the plant data for database insertion. Every species field given counts as a user
+      // override, so linking a species later won't replace it.
       const plantDataForDb: InsertPlant = {
-        name: validatedBody.name!, // name is required by schema, so validatedBody.name is string
-        userId: appUser.id,        // from appUser
-        species: validatedBody.species,          // string | undefined from Zod schema
-        api_image_url: validatedBody.imageUrl,   // string | undefined from Zod schema, mapped to api_image_url
-        acquiredDate: validatedBody.acquiredDate,  // Date | undefined from Zod schema
-        status: validatedBody.status,            // string | undefined from Zod schema
-        // lastWatered is Date | undefined from Zod schema, default to new Date() if undefined
+        ...validatedBody,
+        userId: appUser.id,
+        userOverrides: overriddenFieldsIn(validatedBody),
+        // lastWatered defaults to now when not given
         lastWatered: validatedBody.lastWatered === undefined ? new Date() : validatedBody.lastWatered,
       };
-      console.log(`[routes.ts] POST /api/plants - Plant data for DB (plantDataForDb): ${JSON.stringify(plantDataForDb)}`);
-
-      console.log(`[routes.ts] POST /api/plants - About to call storage.createPlant. Storage type: ${storage.constructor.name}`);
       const plant = await storage.createPlant(plantDataForDb);
-      console.log(`[routes.ts] POST /api/plants - Plant object received from storage.createPlant: ${JSON.stringify(plant)}`);
 
       // Create initial care tasks and recommendations for the new plant
       if (plant && plant.id) {
         try {
-          // Create watering task
-          const wateringDueDate = new Date();
-          wateringDueDate.setDate(wateringDueDate.getDate() + 7); // Due in 7 days
-          await storage.createPlantCareTask({
-            plantId: plant.id.toString(),
-            type: 'watering',
-            dueDate: wateringDueDate,
-            status: 'pending'
-          });
-
-          // Create fertilizing task
-          const fertilizingDueDate = new Date();
-          fertilizingDueDate.setDate(fertilizingDueDate.getDate() + 30); // Due in 30 days
-          await storage.createPlantCareTask({
-            plantId: plant.id.toString(),
-            type: 'fertilizing',
-            dueDate: fertilizingDueDate,
-            status: 'pending'
-          });
-
-          // Create pruning task
-          const pruningDueDate = new Date();
-          pruningDueDate.setDate(pruningDueDate.getDate() + 90); // Due in 90 days
-          await storage.createPlantCareTask({
-            plantId: plant.id.toString(),
-            type: 'pruning',
-            dueDate: pruningDueDate,
-            status: 'pending'
-          });
-
-          console.log(`[routes.ts] POST /api/plants - Successfully created initial care tasks for plant ID: ${plant.id}`);
-
-          // Generate and store recommendations
-          const environmentForNewPlant: EnvironmentData = {
-            temperature: 22, // Example default, consider fetching or allowing user input
-            humidity: 50,    // Example default
-            lightLevel: "medium" // Example default
-          };
-          const plantForAi: PlantData = {
-            name: plant.name,
-            species: plant.species,
-            waterFrequencyDays: plant.waterFrequencyDays,
-            lastWatered: plant.lastWatered,
-          };
-
-          const recommendations = await generatePlantRecommendations(plantForAi, environmentForNewPlant);
-          if (recommendations && recommendations.length > 0 && appUser && appUser.id) {
-            for (const rec of recommendations) {
-              await storage.createRecommendation({
-                userId: appUser.id,
-                plantId: plant.id,
-                recommendationType: rec.recommendationType,
-                message: rec.message,
-              });
-            }
-            console.log(`[routes.ts] POST /api/plants - Successfully generated and stored ${recommendations.length} recommendations for plant ID: ${plant.id}`);
-          } else {
-            console.log(`[routes.ts] POST /api/plants - No recommendations generated or appUser.id missing for plant ID: ${plant.id}`);
-          }
+          // Seed the recurring care schedule; watering follows the entered waterFrequencyDays
+          await storage.ensureCareSchedule(plant.id.toString());
+          // Recommendations take an LLM call, so they are generated in the background
+          await queueRecommendationRun(appUser.id);
         } catch (error) {
-          console.error(`[routes.ts] POST /api/plants - Error creating initial tasks/recommendations for plant ID: ${plant.id}:`, error);
+          console.error(`[routes.ts] POST /api/plants/custom - Error creating initial tasks/recommendations for plant ID: ${plant.id}:`, error);
           // Don't fail the request if task/recommendation creation fails, but log it
         }
       }
       
       return res.status(201).json(plant);
     } catch (error) {
-      console.error('[routes.ts] POST /api/plants - Error creating plant:', error); // Ensure this logs the error object
+      console.error('[routes.ts] POST /api/plants/custom - Error creating plant:', error); // Ensure this logs the error object
       return handleError(res, error);
     }
   });
 
+  // Body: any plant fields (see updatePlantSchema). Species fields set here are recorded as user
+  // overrides; clearOverrides lists fields to hand back to the species data.
   app.put('/api/plants/:id', ClerkExpressRequireAuth(), async (req: any, res) => {
     try {
-      const plantId = req.params.id;
-      if (!plantId) {
-        return res.status(400).json({ error: 'Valid plant ID is required' });
-      }
-
-      if (!req.auth || !req.auth.userId) {
-        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for plant update' });
-      }
-      // We might need to verify that this plant belongs to the authenticated user
-      // This requires fetching the plant first, then checking its userId against appUser.id
-
-      // Validate request body using Zod schema for partial updates
-      // userId should not be updatable through this route.
-      const { data: validatedBody, error: validationError } = validateBody(
-        insertPlantSchema.partial().omit({ userId: true }),
-        req.body
-      );
+      const access = await authorizePlant(req, res, req.params.id);
+      if (!access) return;
+      const { plant } = access;
 
+      const { data: validatedBody, error: validationError } = validateBody(updatePlantSchema, req.body);
       if (validationError) {
         return res.status(400).json({ error: 'Invalid plant data for update', details: validationError });
       }
 
-      if (Object.keys(validatedBody).length === 0) {
+      const { clearOverrides = [], ...fields }: UpdatePlant = validatedBody;
+      if (Object.keys(fields).length === 0 && clearOverrides.length === 0) {
         return res.status(400).json({ error: 'No fields provided for update' });
       }
+      if (!(await isOwnLocation(plant.userId, fields.locationId))) {
+        return res.status(400).json({ error: 'Unknown location' });
+      }
 
-      // Construct the data for storage.updatePlant
-      // validatedBody contains fields that are present and valid according to the partial schema.
-      // Date fields (acquiredDate, lastWatered) will be Date | undefined.
-      const updateData: Partial<InsertPlant> = {
-        ...validatedBody,
-        // acquiredDate and lastWatered from validatedBody are already Date | undefined
-        // If they were in req.body and valid, Zod coerced them. If not, they are undefined.
-      };
+      const overrides = new Set<string>(plant.userOverrides ?? []);
+      clearOverrides.forEach(field => overrides.delete(field));
+      overriddenFieldsIn(fields).forEach(field => overrides.add(field));
 
-      const updatedPlant = await storage.updatePlant(plantId, updateData);
+      // Cleared fields not also being set go back to the current species values
+      let restored: Partial<InsertPlant> = {};
+      const toRestore = clearOverrides.filter(field => !overrides.has(field));
+      if (toRestore.length > 0 && plant.perenual_id) {
+        const species = await storage.getSpeciesByPerenualId(plant.perenual_id);
+        if (species) {
+          const speciesFields: Record<string, unknown> = speciesToPlantFields(species.payload as PerenualSpeciesDetails);
+          restored = Object.fromEntries(toRestore.map(field => [field, speciesFields[field] ?? null]));
+        }
+      }
+
+      const updatedPlant = await storage.updatePlant(plant.id.toString(), {
+        ...restored,
+        ...fields,
+        userOverrides: Array.from(overrides),
+      });
       if (!updatedPlant) {
         return res.status(404).json({ error: 'Plant not found or update failed' });
       }
@@ -772,13 +889,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ error: 'Failed to retrieve local user record for authenticated user' });
       }
 
-      const readings = await storage.getLatestEnvironmentReadingByUserId(appUser.id.toString());
+      // ?locationId= returns that location's latest reading; without it, the latest one not tied to a location
+      const locationId = req.query.locationId ? parseInt(req.query.locationId as string, 10) : undefined;
+      if (locationId !== undefined && (!Number.isInteger(locationId) || !(await isOwnLocation(appUser.id, locationId)))) {
+        return res.status(400).json({ error: 'Unknown location' });
+      }
+
+      const readings = await storage.getLatestEnvironmentReadingByUserId(appUser.id.toString(), locationId);
       return res.json(readings || {});
     } catch (error) {
       return handleError(res, error);
     }
   });
 
+  // Aggregated reading history: ?from=&to= (ISO dates), bucket=hour|day|week, aggregation=min|max|avg
+  app.get('/api/environment/history', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for GET /api/environment/history' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+
+      const { data: query, error } = validateBody(environmentHistoryQuerySchema, req.query);
+      if (error) {
+        return res.status(400).json({ error: 'Invalid history query', details: error });
+      }
+      if (!(await isOwnLocation(appUser.id, query.locationId))) {
+        return res.status(400).json({ error: 'Unknown location' });
+      }
+
+      const points = await storage.getEnvironmentHistory(appUser.id.toString(), query);
+      return res.json({ ...query, points });
+    } catch (error) {
+      return handleError(res, error, 'Failed to get environment history');
+    }
+  });
+
   app.post('/api/environment', ClerkExpressRequireAuth(), async (req: any, res) => {
     try {
       // For POST, we need to ensure the userId in the body (if still present from older clients or schema)
@@ -804,16 +953,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Validate the rest of the body, ensuring userId from body is NOT used or matches appUser.id
-      const { data, error } = validateBody(insertEnvironmentReadingSchema, { ...req.body, userId: appUser.id.toString() });
+      // deviceId is only set by sensor ingestion (POST /api/sensor-readings)
+      const { data, error } = validateBody(insertEnvironmentReadingSchema, { ...req.body, userId: appUser.id.toString(), deviceId: null });
       if (error) {
         return res.status(400).json({ error: 'Invalid environment data', details: error });
       }
+      // Readings without a locationId apply to the whole user
+      if (!(await isOwnLocation(appUser.id, data.locationId))) {
+        return res.status(400).json({ error: 'Unknown location' });
+      }
+      if (data.plantId) {
+        const plant = await storage.getPlantById(data.plantId.toString());
+        if (!plant || plant.userId !== appUser.id) {
+          return res.status(400).json({ error: 'Unknown plant' });
+        }
+      }
 
       const reading = await storage.createEnvironmentReading(data); // data now includes the correct appUser.id
+
+      try {
+        await evaluateEnvironmentReadings(appUser.id.toString(), [reading]);
+      } catch (alertError) {
+        // The reading is stored; a failed threshold check shouldn't fail the request
+        console.error('[routes.ts] POST /api/environment: Threshold check failed:', alertError);
+      }
       
-      // Generate recommendations based on the new reading, using the correct appUser.id
-      await storage.generateRecommendations(appUser.id.toString());
-      
+      // Recommendations are refreshed from the new reading in the background (one LLM call per plant)
+      try {
+        await queueRecommendationRun(appUser.id);
+      } catch (jobError) {
+        console.error('[routes.ts] POST /api/environment: Failed to queue recommendations:', jobError);
+      }
+
       return res.status(201).json(reading);
     } catch (error) {
       return handleError(res, error);
@@ -907,7 +1078,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // If it's a watering task, update the plant's last watered date
-      if (completedTask.type === 'water') {
+      if (completedTask.type === 'watering' || completedTask.type === 'water') {
         const plant = await storage.getPlantById(completedTask.plantId);
         if (plant) {
           const {
@@ -931,12 +1102,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
             actionType: 'watered',
             notes: 'Completed watering task'
           });
-          
-          // Update plant health metrics
-          await storage.updatePlantHealthMetrics(plant.id.toString());
         }
       }
 
+      // Any completed task can clear an overdue penalty, so rescore the plant
+      await storage.updatePlantHealthMetrics(completedTask.plantId);
+
       return res.json(completedTask);
     } catch (error) {
       return handleError(res, error);
@@ -963,12 +1134,189 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'Care task not found' });
       }
 
+      await storage.updatePlantHealthMetrics(skippedTask.plantId);
+
       return res.json(skippedTask);
     } catch (error) {
       return handleError(res, error);
     }
   });
 
+  // Re-plan pending outdoor watering tasks against the current forecast on demand
+  app.post('/api/care-tasks/weather-adjust', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for POST /api/care-tasks/weather-adjust' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+
+      const location = resolveLocation(await storage.getUserProfile(appUser.id.toString()));
+      const forecast = await fetchForecast(location.latitude, location.longitude);
+      const adjustedTasks = await applyWeatherAdjustments(appUser.id.toString(), forecast);
+      return res.json({ adjusted: adjustedTasks.length, tasks: adjustedTasks });
+    } catch (error) {
+      return handleError(res, error, 'Failed to apply weather adjustments');
+    }
+  });
+
+  // Frost alerts for outdoor plants; re-checks the forecast first so the list is current
+  app.get('/api/frost-alerts', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for GET /api/frost-alerts' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+
+      const location = resolveLocation(await storage.getUserProfile(appUser.id.toString()));
+      try {
+        const forecast = await fetchForecast(location.latitude, location.longitude);
+        await checkFrostAlerts(appUser.id.toString(), forecast, location);
+      } catch (checkError) {
+        // Still return the alerts we already know about
+        console.error('[routes.ts] /api/frost-alerts: Frost check failed:', checkError);
+      }
+
+      const alerts = await storage.getActiveFrostAlertsByUserId(appUser.id.toString(), startOfTodayIn(new Date(), location.timezone));
+      return res.json(alerts);
+    } catch (error) {
+      return handleError(res, error, 'Failed to get frost alerts');
+    }
+  });
+
+  // ICS calendar feed. Calendar apps can't sign in with Clerk, so the feed is authenticated by a
+  // per-user secret token in the URL instead.
+  app.get('/api/care-tasks/calendar.ics', async (req, res) => {
+    try {
+      const token = typeof req.query.token === 'string' ? req.query.token : '';
+      if (!token) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'Calendar token is required' });
+      }
+      const appUser = await storage.getUserByCalendarFeedToken(token);
+      if (!appUser) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'Invalid calendar token' });
+      }
+
+      const calendar = await buildCareCalendar(appUser.id.toString());
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', 'inline; filename="greengenius-care-tasks.ics"');
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      return res.send(calendar);
+    } catch (error) {
+      return handleError(res, error, 'Failed to render care task calendar');
+    }
+  });
+
+  // Subscription URL for the calendar feed; creates the token on first use
+  app.get('/api/care-tasks/calendar-feed', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for GET /api/care-tasks/calendar-feed' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+
+      const feedToken = await storage.getCalendarFeedToken(appUser.id.toString())
+        ?? await storage.rotateCalendarFeedToken(appUser.id.toString());
+      return res.json({ url: `${req.protocol}://${req.get('host')}/api/care-tasks/calendar.ics?token=${feedToken.token}` });
+    } catch (error) {
+      return handleError(res, error, 'Failed to get calendar feed');
+    }
+  });
+
+  // Issue a new token, breaking any previously shared subscription URL
+  app.post('/api/care-tasks/calendar-feed/rotate', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for POST /api/care-tasks/calendar-feed/rotate' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+
+      const feedToken = await storage.rotateCalendarFeedToken(appUser.id.toString());
+      return res.json({ url: `${req.protocol}://${req.get('host')}/api/care-tasks/calendar.ics?token=${feedToken.token}` });
+    } catch (error) {
+      return handleError(res, error, 'Failed to rotate calendar feed token');
+    }
+  });
+
+  // Care schedule (recurrence rules) routes
+  app.get('/api/plants/:id/care-schedule', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for GET /api/plants/:id/care-schedule' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+
+      const plant = await storage.getPlantById(req.params.id);
+      if (!plant) {
+        return res.status(404).json({ error: 'Plant not found' });
+      }
+      if (plant.userId !== appUser.id) {
+        return res.status(403).json({ error: 'Forbidden', details: 'Plant does not belong to the authenticated user.' });
+      }
+
+      const overrides = await storage.getCareScheduleRules(req.params.id);
+      return res.json(buildCareRules(plant, overrides));
+    } catch (error) {
+      return handleError(res, error, 'Failed to get care schedule for plant ' + req.params.id);
+    }
+  });
+
+  app.put('/api/plants/:id/care-schedule/:taskType', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for PUT /api/plants/:id/care-schedule' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+
+      const plant = await storage.getPlantById(req.params.id);
+      if (!plant) {
+        return res.status(404).json({ error: 'Plant not found' });
+      }
+      if (plant.userId !== appUser.id) {
+        return res.status(403).json({ error: 'Forbidden', details: 'Plant does not belong to the authenticated user.' });
+      }
+
+      const { data, error } = validateBody(insertCareScheduleRuleSchema, {
+        ...req.body,
+        plantId: plant.id,
+        taskType: req.params.taskType,
+      });
+      if (error) {
+        return res.status(400).json({ error: 'Invalid care schedule rule', details: error });
+      }
+
+      await storage.upsertCareScheduleRule(data);
+      // Switching a rule off takes its pending task off the list; re-enabling a rule (or enabling a
+      // new one) puts a task on the list straight away
+      if (data.enabled === false) {
+        await storage.removePendingCareTasks(req.params.id, data.taskType);
+      }
+      await storage.ensureCareSchedule(req.params.id);
+
+      const overrides = await storage.getCareScheduleRules(req.params.id);
+      return res.json(buildCareRules(plant, overrides));
+    } catch (error) {
+      return handleError(res, error, 'Failed to update care schedule for plant ' + req.params.id);
+    }
+  });
+
   // Recommendations routes
   app.get('/api/recommendations', ClerkExpressRequireAuth(), async (req: any, res) => {
     try {
@@ -993,7 +1341,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ error: 'Failed to retrieve local user record for authenticated user' });
       }
 
-      const recommendations = await storage.getRecommendationsByUserId(appUser.id.toString());
+      // ?status=active,snoozed (default active), &plantId=, &type=
+      const { data: filter, error } = validateBody(recommendationFilterSchema, req.query);
+      if (error) {
+        return res.status(400).json({ error: 'Invalid recommendation filter', details: error });
+      }
+
+      await storage.refreshRecommendationStatuses(appUser.id.toString(), new Date());
+      const recommendations = await storage.getRecommendationsByUserId(appUser.id.toString(), filter);
       return res.json(recommendations);
     } catch (error) {
       return handleError(res, error);
@@ -1001,7 +1356,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate AI recommendations on demand
-  app.post('/api/recommendations/generate', ClerkExpressRequireAuth(), async (req: any, res) => {
+  app.post('/api/recommendations/generate', ClerkExpressRequireAuth(), limitAiRequests, async (req: any, res) => {
     try {
       if (!req.auth || !req.auth.userId) {
         return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for POST /api/recommendations/generate' });
@@ -1022,22 +1377,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ error: 'Failed to retrieve local user record for authenticated user' });
       }
       
-      // The original code used req.body.userId. We'll use the authenticated appUser.id instead.
-      // const userIdFromBody = parseInt(req.body.userId as string);
-      // if (isNaN(userIdFromBody) || userIdFromBody !== appUser.id) {
-      //   return res.status(400).json({ error: 'Valid userId matching authenticated user is required in body, or omit it.' });
-      // }
-
-      // Assuming generateRecommendations now takes the internal appUser.id
-      await storage.generateRecommendations(appUser.id.toString());
-      const recommendations = await storage.getRecommendationsByUserId(appUser.id.toString());
-      
-      return res.json({ 
-        success: true,
-        message: 'AI-powered recommendations generated successfully',
-        count: recommendations.length,
-        recommendations
-      });
+      // Generation makes one LLM call per plant, too slow for a request (and serverless timeouts), so
+      // it runs as a background job; poll GET /api/jobs/:id for completion. A run already queued or
+      // in progress for this user is returned instead of starting another.
+      const job = await queueRecommendationRun(appUser.id);
+
+      return res.status(202).json({ jobId: job.id, status: job.status });
     } catch (error) {
       return handleError(res, error);
     }
@@ -1080,6 +1425,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Daily health history for one plant (?days=, default 30, max 365)
+  app.get('/api/plants/:id/health/history', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for GET /api/plants/:id/health/history' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+      const plant = await storage.getPlantById(req.params.id);
+      if (!plant || plant.userId !== appUser.id) {
+        return res.status(404).json({ error: 'Plant not found' });
+      }
+
+      const history = await storage.getPlantHealthHistory(req.params.id, healthHistoryStart(req.query.days));
+      return res.json(history);
+    } catch (error) {
+      return handleError(res, error, 'Failed to get health history for plant ' + req.params.id);
+    }
+  });
+
+  // Daily health history across all of the user's plants, for the History page
+  app.get('/api/health/history', ClerkExpressRequireAuth(), async (req: any, res) => {
+    try {
+      if (!req.auth || !req.auth.userId) {
+        return res.status(401).json({ error: 'Unauthorized', details: 'User not authenticated for GET /api/health/history' });
+      }
+      const appUser = await storage.getUserByClerkId(req.auth.userId);
+      if (!appUser) {
+        return res.status(404).json({ error: 'User not found in local database.' });
+      }
+
+      const history = await storage.getHealthHistoryByUserId(appUser.id.toString(), healthHistoryStart(req.query.days));
+      return res.json(history);
+    } catch (error) {
+      return handleError(res, error, 'Failed to get health history');
+    }
+  });
+
   // Dashboard stats
   app.get('/api/dashboard-stats', ClerkExpressRequireAuth(), async (req: any, res) => {
     try {
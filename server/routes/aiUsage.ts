@@ -0,0 +1,79 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { getAiQuotaStatus } from "../services/aiUsageService";
+
+const router = Router();
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const RATE_LIMIT_MAX_REQUESTS = parseInt(process.env.AI_RATE_LIMIT_PER_MINUTE || '', 10) || 10;
+// Past this many tracked users, sweep out the ones with no requests left in the window
+const MAX_TRACKED_KEYS = 10_000;
+
+// Request times per Clerk user within the last window. In memory, so each server instance limits separately.
+const recentRequests = new Map<string, number[]>();
+
+function pruneRequests(now: number): void {
+  recentRequests.forEach((times, key) => {
+    if (times.every(time => time <= now - RATE_LIMIT_WINDOW_MS)) recentRequests.delete(key);
+  });
+}
+
+/**
+ * Guard for endpoints that call the LLM. Allows AI_RATE_LIMIT_PER_MINUTE requests per user per
+ * sliding minute, and refuses users who have used up their daily token quota. Both answer 429
+ * with a Retry-After header (seconds).
+ */
+export async function limitAiRequests(req: any, res: any, next: any) {
+  try {
+    const clerkUserId: string | undefined = req.auth?.userId;
+    if (!clerkUserId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const now = Date.now();
+    if (recentRequests.size > MAX_TRACKED_KEYS) pruneRequests(now);
+    const times = (recentRequests.get(clerkUserId) ?? []).filter(time => time > now - RATE_LIMIT_WINDOW_MS);
+    if (times.length >= RATE_LIMIT_MAX_REQUESTS) {
+      const retryAfter = Math.max(1, Math.ceil((times[0] + RATE_LIMIT_WINDOW_MS - now) / 1000));
+      recentRequests.set(clerkUserId, times);
+      res.set("Retry-After", String(retryAfter));
+      return res.status(429).json({ error: "Too many AI requests. Please wait a moment and try again.", retryAfter });
+    }
+    times.push(now);
+    recentRequests.set(clerkUserId, times);
+
+    const user = await storage.getUserByClerkId(clerkUserId);
+    if (user) {
+      const quota = await getAiQuotaStatus(user.id);
+      if (quota.remaining <= 0) {
+        const retryAfter = Math.max(1, Math.ceil((quota.resetsAt.getTime() - now) / 1000));
+        res.set("Retry-After", String(retryAfter));
+        return res.status(429).json({
+          error: "Daily AI usage limit reached. It resets at midnight UTC.",
+          retryAfter,
+          resetsAt: quota.resetsAt,
+        });
+      }
+    }
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+// GET /api/ai/usage - Today's token usage against the daily quota
+router.get("/ai/usage", async (req: any, res) => {
+  try {
+    const clerkUserId = req.auth?.userId;
+    if (!clerkUserId) return res.status(401).json({ error: "Unauthorized" });
+    const user = await storage.getUserByClerkId(clerkUserId);
+    if (!user) return res.status(404).json({ error: "User not found" });
+
+    res.json(await getAiQuotaStatus(user.id));
+  } catch (err) {
+    console.error("[GET /api/ai/usage] Error:", err);
+    res.status(500).json({ error: "Failed to fetch AI usage" });
+  }
+});
+
+export default router;
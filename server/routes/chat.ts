@@ -0,0 +1,146 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { plantChatRequestSchema, type PlantConversation } from "../../shared/schema";
+import { conversationTitle, streamPlantChatReply } from "../services/plantChatService";
+import { authorizePlant } from "./plantAccess";
+import { limitAiRequests } from "./aiUsage";
+
+const router = Router();
+
+// Load a conversation and check it belongs to the plant in the URL and the signed-in user
+async function authorizeConversation(req: any, res: any): Promise<PlantConversation | null> {
+  const access = await authorizePlant(req, res, req.params.plantId);
+  if (!access) return null;
+  const conversation = await storage.getPlantConversationById(req.params.conversationId);
+  if (!conversation || conversation.plantId !== access.plant.id || conversation.userId !== access.user.id) {
+    res.status(404).json({ error: "Conversation not found" });
+    return null;
+  }
+  return conversation;
+}
+
+// GET /api/plants/:plantId/conversations - The user's conversations about a plant, most recent first
+router.get("/plants/:plantId/conversations", async (req, res) => {
+  try {
+    const access = await authorizePlant(req, res, req.params.plantId);
+    if (!access) return;
+
+    res.json(await storage.getPlantConversations(req.params.plantId, access.user.id.toString()));
+  } catch (err) {
+    console.error("[GET /api/plants/:plantId/conversations] Error:", err);
+    res.status(500).json({ error: "Failed to fetch conversations" });
+  }
+});
+
+// GET /api/plants/:plantId/conversations/:conversationId - A conversation with all its messages
+router.get("/plants/:plantId/conversations/:conversationId", async (req, res) => {
+  try {
+    const conversation = await authorizeConversation(req, res);
+    if (!conversation) return;
+
+    const messages = await storage.getPlantChatMessages(conversation.id.toString());
+    res.json({ ...conversation, messages });
+  } catch (err) {
+    console.error("[GET /api/plants/:plantId/conversations/:conversationId] Error:", err);
+    res.status(500).json({ error: "Failed to fetch conversation" });
+  }
+});
+
+// DELETE /api/plants/:plantId/conversations/:conversationId
+router.delete("/plants/:plantId/conversations/:conversationId", async (req, res) => {
+  try {
+    const conversation = await authorizeConversation(req, res);
+    if (!conversation) return;
+
+    await storage.deletePlantConversation(conversation.id.toString());
+    res.status(204).end();
+  } catch (err) {
+    console.error("[DELETE /api/plants/:plantId/conversations/:conversationId] Error:", err);
+    res.status(500).json({ error: "Failed to delete conversation" });
+  }
+});
+
+/**
+ * POST /api/plants/:plantId/chat - Ask the assistant about a plant. Body: { message, conversationId? }.
+ * Responds with server-sent events:
+ *   conversation { conversationId, userMessageId }  once, before the reply
+ *   token        { text }                           for each piece of the reply
+ *   done         { messageId }                      when the reply has been stored
+ *   error        { error }                          if the reply failed partway
+ */
+router.post("/plants/:plantId/chat", limitAiRequests, async (req, res) => {
+  let streaming = false;
+  try {
+    const access = await authorizePlant(req, res, req.params.plantId);
+    if (!access) return;
+
+    const body = plantChatRequestSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({ error: body.error.format() });
+    }
+    const userId = access.user.id.toString();
+
+    let conversation: PlantConversation | undefined;
+    if (body.data.conversationId) {
+      conversation = await storage.getPlantConversationById(body.data.conversationId.toString());
+      if (!conversation || conversation.plantId !== access.plant.id || conversation.userId !== access.user.id) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+    } else {
+      conversation = await storage.createPlantConversation(req.params.plantId, userId, conversationTitle(body.data.message));
+    }
+    const conversationId = conversation.id.toString();
+    const userMessage = await storage.addPlantChatMessage(conversationId, 'user', body.data.message);
+    const history = await storage.getPlantChatMessages(conversationId);
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // stop nginx-style proxies from buffering the stream
+    });
+    streaming = true;
+    const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    let clientGone = false;
+    res.on("close", () => { clientGone = true; });
+
+    send("conversation", { conversationId: conversation.id, userMessageId: userMessage.id });
+
+    let reply = "";
+    let failure: unknown = null;
+    try {
+      const stream = await streamPlantChatReply(access.plant, userId, history);
+      for await (const piece of stream) {
+        if (clientGone) break;
+        reply += piece;
+        send("token", { text: piece });
+      }
+    } catch (err) {
+      failure = err;
+      console.error(`[POST /api/plants/${req.params.plantId}/chat] Reply failed:`, err);
+    }
+
+    // Keep whatever was generated, even if the client left, so the conversation reads the same on resume
+    const assistantMessage = reply.trim()
+      ? await storage.addPlantChatMessage(conversationId, 'assistant', reply)
+      : null;
+    if (!clientGone) {
+      if (failure || !assistantMessage) {
+        send("error", { error: "The assistant could not answer right now. Please try again." });
+      } else {
+        send("done", { messageId: assistantMessage.id });
+      }
+      res.end();
+    }
+  } catch (err) {
+    console.error("[POST /api/plants/:plantId/chat] Error:", err);
+    if (streaming) {
+      res.end();
+    } else {
+      res.status(500).json({ error: "Failed to send message" });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,148 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { insertSensorDeviceSchema, sensorReadingBatchSchema, updateSensorDeviceSchema, type SensorDevice } from "../../shared/schema";
+import { generateDeviceApiKey, hashDeviceApiKey, ingestSensorReadings, toDeviceSummary } from "../services/sensorIngestionService";
+import { authorizeUser, checkReadingTargets } from "./plantAccess";
+
+const router = Router();
+
+// Postgres unique_violation: the user already has a device with this name
+const isDuplicateName = (err: any) => err?.code === '23505';
+
+// Load a device and check it belongs to the signed-in user
+async function authorizeDevice(req: any, res: any): Promise<SensorDevice | null> {
+  const user = await authorizeUser(req, res);
+  if (!user) return null;
+  const device = await storage.getSensorDeviceById(req.params.id);
+  if (!device || device.userId !== user.id) {
+    res.status(404).json({ error: "Device not found" });
+    return null;
+  }
+  return device;
+}
+
+// Devices send their key in an X-Device-Key header, or as "Authorization: Bearer <key>"
+function deviceApiKey(req: any): string | null {
+  const header = req.headers["x-device-key"];
+  if (typeof header === "string" && header.trim()) return header.trim();
+  const authorization: string | undefined = req.headers.authorization;
+  return authorization?.startsWith("Bearer ") ? authorization.slice("Bearer ".length).trim() : null;
+}
+
+// GET /api/devices - The user's sensors with last-seen times; keys are never returned
+router.get("/devices", async (req: any, res) => {
+  try {
+    const user = await authorizeUser(req, res);
+    if (!user) return;
+
+    const devices = await storage.getSensorDevicesByUserId(user.id.toString());
+    res.json(devices.map(toDeviceSummary));
+  } catch (err) {
+    console.error("[GET /api/devices] Error:", err);
+    res.status(500).json({ error: "Failed to fetch devices" });
+  }
+});
+
+// POST /api/devices - Body: { name, plantId?, locationId? }. The response's apiKey is shown only this once.
+router.post("/devices", async (req: any, res) => {
+  try {
+    const user = await authorizeUser(req, res);
+    if (!user) return;
+
+    const body = insertSensorDeviceSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({ error: body.error.format() });
+    }
+    const targetError = await checkReadingTargets(user.id, body.data);
+    if (targetError) return res.status(400).json({ error: targetError });
+
+    const { apiKey, apiKeyHash, apiKeyPrefix } = generateDeviceApiKey();
+    const device = await storage.createSensorDevice(user.id.toString(), { ...body.data, apiKeyHash, apiKeyPrefix });
+    res.status(201).json({ ...toDeviceSummary(device), apiKey });
+  } catch (err) {
+    if (isDuplicateName(err)) return res.status(409).json({ error: "You already have a device with this name" });
+    console.error("[POST /api/devices] Error:", err);
+    res.status(500).json({ error: "Failed to register device" });
+  }
+});
+
+// PUT /api/devices/:id - Rename, or change the plant / location its readings go to
+router.put("/devices/:id", async (req: any, res) => {
+  try {
+    const device = await authorizeDevice(req, res);
+    if (!device) return;
+
+    const body = updateSensorDeviceSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({ error: body.error.format() });
+    }
+    const targetError = await checkReadingTargets(device.userId, body.data);
+    if (targetError) return res.status(400).json({ error: targetError });
+
+    const updated = await storage.updateSensorDevice(device.id.toString(), body.data);
+    res.json(updated ? toDeviceSummary(updated) : null);
+  } catch (err) {
+    if (isDuplicateName(err)) return res.status(409).json({ error: "You already have a device with this name" });
+    console.error("[PUT /api/devices/:id] Error:", err);
+    res.status(500).json({ error: "Failed to update device" });
+  }
+});
+
+// POST /api/devices/:id/rotate-key - Issue a new key; the old one stops working immediately
+router.post("/devices/:id/rotate-key", async (req: any, res) => {
+  try {
+    const device = await authorizeDevice(req, res);
+    if (!device) return;
+
+    const { apiKey, apiKeyHash, apiKeyPrefix } = generateDeviceApiKey();
+    const updated = await storage.updateSensorDevice(device.id.toString(), { apiKeyHash, apiKeyPrefix });
+    res.json({ ...toDeviceSummary(updated ?? device), apiKey });
+  } catch (err) {
+    console.error("[POST /api/devices/:id/rotate-key] Error:", err);
+    res.status(500).json({ error: "Failed to rotate device key" });
+  }
+});
+
+// DELETE /api/devices/:id - Readings it already sent are kept
+router.delete("/devices/:id", async (req: any, res) => {
+  try {
+    const device = await authorizeDevice(req, res);
+    if (!device) return;
+
+    await storage.deleteSensorDevice(device.id.toString());
+    res.status(204).end();
+  } catch (err) {
+    console.error("[DELETE /api/devices/:id] Error:", err);
+    res.status(500).json({ error: "Failed to delete device" });
+  }
+});
+
+/**
+ * POST /api/sensor-readings - Authenticated by the device's API key, not a Clerk session.
+ * Body: { readings: [{ timestamp?, temperature?, temperatureUnit?, humidity?, lux?, soilMoisture?,
+ * soilMoistureUnit?, plantId?, locationId? }] }. Valid readings are stored even when others are
+ * rejected; the response lists the rejected ones by index.
+ */
+router.post("/sensor-readings", async (req: any, res) => {
+  try {
+    const apiKey = deviceApiKey(req);
+    const device = apiKey ? await storage.getSensorDeviceByApiKeyHash(hashDeviceApiKey(apiKey)) : undefined;
+    if (!device) {
+      return res.status(401).json({ error: "Invalid or missing device API key" });
+    }
+
+    const body = sensorReadingBatchSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({ error: body.error.format() });
+    }
+
+    const result = await ingestSensorReadings(device, body.data.readings);
+    // Nothing stored means the device needs fixing, so say so with the status as well as the body
+    res.status(result.accepted > 0 ? 200 : 400).json(result);
+  } catch (err) {
+    console.error("[POST /api/sensor-readings] Error:", err);
+    res.status(500).json({ error: "Failed to store sensor readings" });
+  }
+});
+
+export default router;
@@ -0,0 +1,92 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import {
+  ENVIRONMENT_ALERT_STATUSES,
+  ENVIRONMENT_METRICS,
+  updatePlantEnvironmentThresholdsSchema,
+  type Plant,
+  type UpdatePlantEnvironmentThresholds,
+} from "../../shared/schema";
+import { defaultEnvironmentThresholds, resolveEnvironmentThresholds } from "../services/environmentAlertService";
+import { authorizePlant, authorizeUser } from "./plantAccess";
+
+const router = Router();
+
+const alertStatusQuerySchema = z.object({
+  status: z.enum([...ENVIRONMENT_ALERT_STATUSES, 'all']).default('active'),
+});
+
+// The limits in force, the species defaults behind them and the ones the owner set
+async function thresholdsResponse(plant: Plant) {
+  const row = await storage.getPlantEnvironmentThresholds(plant.id.toString());
+  const { id, plantId, updatedAt, ...overrides } = row ?? {};
+  return {
+    thresholds: resolveEnvironmentThresholds(plant, overrides),
+    defaults: defaultEnvironmentThresholds(plant),
+    overrides: overrides as UpdatePlantEnvironmentThresholds,
+  };
+}
+
+// GET /api/environment-alerts?status=active|resolved|all - Threshold alerts across the user's plants, newest first
+router.get("/environment-alerts", async (req: any, res) => {
+  try {
+    const user = await authorizeUser(req, res);
+    if (!user) return;
+
+    const query = alertStatusQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: query.error.format() });
+    }
+    const status = query.data.status === 'all' ? undefined : query.data.status;
+    res.json(await storage.getEnvironmentAlertsByUserId(user.id.toString(), status));
+  } catch (err) {
+    console.error("[GET /api/environment-alerts] Error:", err);
+    res.status(500).json({ error: "Failed to fetch environment alerts" });
+  }
+});
+
+// GET /api/plants/:plantId/thresholds - { thresholds, defaults, overrides }
+router.get("/plants/:plantId/thresholds", async (req, res) => {
+  try {
+    const access = await authorizePlant(req, res, req.params.plantId);
+    if (!access) return;
+
+    res.json(await thresholdsResponse(access.plant));
+  } catch (err) {
+    console.error("[GET /api/plants/:plantId/thresholds] Error:", err);
+    res.status(500).json({ error: "Failed to fetch thresholds" });
+  }
+});
+
+/**
+ * PUT /api/plants/:plantId/thresholds - Body: any of { minTemperature, maxTemperature, minHumidity,
+ * maxHumidity, minSoilMoisture, maxSoilMoisture, minLux, maxLux }; null restores the species default.
+ * Each metric's minimum must stay below its maximum once merged with the defaults.
+ */
+router.put("/plants/:plantId/thresholds", async (req, res) => {
+  try {
+    const access = await authorizePlant(req, res, req.params.plantId);
+    if (!access) return;
+
+    const body = updatePlantEnvironmentThresholdsSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({ error: body.error.format() });
+    }
+    const { overrides } = await thresholdsResponse(access.plant);
+    const merged = resolveEnvironmentThresholds(access.plant, { ...overrides, ...body.data });
+    const inverted = ENVIRONMENT_METRICS.find(metric =>
+      merged[metric].min !== null && merged[metric].max !== null && merged[metric].min! >= merged[metric].max!);
+    if (inverted) {
+      return res.status(400).json({ error: `The ${inverted} minimum must be below its maximum` });
+    }
+
+    await storage.upsertPlantEnvironmentThresholds(access.plant.id.toString(), body.data);
+    res.json(await thresholdsResponse(access.plant));
+  } catch (err) {
+    console.error("[PUT /api/plants/:plantId/thresholds] Error:", err);
+    res.status(500).json({ error: "Failed to update thresholds" });
+  }
+});
+
+export default router;
@@ -30,7 +30,7 @@ router.get("/", async (req, res) => {
           plantImage: plant?.api_image_url || undefined,
           actionType: task.type,
           actionTime: task.completedAt || task.updatedAt || task.dueDate,
-          notes: undefined, // plant_care_tasks does not have notes by default
+          notes: task.notes || undefined,
           dateAdded: plant?.acquiredDate || undefined,
           lastWatered: plant?.lastWatered || undefined,
         };
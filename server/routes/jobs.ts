@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { storage } from "../storage";
+
+const router = Router();
+
+// GET /api/jobs/:id - Status of a background job the signed-in user started
+router.get("/jobs/:id", async (req: any, res) => {
+  try {
+    const clerkUserId = req.auth?.userId;
+    if (!clerkUserId) return res.status(401).json({ error: "Unauthorized" });
+    const user = await storage.getUserByClerkId(clerkUserId);
+    if (!user) return res.status(404).json({ error: "User not found" });
+
+    if (!/^\d+$/.test(req.params.id)) return res.status(400).json({ error: "Invalid job id" });
+    const job = await storage.getJobById(req.params.id);
+    // Other users' jobs (and system jobs) are reported as missing rather than forbidden
+    if (!job || job.userId !== user.id) return res.status(404).json({ error: "Job not found" });
+
+    const { payload, lockedAt, userId, ...status } = job;
+    res.json(status);
+  } catch (err) {
+    console.error("[GET /api/jobs/:id] Error:", err);
+    res.status(500).json({ error: "Failed to fetch job" });
+  }
+});
+
+export default router;
@@ -0,0 +1,95 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { insertPlantLocationSchema, updatePlantLocationSchema, type PlantLocation } from "../../shared/schema";
+
+const router = Router();
+
+// Postgres unique_violation: the user already has a location with this name
+const isDuplicateName = (err: any) => err?.code === '23505';
+
+// Load a location and check it belongs to the signed-in user
+async function authorizeLocation(req: any, res: any): Promise<PlantLocation | null> {
+  const clerkUserId = req.auth?.userId;
+  if (!clerkUserId) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+  const user = await storage.getUserByClerkId(clerkUserId);
+  const location = user ? await storage.getPlantLocationById(req.params.id) : undefined;
+  if (!user || !location || location.userId !== user.id) {
+    res.status(404).json({ error: "Location not found" });
+    return null;
+  }
+  return location;
+}
+
+// GET /api/locations - The user's rooms, balconies and garden beds, by name
+router.get("/locations", async (req: any, res) => {
+  try {
+    const clerkUserId = req.auth?.userId;
+    if (!clerkUserId) return res.status(401).json({ error: "Unauthorized" });
+    const user = await storage.getUserByClerkId(clerkUserId);
+    if (!user) return res.status(404).json({ error: "User not found" });
+
+    res.json(await storage.getPlantLocationsByUserId(user.id.toString()));
+  } catch (err) {
+    console.error("[GET /api/locations] Error:", err);
+    res.status(500).json({ error: "Failed to fetch locations" });
+  }
+});
+
+// POST /api/locations - Body: { name, kind?, lightExposure?, isIndoor? }
+router.post("/locations", async (req: any, res) => {
+  try {
+    const clerkUserId = req.auth?.userId;
+    if (!clerkUserId) return res.status(401).json({ error: "Unauthorized" });
+    const user = await storage.getUserByClerkId(clerkUserId);
+    if (!user) return res.status(404).json({ error: "User not found" });
+
+    const body = insertPlantLocationSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({ error: body.error.format() });
+    }
+
+    res.status(201).json(await storage.createPlantLocation(user.id.toString(), body.data));
+  } catch (err) {
+    if (isDuplicateName(err)) return res.status(409).json({ error: "You already have a location with this name" });
+    console.error("[POST /api/locations] Error:", err);
+    res.status(500).json({ error: "Failed to create location" });
+  }
+});
+
+// PUT /api/locations/:id - Rename or change exposure / indoor flag
+router.put("/locations/:id", async (req: any, res) => {
+  try {
+    const location = await authorizeLocation(req, res);
+    if (!location) return;
+
+    const body = updatePlantLocationSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({ error: body.error.format() });
+    }
+
+    res.json(await storage.updatePlantLocation(location.id.toString(), body.data));
+  } catch (err) {
+    if (isDuplicateName(err)) return res.status(409).json({ error: "You already have a location with this name" });
+    console.error("[PUT /api/locations/:id] Error:", err);
+    res.status(500).json({ error: "Failed to update location" });
+  }
+});
+
+// DELETE /api/locations/:id - Plants and readings in it are kept, without a location
+router.delete("/locations/:id", async (req: any, res) => {
+  try {
+    const location = await authorizeLocation(req, res);
+    if (!location) return;
+
+    await storage.deletePlantLocation(location.id.toString());
+    res.status(204).end();
+  } catch (err) {
+    console.error("[DELETE /api/locations/:id] Error:", err);
+    res.status(500).json({ error: "Failed to delete location" });
+  }
+});
+
+export default router;
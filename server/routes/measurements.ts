@@ -0,0 +1,128 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { insertPlantMeasurementSchema, updatePlantMeasurementSchema, type PlantMeasurement } from "../../shared/schema";
+import { analyzeGrowth } from "../services/growthService";
+import { authorizePlant } from "./plantAccess";
+
+const router = Router();
+
+// Load a measurement and check it belongs to the plant in the URL, which the user must own
+async function authorizeMeasurement(req: any, res: any): Promise<PlantMeasurement | null> {
+  const access = await authorizePlant(req, res, req.params.plantId);
+  if (!access) return null;
+  const measurement = await storage.getPlantMeasurementById(req.params.measurementId);
+  if (!measurement || measurement.plantId !== access.plant.id) {
+    res.status(404).json({ error: "Measurement not found" });
+    return null;
+  }
+  return measurement;
+}
+
+// GET /api/plants/:plantId/measurements - All measurements for a plant, oldest first
+router.get("/plants/:plantId/measurements", async (req, res) => {
+  try {
+    const access = await authorizePlant(req, res, req.params.plantId);
+    if (!access) return;
+
+    res.json(await storage.getPlantMeasurements(req.params.plantId));
+  } catch (err) {
+    console.error("[GET /api/plants/:plantId/measurements] Error:", err);
+    res.status(500).json({ error: "Failed to fetch measurements" });
+  }
+});
+
+// GET /api/plants/:plantId/measurements/growth - Growth rate compared with the species' expected rate
+router.get("/plants/:plantId/measurements/growth", async (req, res) => {
+  try {
+    const access = await authorizePlant(req, res, req.params.plantId);
+    if (!access) return;
+
+    const measurements = await storage.getPlantMeasurements(req.params.plantId);
+    res.json(analyzeGrowth(access.plant, measurements));
+  } catch (err) {
+    console.error("[GET /api/plants/:plantId/measurements/growth] Error:", err);
+    res.status(500).json({ error: "Failed to analyze growth" });
+  }
+});
+
+// POST /api/plants/:plantId/measurements - Record a measurement
+router.post("/plants/:plantId/measurements", async (req, res) => {
+  try {
+    const access = await authorizePlant(req, res, req.params.plantId);
+    if (!access) return;
+
+    const parsed = insertPlantMeasurementSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.format() });
+    }
+    const measurement = await storage.createPlantMeasurement(req.params.plantId, access.user.id.toString(), parsed.data);
+    res.status(201).json(measurement);
+  } catch (err) {
+    console.error("[POST /api/plants/:plantId/measurements] Error:", err);
+    res.status(500).json({ error: "Failed to save measurement" });
+  }
+});
+
+// PATCH /api/plants/:plantId/measurements/:measurementId - Correct a measurement
+router.patch("/plants/:plantId/measurements/:measurementId", async (req, res) => {
+  try {
+    const measurement = await authorizeMeasurement(req, res);
+    if (!measurement) return;
+
+    const parsed = updatePlantMeasurementSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.format() });
+    }
+    const updated = await storage.updatePlantMeasurement(measurement.id.toString(), parsed.data);
+    res.json(updated);
+  } catch (err) {
+    console.error("[PATCH /api/plants/:plantId/measurements/:measurementId] Error:", err);
+    res.status(500).json({ error: "Failed to update measurement" });
+  }
+});
+
+// DELETE /api/plants/:plantId/measurements/:measurementId - Remove a measurement
+router.delete("/plants/:plantId/measurements/:measurementId", async (req, res) => {
+  try {
+    const measurement = await authorizeMeasurement(req, res);
+    if (!measurement) return;
+
+    await storage.deletePlantMeasurement(measurement.id.toString());
+    res.status(204).send();
+  } catch (err) {
+    console.error("[DELETE /api/plants/:plantId/measurements/:measurementId] Error:", err);
+    res.status(500).json({ error: "Failed to delete measurement" });
+  }
+});
+
+// GET /api/growth/summary - Growth status for every plant the user measures, stalled plants first
+router.get("/growth/summary", async (req, res) => {
+  try {
+    const clerkUserId = req.auth?.userId;
+    if (!clerkUserId) return res.status(401).json({ error: "Unauthorized" });
+    const user = await storage.getUserByClerkId(clerkUserId);
+    if (!user) return res.status(404).json({ error: "User not found" });
+
+    const [plants, measurements] = await Promise.all([
+      storage.getPlantsByUserId(user.id.toString()),
+      storage.getPlantMeasurementsByUserId(user.id.toString()),
+    ]);
+    const byPlant = new Map<number, PlantMeasurement[]>();
+    for (const measurement of measurements) {
+      const list = byPlant.get(measurement.plantId) ?? [];
+      list.push(measurement);
+      byPlant.set(measurement.plantId, list);
+    }
+
+    const summary = plants
+      .filter(plant => byPlant.has(plant.id))
+      .map(plant => ({ plantId: plant.id, plantName: plant.name, ...analyzeGrowth(plant, byPlant.get(plant.id)!) }))
+      .sort((a, b) => Number(b.status === "stalled") - Number(a.status === "stalled"));
+    res.json(summary);
+  } catch (err) {
+    console.error("[GET /api/growth/summary] Error:", err);
+    res.status(500).json({ error: "Failed to build growth summary" });
+  }
+});
+
+export default router;
@@ -0,0 +1,137 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { insertMqttTopicMappingSchema, updateMqttTopicMappingSchema, type MqttTopicMapping } from "../../shared/schema";
+import { getMqttBridgeStatus, isOwnMqttTopic, mqttTopicPrefix, reloadMqttMappings } from "../services/mqttBridge";
+import { authorizeUser, checkReadingTargets } from "./plantAccess";
+
+const router = Router();
+
+// Postgres unique_violation: the user already maps this topic
+const isDuplicateTopic = (err: any) => err?.code === '23505';
+
+// Load a mapping and check it belongs to the signed-in user
+async function authorizeMapping(req: any, res: any): Promise<MqttTopicMapping | null> {
+  const user = await authorizeUser(req, res);
+  if (!user) return null;
+  const mapping = await storage.getMqttTopicMappingById(req.params.id);
+  if (!mapping || mapping.userId !== user.id) {
+    res.status(404).json({ error: "Topic mapping not found" });
+    return null;
+  }
+  return mapping;
+}
+
+// The topic must be under the user's prefix, and the device must be their own, as must any plant or
+// location the mapping routes readings to
+async function checkMappingTargets(userId: number, mapping: { deviceId: number; topic: string; plantId?: number | null; locationId?: number | null }): Promise<string | null> {
+  if (!isOwnMqttTopic(userId, mapping.topic)) return `Topic must start with ${mqttTopicPrefix(userId)}`;
+  const device = await storage.getSensorDeviceById(mapping.deviceId.toString());
+  if (!device || device.userId !== userId) return "Unknown device";
+  return checkReadingTargets(userId, mapping);
+}
+
+// Subscription changes shouldn't fail the request that caused them; the bridge picks them up on reconnect
+async function reloadBridge(): Promise<void> {
+  try {
+    await reloadMqttMappings();
+  } catch (err) {
+    console.error("[mqtt.ts] Failed to reload MQTT subscriptions:", err);
+  }
+}
+
+// GET /api/mqtt/status - Whether the bridge is configured and connected, with message counters and
+// the topic prefix the user's mappings must use
+router.get("/mqtt/status", async (req: any, res) => {
+  try {
+    const user = await authorizeUser(req, res);
+    if (!user) return;
+    res.json({ ...getMqttBridgeStatus(), topicPrefix: mqttTopicPrefix(user.id) });
+  } catch (err) {
+    console.error("[GET /api/mqtt/status] Error:", err);
+    res.status(500).json({ error: "Failed to fetch MQTT bridge status" });
+  }
+});
+
+// GET /api/mqtt/mappings - The user's topic mappings, by topic
+router.get("/mqtt/mappings", async (req: any, res) => {
+  try {
+    const user = await authorizeUser(req, res);
+    if (!user) return;
+    res.json(await storage.getMqttTopicMappingsByUserId(user.id.toString()));
+  } catch (err) {
+    console.error("[GET /api/mqtt/mappings] Error:", err);
+    res.status(500).json({ error: "Failed to fetch topic mappings" });
+  }
+});
+
+/**
+ * POST /api/mqtt/mappings - Body: { deviceId, topic, payloadFormat?: 'json' | 'value', fields?,
+ * measurement?, temperatureUnit?, soilMoistureUnit?, plantId?, locationId?, enabled? }. The topic
+ * filter must start with the user's prefix, e.g. "greengenius/42/zigbee2mqtt/+".
+ */
+router.post("/mqtt/mappings", async (req: any, res) => {
+  try {
+    const user = await authorizeUser(req, res);
+    if (!user) return;
+
+    const body = insertMqttTopicMappingSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({ error: body.error.format() });
+    }
+    const targetError = await checkMappingTargets(user.id, body.data);
+    if (targetError) return res.status(400).json({ error: targetError });
+
+    const mapping = await storage.createMqttTopicMapping(user.id.toString(), body.data);
+    await reloadBridge();
+    res.status(201).json(mapping);
+  } catch (err) {
+    if (isDuplicateTopic(err)) return res.status(409).json({ error: "This topic is already mapped" });
+    console.error("[POST /api/mqtt/mappings] Error:", err);
+    res.status(500).json({ error: "Failed to create topic mapping" });
+  }
+});
+
+// PUT /api/mqtt/mappings/:id - Any mapping fields; the merged mapping must still be valid
+router.put("/mqtt/mappings/:id", async (req: any, res) => {
+  try {
+    const mapping = await authorizeMapping(req, res);
+    if (!mapping) return;
+
+    const changes = updateMqttTopicMappingSchema.safeParse(req.body ?? {});
+    if (!changes.success) {
+      return res.status(400).json({ error: changes.error.format() });
+    }
+    const { id, userId, createdAt, ...current } = mapping;
+    const merged = insertMqttTopicMappingSchema.safeParse({ ...current, ...changes.data });
+    if (!merged.success) {
+      return res.status(400).json({ error: merged.error.format() });
+    }
+    const targetError = await checkMappingTargets(userId, merged.data);
+    if (targetError) return res.status(400).json({ error: targetError });
+
+    const updated = await storage.updateMqttTopicMapping(id.toString(), changes.data);
+    await reloadBridge();
+    res.json(updated);
+  } catch (err) {
+    if (isDuplicateTopic(err)) return res.status(409).json({ error: "This topic is already mapped" });
+    console.error("[PUT /api/mqtt/mappings/:id] Error:", err);
+    res.status(500).json({ error: "Failed to update topic mapping" });
+  }
+});
+
+// DELETE /api/mqtt/mappings/:id - Unsubscribes from the topic unless another mapping still uses it
+router.delete("/mqtt/mappings/:id", async (req: any, res) => {
+  try {
+    const mapping = await authorizeMapping(req, res);
+    if (!mapping) return;
+
+    await storage.deleteMqttTopicMapping(mapping.id.toString());
+    await reloadBridge();
+    res.status(204).end();
+  } catch (err) {
+    console.error("[DELETE /api/mqtt/mappings/:id] Error:", err);
+    res.status(500).json({ error: "Failed to delete topic mapping" });
+  }
+});
+
+export default router;
@@ -0,0 +1,114 @@
+import { Router } from "express";
+import multer from "multer";
+import { storage } from "../storage";
+import { plantPhotoUploadFieldsSchema, type PlantPhoto } from "../../shared/schema";
+import { MAX_PHOTO_BYTES, PhotoValidationError, deletePlantPhoto, savePlantPhoto } from "../services/photoService";
+import { getPhotoStorage } from "../services/photoStorage";
+import { authorizePlant } from "./plantAccess";
+
+const router = Router();
+
+// Keep uploads in memory; savePlantPhoto validates them before anything touches storage
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_PHOTO_BYTES, files: 1 },
+});
+
+function toPhotoResponse(photo: PlantPhoto) {
+  const { storageKey, thumbnailKey, ...rest } = photo;
+  return {
+    ...rest,
+    imageUrl: `/api/photos/${photo.id}/image`,
+    thumbnailUrl: `/api/photos/${photo.id}/thumbnail`,
+  };
+}
+
+// GET /api/plants/:plantId/photos - Photo timeline for a plant, newest first
+router.get("/plants/:plantId/photos", async (req, res) => {
+  try {
+    const access = await authorizePlant(req, res, req.params.plantId);
+    if (!access) return;
+
+    const photos = await storage.getPlantPhotos(req.params.plantId);
+    res.json(photos.map(toPhotoResponse));
+  } catch (err) {
+    console.error("[GET /api/plants/:plantId/photos] Error:", err);
+    res.status(500).json({ error: "Failed to fetch plant photos" });
+  }
+});
+
+// POST /api/plants/:plantId/photos - Upload a photo (multipart field "photo", optional caption/takenAt)
+router.post("/plants/:plantId/photos", (req, res, next) => {
+  upload.single("photo")(req, res, (err: any) => {
+    if (err instanceof multer.MulterError) {
+      const status = err.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+      return res.status(status).json({ error: err.message });
+    }
+    if (err) return next(err);
+    next();
+  });
+}, async (req: any, res) => {
+  try {
+    const access = await authorizePlant(req, res, req.params.plantId);
+    if (!access) return;
+
+    if (!req.file) {
+      return res.status(400).json({ error: "A photo file is required (multipart field 'photo')" });
+    }
+    const fields = plantPhotoUploadFieldsSchema.safeParse(req.body ?? {});
+    if (!fields.success) {
+      return res.status(400).json({ error: fields.error.format() });
+    }
+
+    const photo = await savePlantPhoto(access.plant.id, access.user.id, req.file, fields.data);
+    res.status(201).json(toPhotoResponse(photo));
+  } catch (err) {
+    if (err instanceof PhotoValidationError) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error("[POST /api/plants/:plantId/photos] Error:", err);
+    res.status(500).json({ error: "Failed to upload photo" });
+  }
+});
+
+async function sendPhotoFile(req: any, res: any, variant: "image" | "thumbnail") {
+  try {
+    const photo = await storage.getPlantPhotoById(req.params.id);
+    if (!photo) return res.status(404).json({ error: "Photo not found" });
+    const access = await authorizePlant(req, res, photo.plantId.toString());
+    if (!access) return;
+
+    const object = await getPhotoStorage().getObject(variant === "image" ? photo.storageKey : photo.thumbnailKey);
+    if (!object) return res.status(404).json({ error: "Photo file missing" });
+
+    res.setHeader("Content-Type", object.contentType);
+    // Keys are immutable, so browsers can cache for a long time
+    res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+    res.send(object.body);
+  } catch (err) {
+    console.error(`[GET /api/photos/:id/${variant}] Error:`, err);
+    res.status(500).json({ error: "Failed to load photo" });
+  }
+}
+
+// GET /api/photos/:id/image and /api/photos/:id/thumbnail - Photo bytes
+router.get("/photos/:id/image", (req, res) => sendPhotoFile(req, res, "image"));
+router.get("/photos/:id/thumbnail", (req, res) => sendPhotoFile(req, res, "thumbnail"));
+
+// DELETE /api/photos/:id - Remove a photo and its files
+router.delete("/photos/:id", async (req, res) => {
+  try {
+    const photo = await storage.getPlantPhotoById(req.params.id);
+    if (!photo) return res.status(404).json({ error: "Photo not found" });
+    const access = await authorizePlant(req, res, photo.plantId.toString());
+    if (!access) return;
+
+    await deletePlantPhoto(photo);
+    res.status(204).send();
+  } catch (err) {
+    console.error("[DELETE /api/photos/:id] Error:", err);
+    res.status(500).json({ error: "Failed to delete photo" });
+  }
+});
+
+export default router;
@@ -0,0 +1,53 @@
+import { storage } from "../storage";
+
+// Resolve the signed-in user; sends the error response itself
+export async function authorizeUser(req: any, res: any) {
+  const clerkUserId = req.auth?.userId;
+  if (!clerkUserId) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+  const user = await storage.getUserByClerkId(clerkUserId);
+  if (!user) {
+    res.status(404).json({ error: "User not found" });
+    return null;
+  }
+  return user;
+}
+
+// Resolve the signed-in user and check they own the plant; sends the error response itself
+export async function authorizePlant(req: any, res: any, plantId: string) {
+  const user = await authorizeUser(req, res);
+  if (!user) return null;
+  const plant = await storage.getPlantById(plantId);
+  if (!plant) {
+    res.status(404).json({ error: "Plant not found" });
+    return null;
+  }
+  if (plant.userId !== user.id) {
+    res.status(403).json({ error: "Forbidden" });
+    return null;
+  }
+  return { user, plant };
+}
+
+// True when the location is unset or belongs to the user; guards locationId in request bodies
+export async function isOwnLocation(userId: number, locationId: number | null | undefined): Promise<boolean> {
+  if (locationId === null || locationId === undefined) return true;
+  const location = await storage.getPlantLocationById(locationId.toString());
+  return !!location && location.userId === userId;
+}
+
+// True when the plant is unset or belongs to the user; guards plantId in request bodies
+export async function isOwnPlant(userId: number, plantId: number | null | undefined): Promise<boolean> {
+  if (plantId === null || plantId === undefined) return true;
+  const plant = await storage.getPlantById(plantId.toString());
+  return !!plant && plant.userId === userId;
+}
+
+// The plant and location that readings are routed to must be the user's own; returns the problem, if any
+export async function checkReadingTargets(userId: number, target: { plantId?: number | null; locationId?: number | null }): Promise<string | null> {
+  if (!(await isOwnPlant(userId, target.plantId))) return "Unknown plant";
+  if (!(await isOwnLocation(userId, target.locationId))) return "Unknown location";
+  return null;
+}
@@ -0,0 +1,84 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { recommendationFeedbackSchema, snoozeRecommendationSchema, type Recommendation } from "../../shared/schema";
+import { snoozeUntil } from "../services/recommendationService";
+
+const router = Router();
+
+// Load a recommendation and check it belongs to the signed-in user
+async function authorizeRecommendation(req: any, res: any): Promise<Recommendation | null> {
+  const clerkUserId = req.auth?.userId;
+  if (!clerkUserId) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+  const user = await storage.getUserByClerkId(clerkUserId);
+  const recommendation = user ? await storage.getRecommendationById(req.params.id) : undefined;
+  if (!user || !recommendation || recommendation.userId !== user.id) {
+    res.status(404).json({ error: "Recommendation not found" });
+    return null;
+  }
+  return recommendation;
+}
+
+// PUT /api/recommendations/:id/dismiss - Hide a recommendation for good
+router.put("/recommendations/:id/dismiss", async (req, res) => {
+  try {
+    const recommendation = await authorizeRecommendation(req, res);
+    if (!recommendation) return;
+    if (recommendation.status !== 'active' && recommendation.status !== 'snoozed') {
+      return res.status(409).json({ error: `Cannot dismiss a recommendation that is ${recommendation.status}` });
+    }
+
+    res.json(await storage.dismissRecommendation(recommendation.id.toString()));
+  } catch (err) {
+    console.error("[PUT /api/recommendations/:id/dismiss] Error:", err);
+    res.status(500).json({ error: "Failed to dismiss recommendation" });
+  }
+});
+
+// PUT /api/recommendations/:id/snooze - Hide until a date. Body: { days } or { until }
+router.put("/recommendations/:id/snooze", async (req, res) => {
+  try {
+    const recommendation = await authorizeRecommendation(req, res);
+    if (!recommendation) return;
+
+    const body = snoozeRecommendationSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({ error: body.error.format() });
+    }
+    const until = body.data.until ?? snoozeUntil(body.data.days!);
+    if (until <= new Date()) {
+      return res.status(400).json({ error: "Snooze date must be in the future" });
+    }
+    if (recommendation.status !== 'active' && recommendation.status !== 'snoozed') {
+      return res.status(409).json({ error: `Cannot snooze a recommendation that is ${recommendation.status}` });
+    }
+
+    res.json(await storage.snoozeRecommendation(recommendation.id.toString(), until));
+  } catch (err) {
+    console.error("[PUT /api/recommendations/:id/snooze] Error:", err);
+    res.status(500).json({ error: "Failed to snooze recommendation" });
+  }
+});
+
+// PUT /api/recommendations/:id/feedback - Thumbs up/down. Body: { feedback: 'up' | 'down', comment? }.
+// Rated recommendations are included in the next recommendation prompt for the plant.
+router.put("/recommendations/:id/feedback", async (req, res) => {
+  try {
+    const recommendation = await authorizeRecommendation(req, res);
+    if (!recommendation) return;
+
+    const body = recommendationFeedbackSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({ error: body.error.format() });
+    }
+
+    res.json(await storage.setRecommendationFeedback(recommendation.id.toString(), body.data.feedback, body.data.comment ?? null));
+  } catch (err) {
+    console.error("[PUT /api/recommendations/:id/feedback] Error:", err);
+    res.status(500).json({ error: "Failed to save feedback" });
+  }
+});
+
+export default router;
@@ -0,0 +1,31 @@
+import { Router } from "express";
+import { speciesSearchQuerySchema } from "../../shared/schema";
+import { searchSpecies } from "../services/speciesCatalogService";
+import { getPerenualStatus } from "../services/perenualClient";
+
+const router = Router();
+
+// GET /api/species/search?q=rose&limit=10 - Ranked species candidates for the add-plant picker
+router.get("/species/search", async (req: any, res) => {
+  try {
+    if (!req.auth?.userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const query = speciesSearchQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: query.error.format() });
+    }
+
+    res.json(await searchSpecies(query.data.q, query.data.limit));
+  } catch (err) {
+    console.error("[GET /api/species/search] Error:", err);
+    res.status(500).json({ error: "Failed to search species" });
+  }
+});
+
+// GET /api/species/status - Perenual quota use and circuit breaker state
+router.get("/species/status", async (req: any, res) => {
+  if (!req.auth?.userId) return res.status(401).json({ error: "Unauthorized" });
+  res.json(getPerenualStatus());
+});
+
+export default router;
@@ -0,0 +1,102 @@
+import { createHash } from 'crypto';
+
+export const AI_DAILY_TOKEN_QUOTA = parseInt(process.env.AI_DAILY_TOKEN_QUOTA || '', 10) || 50_000;
+export const AI_CACHE_TTL_MS = (parseInt(process.env.AI_CACHE_TTL_MINUTES || '', 10) || 360) * 60 * 1000;
+
+export interface AiUsageEntry {
+  userId: number | null;
+  feature: string;
+  provider: string;
+  promptTokens: number;
+  completionTokens: number;
+  cached: boolean;
+}
+
+export interface AiQuotaStatus {
+  used: number;
+  limit: number;
+  remaining: number;
+  resetsAt: Date;
+}
+
+/**
+ * Where the response cache and usage rows live. DbStorage implements this; the in-memory store is
+ * the default until the server installs it, so scripts and tests work without a database.
+ */
+export interface AiUsageStore {
+  getCachedAiResponse(promptHash: string, now: Date): Promise<string | undefined>;
+  saveCachedAiResponse(promptHash: string, response: string, expiresAt: Date): Promise<void>;
+  recordAiUsage(entry: AiUsageEntry): Promise<void>;
+  getAiTokensUsedSince(userId: number, since: Date): Promise<number>;
+}
+
+export function createMemoryAiUsageStore(): AiUsageStore {
+  const cache = new Map<string, { response: string; expiresAt: Date }>();
+  const usage: (AiUsageEntry & { createdAt: Date })[] = [];
+  return {
+    async getCachedAiResponse(promptHash, now) {
+      const entry = cache.get(promptHash);
+      return entry && entry.expiresAt > now ? entry.response : undefined;
+    },
+    async saveCachedAiResponse(promptHash, response, expiresAt) {
+      cache.set(promptHash, { response, expiresAt });
+    },
+    async recordAiUsage(entry) {
+      usage.push({ ...entry, createdAt: new Date() });
+    },
+    async getAiTokensUsedSince(userId, since) {
+      return usage
+        .filter(entry => entry.userId === userId && entry.createdAt >= since)
+        .reduce((total, entry) => total + entry.promptTokens + entry.completionTokens, 0);
+    },
+  };
+}
+
+let usageStore: AiUsageStore = createMemoryAiUsageStore();
+
+export function getAiUsageStore(): AiUsageStore {
+  return usageStore;
+}
+
+/**
+ * Swap the usage store. Passing nothing restores a fresh in-memory store.
+ */
+export function setAiUsageStore(store?: AiUsageStore): void {
+  usageStore = store ?? createMemoryAiUsageStore();
+}
+
+// Quotas reset at midnight UTC
+export function startOfUsageDay(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export async function getAiQuotaStatus(userId: number, now: Date = new Date()): Promise<AiQuotaStatus> {
+  const dayStart = startOfUsageDay(now);
+  const used = await usageStore.getAiTokensUsedSince(userId, dayStart);
+  return {
+    used,
+    limit: AI_DAILY_TOKEN_QUOTA,
+    remaining: Math.max(0, AI_DAILY_TOKEN_QUOTA - used),
+    resetsAt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Record a call without ever failing it: losing a usage row is better than losing the answer.
+ */
+export async function recordAiUsage(entry: AiUsageEntry): Promise<void> {
+  try {
+    await usageStore.recordAiUsage(entry);
+  } catch (error) {
+    console.error('[aiUsageService.ts] Failed to record AI usage:', error);
+  }
+}
+
+// Rough count for providers that don't report usage (streams, some local servers): ~4 characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function hashAiRequest(parts: unknown[]): string {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildRecurrenceRule, foldLine } from './calendarService';
+
+describe('buildRecurrenceRule', () => {
+  it('repeats daily at the rule interval', () => {
+    assert.equal(buildRecurrenceRule({ taskType: 'watering', intervalDays: 7, months: [], enabled: true }), 'FREQ=DAILY;INTERVAL=7');
+  });
+
+  it('limits month-bound tasks to their months, numbered from 1', () => {
+    assert.equal(
+      buildRecurrenceRule({ taskType: 'pruning', intervalDays: 90, months: [2, 3], enabled: true }),
+      'FREQ=DAILY;INTERVAL=90;BYMONTH=3,4'
+    );
+  });
+});
+
+describe('foldLine', () => {
+  const octets = (line: string) => Buffer.byteLength(line, 'utf8');
+  const unfold = (folded: string) => folded.replace(/\r\n /g, '');
+
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = `SUMMARY:${'a'.repeat(67)}`;
+    assert.equal(foldLine(line), line);
+  });
+
+  it('folds long lines into 75-octet lines, counting the leading space', () => {
+    const line = `DESCRIPTION:${'a'.repeat(200)}`;
+    const folded = foldLine(line);
+    const lines = folded.split('\r\n');
+    assert.equal(lines.length, 3);
+    assert.equal(octets(lines[0]), 75);
+    for (const continuation of lines.slice(1)) {
+      assert.ok(continuation.startsWith(' '));
+      assert.ok(octets(continuation) <= 75);
+    }
+    assert.equal(unfold(folded), line);
+  });
+
+  it('never splits a multi-byte character', () => {
+    const line = `SUMMARY:${'é🌱'.repeat(30)}`;
+    const folded = foldLine(line);
+    for (const part of folded.split('\r\n')) {
+      assert.ok(octets(part) <= 75);
+      assert.equal(Buffer.from(part, 'utf8').toString('utf8'), part);
+    }
+    assert.equal(unfold(folded), line);
+  });
+});
@@ -0,0 +1,179 @@
+import type { Plant, PlantCareTask } from "../../shared/schema";
+import { storage } from "../storage";
+import { buildCareRules, isCareTaskType, normalizeCareTaskType, type CareRule } from "./careScheduleService";
+import { addCalendarDays, calendarDateIn } from "./timezoneService";
+
+const UID_DOMAIN = 'greengenius.app';
+const PRODID = '-//GreenGenius//Plant Care Tasks//EN';
+
+export interface CalendarEntry {
+  task: PlantCareTask;
+  plantName: string;
+  rule?: CareRule; // present when the task repeats on a schedule
+}
+
+const TASK_LABELS: Record<string, string> = {
+  watering: 'Water',
+  fertilizing: 'Fertilize',
+  pruning: 'Prune',
+  repotting: 'Repot',
+  misting: 'Mist',
+  frost_protection: 'Protect from frost',
+};
+
+// RFC 5545 TEXT escaping
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Content lines longer than 75 octets are folded with CRLF + space
+export function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of Array.from(line)) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines lose one octet to the leading space
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// DATE value for a calendar day given as YYYY-MM-DD
+function formatDate(day: string): string {
+  return day.replace(/-/g, '');
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * RRULE for a recurring care rule, e.g. "FREQ=DAILY;INTERVAL=7" or, for month-limited
+ * tasks like pruning, "FREQ=DAILY;INTERVAL=90;BYMONTH=3,4".
+ */
+export function buildRecurrenceRule(rule: CareRule): string {
+  let rrule = `FREQ=DAILY;INTERVAL=${rule.intervalDays}`;
+  if (rule.months.length > 0) {
+    rrule += `;BYMONTH=${rule.months.map(month => month + 1).join(',')}`;
+  }
+  return rrule;
+}
+
+function describeEntry(entry: CalendarEntry, overdueSince?: string): { summary: string; description: string } {
+  const label = TASK_LABELS[normalizeCareTaskType(entry.task.type)] ?? entry.task.type;
+  const descriptionParts = [`${label} ${entry.plantName}.`];
+  if (overdueSince) descriptionParts.push(`Overdue since ${overdueSince}.`);
+  if (entry.rule) descriptionParts.push(`Repeats every ${entry.rule.intervalDays} days.`);
+  if (entry.task.notes) descriptionParts.push(entry.task.notes);
+  return { summary: `${overdueSince ? 'Overdue – ' : ''}${label}: ${entry.plantName}`, description: descriptionParts.join(' ') };
+}
+
+/**
+ * Render care tasks as an iCalendar document of all-day VEVENTs (with an RRULE when they recur),
+ * dated in the user's timezone. Calendar subscriptions such as Google Calendar and Outlook ignore
+ * VTODOs, so an overdue task stays on the calendar as an event today, with a VTODO alongside for
+ * clients that keep task lists. UIDs derive from task ids, so re-fetching the feed updates entries in place.
+ */
+export function renderCareCalendar(entries: CalendarEntry[], options: { calendarName?: string; timezone?: string | null; now?: Date } = {}): string {
+  const now = options.now ?? new Date();
+  const today = calendarDateIn(now, options.timezone);
+  const stamp = formatUtcDateTime(now);
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName ?? 'GreenGenius plant care')}`,
+  ];
+  if (options.timezone) lines.push(`X-WR-TIMEZONE:${options.timezone}`);
+  // Hint to clients how often to re-fetch
+  lines.push('REFRESH-INTERVAL;VALUE=DURATION:PT6H', 'X-PUBLISHED-TTL:PT6H');
+
+  for (const entry of entries) {
+    const dueDay = calendarDateIn(new Date(entry.task.dueDate), options.timezone);
+    const overdue = dueDay < today;
+    const { summary, description } = describeEntry(entry, overdue ? dueDay : undefined);
+    const eventDay = overdue ? today : dueDay;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:task-${entry.task.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(eventDay)}`,
+      `DTEND;VALUE=DATE:${formatDate(addCalendarDays(eventDay, 1))}`,
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      'TRANSP:TRANSPARENT',
+    );
+    if (entry.rule) lines.push(`RRULE:${buildRecurrenceRule(entry.rule)}`);
+    lines.push('END:VEVENT');
+
+    if (overdue) {
+      lines.push(
+        'BEGIN:VTODO',
+        `UID:task-${entry.task.id}-todo@${UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        `DUE;VALUE=DATE:${formatDate(dueDay)}`,
+        `SUMMARY:${escapeText(summary)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        'STATUS:NEEDS-ACTION',
+        'END:VTODO',
+      );
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Collect a user's pending care tasks, attach the recurrence rule of each recurring task type,
+ * and render the feed.
+ */
+export async function buildCareCalendar(userId: string, now: Date = new Date()): Promise<string> {
+  const [tasks, plants, profile] = await Promise.all([
+    storage.getPlantCareTasksByUserId(userId),
+    storage.getPlantsByUserId(userId),
+    storage.getUserProfile(userId),
+  ]);
+  const plantsById = new Map<string, Plant>(plants.map(plant => [plant.id.toString(), plant]));
+  const rulesByPlant = new Map<string, CareRule[]>();
+
+  const entries: CalendarEntry[] = [];
+  for (const task of tasks) {
+    if (task.status !== 'pending') continue;
+    const plant = plantsById.get(task.plantId.toString());
+    if (!plant) continue;
+
+    let rule: CareRule | undefined;
+    const taskType = normalizeCareTaskType(task.type);
+    if (isCareTaskType(taskType)) {
+      if (!rulesByPlant.has(task.plantId)) {
+        rulesByPlant.set(task.plantId, buildCareRules(plant, await storage.getCareScheduleRules(task.plantId)));
+      }
+      rule = rulesByPlant.get(task.plantId)!.find(r => r.taskType === taskType && r.enabled);
+    }
+
+    entries.push({ task, plantName: plant.name, rule });
+  }
+
+  entries.sort((a, b) => new Date(a.task.dueDate).getTime() - new Date(b.task.dueDate).getTime());
+  return renderCareCalendar(entries, { timezone: profile?.timezone, now });
+}
@@ -0,0 +1,155 @@
+import type { Plant, CareScheduleRule } from "../../shared/schema";
+
+export const CARE_TASK_TYPES = ['watering', 'fertilizing', 'pruning', 'repotting', 'misting'] as const;
+export type CareTaskType = typeof CARE_TASK_TYPES[number];
+
+// A resolved recurrence rule for one task type on one plant
+export interface CareRule {
+  taskType: CareTaskType;
+  intervalDays: number;
+  months: number[]; // 0 (Jan) to 11 (Dec); empty = any month
+  enabled: boolean;
+}
+
+// Fallback intervals used when neither the user nor Perenual gives us anything better
+const DEFAULT_INTERVAL_DAYS: Record<CareTaskType, number> = {
+  watering: 7,
+  fertilizing: 30,
+  pruning: 90,
+  repotting: 365,
+  misting: 3,
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export function isCareTaskType(value: string): value is CareTaskType {
+  return (CARE_TASK_TYPES as readonly string[]).includes(value);
+}
+
+// Legacy rows used 'water' before the task types were unified
+export function normalizeCareTaskType(value: string): string {
+  return value === 'water' ? 'watering' : value;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Parse Perenual's watering_general_benchmark (e.g. { value: "7-10", unit: "days" }) into a day count.
+ * Ranges resolve to their midpoint.
+ */
+export function parseWateringBenchmark(benchmark: unknown): number | null {
+  if (!benchmark || typeof benchmark !== 'object') return null;
+  const { value, unit } = benchmark as { value?: unknown; unit?: unknown };
+  if (value === null || value === undefined) return null;
+
+  const numbers = String(value).match(/\d+(\.\d+)?/g)?.map(Number) ?? [];
+  if (numbers.length === 0) return null;
+  const midpoint = numbers.length > 1 ? (numbers[0] + numbers[1]) / 2 : numbers[0];
+
+  const unitText = typeof unit === 'string' ? unit.toLowerCase() : 'days';
+  const days = unitText.startsWith('week') ? midpoint * 7 : midpoint;
+  return days > 0 ? Math.max(1, Math.round(days)) : null;
+}
+
+// Map Perenual pruning_month values ("March", "Apr", ...) to month indices; seasons and unknowns are ignored
+export function parseMonths(values: string[] | null | undefined): number[] {
+  if (!values) return [];
+  const months = new Set<number>();
+  for (const value of values) {
+    const index = MONTH_NAMES.indexOf(value.trim().slice(0, 3).toLowerCase());
+    if (index >= 0) months.add(index);
+  }
+  return Array.from(months).sort((a, b) => a - b);
+}
+
+function deriveRule(plant: Plant, taskType: CareTaskType): CareRule {
+  switch (taskType) {
+    case 'watering':
+      return {
+        taskType,
+        intervalDays: plant.waterFrequencyDays || parseWateringBenchmark(plant.watering_general_benchmark) || DEFAULT_INTERVAL_DAYS.watering,
+        months: [],
+        enabled: true,
+      };
+    case 'fertilizing':
+      return {
+        taskType,
+        // Fast growers get fed more often
+        intervalDays: plant.growth_rate?.toLowerCase() === 'high' ? 14 : DEFAULT_INTERVAL_DAYS.fertilizing,
+        months: [],
+        enabled: true,
+      };
+    case 'pruning':
+      return {
+        taskType,
+        intervalDays: DEFAULT_INTERVAL_DAYS.pruning,
+        months: parseMonths(plant.pruning_month),
+        enabled: true,
+      };
+    case 'repotting':
+      return {
+        taskType,
+        intervalDays: DEFAULT_INTERVAL_DAYS.repotting,
+        months: [],
+        enabled: plant.indoor !== false, // Outdoor plants live in the ground
+      };
+    case 'misting':
+      return {
+        taskType,
+        intervalDays: DEFAULT_INTERVAL_DAYS.misting,
+        months: [],
+        enabled: !!plant.tropical,
+      };
+  }
+}
+
+/**
+ * Resolve the recurrence rule for every task type on a plant, applying any stored user overrides.
+ */
+export function buildCareRules(plant: Plant, overrides: CareScheduleRule[] = []): CareRule[] {
+  return CARE_TASK_TYPES.map(taskType => {
+    const rule = deriveRule(plant, taskType);
+    const override = overrides.find(o => o.taskType === taskType);
+    return {
+      ...rule,
+      intervalDays: override?.intervalDays ?? rule.intervalDays,
+      enabled: override?.enabled ?? rule.enabled,
+    };
+  });
+}
+
+/**
+ * Compute when the next occurrence of a rule is due, counting from the last time it was done (or skipped).
+ * Month-restricted rules (pruning) roll forward to the first day of the next allowed month.
+ */
+export function computeNextDueDate(rule: CareRule, from: Date): Date {
+  const earliest = addDays(from, rule.intervalDays);
+  if (rule.months.length === 0 || rule.months.includes(earliest.getMonth())) {
+    return earliest;
+  }
+
+  for (let offset = 1; offset <= 12; offset++) {
+    const candidate = new Date(earliest.getFullYear(), earliest.getMonth() + offset, 1);
+    if (rule.months.includes(candidate.getMonth())) {
+      return candidate;
+    }
+  }
+  return earliest; // Unreachable with a non-empty month list, kept for type safety
+}
+
+/**
+ * Due date for the very first task of a type, used when a plant is added or a rule is re-enabled.
+ * Watering is anchored on lastWatered so a freshly added, unwatered plant is due right away.
+ */
+export function computeInitialDueDate(rule: CareRule, plant: Plant, now: Date = new Date()): Date {
+  if (rule.taskType === 'watering') {
+    if (!plant.lastWatered) return now;
+    const due = computeNextDueDate(rule, new Date(plant.lastWatered));
+    return due < now ? now : due;
+  }
+  return computeNextDueDate(rule, now);
+}
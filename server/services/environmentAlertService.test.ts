@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkThreshold } from './environmentAlertService';
+
+describe('checkThreshold', () => {
+  const temperature = { min: 10, max: 32 };
+  const reading = (value: number | null) => ({ low: value, high: value });
+
+  it('raises a breach when no alert is open', () => {
+    assert.deepEqual(checkThreshold('temperature', temperature, reading(9), null), { clear: false, raise: 'low' });
+    assert.deepEqual(checkThreshold('temperature', temperature, reading(33), null), { clear: false, raise: 'high' });
+    assert.deepEqual(checkThreshold('temperature', temperature, reading(20), null), { clear: false, raise: null });
+  });
+
+  it('keeps an open alert until the value is back inside its limit by the margin', () => {
+    assert.deepEqual(checkThreshold('temperature', temperature, reading(9), 'low'), { clear: false, raise: null });
+    assert.deepEqual(checkThreshold('temperature', temperature, reading(10.5), 'low'), { clear: false, raise: null });
+    assert.deepEqual(checkThreshold('temperature', temperature, reading(11), 'low'), { clear: true, raise: null });
+    assert.deepEqual(checkThreshold('temperature', temperature, reading(31.5), 'high'), { clear: false, raise: null });
+    assert.deepEqual(checkThreshold('temperature', temperature, reading(31), 'high'), { clear: true, raise: null });
+  });
+
+  it('scales the light margin with the limit', () => {
+    const light = { min: 500, max: 10_000 };
+    assert.deepEqual(checkThreshold('light', light, reading(590), 'low'), { clear: false, raise: null });
+    assert.deepEqual(checkThreshold('light', light, reading(600), 'low'), { clear: true, raise: null });
+    assert.deepEqual(checkThreshold('light', light, reading(8_500), 'high'), { clear: false, raise: null });
+    assert.deepEqual(checkThreshold('light', light, reading(8_000), 'high'), { clear: true, raise: null });
+  });
+
+  it('swaps the alert when the other limit is crossed', () => {
+    assert.deepEqual(checkThreshold('temperature', temperature, reading(33), 'low'), { clear: true, raise: 'high' });
+  });
+
+  it('leaves an open alert alone when there is nothing to compare', () => {
+    assert.deepEqual(checkThreshold('temperature', temperature, reading(null), 'low'), { clear: false, raise: null });
+  });
+
+  it('clears an open alert whose limit was removed', () => {
+    assert.deepEqual(checkThreshold('humidity', { min: 50, max: null }, reading(95), 'high'), { clear: true, raise: null });
+  });
+});
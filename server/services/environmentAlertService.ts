@@ -0,0 +1,348 @@
+import {
+  ENVIRONMENT_ALERT_LABELS,
+  ENVIRONMENT_METRICS,
+  type EnvironmentAlert,
+  type EnvironmentAlertDirection,
+  type EnvironmentMetric,
+  type EnvironmentReading,
+  type EnvironmentThresholds,
+  type LocationContext,
+  type Plant,
+  type UpdatePlantEnvironmentThresholds,
+} from "../../shared/schema";
+import { storage } from "../storage";
+import { formatTemperature, getPlantToleranceC } from "./frostAlertService";
+import { resolveLocation } from "./locationService";
+
+// An alert clears only once readings are back inside the limit by this much; for light, by this
+// fraction of the limit. Stops a value hovering at the limit from raising an alert per reading.
+const HYSTERESIS: Record<EnvironmentMetric, number> = { temperature: 1, humidity: 5, soilMoisture: 0.03, light: 0.2 };
+// A breach this soon after an alert cleared reopens that alert instead of raising a new one
+const REOPEN_WINDOW_MS = (parseInt(process.env.ENVIRONMENT_ALERT_REOPEN_MINUTES || '', 10) || 120) * 60 * 1000;
+// Every night is dark, so low light is judged on the brightest reading of the past day, and only
+// once readings cover most of that day
+const LIGHT_WINDOW_MS = 24 * 60 * 60 * 1000;
+const LIGHT_MIN_COVERAGE_MS = 20 * 60 * 60 * 1000;
+
+// Lux each Perenual sunlight value tolerates: [pattern, lowest daily peak, highest reading or null for no limit]
+const SUNLIGHT_LUX: [RegExp, number, number | null][] = [
+  [/full sun/, 10_000, null],
+  [/part sun/, 5_000, 60_000],
+  [/part shade|filtered/, 2_000, 30_000],
+  [/full shade|deep shade/, 500, 10_000],
+];
+const DEFAULT_LUX = { min: 500, max: null };
+
+// Column pairs in plant_environment_thresholds for each metric
+const OVERRIDE_COLUMNS: Record<EnvironmentMetric, [keyof UpdatePlantEnvironmentThresholds, keyof UpdatePlantEnvironmentThresholds]> = {
+  temperature: ['minTemperature', 'maxTemperature'],
+  humidity: ['minHumidity', 'maxHumidity'],
+  soilMoisture: ['minSoilMoisture', 'maxSoilMoisture'],
+  light: ['minLux', 'maxLux'],
+};
+
+const ALERT_ADVICE: Record<EnvironmentMetric, Record<EnvironmentAlertDirection, string>> = {
+  temperature: {
+    low: 'Move it somewhere warmer, away from drafts and cold windows.',
+    high: 'Move it away from heat sources and give it shade or better airflow.',
+  },
+  humidity: {
+    low: 'Mist it, group it with other plants or run a humidifier nearby.',
+    high: 'Improve airflow around it to keep mould and rot away.',
+  },
+  soilMoisture: {
+    low: 'Water it soon.',
+    high: 'Hold off watering and check that the pot drains freely.',
+  },
+  light: {
+    low: 'Move it closer to a window or add a grow light.',
+    high: 'Move it out of direct sun or filter the light with a sheer curtain.',
+  },
+};
+
+export interface ThresholdCheck {
+  clear: boolean; // the open alert, if any, should resolve
+  raise: EnvironmentAlertDirection | null; // a new breach to alert on
+}
+
+/**
+ * Default limits from a plant's Perenual data: tropical plants want warmth and humid air, drought
+ * tolerant ones dry soil and air, outdoor plants are limited by their hardiness zone and light by
+ * the shadiest and sunniest of their `sunlight` values.
+ */
+export function defaultEnvironmentThresholds(
+  plant: Pick<Plant, 'tropical' | 'drought_tolerant' | 'indoor' | 'hardiness' | 'sunlight'>
+): EnvironmentThresholds {
+  const outdoorMinC = plant.indoor === false ? getPlantToleranceC(plant) ?? 0 : 10;
+
+  const sunlightRanges = (plant.sunlight ?? []).flatMap(value =>
+    SUNLIGHT_LUX.filter(([pattern]) => pattern.test(value.toLowerCase())));
+  const light = sunlightRanges.length === 0 ? DEFAULT_LUX : {
+    min: Math.min(...sunlightRanges.map(([, min]) => min)),
+    max: sunlightRanges.some(([, , max]) => max === null) ? null : Math.max(...sunlightRanges.map(([, , max]) => max!)),
+  };
+
+  return {
+    temperature: { min: plant.tropical ? 15 : outdoorMinC, max: plant.tropical ? 35 : 32 },
+    humidity: {
+      min: plant.tropical ? 50 : plant.drought_tolerant ? 10 : 30,
+      max: plant.drought_tolerant ? 70 : plant.tropical ? null : 85,
+    },
+    soilMoisture: {
+      min: plant.drought_tolerant ? 0.05 : plant.tropical ? 0.2 : 0.15,
+      max: plant.drought_tolerant ? 0.3 : 0.45,
+    },
+    light,
+  };
+}
+
+// The defaults, with any limit the owner set in its place
+export function resolveEnvironmentThresholds(
+  plant: Parameters<typeof defaultEnvironmentThresholds>[0],
+  overrides?: UpdatePlantEnvironmentThresholds | null
+): EnvironmentThresholds {
+  const thresholds = defaultEnvironmentThresholds(plant);
+  if (!overrides) return thresholds;
+  for (const metric of ENVIRONMENT_METRICS) {
+    const [minColumn, maxColumn] = OVERRIDE_COLUMNS[metric];
+    thresholds[metric] = {
+      min: overrides[minColumn] ?? thresholds[metric].min,
+      max: overrides[maxColumn] ?? thresholds[metric].max,
+    };
+  }
+  return thresholds;
+}
+
+const hysteresisFor = (metric: EnvironmentMetric, limit: number) =>
+  metric === 'light' ? limit * HYSTERESIS.light : HYSTERESIS[metric];
+
+/**
+ * Compare values with a metric's limits, given which side already has an open alert. `low` is
+ * compared with the minimum and `high` with the maximum (they differ only for light); null means
+ * nothing to compare, which leaves an open alert as it is. An open alert clears once the value is
+ * back inside its limit by the metric's margin, or when the other limit is crossed instead.
+ */
+export function checkThreshold(
+  metric: EnvironmentMetric,
+  limits: { min: number | null; max: number | null },
+  values: { low: number | null; high: number | null },
+  open: EnvironmentAlertDirection | null
+): ThresholdCheck {
+  const breach: EnvironmentAlertDirection | null =
+    limits.min !== null && values.low !== null && values.low < limits.min ? 'low'
+      : limits.max !== null && values.high !== null && values.high > limits.max ? 'high'
+        : null;
+
+  if (!open) return { clear: false, raise: breach };
+  if (breach === open) return { clear: false, raise: null };
+  if (breach) return { clear: true, raise: breach };
+
+  if (open === 'low') {
+    if (limits.min === null) return { clear: true, raise: null };
+    return { clear: values.low !== null && values.low >= limits.min + hysteresisFor(metric, limits.min), raise: null };
+  }
+  if (limits.max === null) return { clear: true, raise: null };
+  return { clear: values.high !== null && values.high <= limits.max - hysteresisFor(metric, limits.max), raise: null };
+}
+
+function formatMetricValue(metric: EnvironmentMetric, value: number, location?: LocationContext): string {
+  switch (metric) {
+    case 'temperature': return formatTemperature(value, location);
+    case 'humidity': return `${Math.round(value)}% humidity`;
+    case 'soilMoisture': return `${Math.round(value * 100)}% soil moisture`;
+    case 'light': return `${Math.round(value).toLocaleString('en-US')} lux`;
+  }
+}
+
+export function describeEnvironmentAlert(
+  plantName: string,
+  alert: Pick<EnvironmentAlert, 'metric' | 'direction' | 'threshold' | 'triggerValue'>,
+  location?: LocationContext
+): string {
+  const { metric, direction } = alert;
+  const value = formatMetricValue(metric, alert.triggerValue, location);
+  const limit = formatMetricValue(metric, alert.threshold, location);
+  const when = metric === 'light' && direction === 'low' ? ' at the brightest point of the past day' : '';
+  const comparison = direction === 'low' ? `below its minimum of ${limit}` : `above its maximum of ${limit}`;
+  return `${ENVIRONMENT_ALERT_LABELS[metric][direction]} for ${plantName}: ${value}${when}, ${comparison}. ${ALERT_ADVICE[metric][direction]}`;
+}
+
+// A pot sensor's readings are about its plant; others about the plants in their location, or those without one
+function plantsForReading(reading: EnvironmentReading, plants: Plant[]): Plant[] {
+  if (reading.plantId) return plants.filter(plant => plant.id === reading.plantId);
+  return plants.filter(plant => (plant.locationId ?? null) === (reading.locationId ?? null));
+}
+
+const scopeKey = (reading: EnvironmentReading) => `${reading.plantId ?? ''}:${reading.plantId ? '' : reading.locationId ?? ''}`;
+
+// Brightest lux of the past day for the latest lux reading of each scope in the batch, when readings cover the day
+async function peakLuxByReading(userId: string, readings: EnvironmentReading[]): Promise<Map<number, number>> {
+  const latest = new Map<string, EnvironmentReading>();
+  for (const reading of readings) {
+    if (reading.lux !== null && reading.readingTimestamp) latest.set(scopeKey(reading), reading);
+  }
+
+  const peaks = new Map<number, number>();
+  for (const reading of Array.from(latest.values())) {
+    const to = reading.readingTimestamp!;
+    const from = new Date(to.getTime() - LIGHT_WINDOW_MS);
+    const { peakLux, firstReadingAt } = await storage.getPeakLux(
+      userId,
+      { plantId: reading.plantId ?? null, locationId: reading.locationId ?? null },
+      from,
+      to,
+    );
+    if (peakLux !== null && firstReadingAt && to.getTime() - firstReadingAt.getTime() >= LIGHT_MIN_COVERAGE_MS) {
+      peaks.set(reading.id, peakLux);
+    }
+  }
+  return peaks;
+}
+
+function valuesFor(metric: EnvironmentMetric, reading: EnvironmentReading, plant: Plant, peakLux: number | undefined): { low: number | null; high: number | null } {
+  switch (metric) {
+    case 'temperature': return { low: reading.temperature, high: reading.temperature };
+    case 'humidity': return { low: reading.humidity, high: reading.humidity };
+    case 'soilMoisture': {
+      // A room sensor or the weather can't tell how wet a pot is; only outdoor plants sit in that soil
+      const applies = reading.plantId === plant.id || plant.indoor === false;
+      const value = applies ? reading.soil_moisture_0_to_10cm : null;
+      return { low: value, high: value };
+    }
+    case 'light': return { low: peakLux ?? null, high: reading.lux };
+  }
+}
+
+// Postgres unique_violation: another batch for the plant opened an alert for this metric first
+const isDuplicateActiveAlert = (error: any) => error?.code === '23505';
+
+const isWorse = (direction: EnvironmentAlertDirection, value: number, than: number) =>
+  direction === 'low' ? value < than : value > than;
+
+/**
+ * Check new readings against the thresholds of every plant they describe, oldest first. A breach
+ * opens an alert with an 'environment' recommendation, which stays up while the alert is open; the
+ * alert resolves, expiring the recommendation, only once readings are back inside the limit by the
+ * metric's margin. A breach shortly after one resolved reopens it. Returns the alerts raised or reopened.
+ */
+export async function evaluateEnvironmentReadings(userId: string, readings: EnvironmentReading[]): Promise<EnvironmentAlert[]> {
+  if (readings.length === 0) return [];
+
+  const [plants, overrides, activeAlerts, profile] = await Promise.all([
+    storage.getPlantsByUserId(userId),
+    storage.getPlantEnvironmentThresholdsByUserId(userId),
+    storage.getEnvironmentAlertsByUserId(userId, 'active'),
+    storage.getUserProfile(userId),
+  ]);
+  if (plants.length === 0) return [];
+
+  const location = resolveLocation(profile);
+  const thresholdsByPlant = new Map(plants.map(plant => [
+    plant.id,
+    resolveEnvironmentThresholds(plant, overrides.find(row => row.plantId === plant.id)),
+  ]));
+  const openAlerts = new Map<string, EnvironmentAlert>(activeAlerts.map(({ plantName, ...alert }) => [`${alert.plantId}:${alert.metric}`, alert]));
+  const changed = new Set<EnvironmentAlert>();
+  const raised: EnvironmentAlert[] = [];
+
+  const sorted = readings
+    .filter(reading => reading.readingTimestamp)
+    .sort((a, b) => a.readingTimestamp!.getTime() - b.readingTimestamp!.getTime());
+  const peakLux = await peakLuxByReading(userId, sorted);
+
+  for (const reading of sorted) {
+    const readAt = reading.readingTimestamp!;
+    for (const plant of plantsForReading(reading, plants)) {
+      const thresholds = thresholdsByPlant.get(plant.id)!;
+
+      for (const metric of ENVIRONMENT_METRICS) {
+        const values = valuesFor(metric, reading, plant, peakLux.get(reading.id));
+        if (values.low === null && values.high === null) continue;
+
+        const key = `${plant.id}:${metric}`;
+        const open = openAlerts.get(key);
+        const { clear, raise } = checkThreshold(metric, thresholds[metric], values, open?.direction ?? null);
+
+        if (open && clear) {
+          const lastValue = (open.direction === 'low' ? values.low : values.high) ?? open.lastValue;
+          await storage.updateEnvironmentAlert(open.id, { status: 'resolved', resolvedAt: readAt, lastValue, worstValue: open.worstValue });
+          if (open.recommendationId) await storage.expireRecommendation(open.recommendationId);
+          changed.delete(open);
+          openAlerts.delete(key);
+          console.log(`[environmentAlertService.ts] Resolved ${metric} alert ${open.id} for plant ${plant.id}`);
+        } else if (open) {
+          const value = open.direction === 'low' ? values.low : values.high;
+          if (value !== null && value !== open.lastValue) {
+            open.lastValue = value;
+            if (isWorse(open.direction, value, open.worstValue)) open.worstValue = value;
+            changed.add(open);
+          }
+        }
+
+        if (!raise) continue;
+        const value = (raise === 'low' ? values.low : values.high)!;
+        const threshold = (raise === 'low' ? thresholds[metric].min : thresholds[metric].max)!;
+
+        const previous = await storage.getLatestResolvedEnvironmentAlert(plant.id, metric, raise, new Date(readAt.getTime() - REOPEN_WINDOW_MS));
+        if (previous) {
+          const reopened = await storage.updateEnvironmentAlert(previous.id, {
+            status: 'active',
+            resolvedAt: null,
+            lastValue: value,
+            worstValue: isWorse(raise, value, previous.worstValue) ? value : previous.worstValue,
+          }).catch(error => {
+            if (isDuplicateActiveAlert(error)) return undefined;
+            throw error;
+          });
+          if (reopened) {
+            if (previous.recommendationId) await storage.reactivateRecommendation(previous.recommendationId);
+            openAlerts.set(key, reopened);
+            raised.push(reopened);
+          } else {
+            const existing = await storage.getActiveEnvironmentAlert(plant.id, metric);
+            if (existing) openAlerts.set(key, existing);
+          }
+          continue;
+        }
+
+        const created = await storage.createEnvironmentAlert({
+          userId: parseInt(userId),
+          plantId: plant.id,
+          metric,
+          direction: raise,
+          status: 'active',
+          threshold,
+          triggerValue: value,
+          worstValue: value,
+          lastValue: value,
+          environmentReadingId: reading.id,
+          triggeredAt: readAt,
+        });
+        if (!created) {
+          // Another batch for this plant opened one first; carry on with that alert
+          const existing = await storage.getActiveEnvironmentAlert(plant.id, metric);
+          if (existing) openAlerts.set(key, existing);
+          continue;
+        }
+
+        const message = describeEnvironmentAlert(plant.name, { metric, direction: raise, threshold, triggerValue: value }, location);
+        const recommendation = await storage.createRecommendation({
+          userId: parseInt(userId),
+          plantId: plant.id,
+          recommendationType: 'environment',
+          message,
+          environmentReadingId: reading.id,
+        });
+        const alert = await storage.updateEnvironmentAlert(created.id, { recommendationId: recommendation.id }) ?? created;
+        console.log(`[environmentAlertService.ts] Environment alert ${alert.id} for plant ${plant.id}: ${message}`);
+        openAlerts.set(key, alert);
+        raised.push(alert);
+      }
+    }
+  }
+
+  for (const alert of Array.from(changed)) {
+    await storage.updateEnvironmentAlert(alert.id, { lastValue: alert.lastValue, worstValue: alert.worstValue });
+  }
+  return raised;
+}
@@ -0,0 +1,210 @@
+import type { FrostAlert, LocationContext, Plant } from "../../shared/schema";
+import type { OpenMeteoForecast } from "./weatherService";
+import { fetchForecast, toForecastDays } from "./weatherService";
+import { resolveLocation } from "./locationService";
+import { startOfTodayIn } from "./timezoneService";
+import { storage } from "../storage";
+
+// Nights within this many degrees above the plant's limit are risky enough to cover it
+const COVER_MARGIN_C = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How often every user's forecast is checked in the background (FROST_CHECK_INTERVAL_HOURS)
+export const FROST_CHECK_INTERVAL_MS = (parseInt(process.env.FROST_CHECK_INTERVAL_HOURS || '', 10) || 6) * 60 * 60 * 1000;
+
+export type FrostAction = 'cover' | 'bring_inside';
+
+export interface ColdEvent {
+  start: Date; // first cold night
+  end: Date; // last cold night
+  minTemperatureC: number; // coldest forecast minimum across the event
+}
+
+export interface FrostRisk extends ColdEvent {
+  action: FrostAction;
+  toleranceC: number;
+}
+
+const FROST_ACTION_PRIORITY: Record<FrostAction, number> = { cover: 1, bring_inside: 2 };
+
+export function formatTemperature(celsius: number, location?: LocationContext): string {
+  if (location?.unitPreference === 'imperial') {
+    return `${Math.round(celsius * 9 / 5 + 32)}°F`;
+  }
+  return `${Math.round(celsius * 10) / 10}°C`;
+}
+
+/**
+ * Lowest average annual temperature (°C) of a USDA hardiness zone, e.g. "7" or "9b".
+ * Zone 1a starts at -60°F and every half zone adds 5°F. Returns null for anything unparseable.
+ */
+export function hardinessZoneToMinTemperatureC(zone: string | number | null | undefined): number | null {
+  if (zone === null || zone === undefined) return null;
+  const match = String(zone).trim().toLowerCase().match(/^(\d{1,2})([ab])?$/);
+  if (!match) return null;
+  const zoneNumber = parseInt(match[1], 10);
+  if (zoneNumber < 1 || zoneNumber > 13) return null;
+  const minF = -60 + (zoneNumber - 1) * 10 + (match[2] === 'b' ? 5 : 0);
+  return Math.round((minF - 32) * 5 / 9 * 10) / 10;
+}
+
+/**
+ * Coldest temperature a plant survives, from the lower end of its Perenual `hardiness` range.
+ */
+export function getPlantToleranceC(plant: Pick<Plant, 'hardiness'>): number | null {
+  const hardiness = plant.hardiness as { min?: string | number | null } | null;
+  return hardinessZoneToMinTemperatureC(hardiness?.min);
+}
+
+/**
+ * Group consecutive forecast nights at or below the threshold into cold events. Days are taken in
+ * the user's timezone, so each night's low lands on the right date.
+ */
+export function findColdEvents(forecast: OpenMeteoForecast, thresholdC: number, now: Date = new Date(), timezone?: string | null): ColdEvent[] {
+  const today = startOfTodayIn(now, timezone);
+  const events: ColdEvent[] = [];
+  let current: ColdEvent | null = null;
+
+  for (const day of toForecastDays(forecast, timezone)) {
+    if (day.date < today) continue;
+    const isCold = day.temperatureMin !== null && day.temperatureMin <= thresholdC;
+    if (!isCold) {
+      current = null;
+      continue;
+    }
+    if (current) {
+      current.end = day.date;
+      current.minTemperatureC = Math.min(current.minTemperatureC, day.temperatureMin!);
+    } else {
+      current = { start: day.date, end: day.date, minTemperatureC: day.temperatureMin! };
+      events.push(current);
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Cold events in the forecast that threaten a plant, with the protective action each calls for.
+ * Nights below the plant's limit mean bringing it inside; nights just above it mean covering it.
+ */
+export function evaluateFrostRisk(plant: Pick<Plant, 'hardiness'>, forecast: OpenMeteoForecast, now: Date = new Date(), timezone?: string | null): FrostRisk[] {
+  const toleranceC = getPlantToleranceC(plant);
+  if (toleranceC === null) return [];
+
+  return findColdEvents(forecast, toleranceC + COVER_MARGIN_C, now, timezone).map(event => ({
+    ...event,
+    toleranceC,
+    action: event.minTemperatureC <= toleranceC ? 'bring_inside' : 'cover',
+  }));
+}
+
+function describeFrostRisk(plantName: string, risk: FrostRisk, location?: LocationContext): string {
+  const when = risk.start.getTime() === risk.end.getTime()
+    ? risk.start.toDateString()
+    : `${risk.start.toDateString()} – ${risk.end.toDateString()}`;
+  const advice = risk.action === 'bring_inside'
+    ? `Bring ${plantName} inside before nightfall`
+    : `Cover ${plantName} with frost cloth overnight`;
+  let message = `Frost risk: lows of ${formatTemperature(risk.minTemperatureC, location)} forecast (${when}). ${advice}; it is only hardy to about ${formatTemperature(risk.toleranceC, location)}.`;
+
+  const localZoneMinC = hardinessZoneToMinTemperatureC(location?.hardinessZone);
+  if (localZoneMinC !== null && localZoneMinC < risk.toleranceC) {
+    message += ` Your zone (${location!.hardinessZone}) regularly gets colder than this plant tolerates.`;
+  }
+  return message;
+}
+
+/**
+ * Check every outdoor plant of a user against the forecast and raise frost alerts.
+ * Each cold event produces one alert, one "frost" recommendation and one protection task per plant;
+ * re-running while the event is still forecast only refreshes the existing alert.
+ */
+export async function checkFrostAlerts(userId: string, forecast: OpenMeteoForecast, location?: LocationContext, now: Date = new Date()): Promise<FrostAlert[]> {
+  const plants = await storage.getPlantsByUserId(userId);
+  const raised: FrostAlert[] = [];
+
+  for (const plant of plants) {
+    if (plant.indoor !== false) continue;
+
+    for (const risk of evaluateFrostRisk(plant, forecast, now, location?.timezone)) {
+      const message = describeFrostRisk(plant.name, risk, location);
+
+      // Same plant, overlapping or adjacent nights -> same cold event
+      const [existing] = await storage.getFrostAlertsForPlantInWindow(
+        plant.id.toString(),
+        new Date(risk.start.getTime() - DAY_MS),
+        new Date(risk.end.getTime() + DAY_MS),
+      );
+
+      if (existing) {
+        const action = FROST_ACTION_PRIORITY[risk.action] > FROST_ACTION_PRIORITY[existing.action as FrostAction]
+          ? risk.action
+          : existing.action as FrostAction;
+        const eventEnd = risk.end > existing.eventEnd ? risk.end : existing.eventEnd;
+        const unchanged = action === existing.action
+          && eventEnd.getTime() === existing.eventEnd.getTime()
+          && risk.minTemperatureC === existing.forecastMinC;
+        if (unchanged) continue;
+
+        const updated = await storage.updateFrostAlert(existing.id, { eventEnd, forecastMinC: risk.minTemperatureC, action });
+        const updatedMessage = describeFrostRisk(plant.name, { ...risk, start: existing.eventStart, end: eventEnd, action }, location);
+        if (existing.recommendationId) await storage.updateRecommendationMessage(existing.recommendationId, updatedMessage, new Date(eventEnd.getTime() + DAY_MS));
+        if (existing.taskId) await storage.updatePlantCareTask(existing.taskId, { notes: updatedMessage });
+        if (updated) raised.push(updated);
+        continue;
+      }
+
+      const recommendation = await storage.createRecommendation({
+        userId: parseInt(userId),
+        plantId: plant.id,
+        recommendationType: 'frost',
+        message,
+        // Frost advice is moot once the last cold night has passed
+        expiresAt: new Date(risk.end.getTime() + DAY_MS),
+      });
+      const task = await storage.createPlantCareTask({
+        plantId: plant.id.toString(),
+        type: 'frost_protection',
+        dueDate: risk.start,
+        status: 'pending',
+        notes: message,
+      });
+      const alert = await storage.createFrostAlert({
+        userId: parseInt(userId),
+        plantId: plant.id,
+        eventStart: risk.start,
+        eventEnd: risk.end,
+        forecastMinC: risk.minTemperatureC,
+        toleranceC: risk.toleranceC,
+        action: risk.action,
+        recommendationId: recommendation.id,
+        taskId: task.id,
+      });
+      console.log(`[frostAlertService.ts] Frost alert ${alert.id} for plant ${plant.id}: ${message}`);
+      raised.push(alert);
+    }
+  }
+
+  return raised;
+}
+
+/**
+ * Check the forecast for every user with outdoor plants, so frost alerts go out before a cold night
+ * whether or not anyone opens the app. Run by the frost_check job.
+ */
+export async function runFrostChecks(now: Date = new Date()): Promise<{ users: number; alerts: number; failed: number }> {
+  const userIds = await storage.getUserIdsWithOutdoorPlants();
+  let alerts = 0;
+  let failed = 0;
+  for (const userId of userIds) {
+    try {
+      const location = resolveLocation(await storage.getUserProfile(userId.toString()));
+      const forecast = await fetchForecast(location.latitude, location.longitude);
+      alerts += (await checkFrostAlerts(userId.toString(), forecast, location, now)).length;
+    } catch (error) {
+      failed++;
+      console.error(`[frostAlertService.ts] Frost check failed for user ${userId}:`, error);
+    }
+  }
+  return { users: userIds.length, alerts, failed };
+}
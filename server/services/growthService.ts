@@ -0,0 +1,166 @@
+import type { Plant, PlantMeasurement } from "../../shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Growth rates are reported per 30 days
+const RATE_PERIOD_DAYS = 30;
+// Only recent measurements count towards the current rate
+const RATE_WINDOW_DAYS = 90;
+// Below this span the readings are mostly measurement noise
+const MIN_SPAN_DAYS = 7;
+// A plant has to be flat for this long before we call it stalled
+const STALLED_MIN_SPAN_DAYS = 21;
+
+// Rough height gain per 30 days during the growing season for Perenual's growth_rate buckets
+const EXPECTED_HEIGHT_CM_PER_MONTH: Record<string, number> = {
+  low: 1,
+  moderate: 3,
+  high: 6,
+};
+
+export type GrowthStatus = 'insufficient_data' | 'stalled' | 'slow' | 'on_track' | 'fast';
+
+export interface MetricRate {
+  perMonth: number; // change per 30 days, from a least-squares fit
+  first: number;
+  latest: number;
+  spanDays: number;
+  samples: number;
+}
+
+export interface GrowthAnalysis {
+  status: GrowthStatus;
+  growthRate: string | null; // the plant's Perenual growth_rate, as stored
+  expectedHeightCmPerMonth: number | null;
+  heightCmPerMonth: number | null;
+  ratioToExpected: number | null;
+  metrics: {
+    heightCm?: MetricRate;
+    leafCount?: MetricRate;
+    stemDiameterMm?: MetricRate;
+    flowerCount?: MetricRate;
+  };
+  message: string;
+}
+
+type StandardMetric = keyof GrowthAnalysis['metrics'];
+const STANDARD_METRICS: StandardMetric[] = ['heightCm', 'leafCount', 'stemDiameterMm', 'flowerCount'];
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function expectedHeightGainPerMonth(growthRate: string | null | undefined): number | null {
+  if (!growthRate) return null;
+  return EXPECTED_HEIGHT_CM_PER_MONTH[growthRate.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Rate of change for one metric over the recent window. Falls back to the last two readings when
+ * the window holds fewer than two, so sparse logs still get a rate.
+ */
+export function computeMetricRate(
+  measurements: PlantMeasurement[],
+  metric: StandardMetric,
+  now: Date = new Date()
+): MetricRate | undefined {
+  const points = measurements
+    .filter(m => m[metric] != null)
+    .map(m => ({ t: new Date(m.measuredAt).getTime(), v: Number(m[metric]) }))
+    .sort((a, b) => a.t - b.t);
+  if (points.length < 2) return undefined;
+
+  const windowStart = now.getTime() - RATE_WINDOW_DAYS * DAY_MS;
+  let sample = points.filter(p => p.t >= windowStart);
+  if (sample.length < 2) sample = points.slice(-2);
+
+  const spanDays = (sample[sample.length - 1].t - sample[0].t) / DAY_MS;
+  if (spanDays < MIN_SPAN_DAYS) return undefined;
+
+  // Least-squares slope in units per day
+  const meanT = sample.reduce((sum, p) => sum + p.t, 0) / sample.length;
+  const meanV = sample.reduce((sum, p) => sum + p.v, 0) / sample.length;
+  let numerator = 0;
+  let denominator = 0;
+  for (const p of sample) {
+    numerator += (p.t - meanT) * (p.v - meanV);
+    denominator += (p.t - meanT) ** 2;
+  }
+  const perDay = denominator === 0 ? 0 : (numerator / denominator) * DAY_MS;
+
+  return {
+    perMonth: round(perDay * RATE_PERIOD_DAYS),
+    first: sample[0].v,
+    latest: sample[sample.length - 1].v,
+    spanDays: Math.round(spanDays),
+    samples: sample.length,
+  };
+}
+
+/**
+ * Compare a plant's measured height growth with what its Perenual growth_rate suggests.
+ * Plants whose height hasn't moved over three weeks or more are flagged as stalled; without a
+ * growth_rate to compare against, only the stalled check applies.
+ */
+export function analyzeGrowth(
+  plant: Pick<Plant, 'growth_rate'>,
+  measurements: PlantMeasurement[],
+  now: Date = new Date()
+): GrowthAnalysis {
+  const metrics: GrowthAnalysis['metrics'] = {};
+  for (const metric of STANDARD_METRICS) {
+    const rate = computeMetricRate(measurements, metric, now);
+    if (rate) metrics[metric] = rate;
+  }
+
+  const expected = expectedHeightGainPerMonth(plant.growth_rate);
+  const height = metrics.heightCm;
+  const base = {
+    growthRate: plant.growth_rate ?? null,
+    expectedHeightCmPerMonth: expected,
+    metrics,
+  };
+
+  if (!height) {
+    return {
+      ...base,
+      status: 'insufficient_data',
+      heightCmPerMonth: null,
+      ratioToExpected: null,
+      message: `Log at least two height measurements ${MIN_SPAN_DAYS} or more days apart to track growth.`,
+    };
+  }
+
+  const ratio = expected ? round(height.perMonth / expected) : null;
+  const flat = height.perMonth <= 0.1;
+  let status: GrowthStatus;
+  if ((flat || (ratio !== null && ratio < 0.25)) && height.spanDays >= STALLED_MIN_SPAN_DAYS) {
+    status = 'stalled';
+  } else if (ratio === null) {
+    status = 'on_track';
+  } else if (ratio < 0.75) {
+    status = 'slow';
+  } else if (ratio > 1.5) {
+    status = 'fast';
+  } else {
+    status = 'on_track';
+  }
+
+  const actualText = `${height.perMonth} cm per month over the last ${height.spanDays} days`;
+  const expectedText = expected ? ` (about ${expected} cm expected for a ${plant.growth_rate!.toLowerCase()} grower)` : '';
+  const messages: Record<GrowthStatus, string> = {
+    insufficient_data: '',
+    stalled: `Growth has stalled: ${actualText}${expectedText}. Check light, watering, nutrients and whether it needs repotting.`,
+    slow: `Growing slower than expected: ${actualText}${expectedText}.`,
+    on_track: `Growing ${actualText}${expectedText}.`,
+    fast: `Growing faster than expected: ${actualText}${expectedText}.`,
+  };
+
+  return {
+    ...base,
+    status,
+    heightCmPerMonth: height.perMonth,
+    ratioToExpected: ratio,
+    message: messages[status],
+  };
+}
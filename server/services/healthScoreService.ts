@@ -0,0 +1,146 @@
+import type { Plant, PlantCareTask } from "../../shared/schema";
+import { parseWateringBenchmark } from "./careScheduleService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WATER_INTERVAL_DAYS = 7;
+// Used when we can't judge a component (never watered, no light reading) so it neither helps nor hurts much
+const UNKNOWN_SCORE = 75;
+// Overall score weights; penalties are subtracted afterwards
+const WATER_WEIGHT = 0.6;
+const LIGHT_WEIGHT = 0.4;
+const OVERDUE_PENALTY_PER_DAY = 3;
+const MAX_OVERDUE_PENALTY = 30;
+const SKIPPED_PENALTY = 5;
+const MAX_SKIPPED_PENALTY = 20;
+const SKIPPED_LOOKBACK_DAYS = 30;
+
+// Light on a 0 (deep shade) to 3 (full sun) scale
+const SUNLIGHT_SCALE: [RegExp, number][] = [
+  [/deep shade|full shade/, 0],
+  [/filtered|part(ial)? shade|sun-part shade|indirect/, 1],
+  [/part(ial)? sun/, 2],
+  [/full sun|direct/, 3],
+];
+
+const READING_SCALE: [RegExp, number][] = [
+  [/dark|very low/, 0],
+  [/low|dim|shade/, 0.5],
+  [/medium|moderate|indirect/, 1.5],
+  [/full sun|direct|very high/, 3],
+  [/high|bright/, 2.5],
+];
+
+export interface HealthFactors {
+  daysSinceWatered: number | null;
+  waterIntervalDays: number;
+  lightReading: string | null;
+  sunlightNeeds: string[];
+  overdueTasks: number;
+  skippedTasks: number;
+  penalty: number;
+}
+
+export interface HealthScore {
+  waterLevel: number;
+  lightLevel: number;
+  overallHealth: number;
+  factors: HealthFactors;
+}
+
+export interface HealthInputs {
+  plant: Plant;
+  tasks: PlantCareTask[]; // the plant's care tasks, any status
+  lightReading?: string | null; // latest environment_readings.light_level
+  now?: Date;
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+/**
+ * Water level falls linearly from 100 right after watering to 50 when the next watering is due,
+ * then to 0 once the plant has gone twice its interval without water.
+ */
+export function computeWaterLevel(lastWatered: Date | null, intervalDays: number, now: Date = new Date()): number {
+  if (!lastWatered) return UNKNOWN_SCORE;
+  const daysSince = Math.max(0, (now.getTime() - lastWatered.getTime()) / DAY_MS);
+  return clamp(100 - (daysSince / intervalDays) * 50);
+}
+
+// Numeric readings are treated as lux
+function readingToScale(reading: string): number | null {
+  const text = reading.trim().toLowerCase();
+  const lux = Number(text);
+  if (text !== '' && !Number.isNaN(lux)) {
+    if (lux < 200) return 0;
+    if (lux < 2_500) return 0.5;
+    if (lux < 10_000) return 1.5;
+    if (lux < 25_000) return 2.5;
+    return 3;
+  }
+  return READING_SCALE.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+/**
+ * Light score from how far the latest light reading sits outside the range the plant's Perenual
+ * sunlight values ask for; each step on the shade-to-sun scale beyond the range costs 35 points.
+ */
+export function computeLightLevel(sunlight: string[] | null | undefined, reading: string | null | undefined): number {
+  if (!reading || !sunlight || sunlight.length === 0) return UNKNOWN_SCORE;
+  const actual = readingToScale(reading);
+  const needs = sunlight
+    .map(value => SUNLIGHT_SCALE.find(([pattern]) => pattern.test(value.toLowerCase()))?.[1])
+    .filter((value): value is number => value !== undefined);
+  if (actual === null || needs.length === 0) return UNKNOWN_SCORE;
+
+  const min = Math.min(...needs) - 0.5;
+  const max = Math.max(...needs) + 0.5;
+  const distance = actual < min ? min - actual : actual > max ? actual - max : 0;
+  return clamp(100 - distance * 35);
+}
+
+/**
+ * Score a plant from its watering history, the latest light reading and how well its care tasks
+ * are being kept up. Overdue pending tasks cost points per day late; recently skipped ones cost a flat amount.
+ */
+export function computeHealthScore({ plant, tasks, lightReading, now = new Date() }: HealthInputs): HealthScore {
+  const waterIntervalDays = plant.waterFrequencyDays || parseWateringBenchmark(plant.watering_general_benchmark) || DEFAULT_WATER_INTERVAL_DAYS;
+  const lastWatered = plant.lastWatered ? new Date(plant.lastWatered) : null;
+  const waterLevel = computeWaterLevel(lastWatered, waterIntervalDays, now);
+  const lightLevel = computeLightLevel(plant.sunlight, lightReading);
+
+  let overdueDays = 0;
+  let overdueTasks = 0;
+  let skippedTasks = 0;
+  const skippedSince = now.getTime() - SKIPPED_LOOKBACK_DAYS * DAY_MS;
+  for (const task of tasks) {
+    if (task.status === 'pending') {
+      const daysLate = Math.floor((now.getTime() - new Date(task.dueDate).getTime()) / DAY_MS);
+      if (daysLate > 0) {
+        overdueTasks++;
+        overdueDays += daysLate;
+      }
+    } else if (task.status === 'skipped') {
+      const skippedAt = new Date(task.completedAt ?? task.updatedAt ?? task.dueDate).getTime();
+      if (skippedAt >= skippedSince) skippedTasks++;
+    }
+  }
+  const penalty = Math.min(MAX_OVERDUE_PENALTY, overdueDays * OVERDUE_PENALTY_PER_DAY)
+    + Math.min(MAX_SKIPPED_PENALTY, skippedTasks * SKIPPED_PENALTY);
+
+  return {
+    waterLevel,
+    lightLevel,
+    overallHealth: clamp(waterLevel * WATER_WEIGHT + lightLevel * LIGHT_WEIGHT - penalty),
+    factors: {
+      daysSinceWatered: lastWatered ? Math.floor(Math.max(0, now.getTime() - lastWatered.getTime()) / DAY_MS) : null,
+      waterIntervalDays,
+      lightReading: lightReading ?? null,
+      sunlightNeeds: plant.sunlight ?? [],
+      overdueTasks,
+      skippedTasks,
+      penalty,
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { storage } from "../storage";
+
+const DEFAULT_INTERVAL_HOURS = 6;
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+let refreshInProgress = false;
+
+/**
+ * Rescore every plant. Health decays between waterings even when nobody touches the plant, so this
+ * is what keeps the current metrics honest and fills in one snapshot per plant per day.
+ */
+export async function refreshAllPlantHealth(): Promise<{ updated: number; failed: number }> {
+  const plantIds = await storage.getAllPlantIds();
+  let updated = 0;
+  let failed = 0;
+  for (const plantId of plantIds) {
+    try {
+      await storage.updatePlantHealthMetrics(plantId.toString());
+      updated++;
+    } catch (error) {
+      failed++;
+      console.error(`[healthSnapshotService.ts] Failed to rescore plant ${plantId}:`, error);
+    }
+  }
+  return { updated, failed };
+}
+
+/**
+ * Rescore all plants on startup and then on an interval (HEALTH_REFRESH_INTERVAL_HOURS, default 6).
+ * Later runs on the same day overwrite that day's snapshot.
+ */
+export function startHealthSnapshotScheduler(intervalHours: number = parseFloat(process.env.HEALTH_REFRESH_INTERVAL_HOURS || '') || DEFAULT_INTERVAL_HOURS): void {
+  if (schedulerTimer) return;
+
+  const tick = async () => {
+    if (refreshInProgress) return;
+    refreshInProgress = true;
+    try {
+      const result = await refreshAllPlantHealth();
+      console.log(`[healthSnapshotService.ts] Rescored ${result.updated} plant(s), ${result.failed} failure(s).`);
+    } catch (error) {
+      console.error('[healthSnapshotService.ts] Health refresh failed:', error);
+    } finally {
+      refreshInProgress = false;
+    }
+  };
+
+  schedulerTimer = setInterval(tick, intervalHours * 60 * 60 * 1000);
+  void tick();
+  console.log(`[healthSnapshotService.ts] Health snapshot scheduler started (every ${intervalHours} h).`);
+}
+
+export function stopHealthSnapshotScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -0,0 +1,58 @@
+import type { Job } from "../../shared/schema";
+import { storage } from "../storage";
+import { enqueueJob, registerJobHandler } from "./jobQueue";
+import { runNotificationCycle } from "./notificationService";
+import { enrichPendingPlants, refreshStaleSpecies } from "./speciesCatalogService";
+import { runFrostChecks } from "./frostAlertService";
+
+export const JOB_TYPES = {
+  generateRecommendations: 'generate_recommendations',
+  notificationCycle: 'notification_cycle',
+  refreshSpeciesCatalog: 'refresh_species_catalog',
+  enrichPendingPlants: 'enrich_pending_plants',
+  frostCheck: 'frost_check',
+} as const;
+
+/**
+ * Queue a recommendation run for the user, or return the one already pending or running, so a burst
+ * of requests or readings makes one run. `runAt` delays a new run, letting later readings join it.
+ */
+export async function queueRecommendationRun(userId: number, options: { runAt?: Date } = {}): Promise<Job> {
+  const existing = await storage.findActiveJob(JOB_TYPES.generateRecommendations, userId);
+  return existing ?? enqueueJob(JOB_TYPES.generateRecommendations, { userId }, { userId, runAt: options.runAt });
+}
+
+/**
+ * Register the handlers for every job type the app enqueues. Called once at startup, before the worker runs.
+ */
+export function registerJobHandlers(): void {
+  // payload: { userId }
+  registerJobHandler(JOB_TYPES.generateRecommendations, async (payload, job) => {
+    const userId = Number(payload.userId);
+    if (!Number.isInteger(userId)) throw new Error('generate_recommendations needs a numeric userId');
+    // A retry leaves alone the plants an earlier attempt already produced recommendations for
+    const resumeSince = job.attempts > 1 && job.createdAt ? job.createdAt : undefined;
+    const summary = await storage.generateRecommendations(userId.toString(), { resumeSince });
+    // Per-plant failures are tolerated; if every plant still to do failed, the run is worth retrying
+    const attempted = summary.plants - summary.skipped;
+    if (attempted > 0 && summary.failed === attempted) {
+      throw new Error(`Recommendation generation failed for all ${attempted} remaining plants`);
+    }
+    return summary;
+  });
+
+  // payload: {} - lets a cron enqueue a digest run instead of relying on the in-process scheduler
+  registerJobHandler(JOB_TYPES.notificationCycle, async () => {
+    const result = await runNotificationCycle();
+    return { usersNotified: result.usersNotified, deliveries: result.deliveries.length, failures: result.failures.length };
+  });
+
+  // payload: {} - scheduled from index.ts; refreshes a batch of stale species catalog entries
+  registerJobHandler(JOB_TYPES.refreshSpeciesCatalog, async () => refreshStaleSpecies());
+
+  // payload: {} - scheduled from index.ts; fills in plants added while Perenual was unavailable
+  registerJobHandler(JOB_TYPES.enrichPendingPlants, async () => enrichPendingPlants());
+
+  // payload: {} - scheduled from index.ts; raises frost alerts for every user with outdoor plants
+  registerJobHandler(JOB_TYPES.frostCheck, async () => runFrostChecks());
+}
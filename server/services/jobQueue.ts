@@ -0,0 +1,131 @@
+import type { Job } from "../../shared/schema";
+import { storage } from "../storage";
+
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Retry delays double from the base up to the cap: 30s, 1m, 2m, ... 1h
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+// A running job not finished within this long is assumed to belong to a dead worker
+const STALE_LOCK_MS = 15 * 60 * 1000;
+// Jobs taken per poll, so one tick can't hold the worker forever
+const MAX_JOBS_PER_TICK = 10;
+
+export type JobHandler = (payload: Record<string, unknown>, job: Job) => Promise<unknown>;
+
+const handlers = new Map<string, JobHandler>();
+
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let tickInProgress = false;
+const recurringTimers = new Map<string, ReturnType<typeof setInterval>>();
+
+/**
+ * Register the function that runs jobs of a type. Whatever it returns is stored as the job's result;
+ * throwing fails the attempt.
+ */
+export function registerJobHandler(type: string, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+export async function enqueueJob(
+  type: string,
+  payload: Record<string, unknown> = {},
+  options: { userId?: number | null; maxAttempts?: number; runAt?: Date } = {}
+): Promise<Job> {
+  if (!handlers.has(type)) {
+    throw new Error(`No handler registered for job type "${type}"`);
+  }
+  return storage.enqueueJob({ type, payload, userId: options.userId, maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS, runAt: options.runAt });
+}
+
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+async function runJob(job: Job): Promise<void> {
+  const handler = handlers.get(job.type);
+  if (!handler) {
+    await storage.failJob(job.id, `No handler registered for job type "${job.type}"`, null);
+    return;
+  }
+  // Released stale jobs can come back with their attempts already spent
+  if (job.attempts > job.maxAttempts) {
+    await storage.failJob(job.id, job.lastError ?? 'Worker stopped before the job finished', null);
+    return;
+  }
+
+  try {
+    const result = await handler(job.payload ?? {}, job);
+    await storage.completeJob(job.id, result ?? null);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryAt = job.attempts < job.maxAttempts ? new Date(Date.now() + retryDelayMs(job.attempts)) : null;
+    console.error(`[jobQueue.ts] Job ${job.id} (${job.type}) failed on attempt ${job.attempts}/${job.maxAttempts}${retryAt ? `, retrying at ${retryAt.toISOString()}` : ''}:`, error);
+    await storage.failJob(job.id, message, retryAt);
+  }
+}
+
+/**
+ * Run due jobs one at a time until the queue is empty or MAX_JOBS_PER_TICK is reached.
+ * Returns how many jobs were run.
+ */
+export async function runDueJobs(now: Date = new Date()): Promise<number> {
+  await storage.releaseStaleJobs(new Date(now.getTime() - STALE_LOCK_MS));
+  let processed = 0;
+  while (processed < MAX_JOBS_PER_TICK) {
+    const job = await storage.claimNextJob(new Date());
+    if (!job) break;
+    await runJob(job);
+    processed++;
+  }
+  return processed;
+}
+
+/**
+ * Poll for jobs every JOB_POLL_INTERVAL_MS (default 2s). Serverless deployments would call
+ * runDueJobs from a cron instead.
+ */
+export function startJobWorker(intervalMs: number = parseInt(process.env.JOB_POLL_INTERVAL_MS || '', 10) || DEFAULT_POLL_INTERVAL_MS): void {
+  if (workerTimer) return;
+  const tick = async () => {
+    if (tickInProgress) return;
+    tickInProgress = true;
+    try {
+      await runDueJobs();
+    } catch (error) {
+      console.error('[jobQueue.ts] Job worker tick failed:', error);
+    } finally {
+      tickInProgress = false;
+    }
+  };
+  workerTimer = setInterval(tick, intervalMs);
+  console.log(`[jobQueue.ts] Job worker started, polling every ${intervalMs}ms.`);
+}
+
+/**
+ * Enqueue a system job (no owning user) of this type now and every intervalMs after, skipping a
+ * round while the previous one is still pending or running.
+ */
+export function scheduleRecurringJob(type: string, intervalMs: number, payload: Record<string, unknown> = {}): void {
+  if (recurringTimers.has(type)) return;
+  const enqueueIfIdle = async () => {
+    try {
+      if (await storage.findActiveJob(type, null)) return;
+      await enqueueJob(type, payload);
+    } catch (error) {
+      console.error(`[jobQueue.ts] Failed to enqueue recurring ${type} job:`, error);
+    }
+  };
+  recurringTimers.set(type, setInterval(enqueueIfIdle, intervalMs));
+  void enqueueIfIdle();
+  console.log(`[jobQueue.ts] Scheduled ${type} every ${Math.round(intervalMs / 60000)} minutes.`);
+}
+
+export function stopJobWorker(): void {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+  recurringTimers.forEach(timer => clearInterval(timer));
+  recurringTimers.clear();
+}
@@ -0,0 +1,345 @@
+import Groq from "groq-sdk";
+import type { PlantData, EnvironmentData, LocationContext } from "../../shared/schema";
+import { estimateTokens, getAiQuotaStatus, recordAiUsage } from "./aiUsageService";
+import { answerPlantQuestion, careTipsForPlant, dashboardTip, recommendForPlant } from "./ruleBasedAdvisor";
+
+// The structured inputs behind a prompt, for providers that don't read prompts (the rule-based one)
+export type LlmTask =
+  | { kind: 'recommendations'; plant: PlantData; environment: EnvironmentData; location?: LocationContext }
+  | { kind: 'care_tip'; plant: PlantData; weather: EnvironmentData; season: string; taskType: string; location?: LocationContext }
+  | { kind: 'dashboard_tip'; weather: EnvironmentData; season: string; location?: LocationContext }
+  | { kind: 'chat'; plant: PlantData; question: string; environment: EnvironmentData | null; location?: LocationContext };
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  prompt: string;
+  // Conversation turns for chat requests; the prompt is then sent as the system message ahead of them
+  messages?: LlmMessage[];
+  expectJson: boolean;
+  maxTokens: number;
+  task: LlmTask;
+  // The user the call is made for; their daily token quota applies and usage is recorded against them
+  userId?: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  provider: string;
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+/**
+ * A text-completion backend. complete() throws on failure; callers decide whether to fall back.
+ * stream() yields the reply in pieces as it is generated; providers without it answer in one piece.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+  stream?(request: LlmRequest): AsyncIterable<string>;
+}
+
+const DEFAULT_GROQ_MODEL = "llama3-8b-8192";
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+function toChatMessages(request: LlmRequest): { role: 'system' | 'user' | 'assistant'; content: string }[] {
+  if (!request.messages) return [{ role: 'user', content: request.prompt }];
+  return [{ role: 'system', content: request.prompt }, ...request.messages];
+}
+
+export function createGroqProvider(options: { apiKey: string; model?: string; timeoutMs?: number }): LlmProvider {
+  const client = new Groq({ apiKey: options.apiKey });
+  const model = options.model || DEFAULT_GROQ_MODEL;
+  // One deadline for the whole call, retries included, so a stuck completion falls back instead of hanging
+  const requestOptions = () => ({ signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS) });
+  return {
+    name: 'groq',
+    async complete(request) {
+      const completion = await client.chat.completions.create({
+        messages: toChatMessages(request),
+        model,
+        temperature: 0.7,
+        max_tokens: request.maxTokens,
+        top_p: 1,
+        stop: null,
+        stream: false,
+        // JSON mode makes the model emit a single JSON object; the prompt still has to ask for JSON
+        ...(request.expectJson ? { response_format: { type: "json_object" as const } } : {}),
+      }, requestOptions());
+      const text = completion.choices[0]?.message?.content;
+      if (!text) throw new Error('Groq returned an empty completion');
+      return {
+        text,
+        provider: 'groq',
+        usage: completion.usage
+          ? { promptTokens: completion.usage.prompt_tokens ?? 0, completionTokens: completion.usage.completion_tokens ?? 0 }
+          : undefined,
+      };
+    },
+    async *stream(request) {
+      const stream = await client.chat.completions.create({
+        messages: toChatMessages(request),
+        model,
+        temperature: 0.7,
+        max_tokens: request.maxTokens,
+        stream: true,
+      }, requestOptions());
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: Ollama (http://localhost:11434/v1),
+ * llama.cpp's server, vLLM, LM Studio or OpenAI itself.
+ */
+export function createOpenAiCompatibleProvider(options: {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}): LlmProvider {
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const fetchImpl = options.fetchImpl ?? fetch;
+
+  async function post(request: LlmRequest, stream: boolean): Promise<Response> {
+    const response = await fetchImpl(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: options.model,
+        messages: toChatMessages(request),
+        temperature: 0.7,
+        max_tokens: request.maxTokens,
+        stream,
+        ...(request.expectJson ? { response_format: { type: 'json_object' } } : {}),
+      }),
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`LLM endpoint responded ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+    return response;
+  }
+
+  return {
+    name: 'openai-compatible',
+    async complete(request) {
+      const response = await post(request, false);
+      const body = await response.json() as {
+        choices?: { message?: { content?: string } }[];
+        usage?: { prompt_tokens?: number; completion_tokens?: number };
+      };
+      const text = body.choices?.[0]?.message?.content;
+      if (!text) throw new Error('LLM endpoint returned an empty completion');
+      return {
+        text,
+        provider: 'openai-compatible',
+        usage: body.usage
+          ? { promptTokens: body.usage.prompt_tokens ?? 0, completionTokens: body.usage.completion_tokens ?? 0 }
+          : undefined,
+      };
+    },
+    // Streamed replies arrive as server-sent events: "data: {chunk}" lines, ending with "data: [DONE]"
+    async *stream(request) {
+      const response = await post(request, true);
+      if (!response.body) throw new Error('LLM endpoint returned no response body');
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffered += decoder.decode(value, { stream: true });
+          const lines = buffered.split('\n');
+          buffered = lines.pop() ?? '';
+          for (const line of lines) {
+            const data = line.trim();
+            if (!data.startsWith('data:')) continue;
+            const payload = data.slice(5).trim();
+            if (payload === '[DONE]') return;
+            const chunk = JSON.parse(payload) as { choices?: { delta?: { content?: string } }[] };
+            const text = chunk.choices?.[0]?.delta?.content;
+            if (text) yield text;
+          }
+        }
+      } finally {
+        // Stops the download if the caller gave up early
+        reader.cancel().catch(() => {});
+      }
+    },
+  };
+}
+
+/**
+ * Offline provider: answers from the structured task with fixed rules instead of reading the prompt.
+ * Output has the same shape the prompts ask for, so callers parse it the same way.
+ */
+export function createRuleBasedProvider(): LlmProvider {
+  return {
+    name: 'rule-based',
+    async complete(request) {
+      const { task } = request;
+      let text: string;
+      switch (task.kind) {
+        case 'recommendations':
+          text = JSON.stringify({ recommendations: recommendForPlant(task.plant, task.environment) });
+          break;
+        case 'care_tip':
+          text = JSON.stringify({ tips: careTipsForPlant(task.plant, task.weather, task.season, task.taskType, task.location) });
+          break;
+        case 'dashboard_tip':
+          text = dashboardTip(task.weather, task.season, task.location);
+          break;
+        case 'chat':
+          text = answerPlantQuestion(task.plant, task.question, task.environment, task.location);
+          break;
+      }
+      return { text, provider: 'rule-based' };
+    },
+  };
+}
+
+let providerOverride: LlmProvider | null = null;
+let configuredProvider: LlmProvider | null = null;
+const ruleBasedProvider = createRuleBasedProvider();
+
+/**
+ * Build the provider named by AI_PROVIDER ('groq' | 'openai-compatible' | 'rule-based').
+ * Without AI_PROVIDER: Groq when GROQ_API_KEY is set, else an OpenAI-compatible endpoint when
+ * AI_BASE_URL is set, else rule-based.
+ */
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const requested = env.AI_PROVIDER?.trim().toLowerCase();
+  const choice = requested || (env.GROQ_API_KEY ? 'groq' : env.AI_BASE_URL ? 'openai-compatible' : 'rule-based');
+
+  switch (choice) {
+    case 'groq':
+      if (!env.GROQ_API_KEY) {
+        console.error('[llmProviders.ts] AI_PROVIDER=groq but GROQ_API_KEY is not set; using the rule-based provider.');
+        return ruleBasedProvider;
+      }
+      return createGroqProvider({
+        apiKey: env.GROQ_API_KEY,
+        model: env.GROQ_MODEL,
+        timeoutMs: parseInt(env.AI_TIMEOUT_MS || '', 10) || undefined,
+      });
+    case 'openai-compatible':
+    case 'openai':
+      if (!env.AI_BASE_URL) {
+        console.error('[llmProviders.ts] AI_PROVIDER=openai-compatible but AI_BASE_URL is not set; using the rule-based provider.');
+        return ruleBasedProvider;
+      }
+      return createOpenAiCompatibleProvider({
+        baseUrl: env.AI_BASE_URL,
+        model: env.AI_MODEL || 'llama3',
+        apiKey: env.AI_API_KEY,
+        timeoutMs: parseInt(env.AI_TIMEOUT_MS || '', 10) || undefined,
+      });
+    case 'rule-based':
+      return ruleBasedProvider;
+    default:
+      console.error(`[llmProviders.ts] Unknown AI_PROVIDER "${choice}"; using the rule-based provider.`);
+      return ruleBasedProvider;
+  }
+}
+
+export function getLlmProvider(): LlmProvider {
+  if (providerOverride) return providerOverride;
+  if (!configuredProvider) {
+    configuredProvider = createProviderFromEnv();
+    console.log(`[llmProviders.ts] Using the ${configuredProvider.name} LLM provider.`);
+  }
+  return configuredProvider;
+}
+
+/**
+ * Swap the provider, e.g. for a stub in tests. Passing nothing restores the configured one.
+ */
+export function setLlmProvider(provider?: LlmProvider): void {
+  providerOverride = provider ?? null;
+}
+
+function requestText(request: LlmRequest): string {
+  return request.prompt + (request.messages ?? []).map(message => message.content).join('');
+}
+
+// Users over their daily token quota get rule-based answers until it resets
+async function providerFor(request: LlmRequest): Promise<LlmProvider> {
+  const provider = getLlmProvider();
+  if (request.userId == null || provider.name === ruleBasedProvider.name) return provider;
+  const quota = await getAiQuotaStatus(request.userId);
+  if (quota.remaining > 0) return provider;
+  console.warn(`[llmProviders.ts] User ${request.userId} is over the daily AI quota; using the rule-based provider.`);
+  return ruleBasedProvider;
+}
+
+async function recordCompletion(request: LlmRequest, completion: LlmCompletion): Promise<void> {
+  if (completion.provider === ruleBasedProvider.name) return;
+  await recordAiUsage({
+    userId: request.userId ?? null,
+    feature: request.task.kind,
+    provider: completion.provider,
+    promptTokens: completion.usage?.promptTokens ?? estimateTokens(requestText(request)),
+    completionTokens: completion.usage?.completionTokens ?? estimateTokens(completion.text),
+    cached: false,
+  });
+}
+
+/**
+ * Complete with the active provider, falling back to the rule-based provider if it fails so
+ * AI features degrade to canned-but-sensible advice instead of errors. Token usage is recorded.
+ */
+export async function completeWithFallback(request: LlmRequest): Promise<LlmCompletion> {
+  const provider = await providerFor(request);
+  let completion: LlmCompletion;
+  try {
+    completion = await provider.complete(request);
+  } catch (error) {
+    if (provider.name === ruleBasedProvider.name) throw error;
+    console.error(`[llmProviders.ts] ${provider.name} provider failed, falling back to rule-based:`, error);
+    return ruleBasedProvider.complete(request);
+  }
+  await recordCompletion(request, completion);
+  return completion;
+}
+
+/**
+ * Stream a reply from the active provider. If it fails before producing anything, the rule-based
+ * answer is used instead; a failure partway through is rethrown since part of the reply is already out.
+ * Streams don't report usage, so tokens are estimated from the text once the stream ends.
+ */
+export async function* streamWithFallback(request: LlmRequest): AsyncGenerator<string> {
+  const provider = await providerFor(request);
+  if (!provider.stream) {
+    const completion = await completeWithFallback(request);
+    yield completion.text;
+    return;
+  }
+
+  let reply = '';
+  try {
+    for await (const piece of provider.stream(request)) {
+      reply += piece;
+      yield piece;
+    }
+  } catch (error) {
+    if (reply || provider.name === ruleBasedProvider.name) throw error;
+    console.error(`[llmProviders.ts] ${provider.name} provider failed to stream, falling back to rule-based:`, error);
+    yield (await ruleBasedProvider.complete(request)).text;
+  } finally {
+    // Also runs when the caller stops early, which still cost the tokens generated so far
+    if (reply) await recordCompletion(request, { text: reply, provider: provider.name });
+  }
+}
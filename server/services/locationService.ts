@@ -0,0 +1,20 @@
+import type { LocationContext, UserProfile } from "../../shared/schema";
+import { DEFAULT_LATITUDE, DEFAULT_LONGITUDE } from "./weatherService";
+
+/**
+ * Turn a stored profile (or the lack of one) into the location used for weather and AI prompts.
+ * Users without saved coordinates fall back to the app default location.
+ */
+export function resolveLocation(profile?: UserProfile | null): LocationContext {
+  const hasCoordinates = profile?.latitude != null && profile?.longitude != null;
+  return {
+    locationName: profile?.locationName ?? null,
+    latitude: hasCoordinates ? profile!.latitude! : DEFAULT_LATITUDE,
+    longitude: hasCoordinates ? profile!.longitude! : DEFAULT_LONGITUDE,
+    timezone: profile?.timezone ?? null,
+    unitPreference: profile?.unitPreference === 'imperial' ? 'imperial' : 'metric',
+    hardinessZone: profile?.hardinessZone ?? null,
+    isDefault: !hasCoordinates,
+  };
+}
+
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isOwnMqttTopic, mqttTopicMatches, mqttTopicPrefix } from './mqttBridge';
+
+describe('isOwnMqttTopic', () => {
+  const prefix = mqttTopicPrefix(42);
+
+  it('gives each user their own prefix', () => {
+    assert.ok(prefix.endsWith('/42/'));
+    assert.notEqual(prefix, mqttTopicPrefix(420));
+  });
+
+  it('accepts topics and filters under the user prefix', () => {
+    for (const topic of [`${prefix}zigbee2mqtt/balcony`, `${prefix}+/state`, `${prefix}#`]) {
+      assert.equal(isOwnMqttTopic(42, topic), true, topic);
+    }
+  });
+
+  it('rejects topics outside the user prefix', () => {
+    const root = prefix.slice(0, -'42/'.length);
+    for (const topic of [
+      'zigbee2mqtt/balcony', '#', '+/42/state', `${root}#`, `${root}+/state`, `${root}420/state`, `${root}42`, prefix,
+    ]) {
+      assert.equal(isOwnMqttTopic(42, topic), false, topic);
+    }
+  });
+
+  it('keeps filters inside the prefix from matching other users', () => {
+    for (const filter of [`${prefix}#`, `${prefix}+/state`]) {
+      assert.equal(mqttTopicMatches(filter, `${mqttTopicPrefix(7)}sensor/state`), false, filter);
+      assert.equal(mqttTopicMatches(filter, `${prefix}sensor/state`), true, filter);
+    }
+  });
+});
@@ -0,0 +1,298 @@
+import { randomBytes } from 'crypto';
+import mqtt, { type IClientOptions, type MqttClient } from 'mqtt';
+import {
+  DEFAULT_MQTT_JSON_FIELDS,
+  SENSOR_BATCH_MAX_READINGS,
+  SENSOR_MEASUREMENTS,
+  type MqttTopicMapping,
+} from "../../shared/schema";
+import { storage } from "../storage";
+import { ingestSensorReadings, type SensorIngestionResult } from "./sensorIngestionService";
+
+// Readings are buffered per device and stored in batches, since brokers can be chatty
+const FLUSH_INTERVAL_MS = parseInt(process.env.MQTT_FLUSH_INTERVAL_MS || '', 10) || 10_000;
+// Reconnect delay doubles after each failed attempt, up to the max, and resets once connected
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 60 * 1000;
+// The broker is shared, so each user's mappings must sit under their own topic prefix (see mqttTopicPrefix)
+const TOPIC_ROOT = process.env.MQTT_TOPIC_ROOT || 'greengenius';
+
+export interface MqttBridgeStatus {
+  enabled: boolean;
+  connected: boolean;
+  broker: string | null; // without credentials
+  subscriptions: number;
+  reconnectAttempts: number;
+  lastConnectedAt: Date | null;
+  lastMessageAt: Date | null;
+  lastError: string | null;
+  messagesReceived: number;
+  readingsStored: number;
+  readingsRejected: number;
+}
+
+export interface MqttBridgeOptions {
+  url?: string; // defaults to MQTT_URL
+  clientOptions?: IClientOptions;
+  // Overridable so the bridge can be run against a local broker without a database
+  loadMappings?: () => Promise<MqttTopicMapping[]>;
+  storeReadings?: (deviceId: number, readings: Record<string, unknown>[]) => Promise<SensorIngestionResult | null>;
+  flushIntervalMs?: number;
+}
+
+interface Bridge {
+  client: MqttClient;
+  options: MqttBridgeOptions;
+  mappings: MqttTopicMapping[];
+  topics: Set<string>;
+  buffer: Map<number, Record<string, unknown>[]>;
+  flushTimer: ReturnType<typeof setInterval>;
+}
+
+let bridge: Bridge | null = null;
+const stats = {
+  broker: null as string | null,
+  reconnectAttempts: 0,
+  lastConnectedAt: null as Date | null,
+  lastMessageAt: null as Date | null,
+  lastError: null as string | null,
+  messagesReceived: 0,
+  readingsStored: 0,
+  readingsRejected: 0,
+};
+
+// Topics a user's sensors publish under, e.g. "greengenius/42/"; their mappings can't reach outside it
+export function mqttTopicPrefix(userId: number): string {
+  return `${TOPIC_ROOT}/${userId}/`;
+}
+
+// The prefix levels are literal, so a filter that starts with them (wildcards included) stays inside it
+export function isOwnMqttTopic(userId: number, topic: string): boolean {
+  const prefix = mqttTopicPrefix(userId);
+  return topic.startsWith(prefix) && topic.length > prefix.length;
+}
+
+// MQTT filter matching: "+" matches one level, "#" the rest of the topic (including none)
+export function mqttTopicMatches(filter: string, topic: string): boolean {
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '#') return true;
+    if (i >= topicLevels.length) return false;
+    if (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i]) return false;
+  }
+  return filterLevels.length === topicLevels.length;
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+const valueAtPath = (source: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), source);
+
+/**
+ * The raw reading (in POST /api/sensor-readings form) carried by one message on a mapped topic, or
+ * null when it has no measurement, e.g. a Zigbee2MQTT battery-only update or an "unavailable" state.
+ */
+export function readingFromMqttPayload(mapping: MqttTopicMapping, payload: Buffer | string, receivedAt: Date = new Date()): Record<string, unknown> | null {
+  const text = payload.toString().trim();
+  const measurements: Record<string, number> = {};
+
+  if (mapping.payloadFormat === 'value') {
+    const value = toNumber(text.replace(/^"(.*)"$/, '$1'));
+    if (value === undefined || !mapping.measurement) return null;
+    measurements[mapping.measurement] = value;
+  } else {
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return null;
+    }
+    const fields = { ...DEFAULT_MQTT_JSON_FIELDS, ...(mapping.fields as Record<string, string> | null) };
+    for (const measurement of SENSOR_MEASUREMENTS) {
+      const value = toNumber(valueAtPath(body, fields[measurement]));
+      if (value !== undefined) measurements[measurement] = value;
+    }
+    if (Object.keys(measurements).length === 0) return null;
+  }
+
+  return {
+    ...measurements,
+    timestamp: receivedAt.toISOString(),
+    temperatureUnit: mapping.temperatureUnit,
+    soilMoistureUnit: mapping.soilMoistureUnit,
+    ...(mapping.plantId ? { plantId: mapping.plantId } : {}),
+    ...(mapping.locationId ? { locationId: mapping.locationId } : {}),
+  };
+}
+
+async function storeWithDevice(deviceId: number, readings: Record<string, unknown>[]): Promise<SensorIngestionResult | null> {
+  const device = await storage.getSensorDeviceById(deviceId.toString());
+  return device ? ingestSensorReadings(device, readings) : null;
+}
+
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.username = '';
+    parsed.password = '';
+    return parsed.toString();
+  } catch {
+    return 'invalid URL';
+  }
+}
+
+function handleMessage(current: Bridge, topic: string, payload: Buffer): void {
+  stats.messagesReceived++;
+  stats.lastMessageAt = new Date();
+  for (const mapping of current.mappings) {
+    if (!mqttTopicMatches(mapping.topic, topic)) continue;
+    const reading = readingFromMqttPayload(mapping, payload, stats.lastMessageAt);
+    if (!reading) continue;
+    const pending = current.buffer.get(mapping.deviceId) ?? [];
+    pending.push(reading);
+    current.buffer.set(mapping.deviceId, pending);
+    if (pending.length >= SENSOR_BATCH_MAX_READINGS) void flushMqttReadings();
+  }
+}
+
+/**
+ * Store everything buffered so far, one batch per device. Runs on a timer; also called when a
+ * device's buffer fills up and when the bridge stops.
+ */
+export async function flushMqttReadings(): Promise<void> {
+  if (!bridge) return;
+  const { buffer, options } = bridge;
+  const storeReadings = options.storeReadings ?? storeWithDevice;
+  const batches = Array.from(buffer.keys()).map(deviceId => {
+    const readings = buffer.get(deviceId) ?? [];
+    buffer.delete(deviceId);
+    return { deviceId, readings };
+  });
+
+  for (const { deviceId, readings } of batches) {
+    try {
+      const result = await storeReadings(deviceId, readings);
+      if (!result) {
+        stats.readingsRejected += readings.length;
+        continue;
+      }
+      stats.readingsStored += result.accepted;
+      stats.readingsRejected += result.rejected.length;
+      if (result.rejected.length > 0) {
+        console.warn(`[mqttBridge.ts] Device ${deviceId}: rejected ${result.rejected.length} readings, e.g. ${result.rejected[0].errors.join('; ')}`);
+      }
+    } catch (error: any) {
+      stats.lastError = error.message ?? String(error);
+      console.error(`[mqttBridge.ts] Failed to store readings for device ${deviceId}:`, error);
+    }
+  }
+}
+
+/**
+ * Re-read the topic mappings and bring the broker subscriptions in line with them. Called after
+ * mappings change through the API; does nothing when the bridge isn't running. Mappings outside
+ * their owner's topic prefix (saved before it was required) are skipped.
+ */
+export async function reloadMqttMappings(): Promise<void> {
+  const current = bridge;
+  if (!current) return;
+  const mappings = (await (current.options.loadMappings ?? (() => storage.getEnabledMqttTopicMappings()))())
+    .filter(mapping => {
+      if (!mapping.enabled) return false;
+      if (isOwnMqttTopic(mapping.userId, mapping.topic)) return true;
+      console.warn(`[mqttBridge.ts] Skipping mapping ${mapping.id}: "${mapping.topic}" is outside ${mqttTopicPrefix(mapping.userId)}`);
+      return false;
+    });
+  const topics = new Set(mappings.map(mapping => mapping.topic));
+  const removed = Array.from(current.topics).filter(topic => !topics.has(topic));
+  const added = Array.from(topics).filter(topic => !current.topics.has(topic));
+  current.mappings = mappings;
+  current.topics = topics;
+
+  // While disconnected, the connect handler subscribes to the whole set
+  if (!current.client.connected) return;
+  if (removed.length > 0) await current.client.unsubscribeAsync(removed);
+  if (added.length > 0) await current.client.subscribeAsync(added, { qos: 1 });
+}
+
+/**
+ * Connect to the broker and subscribe to every enabled topic mapping. Returns false without
+ * connecting when no broker is configured, since the bridge is optional.
+ */
+export async function startMqttBridge(options: MqttBridgeOptions = {}): Promise<boolean> {
+  const url = options.url ?? process.env.MQTT_URL;
+  if (!url) {
+    console.log('[mqttBridge.ts] MQTT_URL not set; MQTT bridge disabled.');
+    return false;
+  }
+  if (bridge) return true;
+
+  stats.broker = redactUrl(url);
+  const client = mqtt.connect(url, {
+    clientId: `greengenius-${randomBytes(4).toString('hex')}`,
+    username: process.env.MQTT_USERNAME || undefined,
+    password: process.env.MQTT_PASSWORD || undefined,
+    reconnectPeriod: RECONNECT_BASE_MS,
+    resubscribe: false, // the connect handler subscribes to the current set instead
+    ...options.clientOptions,
+  });
+  const current: Bridge = {
+    client,
+    options,
+    mappings: [],
+    topics: new Set(),
+    buffer: new Map(),
+    flushTimer: setInterval(() => void flushMqttReadings(), options.flushIntervalMs ?? FLUSH_INTERVAL_MS),
+  };
+  current.flushTimer.unref?.();
+  bridge = current;
+
+  client.on('connect', () => {
+    stats.reconnectAttempts = 0;
+    stats.lastConnectedAt = new Date();
+    client.options.reconnectPeriod = RECONNECT_BASE_MS;
+    console.log(`[mqttBridge.ts] Connected to ${stats.broker}; subscribing to ${current.topics.size} topics.`);
+    if (current.topics.size > 0) {
+      client.subscribeAsync(Array.from(current.topics), { qos: 1 }).catch(error => {
+        stats.lastError = error.message;
+        console.error('[mqttBridge.ts] Failed to subscribe:', error);
+      });
+    }
+  });
+  client.on('reconnect', () => {
+    stats.reconnectAttempts++;
+    // Applies to the wait before the next attempt
+    client.options.reconnectPeriod = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** stats.reconnectAttempts);
+  });
+  client.on('error', error => {
+    stats.lastError = error.message;
+    console.error('[mqttBridge.ts] MQTT error:', error.message);
+  });
+  client.on('message', (topic, payload) => handleMessage(current, topic, payload));
+
+  await reloadMqttMappings();
+  return true;
+}
+
+// Store what's buffered and disconnect
+export async function stopMqttBridge(): Promise<void> {
+  const current = bridge;
+  if (!current) return;
+  clearInterval(current.flushTimer);
+  await flushMqttReadings();
+  bridge = null;
+  await current.client.endAsync();
+}
+
+export function getMqttBridgeStatus(): MqttBridgeStatus {
+  return {
+    enabled: !!bridge,
+    connected: !!bridge?.client.connected,
+    subscriptions: bridge?.topics.size ?? 0,
+    ...stats,
+  };
+}
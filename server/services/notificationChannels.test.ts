@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkWebhookUrl, isPublicAddress } from './notificationChannels';
+
+describe('isPublicAddress', () => {
+  it('accepts public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+
+  it('rejects loopback, private, link-local and metadata addresses', () => {
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.10', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fd00::1', 'fe80::1', 'ff02::1',
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('checks IPv4-mapped IPv6 addresses as IPv4', () => {
+    assert.equal(isPublicAddress('::ffff:127.0.0.1'), false);
+    assert.equal(isPublicAddress('::FFFF:169.254.169.254'), false);
+    assert.equal(isPublicAddress('::ffff:8.8.8.8'), true);
+  });
+
+  it('rejects anything that is not an address', () => {
+    assert.equal(isPublicAddress('example.com'), false);
+  });
+});
+
+describe('checkWebhookUrl', () => {
+  it('allows https URLs on public addresses', async () => {
+    assert.equal(await checkWebhookUrl('https://8.8.8.8/hook'), null);
+    assert.equal(await checkWebhookUrl('https://[2606:4700:4700::1111]/hook'), null);
+  });
+
+  it('requires https', async () => {
+    assert.equal(await checkWebhookUrl('http://8.8.8.8/hook'), 'Webhook URL must use https');
+  });
+
+  it('rejects malformed URLs', async () => {
+    assert.equal(await checkWebhookUrl('not a url'), 'Webhook URL is not a valid URL');
+  });
+
+  it('rejects URLs that reach the server or its network', async () => {
+    for (const url of [
+      'https://127.0.0.1/hook', 'https://169.254.169.254/latest/meta-data', 'https://10.0.0.5:8443/hook',
+      'https://[::1]/hook', 'https://[::ffff:192.168.0.1]/hook', 'https://localhost/hook',
+    ]) {
+      assert.equal(await checkWebhookUrl(url), 'Webhook URL must point to a public address', url);
+    }
+  });
+});
@@ -0,0 +1,238 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import webpush from 'web-push';
+import fetch from 'node-fetch';
+import dns from 'dns';
+import { Agent } from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import type { PushSubscription } from "../../shared/schema";
+
+export type NotificationChannelName = 'email' | 'push' | 'webhook';
+
+export interface DigestItem {
+  taskId: string;
+  plantId: string;
+  plantName: string;
+  taskType: string;
+  dueDate: Date;
+  overdue: boolean;
+  notes: string | null;
+}
+
+// One message per user per run, covering every task that is due and not yet sent on the channel
+export interface TaskDigest {
+  userId: number;
+  generatedAt: Date;
+  title: string;
+  body: string;
+  items: DigestItem[];
+}
+
+export interface NotificationRecipient {
+  userId: number;
+  email: string;
+  webhookUrl: string | null;
+  pushSubscriptions: PushSubscription[];
+}
+
+export interface NotificationChannel {
+  name: NotificationChannelName;
+  // Whether the recipient has an address on this channel at all
+  canDeliver(recipient: NotificationRecipient): boolean;
+  send(recipient: NotificationRecipient, digest: TaskDigest): Promise<void>;
+}
+
+/**
+ * SMTP email channel. Pass a transport to send through something other than the SMTP_* settings.
+ * Returns null when no transport is given and SMTP is not configured.
+ */
+export function createEmailChannel(
+  transport?: Pick<Transporter, 'sendMail'>,
+  from: string = process.env.NOTIFICATIONS_FROM_EMAIL || 'GreenGenius <no-reply@greengenius.app>'
+): NotificationChannel | null {
+  let mailer = transport;
+  if (!mailer) {
+    if (!process.env.SMTP_HOST) return null;
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    mailer = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    });
+  }
+  const sender = mailer;
+
+  return {
+    name: 'email',
+    canDeliver: (recipient) => !!recipient.email,
+    async send(recipient, digest) {
+      await sender.sendMail({
+        from,
+        to: recipient.email,
+        subject: digest.title,
+        text: digest.body,
+      });
+    },
+  };
+}
+
+type PushSender = (subscription: webpush.PushSubscription, payload: string) => Promise<unknown>;
+
+/**
+ * Web Push channel. Subscriptions the push service reports as gone (404/410) are handed to
+ * `onExpiredSubscription` so they can be removed. Returns null when no sender is given and
+ * the VAPID_* keys are not configured.
+ */
+export function createWebPushChannel(options: {
+  sender?: PushSender;
+  onExpiredSubscription?: (endpoint: string) => Promise<void>;
+} = {}): NotificationChannel | null {
+  let sender = options.sender;
+  if (!sender) {
+    const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY } = process.env;
+    if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) return null;
+    webpush.setVapidDetails(process.env.VAPID_SUBJECT || 'mailto:no-reply@greengenius.app', VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
+    sender = (subscription, payload) => webpush.sendNotification(subscription, payload);
+  }
+  const sendPush = sender;
+
+  return {
+    name: 'push',
+    canDeliver: (recipient) => recipient.pushSubscriptions.length > 0,
+    async send(recipient, digest) {
+      const payload = JSON.stringify({ title: digest.title, body: digest.body, url: '/dashboard' });
+      let delivered = 0;
+      let lastError: unknown;
+
+      for (const subscription of recipient.pushSubscriptions) {
+        try {
+          await sendPush({ endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } }, payload);
+          delivered++;
+        } catch (error: any) {
+          lastError = error;
+          if ((error?.statusCode === 404 || error?.statusCode === 410) && options.onExpiredSubscription) {
+            await options.onExpiredSubscription(subscription.endpoint);
+          }
+        }
+      }
+
+      // Reaching any one device is enough
+      if (delivered === 0) throw lastError ?? new Error('No push subscription accepted the notification');
+    },
+  };
+}
+
+type WebhookPoster = (url: string, body: unknown) => Promise<void>;
+
+// A webhook that doesn't answer in time counts as failed, so it can't hold up the notification cycle
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '', 10) || 10_000;
+
+// Webhooks are requested by the server, so they must not reach it, its network or cloud metadata
+const nonPublicAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const mappedIpv4 = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+  if (mappedIpv4) return isPublicAddress(mappedIpv4);
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !nonPublicAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Why the server may not POST to this URL, or null when it may: webhooks must be https and every
+ * address the host resolves to must be public.
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Webhook URL is not a valid URL';
+  }
+  if (parsed.protocol !== 'https:') return 'Webhook URL must use https';
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isIP(host)) return isPublicAddress(host) ? null : 'Webhook URL must point to a public address';
+  try {
+    const addresses = await dns.promises.lookup(host, { all: true });
+    return addresses.every(({ address }) => isPublicAddress(address)) ? null : 'Webhook URL must point to a public address';
+  } catch {
+    return `Webhook host ${host} could not be resolved`;
+  }
+}
+
+// Re-checks addresses at connect time, so a host can't pass checkWebhookUrl and then resolve elsewhere
+const publicOnlyLookup: LookupFunction = (hostname, options, callback: any) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(new Error(`Webhook host ${hostname} resolves to a non-public address`));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+const webhookAgent = new Agent({ lookup: publicOnlyLookup });
+
+const postJson: WebhookPoster = async (url, body) => {
+  const problem = await checkWebhookUrl(url);
+  if (problem) throw new Error(problem);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    agent: webhookAgent,
+    redirect: 'error', // a redirect could lead anywhere, including plain http
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+  }
+};
+
+/**
+ * Generic webhook channel: POSTs the digest as JSON to the user's webhook URL.
+ */
+export function createWebhookChannel(post: WebhookPoster = postJson): NotificationChannel {
+  return {
+    name: 'webhook',
+    canDeliver: (recipient) => !!recipient.webhookUrl,
+    async send(recipient, digest) {
+      await post(recipient.webhookUrl!, {
+        event: 'care_tasks.due',
+        userId: digest.userId,
+        generatedAt: digest.generatedAt.toISOString(),
+        tasks: digest.items.map(item => ({ ...item, dueDate: item.dueDate.toISOString() })),
+      });
+    },
+  };
+}
+
+export interface InMemoryChannel extends NotificationChannel {
+  sent: { recipient: NotificationRecipient; digest: TaskDigest }[];
+}
+
+/**
+ * Channel that records digests instead of sending them, for tests and local development.
+ */
+export function createInMemoryChannel(name: NotificationChannelName): InMemoryChannel {
+  const sent: InMemoryChannel['sent'] = [];
+  return {
+    name,
+    sent,
+    canDeliver: () => true,
+    async send(recipient, digest) {
+      sent.push({ recipient, digest });
+    },
+  };
+}
@@ -0,0 +1,210 @@
+import type { NotificationPreferences } from "../../shared/schema";
+import { storage, type DueCareTask } from "../storage";
+import {
+  createEmailChannel,
+  createWebhookChannel,
+  createWebPushChannel,
+  type DigestItem,
+  type NotificationChannel,
+  type NotificationChannelName,
+  type NotificationRecipient,
+  type TaskDigest,
+} from "./notificationChannels";
+import { endOfTodayIn, startOfTodayIn } from "./timezoneService";
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+// Far enough ahead to cover the end of today in any timezone (UTC+14 at the most)
+const DUE_LOOKAHEAD_MS = 48 * 60 * 60 * 1000;
+
+let channelOverride: NotificationChannel[] | null = null;
+let defaultChannels: NotificationChannel[] | null = null;
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+let cycleInProgress = false;
+
+export interface NotificationCycleResult {
+  usersNotified: number;
+  deliveries: { userId: number; channel: NotificationChannelName; taskCount: number }[];
+  failures: { userId: number; channel: NotificationChannelName; error: string }[];
+}
+
+// Channels configured from the environment; built lazily so env vars are loaded first
+function getDefaultChannels(): NotificationChannel[] {
+  if (!defaultChannels) {
+    defaultChannels = [
+      createEmailChannel(),
+      createWebPushChannel({ onExpiredSubscription: (endpoint) => storage.deletePushSubscription(endpoint) }),
+      createWebhookChannel(),
+    ].filter((channel): channel is NotificationChannel => channel !== null);
+  }
+  return defaultChannels;
+}
+
+/**
+ * Replace the delivery channels, e.g. with in-memory channels in tests.
+ * Passing nothing restores the channels configured from the environment.
+ */
+export function setNotificationChannels(channels?: NotificationChannel[]): void {
+  channelOverride = channels ?? null;
+}
+
+function getChannels(): NotificationChannel[] {
+  return channelOverride ?? getDefaultChannels();
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether `now` falls inside a quiet-hours window given as "HH:MM" in the user's timezone.
+ * Windows where end is before start wrap past midnight (e.g. 22:00–07:00).
+ */
+export function isWithinQuietHours(now: Date, start: string | null, end: string | null, timezone?: string | null): boolean {
+  if (!start || !end || start === end) return false;
+
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone: timezone || undefined,
+  }).formatToParts(now);
+  const hour = Number(parts.find(part => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value ?? 0);
+  const current = hour * 60 + minute;
+
+  const startMinutes = minutesOfDay(start);
+  const endMinutes = minutesOfDay(end);
+  return startMinutes < endMinutes
+    ? current >= startMinutes && current < endMinutes
+    : current >= startMinutes || current < endMinutes;
+}
+
+function isChannelEnabled(channel: NotificationChannelName, prefs?: NotificationPreferences): boolean {
+  // No saved preferences means email only
+  if (channel === 'email') return prefs?.emailEnabled ?? true;
+  if (channel === 'push') return prefs?.pushEnabled ?? false;
+  return prefs?.webhookEnabled ?? false;
+}
+
+/**
+ * Build the digest text for a user's due and overdue tasks; "overdue" means due before today in the
+ * user's timezone.
+ */
+export function buildDigest(userId: number, dueTasks: DueCareTask[], now: Date = new Date(), timezone?: string | null): TaskDigest {
+  const startOfToday = startOfTodayIn(now, timezone);
+
+  const items: DigestItem[] = dueTasks.map(({ task, plantName }) => ({
+    taskId: task.id,
+    plantId: task.plantId,
+    plantName,
+    taskType: task.type,
+    dueDate: task.dueDate,
+    overdue: task.dueDate < startOfToday,
+    notes: task.notes ?? null,
+  }));
+
+  const overdueCount = items.filter(item => item.overdue).length;
+  const title = overdueCount > 0
+    ? `${items.length} plant care task${items.length === 1 ? '' : 's'} due (${overdueCount} overdue)`
+    : `${items.length} plant care task${items.length === 1 ? '' : 's'} due today`;
+  const lines = items.map(item =>
+    `- ${item.taskType} ${item.plantName}${item.overdue ? ` (overdue since ${item.dueDate.toDateString()})` : ''}${item.notes ? ` – ${item.notes}` : ''}`
+  );
+
+  return { userId, generatedAt: now, title, body: lines.join('\n'), items };
+}
+
+/**
+ * One pass of the scheduler: find due/overdue pending tasks and send each user a digest on every
+ * channel they enabled, skipping users in quiet hours and tasks already delivered on that channel.
+ * Failed sends are not recorded, so the next run retries them.
+ */
+export async function runNotificationCycle(now: Date = new Date()): Promise<NotificationCycleResult> {
+  const result: NotificationCycleResult = { usersNotified: 0, deliveries: [], failures: [] };
+
+  // Everything due by the end of the user's today counts; that is narrowed per user below
+  const dueTasks = await storage.getDueCareTasksForNotification(new Date(now.getTime() + DUE_LOOKAHEAD_MS));
+
+  const tasksByUser = new Map<number, DueCareTask[]>();
+  for (const dueTask of dueTasks) {
+    const userTasks = tasksByUser.get(dueTask.userId) ?? [];
+    userTasks.push(dueTask);
+    tasksByUser.set(dueTask.userId, userTasks);
+  }
+
+  for (const [userId, tasksInLookahead] of Array.from(tasksByUser.entries())) {
+    const [prefs, profile] = await Promise.all([
+      storage.getNotificationPreferences(userId.toString()),
+      storage.getUserProfile(userId.toString()),
+    ]);
+    if (isWithinQuietHours(now, prefs?.quietHoursStart ?? null, prefs?.quietHoursEnd ?? null, profile?.timezone)) {
+      continue;
+    }
+    // "Today" ends at midnight in the user's timezone, the same one quiet hours use
+    const endOfToday = endOfTodayIn(now, profile?.timezone);
+    const userTasks = tasksInLookahead.filter(t => new Date(t.task.dueDate) <= endOfToday);
+    if (userTasks.length === 0) continue;
+
+    const recipient: NotificationRecipient = {
+      userId,
+      email: userTasks[0].email,
+      webhookUrl: prefs?.webhookUrl ?? null,
+      pushSubscriptions: prefs?.pushEnabled ? await storage.getPushSubscriptionsByUserId(userId.toString()) : [],
+    };
+
+    let notified = false;
+    for (const channel of getChannels()) {
+      if (!isChannelEnabled(channel.name, prefs) || !channel.canDeliver(recipient)) continue;
+
+      const delivered = new Set(await storage.getDeliveredTaskIds(userTasks.map(t => t.task.id), channel.name));
+      const pending = userTasks.filter(t => !delivered.has(t.task.id));
+      if (pending.length === 0) continue;
+
+      try {
+        await channel.send(recipient, buildDigest(userId, pending, now, profile?.timezone));
+        await storage.recordNotificationDeliveries(userId.toString(), pending.map(t => t.task.id), channel.name);
+        result.deliveries.push({ userId, channel: channel.name, taskCount: pending.length });
+        notified = true;
+      } catch (error: any) {
+        console.error(`[notificationService.ts] Failed to send ${channel.name} digest to user ${userId}:`, error);
+        result.failures.push({ userId, channel: channel.name, error: error?.message || String(error) });
+      }
+    }
+    if (notified) result.usersNotified++;
+  }
+
+  return result;
+}
+
+/**
+ * Run the notification cycle on an interval (NOTIFICATION_INTERVAL_MINUTES, default 15).
+ */
+export function startNotificationScheduler(intervalMinutes: number = parseInt(process.env.NOTIFICATION_INTERVAL_MINUTES || '', 10) || DEFAULT_INTERVAL_MINUTES): void {
+  if (schedulerTimer) return;
+
+  const tick = async () => {
+    if (cycleInProgress) return; // A slow run must not overlap the next one
+    cycleInProgress = true;
+    try {
+      const result = await runNotificationCycle();
+      if (result.deliveries.length > 0 || result.failures.length > 0) {
+        console.log(`[notificationService.ts] Sent ${result.deliveries.length} digest(s) to ${result.usersNotified} user(s), ${result.failures.length} failure(s).`);
+      }
+    } catch (error) {
+      console.error('[notificationService.ts] Notification cycle failed:', error);
+    } finally {
+      cycleInProgress = false;
+    }
+  };
+
+  schedulerTimer = setInterval(tick, intervalMinutes * 60 * 1000);
+  console.log(`[notificationService.ts] Notification scheduler started (every ${intervalMinutes} min).`);
+}
+
+export function stopNotificationScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -0,0 +1,210 @@
+import axios from 'axios';
+
+const PERENUAL_BASE_URL = 'https://perenual.com/api/v2';
+
+const REQUEST_TIMEOUT_MS = parseInt(process.env.PERENUAL_TIMEOUT_MS || '', 10) || 10_000;
+// Retries after the first attempt, for timeouts, network errors and 5xx only
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+// Requests allowed per UTC day; the free tier allows 100
+export const PERENUAL_DAILY_QUOTA = parseInt(process.env.PERENUAL_DAILY_QUOTA || '', 10) || 100;
+// Consecutive failed calls that open the circuit, and how long it stays open before a trial call
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// species/details response; only the fields we read are typed, the rest is passed through as stored
+export interface PerenualSpeciesDetails {
+  id: number;
+  common_name?: string | null;
+  scientific_name?: string[] | null;
+  default_image?: { regular_url?: string | null; original_url?: string | null; medium_url?: string | null; thumbnail?: string | null } | null;
+  [field: string]: any;
+}
+
+// One hit from species-list
+export interface PerenualSpeciesListItem {
+  id: number;
+  common_name?: string | null;
+  scientific_name?: string[] | null;
+  other_name?: string[] | null;
+  cycle?: string | null;
+  default_image?: PerenualSpeciesDetails['default_image'];
+  [field: string]: any;
+}
+
+export type PerenualUnavailableReason = 'not_configured' | 'quota_exhausted' | 'circuit_open';
+
+/**
+ * Thrown without calling Perenual when it can't be used right now. Callers fall back to cached
+ * data, or create the plant without species details and enrich it after `retryAt`.
+ */
+export class PerenualUnavailableError extends Error {
+  constructor(readonly reason: PerenualUnavailableReason, readonly retryAt: Date | null) {
+    super(`Perenual is unavailable (${reason.replace('_', ' ')})`);
+  }
+}
+
+export interface PerenualStatus {
+  configured: boolean;
+  requestsToday: number;
+  dailyQuota: number;
+  quotaResetsAt: Date;
+  quotaExhausted: boolean;
+  circuit: 'closed' | 'open' | 'half_open';
+  circuitRetryAt: Date | null;
+}
+
+// Counters are per process: a restart forgets today's usage, but Perenual's 429 re-blocks us quickly
+const state = {
+  day: 0, // start of the UTC day the counters belong to, in ms
+  requests: 0,
+  exhaustedUntil: 0, // set when Perenual itself answers 429
+  consecutiveFailures: 0,
+  circuitOpenUntil: 0,
+  trialInFlight: false,
+};
+
+function startOfUtcDay(now: number): number {
+  return Math.floor(now / DAY_MS) * DAY_MS;
+}
+
+function rollQuotaDay(now: number): void {
+  const day = startOfUtcDay(now);
+  if (day !== state.day) {
+    state.day = day;
+    state.requests = 0;
+  }
+}
+
+export function isPerenualConfigured(): boolean {
+  return !!process.env.PERENUAL_API_KEY;
+}
+
+/**
+ * Quota and circuit breaker state, for the status endpoint and for background jobs deciding
+ * whether to bother running.
+ */
+export function getPerenualStatus(now: Date = new Date()): PerenualStatus {
+  const time = now.getTime();
+  rollQuotaDay(time);
+  const circuitOpen = state.circuitOpenUntil > time;
+  return {
+    configured: isPerenualConfigured(),
+    requestsToday: state.requests,
+    dailyQuota: PERENUAL_DAILY_QUOTA,
+    quotaResetsAt: new Date(state.day + DAY_MS),
+    quotaExhausted: state.requests >= PERENUAL_DAILY_QUOTA || state.exhaustedUntil > time,
+    circuit: circuitOpen ? 'open' : state.circuitOpenUntil > 0 ? 'half_open' : 'closed',
+    circuitRetryAt: circuitOpen ? new Date(state.circuitOpenUntil) : null,
+  };
+}
+
+/**
+ * Null when a call may be made now, otherwise the error saying why and when to try again.
+ * In the half-open state only one trial call is let through until it settles.
+ */
+export function perenualUnavailableError(now: Date = new Date()): PerenualUnavailableError | null {
+  const time = now.getTime();
+  rollQuotaDay(time);
+  if (!isPerenualConfigured()) return new PerenualUnavailableError('not_configured', null);
+  if (state.requests >= PERENUAL_DAILY_QUOTA || state.exhaustedUntil > time) {
+    return new PerenualUnavailableError('quota_exhausted', new Date(Math.max(state.exhaustedUntil, state.day + DAY_MS)));
+  }
+  if (state.circuitOpenUntil > time || (state.circuitOpenUntil > 0 && state.trialInFlight)) {
+    return new PerenualUnavailableError('circuit_open', new Date(Math.max(state.circuitOpenUntil, time + CIRCUIT_COOLDOWN_MS)));
+  }
+  return null;
+}
+
+function apiKey(): string {
+  const key = process.env.PERENUAL_API_KEY;
+  if (!key) throw new PerenualUnavailableError('not_configured', null);
+  return key;
+}
+
+function isRetryable(error: any): boolean {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return status === undefined || status >= 500; // no response means a timeout or network error
+}
+
+function countRequest(now: number): void {
+  rollQuotaDay(now);
+  state.requests++;
+}
+
+function recordSuccess(): void {
+  state.consecutiveFailures = 0;
+  state.circuitOpenUntil = 0;
+}
+
+function recordFailure(now: number): void {
+  state.consecutiveFailures++;
+  // A failed trial call re-opens the circuit straight away
+  if (state.circuitOpenUntil > 0 || state.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    state.circuitOpenUntil = now + CIRCUIT_COOLDOWN_MS;
+    console.warn(`[perenualClient.ts] Circuit open after ${state.consecutiveFailures} failed calls; pausing Perenual requests for ${CIRCUIT_COOLDOWN_MS / 1000}s.`);
+  }
+}
+
+function retryAfterMs(error: any): number | null {
+  const header = error.response?.headers?.['retry-after'];
+  const seconds = header !== undefined ? parseInt(header, 10) : NaN;
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * GET a Perenual endpoint with a timeout, retrying transient failures with exponential backoff.
+ * Every attempt Perenual answers counts against the daily quota. A 429 marks the quota used up until Perenual's
+ * Retry-After (or the next UTC day); other failures feed the circuit breaker.
+ */
+async function perenualGet<T>(path: string, params: Record<string, unknown> = {}): Promise<T> {
+  const blocked = perenualUnavailableError();
+  if (blocked) throw blocked;
+  const key = apiKey();
+  const isTrial = state.circuitOpenUntil > 0;
+  if (isTrial) state.trialInFlight = true;
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await axios.get<T>(`${PERENUAL_BASE_URL}${path}`, { params: { ...params, key }, timeout: REQUEST_TIMEOUT_MS });
+        countRequest(Date.now());
+        recordSuccess();
+        return response.data;
+      } catch (error: any) {
+        const now = Date.now();
+        if (error.response) countRequest(now);
+        if (axios.isAxiosError(error) && error.response?.status === 429) {
+          state.exhaustedUntil = now + (retryAfterMs(error) ?? startOfUtcDay(now) + DAY_MS - now);
+          console.warn(`[perenualClient.ts] Perenual quota exhausted; pausing requests until ${new Date(state.exhaustedUntil).toISOString()}.`);
+          throw new PerenualUnavailableError('quota_exhausted', new Date(state.exhaustedUntil));
+        }
+        if (!isRetryable(error)) throw error;
+        if (attempt >= MAX_RETRIES || isTrial || perenualUnavailableError()) {
+          recordFailure(now);
+          throw error;
+        }
+        const delay = RETRY_BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() * 0.25);
+        console.warn(`[perenualClient.ts] GET ${path} failed (${error.code ?? error.response?.status}), retrying in ${Math.round(delay)}ms`);
+        await sleep(delay);
+      }
+    }
+  } finally {
+    if (isTrial) state.trialInFlight = false;
+  }
+}
+
+export async function searchPerenualSpecies(query: string): Promise<PerenualSpeciesListItem[]> {
+  const data = await perenualGet<any>('/species-list', { q: query });
+  return Array.isArray(data?.data) ? data.data : [];
+}
+
+// Undefined when Perenual has no species with this ID
+export async function fetchPerenualSpeciesDetails(perenualId: number): Promise<PerenualSpeciesDetails | undefined> {
+  const data = await perenualGet<any>(`/species/details/${perenualId}`);
+  return data?.id ? data : undefined;
+}
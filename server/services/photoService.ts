@@ -0,0 +1,103 @@
+import { randomUUID } from 'crypto';
+import sharp, { type Metadata } from 'sharp';
+import type { PlantPhoto } from "../../shared/schema";
+import { storage } from "../storage";
+import { getPhotoStorage } from "./photoStorage";
+
+export const MAX_PHOTO_BYTES = parseInt(process.env.PHOTO_MAX_BYTES || '', 10) || 10 * 1024 * 1024;
+export const ALLOWED_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+const THUMBNAIL_WIDTH = 320;
+
+const EXTENSION_BY_TYPE: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+};
+
+// sharp's format names for the types we accept
+const SHARP_FORMAT_BY_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export class PhotoValidationError extends Error {}
+
+export interface PhotoUpload {
+  buffer: Buffer;
+  mimetype: string;
+  size: number;
+}
+
+/**
+ * Validate and store an uploaded photo plus a thumbnail, then record it against the plant.
+ * The declared MIME type must match what the bytes actually decode as.
+ */
+export async function savePlantPhoto(
+  plantId: number,
+  userId: number,
+  file: PhotoUpload,
+  fields: { caption?: string; takenAt?: Date } = {}
+): Promise<PlantPhoto> {
+  if (!(ALLOWED_PHOTO_TYPES as readonly string[]).includes(file.mimetype)) {
+    throw new PhotoValidationError(`Unsupported image type ${file.mimetype}. Use JPEG, PNG or WebP.`);
+  }
+  if (file.size > MAX_PHOTO_BYTES) {
+    throw new PhotoValidationError(`Photo is larger than ${Math.round(MAX_PHOTO_BYTES / (1024 * 1024))} MB.`);
+  }
+
+  let metadata: Metadata;
+  try {
+    metadata = await sharp(file.buffer).metadata();
+  } catch {
+    throw new PhotoValidationError('File is not a readable image.');
+  }
+  if (metadata.format !== SHARP_FORMAT_BY_TYPE[file.mimetype]) {
+    throw new PhotoValidationError(`File content does not match its declared type ${file.mimetype}.`);
+  }
+
+  // rotate() applies the EXIF orientation so phone photos aren't sideways
+  const thumbnail = await sharp(file.buffer)
+    .rotate()
+    .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+
+  const baseKey = `plants/${plantId}/${randomUUID()}`;
+  const storageKey = `${baseKey}${EXTENSION_BY_TYPE[file.mimetype]}`;
+  const thumbnailKey = `${baseKey}_thumb.webp`;
+  const photoStorage = getPhotoStorage();
+
+  await photoStorage.putObject(storageKey, file.buffer, file.mimetype);
+  await photoStorage.putObject(thumbnailKey, thumbnail, 'image/webp');
+
+  // Width/height are reported as displayed, i.e. after EXIF rotation
+  const swapsAxes = (metadata.orientation ?? 1) >= 5;
+  try {
+    return await storage.createPlantPhoto({
+      plantId,
+      userId,
+      storageKey,
+      thumbnailKey,
+      contentType: file.mimetype,
+      sizeBytes: file.size,
+      width: (swapsAxes ? metadata.height : metadata.width) ?? null,
+      height: (swapsAxes ? metadata.width : metadata.height) ?? null,
+      caption: fields.caption || null,
+      takenAt: fields.takenAt ?? new Date(),
+    });
+  } catch (error) {
+    // Don't leave orphaned files behind if the row can't be written
+    await Promise.all([photoStorage.deleteObject(storageKey), photoStorage.deleteObject(thumbnailKey)]);
+    throw error;
+  }
+}
+
+/**
+ * Delete a photo's row and both stored files.
+ */
+export async function deletePlantPhoto(photo: PlantPhoto): Promise<void> {
+  await storage.deletePlantPhoto(photo.id.toString());
+  const photoStorage = getPhotoStorage();
+  await Promise.all([photoStorage.deleteObject(photo.storageKey), photoStorage.deleteObject(photo.thumbnailKey)]);
+}
@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Object storage for uploaded photos. Mirrors the S3 PutObject/GetObject/DeleteObject calls so an
+ * S3 (or R2/MinIO) backend can be dropped in without touching callers.
+ */
+export interface PhotoStorage {
+  putObject(key: string, body: Buffer, contentType: string): Promise<void>;
+  getObject(key: string): Promise<{ body: Buffer; contentType: string } | null>;
+  deleteObject(key: string): Promise<void>;
+}
+
+const CONTENT_TYPE_BY_EXTENSION: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Stores objects as files under a root directory; keys map to relative paths.
+ */
+export class LocalDiskPhotoStorage implements PhotoStorage {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    // Keys come from our own code, but never let one escape the root
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async putObject(key: string, body: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async getObject(key: string): Promise<{ body: Buffer; contentType: string } | null> {
+    try {
+      const body = await fs.readFile(this.resolve(key));
+      const contentType = CONTENT_TYPE_BY_EXTENSION[path.extname(key).toLowerCase()] ?? 'application/octet-stream';
+      return { body, contentType };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+let photoStorage: PhotoStorage | null = null;
+
+/**
+ * The configured photo storage backend (local disk under PHOTO_UPLOAD_DIR, default ./uploads).
+ */
+export function getPhotoStorage(): PhotoStorage {
+  if (!photoStorage) {
+    photoStorage = new LocalDiskPhotoStorage(path.resolve(process.env.PHOTO_UPLOAD_DIR || 'uploads'));
+  }
+  return photoStorage;
+}
+
+/**
+ * Swap the storage backend, e.g. for S3 or an in-memory store in tests.
+ * Passing nothing restores the default local-disk backend.
+ */
+export function setPhotoStorage(storageBackend?: PhotoStorage): void {
+  photoStorage = storageBackend ?? null;
+}
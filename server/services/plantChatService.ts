@@ -0,0 +1,142 @@
+import type { CareHistory, EnvironmentReading, Plant, PlantChatMessage, PlantHealthMetric } from "../../shared/schema";
+import { storage } from "../storage";
+import { streamWithFallback } from "./llmProviders";
+import { resolveLocation } from "./locationService";
+
+// Older turns are dropped from the prompt (they stay stored) to keep requests small
+const MAX_HISTORY_MESSAGES = 20;
+const RECENT_CARE_ENTRIES = 10;
+const MAX_TITLE_LENGTH = 60;
+
+export interface PlantChatContext {
+  plant: Plant;
+  careHistory: CareHistory[];
+  environment: EnvironmentReading | undefined;
+  health: PlantHealthMetric | undefined;
+}
+
+function formatDate(date: Date | string | null | undefined): string {
+  return date ? new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }) : 'unknown';
+}
+
+function formatList(values: string[] | null | undefined): string | null {
+  return values && values.length > 0 ? values.join(', ') : null;
+}
+
+function formatBenchmark(benchmark: unknown): string | null {
+  const value = benchmark as { value?: string; unit?: string } | null;
+  return value?.value ? `every ${value.value} ${value.unit ?? 'days'}` : null;
+}
+
+/**
+ * The system prompt for a plant conversation: what the assistant is, plus everything we know
+ * about the plant right now. Rebuilt on every turn so answers use current data.
+ */
+export function buildPlantChatPrompt({ plant, careHistory, environment, health }: PlantChatContext, unitPreference: 'metric' | 'imperial'): string {
+  const facts: [string, string | null | undefined][] = [
+    ['Name', plant.name],
+    ['Species', plant.species],
+    ['Scientific name', formatList(plant.scientific_name)],
+    ['Family', plant.family],
+    ['Type', plant.type],
+    ['Cycle', plant.cycle],
+    ['Indoor plant', plant.indoor == null ? null : plant.indoor ? 'yes' : 'no'],
+    ['Care level', plant.care_level],
+    ['Growth rate', plant.growth_rate],
+    ['Typical watering', formatBenchmark(plant.watering_general_benchmark)],
+    ['Watering schedule', plant.waterFrequencyDays ? `every ${plant.waterFrequencyDays} days` : null],
+    ['Last watered', plant.lastWatered ? formatDate(plant.lastWatered) : 'never recorded'],
+    ['Sunlight needs', formatList(plant.sunlight)],
+    ['Soil', formatList(plant.soil)],
+    ['Drought tolerant', plant.drought_tolerant ? 'yes' : null],
+    ['Tropical', plant.tropical ? 'yes' : null],
+    ['Pest susceptibility', formatList(plant.pest_susceptibility)],
+    ['Poisonous to pets', plant.poisonous_to_pets ? 'yes' : null],
+    ['Acquired', plant.acquiredDate ? formatDate(plant.acquiredDate) : null],
+    ['Owner notes', plant.notes],
+  ];
+
+  const lines = [
+    `You are a friendly, knowledgeable plant care assistant helping the owner of one specific plant.`,
+    `Answer questions about this plant using the details below. Be concise (a short paragraph or a few bullet points), practical and specific to this plant.`,
+    `If the details don't cover something, say so rather than guessing. Use ${unitPreference === 'imperial' ? 'imperial units (°F, inches)' : 'metric units (°C, cm)'}.`,
+    '',
+    'Plant details:',
+    ...facts.filter(([, value]) => value).map(([label, value]) => `- ${label}: ${value}`),
+  ];
+
+  lines.push('', 'Recent care (newest first):');
+  if (careHistory.length === 0) {
+    lines.push('- none recorded');
+  } else {
+    for (const entry of careHistory.slice(0, RECENT_CARE_ENTRIES)) {
+      lines.push(`- ${formatDate(entry.performedAt)}: ${entry.actionType}${entry.notes ? ` (${entry.notes})` : ''}`);
+    }
+  }
+
+  if (environment) {
+    const temperature = environment.temperature == null ? 'unknown'
+      : unitPreference === 'imperial' ? `${Math.round(environment.temperature * 9 / 5 + 32)}°F` : `${environment.temperature}°C`;
+    lines.push('', `Latest environment reading (${formatDate(environment.readingTimestamp)}):`,
+      `- Temperature: ${temperature}`,
+      `- Humidity: ${environment.humidity == null ? 'unknown' : `${environment.humidity}%`}`,
+      `- Light: ${environment.lightLevel ?? 'unknown'}`,
+      `- Soil moisture (0-10cm): ${environment.soil_moisture_0_to_10cm == null ? 'unknown' : `${environment.soil_moisture_0_to_10cm} m³/m³`}`);
+  }
+
+  if (health) {
+    lines.push('', 'Health scores (0-100):',
+      `- Overall: ${health.overallHealth}`,
+      `- Water: ${health.waterLevel}`,
+      `- Light: ${health.lightLevel}`);
+  }
+
+  return lines.join('\n');
+}
+
+// The environment is the latest reading for the plant's location, falling back to the user's
+export async function loadPlantChatContext(plant: Plant): Promise<PlantChatContext> {
+  const [careHistory, environment, health] = await Promise.all([
+    storage.getCareHistoryByPlantId(plant.id.toString()),
+    storage.getEnvironmentForPlant(plant),
+    storage.getPlantHealthMetrics(plant.id.toString()),
+  ]);
+  return { plant, careHistory, environment, health };
+}
+
+// Conversations are titled after the question that started them
+export function conversationTitle(firstMessage: string): string {
+  const text = firstMessage.replace(/\s+/g, ' ').trim();
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Stream the assistant's reply to the last user message in `history`, grounded in the plant's
+ * current data. The caller stores the reply once the stream ends.
+ */
+export async function streamPlantChatReply(plant: Plant, userId: string, history: PlantChatMessage[]): Promise<AsyncGenerator<string>> {
+  const [context, profile] = await Promise.all([
+    loadPlantChatContext(plant),
+    storage.getUserProfile(userId),
+  ]);
+  const location = resolveLocation(profile);
+  const recent = history.slice(-MAX_HISTORY_MESSAGES);
+  const question = [...recent].reverse().find(message => message.role === 'user')?.content ?? '';
+
+  return streamWithFallback({
+    prompt: buildPlantChatPrompt(context, location.unitPreference),
+    messages: recent.map(({ role, content }) => ({ role, content })),
+    expectJson: false,
+    maxTokens: 600,
+    task: {
+      kind: 'chat',
+      plant,
+      question,
+      environment: context.environment
+        ? { temperature: context.environment.temperature, humidity: context.environment.humidity, lightLevel: context.environment.lightLevel }
+        : null,
+      location,
+    },
+    userId: parseInt(userId),
+  });
+}
@@ -0,0 +1,163 @@
+import type { Plant, Recommendation, RecommendationType } from "../../shared/schema";
+import type { CareTaskType } from "./careScheduleService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a recommendation stays relevant after the reading that prompted it. Watering and
+// humidity advice follows conditions that change within days; seasonal care holds for weeks.
+export const RECOMMENDATION_TTL_DAYS: Record<RecommendationType, number> = {
+  water: 3,
+  humidity: 3,
+  frost: 2,
+  environment: 3,
+  light: 7,
+  pruning: 30,
+  fertilize: 30,
+  repot: 60,
+};
+
+const DEFAULT_TTL_DAYS = 7;
+
+/**
+ * When a recommendation of this type stops applying, counted from the environment reading that
+ * triggered it (or from now when there was no reading).
+ */
+export function recommendationExpiry(type: string, triggeredAt: Date | null | undefined, now: Date = new Date()): Date {
+  const days = RECOMMENDATION_TTL_DAYS[type as RecommendationType] ?? DEFAULT_TTL_DAYS;
+  return addDays(triggeredAt ?? now, days);
+}
+
+export function snoozeUntil(days: number, now: Date = new Date()): Date {
+  return addDays(now, days);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// What applying a recommendation does to the plant. Storage carries these out in order.
+export type RecommendationEffect =
+  | { kind: 'schedule_task'; taskType: string; dueDate: Date; notes: string } // moves a pending task of the type, or creates one
+  | { kind: 'set_care_interval'; taskType: CareTaskType; days: number } // watering goes to plants.waterFrequencyDays
+  | { kind: 'log_care_history'; actionType: string; notes: string }
+  | { kind: 'refresh_health' };
+
+interface RecommendationRule {
+  // Care task the advice turns into, due this many days after applying unless the message names a time
+  task?: { type: string; dueInDays: number };
+  // Recurring care whose interval the message may set ("every 9 days")
+  interval?: CareTaskType;
+  careHistoryAction: string;
+  refreshHealth: boolean;
+}
+
+export const RECOMMENDATION_RULES: Record<RecommendationType, RecommendationRule> = {
+  water: { task: { type: 'watering', dueInDays: 7 }, interval: 'watering', careHistoryAction: 'water_recommended', refreshHealth: true },
+  light: { task: { type: 'light', dueInDays: 1 }, careHistoryAction: 'light_recommended', refreshHealth: true },
+  humidity: { task: { type: 'misting', dueInDays: 1 }, interval: 'misting', careHistoryAction: 'humidity_recommended', refreshHealth: true },
+  pruning: { task: { type: 'pruning', dueInDays: 30 }, careHistoryAction: 'pruning_recommended', refreshHealth: true },
+  fertilize: { task: { type: 'fertilizing', dueInDays: 3 }, interval: 'fertilizing', careHistoryAction: 'fertilize_recommended', refreshHealth: true },
+  repot: { task: { type: 'repotting', dueInDays: 14 }, careHistoryAction: 'repot_recommended', refreshHealth: true },
+  // The frost alert already created the protection task
+  frost: { careHistoryAction: 'frost_recommended', refreshHealth: false },
+  // Threshold alerts describe conditions to change rather than a care task
+  environment: { careHistoryAction: 'environment_recommended', refreshHealth: true },
+};
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30 };
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, fourteen: 14, thirty: 30,
+};
+const NUMBER = `(\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join('|')})`;
+const UNIT = '(day|week|month)s?\\b';
+const MAX_INTERVAL_DAYS = 365;
+
+function toNumber(text: string): number {
+  return NUMBER_WORDS[text] ?? parseFloat(text);
+}
+
+function clampDays(days: number): number | null {
+  return Number.isFinite(days) && days > 0 ? Math.min(MAX_INTERVAL_DAYS, Math.max(1, Math.round(days))) : null;
+}
+
+/**
+ * Pull a care interval out of advice text: "every 9 days", "every 7-10 days" (midpoint),
+ * "every 2 weeks", "twice a week", "every other day", "weekly". Null when none is stated.
+ */
+export function parseIntervalDays(message: string): number | null {
+  const text = message.toLowerCase();
+
+  const other = text.match(/\bevery\s+other\s+(day|week|month)\b/);
+  if (other) return clampDays(2 * UNIT_DAYS[other[1]]);
+
+  const every = text.match(new RegExp(`\\b(?:every|each)\\s+${NUMBER}(?:\\s*(?:-|–|to|or)\\s*${NUMBER})?\\s+${UNIT}`));
+  if (every) {
+    const low = toNumber(every[1]);
+    const high = every[2] ? toNumber(every[2]) : low;
+    return clampDays(((low + high) / 2) * UNIT_DAYS[every[3]]);
+  }
+
+  const times = text.match(new RegExp(`\\b(once|twice|${NUMBER}\\s+times)\\s+(?:a|an|per|every|each)\\s+(day|week|month)\\b`));
+  if (times) {
+    const count = times[1] === 'once' ? 1 : times[1] === 'twice' ? 2 : toNumber(times[2]);
+    return clampDays(UNIT_DAYS[times[3]] / count);
+  }
+
+  const single = text.match(/\bevery\s+(day|week|month)\b/);
+  if (single) return UNIT_DAYS[single[1]];
+  if (/\b(?:bi-?weekly|fortnightly)\b/.test(text)) return 14;
+  if (/\bdaily\b/.test(text)) return 1;
+  if (/\bweekly\b/.test(text)) return 7;
+  if (/\bmonthly\b/.test(text)) return 30;
+  return null;
+}
+
+/**
+ * Pull a one-off deadline out of advice text: "within 3 days", "in two weeks", "tomorrow", "now".
+ * Returns days from now, or null when none is stated.
+ */
+export function parseDueInDays(message: string): number | null {
+  const text = message.toLowerCase();
+  const within = text.match(new RegExp(`\\b(?:in|within)\\s+(?:the\\s+next\\s+)?${NUMBER}(?:\\s*(?:-|–|to|or)\\s*${NUMBER})?\\s+${UNIT}`));
+  if (within) return Math.round(toNumber(within[1]) * UNIT_DAYS[within[3]]);
+  if (/\b(?:today|now|immediately|right away|as soon as possible|asap)\b/.test(text)) return 0;
+  if (/\btomorrow\b/.test(text)) return 1;
+  if (/\bnext week\b/.test(text)) return 7;
+  return null;
+}
+
+/**
+ * Work out what applying a recommendation does, from its type's rule and any interval or deadline
+ * stated in the message. A stated watering interval is counted from when the plant was last watered.
+ */
+export function planRecommendationEffects(
+  recommendation: Pick<Recommendation, 'recommendationType' | 'message'>,
+  plant: Pick<Plant, 'lastWatered'>,
+  now: Date = new Date()
+): RecommendationEffect[] {
+  const rule = RECOMMENDATION_RULES[recommendation.recommendationType as RecommendationType];
+  if (!rule) return [];
+
+  const effects: RecommendationEffect[] = [];
+  const intervalDays = rule.interval ? parseIntervalDays(recommendation.message) : null;
+  if (rule.interval && intervalDays) {
+    effects.push({ kind: 'set_care_interval', taskType: rule.interval, days: intervalDays });
+  }
+
+  if (rule.task) {
+    let dueDate = addDays(now, rule.task.dueInDays);
+    const dueInDays = parseDueInDays(recommendation.message);
+    if (dueInDays !== null) {
+      dueDate = addDays(now, dueInDays);
+    } else if (rule.interval === 'watering' && intervalDays) {
+      const anchored = addDays(plant.lastWatered ? new Date(plant.lastWatered) : now, intervalDays);
+      dueDate = anchored < now ? now : anchored;
+    }
+    effects.push({ kind: 'schedule_task', taskType: rule.task.type, dueDate, notes: recommendation.message });
+  }
+
+  effects.push({ kind: 'log_care_history', actionType: rule.careHistoryAction, notes: recommendation.message });
+  if (rule.refreshHealth) effects.push({ kind: 'refresh_health' });
+  return effects;
+}
@@ -0,0 +1,230 @@
+import type { PlantData, EnvironmentData, LocationContext, AiRecommendation, AiCareTipOutput } from "../../shared/schema";
+import { parseWateringBenchmark } from "./careScheduleService";
+import { computeLightLevel } from "./healthScoreService";
+
+/**
+ * Deterministic plant advice derived from Perenual fields and current conditions. Backs the
+ * rule-based LLM provider so AI features keep working without a model (dev, CI, outages).
+ */
+
+const DEFAULT_WATER_INTERVAL_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatTemperature(celsius: number, location?: LocationContext): string {
+  return location?.unitPreference === 'imperial'
+    ? `${Math.round(celsius * 9 / 5 + 32)}°F`
+    : `${Math.round(celsius)}°C`;
+}
+
+function baseWaterInterval(plant: PlantData): number {
+  return plant.waterFrequencyDays || parseWateringBenchmark(plant.watering_general_benchmark) || DEFAULT_WATER_INTERVAL_DAYS;
+}
+
+/**
+ * Shorten the watering interval in heat and dry air, lengthen it in cold and humid conditions.
+ * Drought-tolerant plants never go below their usual interval.
+ */
+export function adjustWaterInterval(plant: PlantData, environment: EnvironmentData): { intervalDays: number; reasons: string[] } {
+  const base = baseWaterInterval(plant);
+  let factor = 1;
+  const reasons: string[] = [];
+
+  if (environment.temperature != null) {
+    if (environment.temperature >= 28) {
+      factor *= 0.75;
+      reasons.push('it is hot');
+    } else if (environment.temperature <= 12) {
+      factor *= 1.3;
+      reasons.push('it is cool');
+    }
+  }
+  if (environment.humidity != null) {
+    if (environment.humidity < 35) {
+      factor *= 0.85;
+      reasons.push('the air is dry');
+    } else if (environment.humidity > 75) {
+      factor *= 1.15;
+      reasons.push('the air is humid');
+    }
+  }
+  if (plant.drought_tolerant) factor = Math.max(1, factor);
+
+  return { intervalDays: Math.max(1, Math.round(base * factor)), reasons };
+}
+
+function describeLightNeed(sunlight: string[] | null | undefined, indoor: boolean | null | undefined): string | null {
+  const needs = (sunlight ?? []).map(value => value.toLowerCase());
+  if (needs.length === 0) return null;
+  if (needs.some(value => value.includes('full sun')) && !needs.some(value => value.includes('shade'))) {
+    return indoor === false
+      ? 'a spot that gets at least 6 hours of direct sun'
+      : 'a south-facing window or the sunniest spot you have';
+  }
+  if (needs.some(value => value.includes('full shade') || value.includes('deep shade'))) {
+    return 'a north-facing window or a spot well away from direct sun';
+  }
+  return 'bright, indirect light such as an east-facing window';
+}
+
+/**
+ * One watering recommendation and, when the plant's light needs are known, one light recommendation.
+ */
+export function recommendForPlant(plant: PlantData, environment: EnvironmentData): AiRecommendation[] {
+  const recommendations: AiRecommendation[] = [];
+  const { intervalDays, reasons } = adjustWaterInterval(plant, environment);
+  const usual = baseWaterInterval(plant);
+  const moisture = environment.soil_moisture_0_to_10cm;
+
+  let waterMessage: string;
+  if (moisture != null && moisture >= 0.35) {
+    waterMessage = `The soil is still wet, so hold off watering ${plant.name} and then water every ${intervalDays} days once the top few centimetres dry out.`;
+  } else if (moisture != null && moisture <= 0.1) {
+    waterMessage = `The soil is dry, so water ${plant.name} soon and keep to every ${intervalDays} days.`;
+  } else if (intervalDays !== usual) {
+    waterMessage = `Because ${reasons.join(' and ')}, water ${plant.name} every ${intervalDays} days instead of every ${usual} days.`;
+  } else {
+    waterMessage = `Keep watering ${plant.name} every ${intervalDays} days, checking that the top of the soil has dried first.`;
+  }
+  recommendations.push({ recommendationType: 'water', message: waterMessage });
+
+  const lightNeed = describeLightNeed(plant.sunlight, plant.indoor);
+  if (lightNeed) {
+    const score = computeLightLevel(plant.sunlight, environment.lightLevel);
+    const message = environment.lightLevel && score < 75
+      ? `The current light (${environment.lightLevel}) doesn't suit ${plant.name}; move it to ${lightNeed}.`
+      : `${plant.name} does best in ${lightNeed}.`;
+    recommendations.push({ recommendationType: 'light', message });
+  }
+
+  return recommendations;
+}
+
+function daysSince(date: Date | null): number | null {
+  if (!date) return null;
+  return Math.max(0, Math.floor((Date.now() - new Date(date).getTime()) / DAY_MS));
+}
+
+/**
+ * A short, friendly reminder for one plant and task plus one condition-specific tip, categorized
+ * the same way the LLM prompt asks for.
+ */
+export function careTipsForPlant(
+  plant: PlantData,
+  weather: EnvironmentData,
+  season: string,
+  taskType: string,
+  location?: LocationContext
+): AiCareTipOutput[] {
+  const { intervalDays } = adjustWaterInterval(plant, weather);
+  const since = daysSince(plant.lastWatered);
+  let reminder = `🌱 ${taskType} reminder for your ${plant.name}.`;
+  if (since !== null) {
+    reminder += since >= intervalDays
+      ? ` It's been ${since} days since the last watering, so it's probably thirsty.`
+      : ` It was watered ${since === 0 ? 'today' : `${since} day${since === 1 ? '' : 's'} ago`}; next drink in about ${intervalDays - since} days.`;
+  }
+  const tips: AiCareTipOutput[] = [{ category: since !== null ? 'Watering' : 'General', tip: reminder }];
+
+  if (weather.temperature != null && weather.temperature >= 28) {
+    tips.push({ category: 'Temperature', tip: `At ${formatTemperature(weather.temperature, location)}, water early in the morning so less evaporates.` });
+  } else if (weather.temperature != null && weather.temperature <= 5 && plant.indoor === false) {
+    tips.push({ category: 'Temperature', tip: `With temperatures near ${formatTemperature(weather.temperature, location)}, cover it at night or bring it inside.` });
+  } else if (plant.tropical && weather.humidity != null && weather.humidity < 40) {
+    tips.push({ category: 'Humidity', tip: 'It likes humid air, so mist it or stand it on a tray of wet pebbles.' });
+  } else if (season === 'Winter') {
+    tips.push({ category: 'Fertilizing', tip: 'Growth slows in winter, so let the soil dry a little more between waterings and hold off on fertilizer.' });
+  } else if (season === 'Spring') {
+    tips.push({ category: 'Repotting', tip: 'Spring is the time to resume feeding and to repot if roots are circling the pot.' });
+  } else {
+    tips.push({ category: 'Watering', tip: 'Water deeply until it drains, then let the top of the soil dry before the next watering.' });
+  }
+  return tips;
+}
+
+/**
+ * Answer a chat question by matching it to a topic (watering, light, feeding, repotting, leaf
+ * trouble) and replying from the plant's data. Anything else gets a status summary.
+ */
+export function answerPlantQuestion(
+  plant: PlantData,
+  question: string,
+  environment: EnvironmentData | null,
+  location?: LocationContext
+): string {
+  const text = question.toLowerCase();
+  const { intervalDays, reasons } = adjustWaterInterval(plant, environment ?? { temperature: null, humidity: null, lightLevel: null });
+  const since = daysSince(plant.lastWatered);
+  const wateredLine = since === null
+    ? `I don't have a watering date for ${plant.name} yet.`
+    : `${plant.name} was last watered ${since === 0 ? 'today' : `${since} day${since === 1 ? '' : 's'} ago`}.`;
+  const scheduleLine = `Aim to water about every ${intervalDays} days${reasons.length ? ` (adjusted because ${reasons.join(' and ')})` : ''}, and only once the top of the soil has dried.`;
+
+  if (/yellow|brown|droop|wilt|limp|crisp|spots?\b|dying/.test(text)) {
+    const overdue = since !== null && since > intervalDays;
+    return [
+      wateredLine,
+      overdue
+        ? `That's longer than its usual ${intervalDays}-day interval, so thirst is the most likely cause: give it a thorough watering and check again in a day.`
+        : 'Since it has been watered recently, check that the pot drains well; soggy roots cause the same symptoms as drought.',
+      plant.tropical && environment?.humidity != null && environment.humidity < 40
+        ? `The air is dry (${Math.round(environment.humidity)}% humidity), which can brown the leaf tips of tropical plants.`
+        : null,
+    ].filter(Boolean).join(' ');
+  }
+  if (/water|thirst|dry|moist|soil/.test(text)) {
+    return `${wateredLine} ${scheduleLine}`;
+  }
+  if (/light|sun|window|shade|dark/.test(text)) {
+    const need = describeLightNeed(plant.sunlight, plant.indoor);
+    return need
+      ? `${plant.name} does best in ${need}.${environment?.lightLevel ? ` The latest light reading is "${environment.lightLevel}".` : ''}`
+      : `I don't know ${plant.name}'s light needs; most houseplants are happy in bright, indirect light.`;
+  }
+  if (/fertili[sz]|feed|nutrient/.test(text)) {
+    return `Feed ${plant.name} every 2-4 weeks with a diluted balanced fertilizer while it is actively growing in spring and summer, and stop in autumn and winter.`;
+  }
+  if (/repot|pot\b|roots?\b/.test(text)) {
+    return `Repot ${plant.name} in spring when roots circle the pot or poke out of the drainage holes, moving up only one pot size.`;
+  }
+  if (/temperature|cold|hot|heat|frost/.test(text) && environment?.temperature != null) {
+    return `It's currently ${formatTemperature(environment.temperature, location)}. ${plant.indoor === false
+      ? 'Protect it from frost and give it shade during heatwaves.'
+      : 'Keep it away from cold drafts, radiators and air conditioning vents.'}`;
+  }
+  return `${wateredLine} ${scheduleLine} For detailed answers to other questions, an AI provider needs to be configured.`;
+}
+
+const SEASON_TIPS: Record<string, string[]> = {
+  Spring: [
+    'Spring growth is starting: resume fertilizing every few weeks and check whether any plants need a bigger pot.',
+    'Days are getting longer, so rotate your plants a quarter turn each week to keep growth even.',
+  ],
+  Summer: [
+    'Summer sun can scorch leaves; pull sun-sensitive plants back from hot windows in the afternoon.',
+    'Check soil moisture more often in summer, as pots dry out much faster in the heat.',
+  ],
+  Autumn: [
+    'As days shorten, cut back on fertilizer and start watering a little less often.',
+    'Bring tender outdoor plants inside before the first frost, and check them for pests first.',
+  ],
+  Winter: [
+    'Most plants rest in winter: water less, skip fertilizer and keep them away from cold drafts and radiators.',
+    'Indoor air is dry in winter; group humidity-loving plants together or use a pebble tray.',
+  ],
+};
+
+/**
+ * A general tip for the dashboard. Picks from a small per-season list by day of year, so the tip
+ * changes daily but is stable within a day.
+ */
+export function dashboardTip(weather: EnvironmentData, season: string, location?: LocationContext, now: Date = new Date()): string {
+  if (weather.temperature != null && weather.temperature >= 30) {
+    return `It's ${formatTemperature(weather.temperature, location)} today: water early or late in the day and give outdoor pots some afternoon shade.`;
+  }
+  if (weather.temperature != null && weather.temperature <= 2) {
+    return `It's ${formatTemperature(weather.temperature, location)} out: protect outdoor plants from frost and keep houseplants away from cold windows.`;
+  }
+  const tips = SEASON_TIPS[season] ?? SEASON_TIPS.Spring;
+  const dayOfYear = Math.floor((now.getTime() - new Date(now.getFullYear(), 0, 0).getTime()) / DAY_MS);
+  return tips[dayOfYear % tips.length];
+}
@@ -0,0 +1,170 @@
+import { createHash, randomBytes } from 'crypto';
+import {
+  sensorReadingSchema,
+  type InsertEnvironmentReading,
+  type LightExposure,
+  type SensorDevice,
+  type SensorDeviceSummary,
+} from "../../shared/schema";
+import { storage } from "../storage";
+import { evaluateEnvironmentReadings } from "./environmentAlertService";
+import { queueRecommendationRun } from "./jobHandlers";
+
+const DEVICE_KEY_PREFIX = 'gg_';
+// Characters of the key kept in clear, so users can tell which key a device has
+const DEVICE_KEY_VISIBLE_CHARS = 10;
+// Sensors may buffer readings while offline, but not forever; small clock skew is tolerated
+const MAX_READING_AGE_MS = (parseInt(process.env.SENSOR_MAX_READING_AGE_DAYS || '', 10) || 7) * 24 * 60 * 60 * 1000;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+// Sensors post every few minutes, so the recommendation run a batch queues waits this long; batches
+// arriving meanwhile join that run instead of queueing their own
+const RECOMMENDATION_DELAY_MS = (parseInt(process.env.SENSOR_RECOMMENDATION_DELAY_MINUTES || '', 10) || 30) * 60 * 1000;
+
+// Lux at or above which each light level starts, brightest first
+const LUX_LIGHT_LEVELS: [number, LightExposure][] = [
+  [20_000, 'full_sun'],
+  [5_000, 'bright_indirect'],
+  [1_000, 'medium'],
+  [0, 'low'],
+];
+
+export interface NewDeviceApiKey {
+  apiKey: string;
+  apiKeyHash: string;
+  apiKeyPrefix: string;
+}
+
+// A reading in the units environmentReadings stores, with the plant or location it names (if any)
+export type NormalizedSensorReading = Pick<InsertEnvironmentReading, 'temperature' | 'humidity' | 'lux' | 'lightLevel' | 'soil_moisture_0_to_10cm'> & {
+  readingTimestamp: Date;
+  plantId?: number;
+  locationId?: number;
+};
+
+export interface SensorIngestionResult {
+  accepted: number;
+  rejected: { index: number; errors: string[] }[];
+}
+
+// Devices are looked up by the hash of their key, so the key itself is never stored
+export function hashDeviceApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+export function generateDeviceApiKey(): NewDeviceApiKey {
+  const apiKey = `${DEVICE_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return { apiKey, apiKeyHash: hashDeviceApiKey(apiKey), apiKeyPrefix: apiKey.slice(0, DEVICE_KEY_VISIBLE_CHARS) };
+}
+
+export function toDeviceSummary({ apiKeyHash, ...device }: SensorDevice): SensorDeviceSummary {
+  return device;
+}
+
+export function lightLevelForLux(lux: number): LightExposure {
+  return LUX_LIGHT_LEVELS.find(([minLux]) => lux >= minLux)?.[1] ?? 'low';
+}
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Validate one raw reading and convert it to stored units: °C, % relative humidity and volumetric
+ * soil moisture (m³/m³). Returns the problems instead when the reading can't be stored.
+ */
+export function normalizeSensorReading(
+  raw: unknown,
+  now: Date = new Date()
+): { reading: NormalizedSensorReading; errors?: undefined } | { reading?: undefined; errors: string[] } {
+  const parsed = sensorReadingSchema.safeParse(raw);
+  if (!parsed.success) {
+    return { errors: parsed.error.issues.map(issue => issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message) };
+  }
+  const reading = parsed.data;
+
+  const readingTimestamp = reading.timestamp ?? now;
+  if (readingTimestamp.getTime() > now.getTime() + MAX_CLOCK_SKEW_MS) {
+    return { errors: ['timestamp: Reading is in the future; check the device clock'] };
+  }
+  if (readingTimestamp.getTime() < now.getTime() - MAX_READING_AGE_MS) {
+    return { errors: [`timestamp: Reading is older than ${MAX_READING_AGE_MS / (24 * 60 * 60 * 1000)} days`] };
+  }
+
+  const temperature = reading.temperature === undefined ? null
+    : reading.temperatureUnit === 'F' ? round((reading.temperature - 32) * 5 / 9, 1) : reading.temperature;
+  const soilMoisture = reading.soilMoisture === undefined ? null
+    : reading.soilMoistureUnit === 'percent' ? round(reading.soilMoisture / 100, 3) : reading.soilMoisture;
+
+  return {
+    reading: {
+      readingTimestamp,
+      temperature,
+      humidity: reading.humidity ?? null,
+      lux: reading.lux ?? null,
+      lightLevel: reading.lux === undefined ? null : lightLevelForLux(reading.lux),
+      soil_moisture_0_to_10cm: soilMoisture,
+      plantId: reading.plantId,
+      locationId: reading.locationId,
+    },
+  };
+}
+
+/**
+ * Store a batch of readings from a device. Each reading goes to the plant or location it names,
+ * else to the device's plant (and that plant's location), else the device's location, else the
+ * whole user. Invalid readings are reported by index and the rest are stored, then checked against
+ * the thresholds of the plants they describe; a delayed recommendation run is queued for the user.
+ */
+export async function ingestSensorReadings(device: SensorDevice, rawReadings: unknown[], now: Date = new Date()): Promise<SensorIngestionResult> {
+  const userId = device.userId.toString();
+  const [plants, locations] = await Promise.all([
+    storage.getPlantsByUserId(userId),
+    storage.getPlantLocationsByUserId(userId),
+  ]);
+  const plantLocationById = new Map(plants.map(plant => [plant.id, plant.locationId ?? null]));
+  const locationIds = new Set(locations.map(location => location.id));
+
+  const result: SensorIngestionResult = { accepted: 0, rejected: [] };
+  const rows: (InsertEnvironmentReading & { readingTimestamp: Date })[] = [];
+
+  rawReadings.forEach((raw, index) => {
+    const { reading, errors } = normalizeSensorReading(raw, now);
+    if (!reading) {
+      result.rejected.push({ index, errors });
+      return;
+    }
+    const { plantId: requestedPlantId, locationId: requestedLocationId, ...values } = reading;
+    if (requestedPlantId !== undefined && !plantLocationById.has(requestedPlantId)) {
+      result.rejected.push({ index, errors: [`plantId: Unknown plant ${requestedPlantId}`] });
+      return;
+    }
+    if (requestedLocationId !== undefined && !locationIds.has(requestedLocationId)) {
+      result.rejected.push({ index, errors: [`locationId: Unknown location ${requestedLocationId}`] });
+      return;
+    }
+
+    // A reading that names a location isn't about the device's plant
+    const defaultPlantId = device.plantId !== null && plantLocationById.has(device.plantId) ? device.plantId : null;
+    const plantId = requestedPlantId ?? (requestedLocationId === undefined ? defaultPlantId : null);
+    const locationId = requestedLocationId
+      ?? (plantId !== null ? plantLocationById.get(plantId) ?? null : device.locationId);
+
+    rows.push({ ...values, userId: device.userId, plantId, locationId, deviceId: device.id });
+  });
+
+  const stored = await storage.createEnvironmentReadings(rows);
+  result.accepted = stored.length;
+  await storage.markSensorDeviceSeen(device.id, now);
+  if (result.accepted > 0) {
+    try {
+      await evaluateEnvironmentReadings(userId, stored);
+    } catch (error) {
+      // The readings are stored either way; the next batch gets checked again
+      console.error(`[sensorIngestionService.ts] Failed to check thresholds for user ${userId}:`, error);
+    }
+    try {
+      await queueRecommendationRun(device.userId, { runAt: new Date(now.getTime() + RECOMMENDATION_DELAY_MS) });
+    } catch (error) {
+      console.error(`[sensorIngestionService.ts] Failed to queue recommendations for user ${userId}:`, error);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,309 @@
+import { withoutOverriddenFields, type InsertPlant, type SpeciesCandidate, type SpeciesCatalogEntry } from "../../shared/schema";
+import { storage } from "../storage";
+import {
+  PerenualUnavailableError,
+  fetchPerenualSpeciesDetails,
+  isPerenualConfigured,
+  perenualUnavailableError,
+  searchPerenualSpecies,
+  type PerenualSpeciesDetails,
+  type PerenualSpeciesListItem,
+} from "./perenualClient";
+
+export const CACHE_DURATION_DAYS = parseInt(process.env.SPECIES_CACHE_DAYS || '', 10) || 7;
+export const SPECIES_REFRESH_INTERVAL_MS = (parseInt(process.env.SPECIES_REFRESH_INTERVAL_HOURS || '', 10) || 24) * 60 * 60 * 1000;
+export const PLANT_ENRICHMENT_INTERVAL_MS = (parseInt(process.env.PLANT_ENRICHMENT_INTERVAL_MINUTES || '', 10) || 60) * 60 * 1000;
+// Entries refreshed per background run, to stay well inside Perenual's daily request allowance
+const REFRESH_BATCH_SIZE = 25;
+const ENRICHMENT_BATCH_SIZE = 25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Perenual species-list results are kept briefly in memory so typing in the picker doesn't repeat calls
+const SEARCH_CACHE_TTL_MS = 60 * 60 * 1000;
+const SEARCH_CACHE_MAX_ENTRIES = 200;
+
+const searchCache = new Map<string, { fetchedAt: number; results: PerenualSpeciesListItem[] }>();
+
+export interface SpeciesRefreshSummary {
+  refreshed: number;
+  failed: number;
+  plantsUpdated: number;
+}
+
+export interface PlantEnrichmentSummary {
+  enriched: number;
+  notFound: number;
+  failed: number;
+  skipped: number; // left for the next run because Perenual became unavailable
+}
+
+function isFresh(entry: SpeciesCatalogEntry, now: Date): boolean {
+  return entry.lastApiSync.getTime() > now.getTime() - CACHE_DURATION_DAYS * DAY_MS;
+}
+
+/**
+ * The plant columns copied from a species. Leaves out the plant's name and everything the owner
+ * records themselves (watering, notes, dates).
+ */
+export function speciesToPlantFields(details: PerenualSpeciesDetails): Partial<InsertPlant> {
+  return {
+    perenual_id: details.id,
+    scientific_name: details.scientific_name || [],
+    other_name: details.other_name || [],
+    family: details.family || null,
+    origin: details.origin || [],
+    type: details.type || null,
+    dimensions: details.dimensions || {},
+    cycle: details.cycle || null,
+    watering_general_benchmark: details.watering_general_benchmark || { value: null, unit: null },
+    sunlight: details.sunlight || [],
+    pruning_month: details.pruning_month || [],
+    hardiness: details.hardiness || { min: null, max: null },
+    flowers: details.flowers || false,
+    flowering_season: details.flowering_season || null,
+    soil: details.soil || [],
+    pest_susceptibility: details.pest_susceptibility || [],
+    cones: details.cones || false,
+    fruits: details.fruits || false,
+    edible_fruit: details.edible_fruit || false,
+    fruiting_season: details.fruiting_season || null,
+    leaf: details.leaf || false,
+    edible_leaf: details.edible_leaf || false,
+    growth_rate: details.growth_rate || null,
+    maintenance: details.maintenance || null,
+    medicinal: details.medicinal || false,
+    poisonous_to_humans: details.poisonous_to_humans || false,
+    poisonous_to_pets: details.poisonous_to_pets || false,
+    drought_tolerant: details.drought_tolerant || false,
+    salt_tolerant: details.salt_tolerant || false,
+    thorny: details.thorny || false,
+    invasive: details.invasive || false,
+    rare: details.rare || false,
+    tropical: details.tropical || false,
+    cuisine: details.cuisine || false,
+    indoor: details.indoor || false,
+    care_level: details.care_level || null,
+    description: details.description || null,
+    api_image_url: details.default_image?.regular_url || details.default_image?.original_url || null,
+    species: details.scientific_name?.[0] || null, // Best guess for species
+  };
+}
+
+async function syncSpecies(perenualId: number, now: Date): Promise<SpeciesCatalogEntry | undefined> {
+  const details = await fetchPerenualSpeciesDetails(perenualId);
+  if (!details) return undefined;
+  return storage.upsertSpecies({
+    perenualId: details.id,
+    commonName: details.common_name ?? null,
+    scientificName: details.scientific_name ?? [],
+    payload: details,
+    lastApiSync: now,
+  });
+}
+
+/**
+ * A species from the shared catalog, fetched from Perenual only when missing or older than
+ * CACHE_DURATION_DAYS. A stale entry is still returned if Perenual can't be reached.
+ * Undefined when Perenual has no such species.
+ */
+export async function getSpecies(perenualId: number, now: Date = new Date()): Promise<SpeciesCatalogEntry | undefined> {
+  const cached = await storage.getSpeciesByPerenualId(perenualId);
+  if (cached && isFresh(cached, now)) return cached;
+
+  try {
+    return await syncSpecies(perenualId, now) ?? cached;
+  } catch (error) {
+    if (!cached) throw error;
+    console.warn(`[speciesCatalogService.ts] Refresh of species ${perenualId} failed, serving data from ${cached.lastApiSync.toISOString()}:`, error);
+    return cached;
+  }
+}
+
+/**
+ * Re-fetch the oldest stale catalog entries (up to REFRESH_BATCH_SIZE) and copy the new data onto
+ * the plants that reference them. Run by the species refresh job.
+ */
+export async function refreshStaleSpecies(now: Date = new Date()): Promise<SpeciesRefreshSummary> {
+  const stale = await storage.getStaleSpecies(new Date(now.getTime() - CACHE_DURATION_DAYS * DAY_MS), REFRESH_BATCH_SIZE);
+  const summary: SpeciesRefreshSummary = { refreshed: 0, failed: 0, plantsUpdated: 0 };
+
+  for (const entry of stale) {
+    try {
+      const updated = await syncSpecies(entry.perenualId, now);
+      if (!updated) {
+        // Gone from Perenual: keep what we have, and move it to the back of the queue
+        await storage.upsertSpecies({ ...entry, lastApiSync: now });
+        continue;
+      }
+      summary.refreshed++;
+      summary.plantsUpdated += await storage.updatePlantsFromSpecies(updated.id, {
+        ...speciesToPlantFields(updated.payload as PerenualSpeciesDetails),
+        last_api_sync: now,
+      });
+    } catch (error) {
+      if (error instanceof PerenualUnavailableError) {
+        console.warn(`[speciesCatalogService.ts] Stopping species refresh: ${error.message}`);
+        break;
+      }
+      summary.failed++;
+      console.error(`[speciesCatalogService.ts] Failed to refresh species ${entry.perenualId}:`, error);
+    }
+  }
+  if (stale.length > 0) {
+    console.log(`[speciesCatalogService.ts] Refreshed ${summary.refreshed}/${stale.length} stale species, updated ${summary.plantsUpdated} plants.`);
+  }
+  return summary;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// How well one name matches the query: exact > starts with > a word starts with > contains
+function nameScore(query: string, name: string | null | undefined): number {
+  if (!name) return 0;
+  const normalized = normalizeName(name);
+  if (normalized === query) return 100;
+  if (normalized.startsWith(query)) return 80;
+  if (normalized.split(' ').some(word => word.startsWith(query)) || normalized.includes(` ${query}`)) return 60;
+  if (normalized.includes(query)) return 40;
+  return 0;
+}
+
+/**
+ * Score a species against the search text. Common names count fully, scientific names slightly
+ * less and other names less again, so "rose" ranks the plain Rose above "Rose of Sharon".
+ * Species already in the catalog get a small bonus as they need no Perenual call to add.
+ */
+export function rankSpeciesCandidate(
+  query: string,
+  candidate: Pick<SpeciesCandidate, 'commonName' | 'scientificName' | 'otherNames' | 'cached'>
+): number {
+  const normalizedQuery = normalizeName(query);
+  if (!normalizedQuery) return 0;
+  const score = Math.max(
+    nameScore(normalizedQuery, candidate.commonName),
+    ...candidate.scientificName.map(name => nameScore(normalizedQuery, name) * 0.9),
+    ...candidate.otherNames.map(name => nameScore(normalizedQuery, name) * 0.7),
+    0
+  );
+  return score > 0 && candidate.cached ? score + 5 : score;
+}
+
+function candidateFromCatalog(entry: SpeciesCatalogEntry): Omit<SpeciesCandidate, 'score'> {
+  const details = entry.payload as PerenualSpeciesDetails;
+  return {
+    perenualId: entry.perenualId,
+    commonName: entry.commonName,
+    scientificName: entry.scientificName ?? [],
+    otherNames: details.other_name ?? [],
+    cycle: details.cycle ?? null,
+    imageUrl: details.default_image?.thumbnail || details.default_image?.medium_url || details.default_image?.regular_url || null,
+    cached: true,
+  };
+}
+
+function candidateFromSearchHit(hit: PerenualSpeciesListItem): Omit<SpeciesCandidate, 'score'> {
+  return {
+    perenualId: hit.id,
+    commonName: hit.common_name ?? null,
+    scientificName: hit.scientific_name ?? [],
+    otherNames: hit.other_name ?? [],
+    cycle: hit.cycle ?? null,
+    imageUrl: hit.default_image?.thumbnail || hit.default_image?.medium_url || hit.default_image?.regular_url || null,
+    cached: false,
+  };
+}
+
+async function searchPerenualCached(query: string, now: Date): Promise<PerenualSpeciesListItem[]> {
+  const key = normalizeName(query);
+  const hit = searchCache.get(key);
+  if (hit && now.getTime() - hit.fetchedAt < SEARCH_CACHE_TTL_MS) return hit.results;
+
+  const results = await searchPerenualSpecies(query);
+  if (searchCache.size >= SEARCH_CACHE_MAX_ENTRIES) {
+    // Maps iterate in insertion order, so this drops the oldest search
+    searchCache.delete(searchCache.keys().next().value!);
+  }
+  searchCache.set(key, { fetchedAt: now.getTime(), results });
+  return results;
+}
+
+/**
+ * Ranked species matching the search text, for picking the exact species when adding a plant.
+ * The shared catalog is searched first; Perenual is only asked when the catalog has fewer than
+ * `limit` matches, and a failed Perenual call still returns the catalog matches.
+ */
+export async function searchSpecies(query: string, limit: number, now: Date = new Date()): Promise<SpeciesCandidate[]> {
+  const candidates = new Map<number, Omit<SpeciesCandidate, 'score'>>();
+  for (const entry of await storage.searchSpeciesCatalog(query, limit)) {
+    candidates.set(entry.perenualId, candidateFromCatalog(entry));
+  }
+
+  if (candidates.size < limit && isPerenualConfigured()) {
+    try {
+      for (const hit of await searchPerenualCached(query, now)) {
+        if (hit.id && !candidates.has(hit.id)) candidates.set(hit.id, candidateFromSearchHit(hit));
+      }
+    } catch (error) {
+      console.warn(`[speciesCatalogService.ts] Perenual search for "${query}" failed, returning catalog matches only:`, error);
+    }
+  }
+
+  return Array.from(candidates.values())
+    .map(candidate => ({ ...candidate, score: rankSpeciesCandidate(query, candidate) }))
+    .sort((a, b) => b.score - a.score || (a.commonName ?? '').localeCompare(b.commonName ?? ''))
+    .slice(0, limit);
+}
+
+/**
+ * Fill in species details for plants that were added while Perenual was unavailable. Plants added
+ * from the picker already know their Perenual ID; the rest take the best match for their name.
+ * The user's plant name is kept. Does nothing while the quota is used up or the circuit is open.
+ */
+export async function enrichPendingPlants(now: Date = new Date()): Promise<PlantEnrichmentSummary> {
+  const summary: PlantEnrichmentSummary = { enriched: 0, notFound: 0, failed: 0, skipped: 0 };
+  if (perenualUnavailableError(now)) return summary;
+
+  const pending = await storage.getPlantsNeedingEnrichment(ENRICHMENT_BATCH_SIZE);
+  for (let index = 0; index < pending.length; index++) {
+    const plant = pending[index];
+    try {
+      const perenualId = plant.perenual_id ?? (await searchSpecies(plant.name, 10, now))[0]?.perenualId;
+      const species = perenualId ? await getSpecies(perenualId, now) : undefined;
+      if (!species) {
+        // An empty search may just mean Perenual went away mid-run; only give up on a real miss
+        const unavailable = perenualUnavailableError();
+        if (unavailable) throw unavailable;
+        summary.notFound++;
+        await storage.updatePlant(plant.id.toString(), { needsEnrichment: false });
+        continue;
+      }
+      const fields: Partial<InsertPlant> = {
+        ...withoutOverriddenFields(speciesToPlantFields(species.payload as PerenualSpeciesDetails), plant.userOverrides),
+        speciesId: species.id,
+        last_api_sync: species.lastApiSync,
+        needsEnrichment: false,
+      };
+      try {
+        await storage.updatePlant(plant.id.toString(), fields);
+      } catch (error: any) {
+        // The owner already has a plant of this species (unique per user and Perenual ID)
+        if (error?.code !== '23505') throw error;
+        const { perenual_id, ...withoutPerenualId } = fields;
+        await storage.updatePlant(plant.id.toString(), withoutPerenualId);
+      }
+      summary.enriched++;
+    } catch (error) {
+      if (error instanceof PerenualUnavailableError) {
+        summary.skipped = pending.length - index;
+        break;
+      }
+      summary.failed++;
+      console.error(`[speciesCatalogService.ts] Failed to enrich plant ${plant.id}:`, error);
+    }
+  }
+  if (pending.length > 0) {
+    console.log(`[speciesCatalogService.ts] Enriched ${summary.enriched}/${pending.length} plants added without species details.`);
+  }
+  return summary;
+}
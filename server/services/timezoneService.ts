@@ -0,0 +1,62 @@
+// Calendar days in a user's profile timezone (IANA name). Without one, the server's own timezone is
+// used, as it was before profiles had a timezone.
+
+const dateFormatters = new Map<string, Intl.DateTimeFormat>();
+const dateTimeFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function cachedFormatter(cache: Map<string, Intl.DateTimeFormat>, timezone: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+  let formatter = cache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', { ...options, timeZone: timezone });
+    cache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * The calendar day (YYYY-MM-DD) an instant falls on in a timezone.
+ */
+export function calendarDateIn(instant: Date, timezone?: string | null): string {
+  if (!timezone) return `${instant.getFullYear()}-${pad(instant.getMonth() + 1)}-${pad(instant.getDate())}`;
+  // en-CA formats dates as YYYY-MM-DD
+  return cachedFormatter(dateFormatters, timezone, { year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+}
+
+// How far the timezone's wall clock is ahead of UTC at an instant
+function utcOffsetMs(instant: Date, timezone: string): number {
+  const parts = cachedFormatter(dateTimeFormatters, timezone, {
+    year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric', hourCycle: 'h23',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  const wallClockAsUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClockAsUtc - (instant.getTime() - instant.getMilliseconds());
+}
+
+/**
+ * The instant a calendar day (YYYY-MM-DD) begins in a timezone.
+ */
+export function startOfDayIn(day: string, timezone?: string | null): Date {
+  if (!timezone) return new Date(`${day}T00:00:00`);
+  const [year, month, date] = day.split('-').map(Number);
+  const midnightAsUtc = Date.UTC(year, month - 1, date);
+  const guess = midnightAsUtc - utcOffsetMs(new Date(midnightAsUtc), timezone);
+  // Correct for a DST change between UTC midnight and local midnight
+  return new Date(midnightAsUtc - utcOffsetMs(new Date(guess), timezone));
+}
+
+export function addCalendarDays(day: string, days: number): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().slice(0, 10);
+}
+
+// Start of the day an instant falls on, in a timezone
+export function startOfTodayIn(now: Date, timezone?: string | null): Date {
+  return startOfDayIn(calendarDateIn(now, timezone), timezone);
+}
+
+// Last millisecond of the day an instant falls on, in a timezone
+export function endOfTodayIn(now: Date, timezone?: string | null): Date {
+  return new Date(startOfDayIn(addCalendarDays(calendarDateIn(now, timezone), 1), timezone).getTime() - 1);
+}
@@ -0,0 +1,107 @@
+import type { PlantCareTask } from "../../shared/schema";
+import type { ForecastDay, OpenMeteoForecast } from "./weatherService";
+import { toForecastDays } from "./weatherService";
+import { storage } from "../storage";
+
+// Rain is "meaningful" when it is both likely and heavy enough to soak the root zone
+const RAIN_MIN_PRECIPITATION_MM = 5;
+const RAIN_MIN_PROBABILITY_PERCENT = 60;
+// Days after the last rainy day before the plant needs watering again
+const RAIN_POSTPONE_DAYS = 2;
+// Daily max at or above this counts as a heatwave day
+const HEATWAVE_MIN_TEMPERATURE_C = 35;
+
+export interface WateringAdjustment {
+  action: 'postpone' | 'advance';
+  dueDate: Date;
+  reason: string;
+}
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function isRainyDay(day: ForecastDay): boolean {
+  return (day.precipitationSum ?? 0) >= RAIN_MIN_PRECIPITATION_MM
+    && (day.precipitationProbability ?? 0) >= RAIN_MIN_PROBABILITY_PERCENT;
+}
+
+function isHeatwaveDay(day: ForecastDay): boolean {
+  return (day.temperatureMax ?? -Infinity) >= HEATWAVE_MIN_TEMPERATURE_C;
+}
+
+/**
+ * Decide whether a pending watering task for an outdoor plant should move because of the forecast.
+ * A heatwave before the due date pulls the task forward; meaningful rain up to the due date pushes it back.
+ * Returns null when the task should stay where it is. Re-running on the same forecast is a no-op.
+ */
+export function evaluateWateringAdjustment(task: Pick<PlantCareTask, 'dueDate'>, forecast: OpenMeteoForecast, now: Date = new Date()): WateringAdjustment | null {
+  const today = startOfDay(now);
+  const due = new Date(task.dueDate);
+  const dueDay = startOfDay(due);
+  const days = toForecastDays(forecast).filter(day => day.date >= today);
+
+  const firstHotDay = days.find(day => isHeatwaveDay(day) && day.date < dueDay);
+  if (firstHotDay) {
+    return {
+      action: 'advance',
+      dueDate: firstHotDay.date,
+      reason: `Heatwave forecast (${firstHotDay.temperatureMax}°C on ${firstHotDay.date.toDateString()}), watering moved earlier.`,
+    };
+  }
+
+  const rainyDays = days.filter(day => isRainyDay(day) && day.date <= dueDay);
+  if (rainyDays.length === 0) return null;
+
+  const lastRainyDay = rainyDays[rainyDays.length - 1];
+  const postponedDue = addDays(lastRainyDay.date, RAIN_POSTPONE_DAYS);
+  if (postponedDue <= dueDay) return null;
+
+  // Don't push the task into a heatwave the forecast already shows
+  if (days.some(day => isHeatwaveDay(day) && day.date < postponedDue)) return null;
+
+  const totalRain = rainyDays.reduce((sum, day) => sum + (day.precipitationSum ?? 0), 0);
+  return {
+    action: 'postpone',
+    dueDate: postponedDue,
+    reason: `Rain forecast (${totalRain.toFixed(1)} mm through ${lastRainyDay.date.toDateString()}), watering postponed.`,
+  };
+}
+
+/**
+ * Apply forecast-driven adjustments to every pending watering task of a user's outdoor plants.
+ * The reason is stored on the task and logged to the plant's care history.
+ */
+export async function applyWeatherAdjustments(userId: string, forecast: OpenMeteoForecast, now: Date = new Date()): Promise<PlantCareTask[]> {
+  const tasks = await storage.getPendingWateringTasksForOutdoorPlants(userId);
+  const adjustedTasks: PlantCareTask[] = [];
+
+  for (const task of tasks) {
+    const adjustment = evaluateWateringAdjustment(task, forecast, now);
+    if (!adjustment) continue;
+
+    const updated = await storage.updatePlantCareTask(task.id, {
+      dueDate: adjustment.dueDate,
+      notes: adjustment.reason,
+    });
+    if (!updated) continue;
+
+    await storage.createCareHistory({
+      plantId: parseInt(task.plantId),
+      actionType: adjustment.action === 'postpone' ? 'watering_postponed' : 'watering_advanced',
+      notes: adjustment.reason,
+    });
+    console.log(`[weatherAdjustmentService.ts] ${adjustment.action} watering task ${task.id}: ${adjustment.reason}`);
+    adjustedTasks.push(updated);
+  }
+
+  return adjustedTasks;
+}
@@ -0,0 +1,93 @@
+import fetch from 'node-fetch';
+import { startOfDayIn } from './timezoneService';
+
+// Default location until users can set their own (Nandurbar, India)
+export const DEFAULT_LATITUDE = 21.37;
+export const DEFAULT_LONGITUDE = 74.25;
+
+// Daily forecast block as returned by Open-Meteo (parallel arrays indexed by day)
+export interface OpenMeteoDailyData {
+  time: string[]; // YYYY-MM-DD in the location's timezone
+  weather_code?: number[];
+  temperature_2m_max: (number | null)[];
+  temperature_2m_min: (number | null)[];
+  sunrise?: string[];
+  sunset?: string[];
+  precipitation_sum: (number | null)[];
+  precipitation_probability_max: (number | null)[];
+}
+
+export interface OpenMeteoForecast {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  current?: {
+    temperature_2m: number | null;
+    relative_humidity_2m: number | null;
+    apparent_temperature?: number | null;
+    precipitation: number | null;
+    weather_code: number | null;
+    wind_speed_10m?: number | null;
+    soil_moisture_0_to_10cm?: number | null;
+  };
+  hourly?: Record<string, unknown>;
+  daily?: OpenMeteoDailyData;
+  [key: string]: unknown;
+}
+
+// One day of the daily forecast, unpacked from Open-Meteo's parallel arrays
+export interface ForecastDay {
+  date: Date; // midnight starting the forecast day, in the timezone given to toForecastDays
+  precipitationSum: number | null;
+  precipitationProbability: number | null;
+  temperatureMax: number | null;
+  temperatureMin: number | null;
+}
+
+export type ForecastFetcher = (latitude: number, longitude: number) => Promise<OpenMeteoForecast>;
+
+const FORECAST_QUERY = 'current=temperature_2m,relative_humidity_2m,apparent_temperature,precipitation,weather_code,wind_speed_10m,soil_moisture_0_to_10cm'
+  + '&hourly=temperature_2m,relative_humidity_2m,weather_code'
+  + '&daily=weather_code,temperature_2m_max,temperature_2m_min,sunrise,sunset,precipitation_sum,precipitation_probability_max'
+  + '&timezone=auto';
+
+const fetchOpenMeteoForecast: ForecastFetcher = async (latitude, longitude) => {
+  const response = await fetch(`https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&${FORECAST_QUERY}`);
+  if (!response.ok) {
+    throw new Error(`Error fetching weather data: ${response.statusText}`);
+  }
+  return await response.json() as OpenMeteoForecast;
+};
+
+let forecastFetcher: ForecastFetcher = fetchOpenMeteoForecast;
+
+/**
+ * Fetch the current conditions and 7-day daily forecast for a location from Open-Meteo.
+ */
+export function fetchForecast(latitude: number = DEFAULT_LATITUDE, longitude: number = DEFAULT_LONGITUDE): Promise<OpenMeteoForecast> {
+  return forecastFetcher(latitude, longitude);
+}
+
+/**
+ * Swap the forecast source, e.g. for a canned forecast when working offline.
+ * Passing nothing restores the live Open-Meteo fetcher.
+ */
+export function setForecastFetcher(fetcher?: ForecastFetcher): void {
+  forecastFetcher = fetcher ?? fetchOpenMeteoForecast;
+}
+
+/**
+ * Unpack the daily block of a forecast into one object per day. Days start at midnight in the given
+ * timezone (the user's profile timezone), else in the server's.
+ */
+export function toForecastDays(forecast: OpenMeteoForecast, timezone?: string | null): ForecastDay[] {
+  const daily = forecast.daily;
+  if (!daily || !Array.isArray(daily.time)) return [];
+  return daily.time.map((day, index) => ({
+    date: startOfDayIn(day, timezone),
+    precipitationSum: daily.precipitation_sum?.[index] ?? null,
+    precipitationProbability: daily.precipitation_probability_max?.[index] ?? null,
+    temperatureMax: daily.temperature_2m_max?.[index] ?? null,
+    temperatureMin: daily.temperature_2m_min?.[index] ?? null,
+  }));
+}
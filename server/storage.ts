@@ -1,19 +1,42 @@
 import { 
   User, InsertUser, 
   Plant, InsertPlant,
-  EnvironmentReading, InsertEnvironmentReading,
+  EnvironmentReading, InsertEnvironmentReading, EnvironmentHistoryQuery, EnvironmentHistoryPoint,
   PlantCareTask, InsertPlantCareTask,
-  Recommendation, InsertRecommendation,
+  Recommendation, InsertRecommendation, RecommendationFeedback, RecommendationFilter,
   CareHistory, InsertCareHistory,
-  PlantHealthMetric, InsertPlantHealthMetric,
-  AiCareTip, InsertAiCareTip
+  PlantHealthMetric, InsertPlantHealthMetric, PlantHealthSnapshot,
+  AiCareTip, InsertAiCareTip,
+  CareScheduleRule, InsertCareScheduleRule,
+  UserProfile, UpdateUserProfile,
+  FrostAlert, InsertFrostAlert,
+  EnvironmentAlert, InsertEnvironmentAlert, EnvironmentMetric, EnvironmentAlertDirection,
+  PlantEnvironmentThresholdOverrides, UpdatePlantEnvironmentThresholds,
+  NotificationPreferences, UpdateNotificationPreferences,
+  PushSubscription, InsertPushSubscription,
+  CalendarFeedToken,
+  PlantPhoto, InsertPlantPhoto,
+  PlantMeasurement, InsertPlantMeasurement, UpdatePlantMeasurement,
+  PlantConversation, PlantChatMessage, ChatRole,
+  Job,
+  SpeciesCatalogEntry, InsertSpeciesCatalogEntry,
+  PlantLocation, InsertPlantLocation, UpdatePlantLocation, LocationStats,
+  SensorDevice, InsertSensorDevice, UpdateSensorDevice,
+  MqttTopicMapping, InsertMqttTopicMapping, UpdateMqttTopicMapping,
+  withoutOverriddenFields
   // Table objects (users, plants, etc.) will be accessed via schema.users, schema.plants
 } from "../shared/schema";
-import { eq, desc, sql, and, gte, lte, isNull, inArray, lt, gt, asc } from "drizzle-orm"; // Restored missing operators, added lt
+import { eq, desc, sql, and, gte, lte, isNull, isNotNull, inArray, lt, gt, asc, or, ilike, notExists, type AnyColumn } from "drizzle-orm"; // Restored missing operators, added lt
 import { drizzle, PostgresJsDatabase } from 'drizzle-orm/postgres-js'; 
 import postgres from 'postgres';
+import { randomBytes } from 'crypto';
 import * as schema from "../shared/schema"; // Import all schema for DB typing
 import { generatePlantRecommendations } from "./services/aiService";
+import { computeHealthScore } from "./services/healthScoreService";
+import { buildCareRules, computeInitialDueDate, computeNextDueDate, isCareTaskType, normalizeCareTaskType } from "./services/careScheduleService";
+import { resolveLocation } from "./services/locationService";
+import { planRecommendationEffects, recommendationExpiry, type RecommendationEffect } from "./services/recommendationService";
+import type { AiUsageEntry, AiUsageStore } from "./services/aiUsageService";
 
 // For upcoming tasks displayed on the dashboard
 export interface UpcomingTaskDisplay extends PlantCareTask {
@@ -25,12 +48,24 @@ export interface CareHistoryDisplay extends CareHistory {
   plantName?: string; // Name of the plant associated with the activity
 }
 
+// Most recent rated recommendations per plant included in the next prompt
+const RECOMMENDATION_FEEDBACK_IN_PROMPT = 6;
+
+// Outcome of one recommendation run over a user's plants
+export interface RecommendationRunSummary {
+  plants: number;
+  created: number;
+  failed: number;
+  skipped: number; // already handled by an earlier attempt of the same run
+}
+
 // For the overall dashboard statistics
 export interface DashboardStats {
   totalPlants: number;
   plantsNeedingCare: number; 
   upcomingTasks: UpcomingTaskDisplay[];
   recentActivities: CareHistoryDisplay[];
+  locations: LocationStats[];
 }
 
 // Helper to map string health status to a numeric value for storage
@@ -83,6 +118,14 @@ export function initializeDatabase() {
   }
 }
 
+// A pending care task joined with what the notification pipeline needs to address it
+export interface DueCareTask {
+  task: PlantCareTask;
+  plantName: string;
+  userId: number;
+  email: string;
+}
+
 // Define interface for storage operations
 export interface IStorage {
   // User operations
@@ -91,6 +134,8 @@ export interface IStorage {
   getUserByClerkId(clerkId: string): Promise<User | undefined>;
   getOrCreateUserByClerkId(clerkId: string, clerkUserData: { email: string; username?: string | null; firstName?: string | null; lastName?: string | null }): Promise<User>;
   createUser(user: InsertUser): Promise<User>;
+  getUserProfile(userId: string): Promise<UserProfile | undefined>;
+  upsertUserProfile(userId: string, profile: UpdateUserProfile): Promise<UserProfile>;
 
   // Plant operations
   getPlantById(id: string): Promise<Plant | undefined>;
@@ -99,9 +144,46 @@ export interface IStorage {
   updatePlant(id: string, plant: Partial<InsertPlant>): Promise<Plant | undefined>;
   deletePlant(id: string): Promise<void>;
 
+  // Species catalog operations
+  getSpeciesByPerenualId(perenualId: number): Promise<SpeciesCatalogEntry | undefined>;
+  upsertSpecies(entry: InsertSpeciesCatalogEntry): Promise<SpeciesCatalogEntry>;
+  getStaleSpecies(syncedBefore: Date, limit: number): Promise<SpeciesCatalogEntry[]>;
+  searchSpeciesCatalog(query: string, limit: number): Promise<SpeciesCatalogEntry[]>;
+  updatePlantsFromSpecies(speciesId: number, fields: Partial<InsertPlant>): Promise<number>;
+  getPlantsNeedingEnrichment(limit: number): Promise<Plant[]>;
+
+  // Plant location (room, balcony, ...) operations
+  getPlantLocationsByUserId(userId: string): Promise<PlantLocation[]>;
+  getPlantLocationById(id: string): Promise<PlantLocation | undefined>;
+  createPlantLocation(userId: string, location: InsertPlantLocation): Promise<PlantLocation>;
+  updatePlantLocation(id: string, location: UpdatePlantLocation): Promise<PlantLocation | undefined>;
+  deletePlantLocation(id: string): Promise<void>;
+
+  // Sensor device operations
+  getSensorDevicesByUserId(userId: string): Promise<SensorDevice[]>;
+  getSensorDeviceById(id: string): Promise<SensorDevice | undefined>;
+  getSensorDeviceByApiKeyHash(apiKeyHash: string): Promise<SensorDevice | undefined>;
+  createSensorDevice(userId: string, device: InsertSensorDevice & { apiKeyHash: string; apiKeyPrefix: string }): Promise<SensorDevice>;
+  updateSensorDevice(id: string, device: UpdateSensorDevice & { apiKeyHash?: string; apiKeyPrefix?: string }): Promise<SensorDevice | undefined>;
+  deleteSensorDevice(id: string): Promise<void>;
+  markSensorDeviceSeen(id: number, seenAt: Date): Promise<void>;
+
+  // MQTT topic mapping operations
+  getMqttTopicMappingsByUserId(userId: string): Promise<MqttTopicMapping[]>;
+  getMqttTopicMappingById(id: string): Promise<MqttTopicMapping | undefined>;
+  getEnabledMqttTopicMappings(): Promise<MqttTopicMapping[]>;
+  createMqttTopicMapping(userId: string, mapping: InsertMqttTopicMapping): Promise<MqttTopicMapping>;
+  updateMqttTopicMapping(id: string, mapping: UpdateMqttTopicMapping): Promise<MqttTopicMapping | undefined>;
+  deleteMqttTopicMapping(id: string): Promise<void>;
+
   // Environment readings operations
-  getLatestEnvironmentReadingByUserId(userId: string): Promise<EnvironmentReading | undefined>;
+  // Latest room reading in the given location, or with no locationId the latest one not tied to a location
+  getLatestEnvironmentReadingByUserId(userId: string, locationId?: number): Promise<EnvironmentReading | undefined>;
+  getEnvironmentForPlant(plant: Plant): Promise<EnvironmentReading | undefined>;
   createEnvironmentReading(reading: InsertEnvironmentReading): Promise<EnvironmentReading>;
+  createEnvironmentReadings(readings: (InsertEnvironmentReading & { readingTimestamp?: Date })[]): Promise<EnvironmentReading[]>;
+  getEnvironmentHistory(userId: string, query: EnvironmentHistoryQuery): Promise<EnvironmentHistoryPoint[]>;
+  getPeakLux(userId: string, scope: { plantId: number | null; locationId: number | null }, from: Date, to: Date): Promise<{ peakLux: number | null; firstReadingAt: Date | null }>;
 
   // Plant care tasks operations
   getPlantCareTasksByUserId(userId: string): Promise<PlantCareTask[]>;
@@ -109,12 +191,99 @@ export interface IStorage {
   completePlantCareTask(id: string): Promise<PlantCareTask | undefined>;
   skipPlantCareTask(id: string): Promise<PlantCareTask | undefined>;
 
+  // Care schedule (recurrence) operations
+  getCareScheduleRules(plantId: string): Promise<CareScheduleRule[]>;
+  upsertCareScheduleRule(rule: InsertCareScheduleRule): Promise<CareScheduleRule>;
+  scheduleNextCareTask(plantId: string, taskType: string, from: Date): Promise<PlantCareTask | undefined>;
+  ensureCareSchedule(plantId: string): Promise<PlantCareTask[]>;
+  removePendingCareTasks(plantId: string, taskType: string): Promise<number>;
+  updatePlantCareTask(id: string, updates: Partial<Pick<PlantCareTask, 'dueDate' | 'notes'>>): Promise<PlantCareTask | undefined>;
+  getPendingWateringTasksForOutdoorPlants(userId: string): Promise<PlantCareTask[]>;
+
+  // Frost alerts
+  getFrostAlertsForPlantInWindow(plantId: string, from: Date, to: Date): Promise<FrostAlert[]>;
+  getActiveFrostAlertsByUserId(userId: string, since: Date): Promise<(FrostAlert & { plantName: string })[]>;
+  createFrostAlert(alert: InsertFrostAlert): Promise<FrostAlert>;
+  updateFrostAlert(id: number, updates: Partial<Pick<FrostAlert, 'eventEnd' | 'forecastMinC' | 'action'>>): Promise<FrostAlert | undefined>;
+
+  // Environment thresholds and alerts
+  getPlantEnvironmentThresholds(plantId: string): Promise<PlantEnvironmentThresholdOverrides | undefined>;
+  getPlantEnvironmentThresholdsByUserId(userId: string): Promise<PlantEnvironmentThresholdOverrides[]>;
+  upsertPlantEnvironmentThresholds(plantId: string, thresholds: UpdatePlantEnvironmentThresholds): Promise<PlantEnvironmentThresholdOverrides>;
+  getEnvironmentAlertsByUserId(userId: string, status?: EnvironmentAlert['status']): Promise<(EnvironmentAlert & { plantName: string })[]>;
+  getLatestResolvedEnvironmentAlert(plantId: number, metric: EnvironmentMetric, direction: EnvironmentAlertDirection, since: Date): Promise<EnvironmentAlert | undefined>;
+  getActiveEnvironmentAlert(plantId: number, metric: EnvironmentMetric): Promise<EnvironmentAlert | undefined>;
+  // Undefined when the plant already has an active alert for the metric
+  createEnvironmentAlert(alert: InsertEnvironmentAlert): Promise<EnvironmentAlert | undefined>;
+  updateEnvironmentAlert(id: number, updates: Partial<Pick<EnvironmentAlert, 'status' | 'threshold' | 'worstValue' | 'lastValue' | 'resolvedAt' | 'recommendationId'>>): Promise<EnvironmentAlert | undefined>;
+
+  // Notifications
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined>;
+  upsertNotificationPreferences(userId: string, prefs: UpdateNotificationPreferences): Promise<NotificationPreferences>;
+  getPushSubscriptionsByUserId(userId: string): Promise<PushSubscription[]>;
+  savePushSubscription(userId: string, subscription: InsertPushSubscription): Promise<PushSubscription>;
+  deletePushSubscription(endpoint: string, userId?: string): Promise<void>;
+  getDueCareTasksForNotification(dueBefore: Date): Promise<DueCareTask[]>;
+  getDeliveredTaskIds(taskIds: string[], channel: string): Promise<string[]>;
+  recordNotificationDeliveries(userId: string, taskIds: string[], channel: string): Promise<void>;
+
+  // Calendar feed
+  getCalendarFeedToken(userId: string): Promise<CalendarFeedToken | undefined>;
+  rotateCalendarFeedToken(userId: string): Promise<CalendarFeedToken>;
+  getUserByCalendarFeedToken(token: string): Promise<User | undefined>;
+
+  // Plant photos
+  getPlantPhotos(plantId: string): Promise<PlantPhoto[]>;
+  getPlantPhotoById(id: string): Promise<PlantPhoto | undefined>;
+  createPlantPhoto(photo: InsertPlantPhoto): Promise<PlantPhoto>;
+  deletePlantPhoto(id: string): Promise<PlantPhoto | undefined>;
+
+  // Growth measurements
+  getPlantMeasurements(plantId: string): Promise<PlantMeasurement[]>;
+  getPlantMeasurementsByUserId(userId: string): Promise<PlantMeasurement[]>;
+  getPlantMeasurementById(id: string): Promise<PlantMeasurement | undefined>;
+  createPlantMeasurement(plantId: string, userId: string, measurement: InsertPlantMeasurement): Promise<PlantMeasurement>;
+  updatePlantMeasurement(id: string, updates: UpdatePlantMeasurement): Promise<PlantMeasurement | undefined>;
+  deletePlantMeasurement(id: string): Promise<PlantMeasurement | undefined>;
+
+  // Plant assistant conversations
+  getPlantConversations(plantId: string, userId: string): Promise<PlantConversation[]>;
+  getPlantConversationById(id: string): Promise<PlantConversation | undefined>;
+  createPlantConversation(plantId: string, userId: string, title: string): Promise<PlantConversation>;
+  deletePlantConversation(id: string): Promise<PlantConversation | undefined>;
+  getPlantChatMessages(conversationId: string): Promise<PlantChatMessage[]>;
+  addPlantChatMessage(conversationId: string, role: ChatRole, content: string): Promise<PlantChatMessage>;
+
+  // AI response cache and usage accounting
+  getCachedAiResponse(promptHash: string, now: Date): Promise<string | undefined>;
+  saveCachedAiResponse(promptHash: string, response: string, expiresAt: Date): Promise<void>;
+  recordAiUsage(entry: AiUsageEntry): Promise<void>;
+  getAiTokensUsedSince(userId: number, since: Date): Promise<number>;
+
+  // Background jobs
+  enqueueJob(job: { type: string; payload: Record<string, unknown>; userId?: number | null; maxAttempts?: number; runAt?: Date }): Promise<Job>;
+  getJobById(id: string): Promise<Job | undefined>;
+  findActiveJob(type: string, userId: number | null): Promise<Job | undefined>;
+  claimNextJob(now: Date): Promise<Job | undefined>;
+  completeJob(id: number, result: unknown): Promise<void>;
+  failJob(id: number, error: string, retryAt: Date | null): Promise<void>;
+  releaseStaleJobs(lockedBefore: Date): Promise<number>;
+
   // Recommendations operations
-  getRecommendationsByUserId(userId: string): Promise<Recommendation[]>;
+  getRecommendationsByUserId(userId: string, filter?: RecommendationFilter): Promise<Recommendation[]>;
   getRecommendationsByPlantId(plantId: string): Promise<Recommendation[]>; 
+  getRecommendationById(id: string): Promise<Recommendation | undefined>;
   createRecommendation(recommendation: InsertRecommendation): Promise<Recommendation>;
   applyRecommendation(id: string): Promise<Recommendation | undefined>;
-  generateRecommendations(userId: string): Promise<void>;
+  dismissRecommendation(id: string): Promise<Recommendation | undefined>;
+  snoozeRecommendation(id: string, until: Date): Promise<Recommendation | undefined>;
+  setRecommendationFeedback(id: string, feedback: RecommendationFeedback, comment: string | null): Promise<Recommendation | undefined>;
+  refreshRecommendationStatuses(userId: string, now: Date): Promise<void>;
+  getRatedRecommendationsForPlant(plantId: number, limit: number): Promise<Recommendation[]>;
+  updateRecommendationMessage(id: number, message: string, expiresAt?: Date): Promise<Recommendation | undefined>;
+  expireRecommendation(id: number): Promise<void>;
+  reactivateRecommendation(id: number): Promise<void>;
+  generateRecommendations(userId: string, options?: { resumeSince?: Date }): Promise<RecommendationRunSummary>;
 
   // Care history operations
   getCareHistoryByPlantId(plantId: string): Promise<CareHistory[]>;
@@ -124,6 +293,10 @@ export interface IStorage {
   // Plant health metrics
   getPlantHealthMetrics(plantId: string): Promise<PlantHealthMetric | undefined>;
   updatePlantHealthMetrics(plantId: string, metrics?: Partial<InsertPlantHealthMetric>): Promise<PlantHealthMetric | undefined>;
+  getPlantHealthHistory(plantId: string, since: Date): Promise<PlantHealthSnapshot[]>;
+  getHealthHistoryByUserId(userId: string, since: Date): Promise<(PlantHealthSnapshot & { plantName: string })[]>;
+  getAllPlantIds(): Promise<number[]>;
+  getUserIdsWithOutdoorPlants(): Promise<number[]>;
 
   // AI Care Tips
   saveAiCareTips(plantId: string, userId: string, tips: Array<{ category: string; tip: string }>): Promise<void>;
@@ -134,7 +307,12 @@ export interface IStorage {
 }
 
 // Database storage implementation
-export class DbStorage implements IStorage {
+// Local calendar day as YYYY-MM-DD, the key for daily health snapshots
+function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export class DbStorage implements IStorage, AiUsageStore {
   // Helper to get all care history for a user's plants (e.g., for a full activity feed)
  
   // Use a getter to ensure the db instance is accessed only after initialization
@@ -227,6 +405,28 @@ export class DbStorage implements IStorage {
     return newUser as User;
   }
 
+  async getUserProfile(userId: string): Promise<UserProfile | undefined> {
+    return this.db.query.userProfiles.findFirst({
+      where: eq(schema.userProfiles.userId, parseInt(userId)),
+    });
+  }
+
+  async upsertUserProfile(userId: string, profile: UpdateUserProfile): Promise<UserProfile> {
+    // Fields left undefined keep their stored value; explicit nulls clear them
+    const changes = Object.fromEntries(
+      Object.entries(profile).filter(([, value]) => value !== undefined)
+    ) as UpdateUserProfile;
+    const [saved] = await this.db.insert(schema.userProfiles)
+      .values({ ...changes, userId: parseInt(userId) })
+      .onConflictDoUpdate({
+        target: schema.userProfiles.userId,
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    console.log(`[DbStorage] Saved location profile for user ${userId}`);
+    return saved;
+  }
+
   // Plant operations
   async getPlantById(id: string): Promise<Plant | undefined> {
     const result = await this.db.select().from(schema.plants).where(eq(schema.plants.id, parseInt(id))).limit(1);
@@ -268,6 +468,9 @@ export class DbStorage implements IStorage {
 
         // Perenual API fields (optional or nullable in schema)
         perenual_id: plantInput.perenual_id,
+        speciesId: plantInput.speciesId,
+        needsEnrichment: plantInput.needsEnrichment,
+        userOverrides: plantInput.userOverrides,
         scientific_name: plantInput.scientific_name,
         other_name: plantInput.other_name,
         family: plantInput.family,
@@ -347,21 +550,12 @@ export class DbStorage implements IStorage {
         lastWatered: newPlantFromDb.lastWatered ? new Date(newPlantFromDb.lastWatered) : null,
       };
 
-      // --- Auto-create watering task after plant creation ---
+      // --- Seed the recurring care schedule after plant creation ---
       try {
-        let dueDate = new Date();
-        if (typeof resultPlant.waterFrequencyDays === 'number' && resultPlant.waterFrequencyDays > 0) {
-          dueDate.setDate(dueDate.getDate() + resultPlant.waterFrequencyDays);
-        }
-        await this.createPlantCareTask({
-          plantId: resultPlant.id.toString(),
-          type: 'watering',
-          dueDate,
-          status: 'pending',
-        });
-        console.log(`[storage.ts] Auto-created watering task for plant ID: ${resultPlant.id} with due date: ${dueDate}`);
+        const seededTasks = await this.ensureCareSchedule(resultPlant.id.toString());
+        console.log(`[storage.ts] Seeded ${seededTasks.length} care tasks for plant ID: ${resultPlant.id}`);
       } catch (taskErr) {
-        console.error(`[storage.ts] Error auto-creating watering task for plant ID: ${resultPlant.id}`, taskErr);
+        console.error(`[storage.ts] Error seeding care schedule for plant ID: ${resultPlant.id}`, taskErr);
       }
 
       console.log('[storage.ts] DbStorage.createPlant: Returning plant:', JSON.stringify(resultPlant, null, 2));
@@ -407,10 +601,196 @@ export class DbStorage implements IStorage {
     }
   }
 
+  // Species catalog operations
+  async getSpeciesByPerenualId(perenualId: number): Promise<SpeciesCatalogEntry | undefined> {
+    return this.db.query.speciesCatalog.findFirst({
+      where: eq(schema.speciesCatalog.perenualId, perenualId),
+    });
+  }
+
+  async upsertSpecies(entry: InsertSpeciesCatalogEntry): Promise<SpeciesCatalogEntry> {
+    const [saved] = await this.db.insert(schema.speciesCatalog)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: schema.speciesCatalog.perenualId,
+        set: { commonName: entry.commonName, scientificName: entry.scientificName, payload: entry.payload, lastApiSync: entry.lastApiSync },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Oldest first, so a run that stops at the limit picks up where it left off next time
+  async getStaleSpecies(syncedBefore: Date, limit: number): Promise<SpeciesCatalogEntry[]> {
+    return this.db.select().from(schema.speciesCatalog)
+      .where(lt(schema.speciesCatalog.lastApiSync, syncedBefore))
+      .orderBy(asc(schema.speciesCatalog.lastApiSync))
+      .limit(limit);
+  }
+
+  // Case-insensitive substring match on the common or any scientific name
+  async searchSpeciesCatalog(query: string, limit: number): Promise<SpeciesCatalogEntry[]> {
+    const pattern = `%${query.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+    return this.db.select().from(schema.speciesCatalog)
+      .where(or(
+        ilike(schema.speciesCatalog.commonName, pattern),
+        sql`array_to_string(${schema.speciesCatalog.scientificName}, ' ') ILIKE ${pattern}`
+      ))
+      .orderBy(asc(schema.speciesCatalog.commonName))
+      .limit(limit);
+  }
+
+  // Copy refreshed species data onto every plant that references the entry, skipping fields each
+  // owner has overridden; returns how many changed
+  async updatePlantsFromSpecies(speciesId: number, fields: Partial<InsertPlant>): Promise<number> {
+    const linked = await this.db.select({ id: schema.plants.id, userOverrides: schema.plants.userOverrides })
+      .from(schema.plants)
+      .where(eq(schema.plants.speciesId, speciesId));
+
+    for (const plant of linked) {
+      await this.db.update(schema.plants)
+        .set(withoutOverriddenFields(fields, plant.userOverrides))
+        .where(eq(schema.plants.id, plant.id));
+    }
+    return linked.length;
+  }
+
+  // Plants added while Perenual was unavailable, oldest first
+  async getPlantsNeedingEnrichment(limit: number): Promise<Plant[]> {
+    return this.db.select().from(schema.plants)
+      .where(eq(schema.plants.needsEnrichment, true))
+      .orderBy(asc(schema.plants.id))
+      .limit(limit);
+  }
+
+  // Plant location (room, balcony, ...) operations
+  async getPlantLocationsByUserId(userId: string): Promise<PlantLocation[]> {
+    return this.db.select().from(schema.plantLocations)
+      .where(eq(schema.plantLocations.userId, parseInt(userId)))
+      .orderBy(asc(schema.plantLocations.name));
+  }
+
+  async getPlantLocationById(id: string): Promise<PlantLocation | undefined> {
+    return this.db.query.plantLocations.findFirst({
+      where: eq(schema.plantLocations.id, parseInt(id)),
+    });
+  }
+
+  async createPlantLocation(userId: string, location: InsertPlantLocation): Promise<PlantLocation> {
+    const [created] = await this.db.insert(schema.plantLocations)
+      .values({ ...location, userId: parseInt(userId) })
+      .returning();
+    return created;
+  }
+
+  async updatePlantLocation(id: string, location: UpdatePlantLocation): Promise<PlantLocation | undefined> {
+    const [updated] = await this.db.update(schema.plantLocations)
+      .set(location)
+      .where(eq(schema.plantLocations.id, parseInt(id)))
+      .returning();
+    return updated;
+  }
+
+  // Plants and readings in the location are kept; their location_id is cleared by the foreign key
+  async deletePlantLocation(id: string): Promise<void> {
+    await this.db.delete(schema.plantLocations).where(eq(schema.plantLocations.id, parseInt(id)));
+  }
+
+  // Sensor device operations
+  async getSensorDevicesByUserId(userId: string): Promise<SensorDevice[]> {
+    return this.db.select().from(schema.sensorDevices)
+      .where(eq(schema.sensorDevices.userId, parseInt(userId)))
+      .orderBy(asc(schema.sensorDevices.name));
+  }
+
+  async getSensorDeviceById(id: string): Promise<SensorDevice | undefined> {
+    return this.db.query.sensorDevices.findFirst({
+      where: eq(schema.sensorDevices.id, parseInt(id)),
+    });
+  }
+
+  async getSensorDeviceByApiKeyHash(apiKeyHash: string): Promise<SensorDevice | undefined> {
+    return this.db.query.sensorDevices.findFirst({
+      where: eq(schema.sensorDevices.apiKeyHash, apiKeyHash),
+    });
+  }
+
+  async createSensorDevice(userId: string, device: InsertSensorDevice & { apiKeyHash: string; apiKeyPrefix: string }): Promise<SensorDevice> {
+    const [created] = await this.db.insert(schema.sensorDevices)
+      .values({ ...device, userId: parseInt(userId) })
+      .returning();
+    return created;
+  }
+
+  // Also used to rotate the key, which stops the old one working straight away
+  async updateSensorDevice(id: string, device: UpdateSensorDevice & { apiKeyHash?: string; apiKeyPrefix?: string }): Promise<SensorDevice | undefined> {
+    const [updated] = await this.db.update(schema.sensorDevices)
+      .set(device)
+      .where(eq(schema.sensorDevices.id, parseInt(id)))
+      .returning();
+    return updated;
+  }
+
+  // Readings the device sent are kept, with device_id cleared by the foreign key
+  async deleteSensorDevice(id: string): Promise<void> {
+    await this.db.delete(schema.sensorDevices).where(eq(schema.sensorDevices.id, parseInt(id)));
+  }
+
+  async markSensorDeviceSeen(id: number, seenAt: Date): Promise<void> {
+    await this.db.update(schema.sensorDevices)
+      .set({ lastSeenAt: seenAt })
+      .where(eq(schema.sensorDevices.id, id));
+  }
+
+  // MQTT topic mapping operations
+  async getMqttTopicMappingsByUserId(userId: string): Promise<MqttTopicMapping[]> {
+    return this.db.select().from(schema.mqttTopicMappings)
+      .where(eq(schema.mqttTopicMappings.userId, parseInt(userId)))
+      .orderBy(asc(schema.mqttTopicMappings.topic));
+  }
+
+  async getMqttTopicMappingById(id: string): Promise<MqttTopicMapping | undefined> {
+    return this.db.query.mqttTopicMappings.findFirst({
+      where: eq(schema.mqttTopicMappings.id, parseInt(id)),
+    });
+  }
+
+  // Every user's enabled mappings; the MQTT bridge subscribes to all of them
+  async getEnabledMqttTopicMappings(): Promise<MqttTopicMapping[]> {
+    return this.db.select().from(schema.mqttTopicMappings)
+      .where(eq(schema.mqttTopicMappings.enabled, true));
+  }
+
+  async createMqttTopicMapping(userId: string, mapping: InsertMqttTopicMapping): Promise<MqttTopicMapping> {
+    const [created] = await this.db.insert(schema.mqttTopicMappings)
+      .values({ ...mapping, userId: parseInt(userId) })
+      .returning();
+    return created;
+  }
+
+  async updateMqttTopicMapping(id: string, mapping: UpdateMqttTopicMapping): Promise<MqttTopicMapping | undefined> {
+    const [updated] = await this.db.update(schema.mqttTopicMappings)
+      .set(mapping)
+      .where(eq(schema.mqttTopicMappings.id, parseInt(id)))
+      .returning();
+    return updated;
+  }
+
+  async deleteMqttTopicMapping(id: string): Promise<void> {
+    await this.db.delete(schema.mqttTopicMappings).where(eq(schema.mqttTopicMappings.id, parseInt(id)));
+  }
+
   // Environment readings operations
-  async getLatestEnvironmentReadingByUserId(userId: string): Promise<EnvironmentReading | undefined> {
+  // With a locationId, only readings taken in that location count. Readings from a single plant's pot
+  // are left out, since its soil moisture says nothing about the other plants.
+  async getLatestEnvironmentReadingByUserId(userId: string, locationId?: number): Promise<EnvironmentReading | undefined> {
     const result = await this.db.select().from(schema.environmentReadings)
-      .where(eq(schema.environmentReadings.userId, parseInt(userId)))
+      .where(and(
+        eq(schema.environmentReadings.userId, parseInt(userId)),
+        isNull(schema.environmentReadings.plantId),
+        locationId !== undefined
+          ? eq(schema.environmentReadings.locationId, locationId)
+          : isNull(schema.environmentReadings.locationId)
+      ))
       .orderBy(desc(schema.environmentReadings.readingTimestamp))
       .limit(1);
     if (!result[0]) return undefined;
@@ -423,6 +803,44 @@ export class DbStorage implements IStorage {
     } as EnvironmentReading;
   }
 
+  /**
+   * The conditions a plant is in: the latest reading from its location, else the user's latest reading
+   * not tied to any location (never another room's). A missing light level is filled in from the
+   * location's light exposure. The latest reading from a sensor in the plant's own pot takes priority
+   * for the values it measured.
+   */
+  async getEnvironmentForPlant(plant: Plant): Promise<EnvironmentReading | undefined> {
+    const [shared, [plantReading]] = await Promise.all([
+      this.getSharedEnvironmentForPlant(plant),
+      this.db.select().from(schema.environmentReadings)
+        .where(eq(schema.environmentReadings.plantId, plant.id))
+        .orderBy(desc(schema.environmentReadings.readingTimestamp))
+        .limit(1),
+    ]);
+    if (!plantReading) return shared;
+    if (!shared) return plantReading;
+    return {
+      ...plantReading,
+      temperature: plantReading.temperature ?? shared.temperature,
+      humidity: plantReading.humidity ?? shared.humidity,
+      lightLevel: plantReading.lightLevel ?? shared.lightLevel,
+    };
+  }
+
+  private async getSharedEnvironmentForPlant(plant: Plant): Promise<EnvironmentReading | undefined> {
+    const userId = plant.userId.toString();
+    if (!plant.locationId) return this.getLatestEnvironmentReadingByUserId(userId);
+
+    const [location, locationReading] = await Promise.all([
+      this.getPlantLocationById(plant.locationId.toString()),
+      this.getLatestEnvironmentReadingByUserId(userId, plant.locationId),
+    ]);
+    // A room without readings of its own falls back to the user's general readings only
+    const reading = locationReading ?? await this.getLatestEnvironmentReadingByUserId(userId);
+    if (!reading || reading.lightLevel || !location?.lightExposure) return reading;
+    return { ...reading, lightLevel: location.lightExposure };
+  }
+
   async createEnvironmentReading(reading: InsertEnvironmentReading): Promise<EnvironmentReading> {
     const [newReading] = await this.db.insert(schema.environmentReadings).values(reading).returning();
     return {
@@ -434,6 +852,62 @@ export class DbStorage implements IStorage {
     } as EnvironmentReading;
   }
 
+  // Bulk insert for sensor batches; readings may carry the time they were measured
+  async createEnvironmentReadings(readings: (InsertEnvironmentReading & { readingTimestamp?: Date })[]): Promise<EnvironmentReading[]> {
+    if (readings.length === 0) return [];
+    return this.db.insert(schema.environmentReadings)
+      .values(readings)
+      .returning();
+  }
+
+  async getEnvironmentHistory(userId: string, query: EnvironmentHistoryQuery): Promise<EnvironmentHistoryPoint[]> {
+    const readings = schema.environmentReadings;
+    // bucket and aggregation are enum-validated, so inlining them as raw SQL is safe
+    const bucketStart = sql<Date>`date_trunc(${sql.raw(`'${query.bucket}'`)}, ${readings.readingTimestamp})`.mapWith(readings.readingTimestamp);
+    const aggregate = (column: AnyColumn) =>
+      sql<number | null>`${sql.raw(query.aggregation)}(${column})`.mapWith(Number);
+
+    return this.db
+      .select({
+        bucketStart,
+        temperature: aggregate(readings.temperature),
+        humidity: aggregate(readings.humidity),
+        soilMoisture: aggregate(readings.soil_moisture_0_to_10cm),
+        readings: sql<number>`count(*)`.mapWith(Number),
+      })
+      .from(readings)
+      .where(and(
+        eq(readings.userId, parseInt(userId)),
+        query.locationId !== undefined ? eq(readings.locationId, query.locationId) : undefined,
+        gte(readings.readingTimestamp, query.from),
+        lte(readings.readingTimestamp, query.to)
+      ))
+      .groupBy(bucketStart)
+      .orderBy(bucketStart);
+  }
+
+  // Brightest lux reading in the window, from readings with exactly this plant / location scope, and
+  // when the earliest of them was taken so callers can tell whether the window is fully covered
+  async getPeakLux(userId: string, scope: { plantId: number | null; locationId: number | null }, from: Date, to: Date): Promise<{ peakLux: number | null; firstReadingAt: Date | null }> {
+    const readings = schema.environmentReadings;
+    const [row] = await this.db
+      .select({
+        peakLux: sql<number | null>`max(${readings.lux})`.mapWith(Number),
+        firstReadingAt: sql<Date | null>`min(${readings.readingTimestamp})`.mapWith(readings.readingTimestamp),
+      })
+      .from(readings)
+      .where(and(
+        eq(readings.userId, parseInt(userId)),
+        isNotNull(readings.lux),
+        scope.plantId !== null ? eq(readings.plantId, scope.plantId) : isNull(readings.plantId),
+        scope.plantId !== null ? undefined
+          : scope.locationId !== null ? eq(readings.locationId, scope.locationId) : isNull(readings.locationId),
+        gte(readings.readingTimestamp, from),
+        lte(readings.readingTimestamp, to)
+      ));
+    return { peakLux: row?.peakLux ?? null, firstReadingAt: row?.firstReadingAt ?? null };
+  }
+
   // Plant care tasks operations
   async getPlantCareTasksByUserId(userId: string): Promise<PlantCareTask[]> {
     try {
@@ -446,6 +920,7 @@ export class DbStorage implements IStorage {
           dueDate: schema.plantCareTasks.dueDate,
           completedAt: schema.plantCareTasks.completedAt,
           lastCareDate: schema.plantCareTasks.lastCareDate,
+          notes: schema.plantCareTasks.notes,
           createdAt: schema.plantCareTasks.createdAt,
           updatedAt: schema.plantCareTasks.updatedAt,
         })
@@ -477,6 +952,7 @@ export class DbStorage implements IStorage {
           type: task.type,
           status: task.status || 'pending',
           dueDate: task.dueDate,
+          notes: task.notes ?? null,
           completedAt: null,
           createdAt: new Date(),
           updatedAt: new Date(),
@@ -498,26 +974,24 @@ export class DbStorage implements IStorage {
 
   async completePlantCareTask(id: string): Promise<PlantCareTask | undefined> {
     try {
+      const completedAt = new Date();
       const [updatedTask] = await this.db
         .update(schema.plantCareTasks)
         .set({
           status: 'completed',
-          completedAt: new Date(),
-          updatedAt: new Date(),
+          completedAt,
+          lastCareDate: completedAt,
+          updatedAt: completedAt,
         })
         .where(eq(schema.plantCareTasks.id, id))
-      .returning();
-    
+        .returning();
+
       if (!updatedTask) return undefined;
 
-    return {
-        ...updatedTask,
-        dueDate: updatedTask.dueDate ? new Date(updatedTask.dueDate) : new Date(),
-        completedAt: updatedTask.completedAt ? new Date(updatedTask.completedAt) : undefined,
-        lastCareDate: updatedTask.lastCareDate ? new Date(updatedTask.lastCareDate) : undefined,
-        createdAt: updatedTask.createdAt ? new Date(updatedTask.createdAt) : new Date(),
-        updatedAt: updatedTask.updatedAt ? new Date(updatedTask.updatedAt) : new Date(),
-      } as PlantCareTask;
+      // Keep the cycle going: the next occurrence counts from when the care was actually done
+      await this.scheduleNextCareTask(updatedTask.plantId, updatedTask.type, completedAt);
+
+      return this.toPlantCareTask(updatedTask);
     } catch (error) {
       console.error('[DbStorage] Error completing plant care task:', error);
       throw error;
@@ -526,35 +1000,649 @@ export class DbStorage implements IStorage {
 
   async skipPlantCareTask(id: string): Promise<PlantCareTask | undefined> {
     try {
+      const skippedAt = new Date();
       const [updatedTask] = await this.db
         .update(schema.plantCareTasks)
         .set({
           status: 'skipped',
-          updatedAt: new Date(),
+          updatedAt: skippedAt,
         })
         .where(eq(schema.plantCareTasks.id, id))
         .returning();
 
       if (!updatedTask) return undefined;
 
-      return {
-        ...updatedTask,
-        dueDate: updatedTask.dueDate ? new Date(updatedTask.dueDate) : new Date(),
-        completedAt: updatedTask.completedAt ? new Date(updatedTask.completedAt) : undefined,
-        lastCareDate: updatedTask.lastCareDate ? new Date(updatedTask.lastCareDate) : undefined,
-        createdAt: updatedTask.createdAt ? new Date(updatedTask.createdAt) : new Date(),
-        updatedAt: updatedTask.updatedAt ? new Date(updatedTask.updatedAt) : new Date(),
-      } as PlantCareTask;
+      // A skipped occurrence still moves the schedule forward, otherwise the task list empties out
+      await this.scheduleNextCareTask(updatedTask.plantId, updatedTask.type, skippedAt);
+
+      return this.toPlantCareTask(updatedTask);
     } catch (error) {
       console.error('[DbStorage] Error skipping plant care task:', error);
       throw error;
     }
   }
 
+  async updatePlantCareTask(id: string, updates: Partial<Pick<PlantCareTask, 'dueDate' | 'notes'>>): Promise<PlantCareTask | undefined> {
+    try {
+      const [updatedTask] = await this.db
+        .update(schema.plantCareTasks)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(schema.plantCareTasks.id, id))
+        .returning();
+      return updatedTask ? this.toPlantCareTask(updatedTask) : undefined;
+    } catch (error) {
+      console.error('[DbStorage] Error updating plant care task:', error);
+      throw error;
+    }
+  }
+
+  async getPendingWateringTasksForOutdoorPlants(userId: string): Promise<PlantCareTask[]> {
+    const rows = await this.db
+      .select({ task: schema.plantCareTasks })
+      .from(schema.plantCareTasks)
+      .innerJoin(schema.plants, eq(schema.plantCareTasks.plantId, schema.plants.id))
+      .where(and(
+        eq(schema.plants.userId, parseInt(userId)),
+        eq(schema.plants.indoor, false),
+        eq(schema.plantCareTasks.status, 'pending'),
+        inArray(schema.plantCareTasks.type, ['watering', 'water'])
+      ));
+    return rows.map(row => this.toPlantCareTask(row.task));
+  }
+
+  private toPlantCareTask(task: typeof schema.plantCareTasks.$inferSelect): PlantCareTask {
+    return {
+      ...task,
+      dueDate: task.dueDate ? new Date(task.dueDate) : new Date(),
+      completedAt: task.completedAt ? new Date(task.completedAt) : null,
+      lastCareDate: task.lastCareDate ? new Date(task.lastCareDate) : null,
+      createdAt: task.createdAt ? new Date(task.createdAt) : new Date(),
+      updatedAt: task.updatedAt ? new Date(task.updatedAt) : new Date(),
+    };
+  }
+
+  // Care schedule (recurrence) operations
+  async getCareScheduleRules(plantId: string): Promise<CareScheduleRule[]> {
+    return this.db.select().from(schema.careScheduleRules)
+      .where(eq(schema.careScheduleRules.plantId, parseInt(plantId)));
+  }
+
+  async upsertCareScheduleRule(rule: InsertCareScheduleRule): Promise<CareScheduleRule> {
+    const [saved] = await this.db.insert(schema.careScheduleRules)
+      .values(rule)
+      .onConflictDoUpdate({
+        target: [schema.careScheduleRules.plantId, schema.careScheduleRules.taskType],
+        // Only the fields given change; null hands a field back to the plant data
+        set: {
+          ...(rule.intervalDays !== undefined ? { intervalDays: rule.intervalDays } : {}),
+          ...(rule.enabled !== undefined ? { enabled: rule.enabled } : {}),
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async scheduleNextCareTask(plantId: string, taskType: string, from: Date): Promise<PlantCareTask | undefined> {
+    const normalizedType = normalizeCareTaskType(taskType);
+    if (!isCareTaskType(normalizedType)) {
+      // Ad-hoc task types (e.g. 'light' from recommendations) are one-offs
+      return undefined;
+    }
+
+    const plant = await this.getPlantById(plantId);
+    if (!plant) return undefined;
+
+    const rule = buildCareRules(plant, await this.getCareScheduleRules(plantId))
+      .find(r => r.taskType === normalizedType);
+    if (!rule || !rule.enabled) return undefined;
+
+    // Never stack a second pending occurrence of the same type
+    const [existingPending] = await this.db.select().from(schema.plantCareTasks)
+      .where(and(
+        eq(schema.plantCareTasks.plantId, plantId),
+        inArray(schema.plantCareTasks.type, normalizedType === 'watering' ? ['watering', 'water'] : [normalizedType]),
+        eq(schema.plantCareTasks.status, 'pending')
+      ))
+      .limit(1);
+    if (existingPending) return this.toPlantCareTask(existingPending);
+
+    const dueDate = computeNextDueDate(rule, from);
+    const nextTask = await this.createPlantCareTask({
+      plantId,
+      type: normalizedType,
+      dueDate,
+      status: 'pending',
+    });
+    console.log(`[DbStorage] Scheduled next ${normalizedType} task for plant ${plantId} on ${dueDate.toISOString()}`);
+    return nextTask;
+  }
+
+  async ensureCareSchedule(plantId: string): Promise<PlantCareTask[]> {
+    const plant = await this.getPlantById(plantId);
+    if (!plant) return [];
+
+    const rules = buildCareRules(plant, await this.getCareScheduleRules(plantId));
+    const pendingTasks = await this.db.select({ type: schema.plantCareTasks.type }).from(schema.plantCareTasks)
+      .where(and(
+        eq(schema.plantCareTasks.plantId, plantId),
+        eq(schema.plantCareTasks.status, 'pending')
+      ));
+    const pendingTypes = new Set(pendingTasks.map(t => normalizeCareTaskType(t.type)));
+
+    const created: PlantCareTask[] = [];
+    for (const rule of rules) {
+      if (!rule.enabled || pendingTypes.has(rule.taskType)) continue;
+      created.push(await this.createPlantCareTask({
+        plantId,
+        type: rule.taskType,
+        dueDate: computeInitialDueDate(rule, plant),
+        status: 'pending',
+      }));
+    }
+    return created;
+  }
+
+  // Take a switched-off rule's open occurrence off the task list; completed and skipped ones stay in the history
+  async removePendingCareTasks(plantId: string, taskType: string): Promise<number> {
+    const normalizedType = normalizeCareTaskType(taskType);
+    const removed = await this.db.delete(schema.plantCareTasks)
+      .where(and(
+        eq(schema.plantCareTasks.plantId, plantId),
+        inArray(schema.plantCareTasks.type, normalizedType === 'watering' ? ['watering', 'water'] : [normalizedType]),
+        eq(schema.plantCareTasks.status, 'pending')
+      ))
+      .returning({ id: schema.plantCareTasks.id });
+    return removed.length;
+  }
+
+  // Frost alert operations
+  async getFrostAlertsForPlantInWindow(plantId: string, from: Date, to: Date): Promise<FrostAlert[]> {
+    // Any alert whose event overlaps [from, to]
+    return this.db.select().from(schema.frostAlerts)
+      .where(and(
+        eq(schema.frostAlerts.plantId, parseInt(plantId)),
+        gte(schema.frostAlerts.eventEnd, from),
+        lte(schema.frostAlerts.eventStart, to)
+      ))
+      .orderBy(desc(schema.frostAlerts.eventStart));
+  }
+
+  async getActiveFrostAlertsByUserId(userId: string, since: Date): Promise<(FrostAlert & { plantName: string })[]> {
+    const rows = await this.db
+      .select({ alert: schema.frostAlerts, plantName: schema.plants.name })
+      .from(schema.frostAlerts)
+      .innerJoin(schema.plants, eq(schema.frostAlerts.plantId, schema.plants.id))
+      .where(and(
+        eq(schema.frostAlerts.userId, parseInt(userId)),
+        gte(schema.frostAlerts.eventEnd, since)
+      ))
+      .orderBy(asc(schema.frostAlerts.eventStart));
+    return rows.map(row => ({ ...row.alert, plantName: row.plantName }));
+  }
+
+  async createFrostAlert(alert: InsertFrostAlert): Promise<FrostAlert> {
+    const [newAlert] = await this.db.insert(schema.frostAlerts).values(alert).returning();
+    return newAlert;
+  }
+
+  async updateFrostAlert(id: number, updates: Partial<Pick<FrostAlert, 'eventEnd' | 'forecastMinC' | 'action'>>): Promise<FrostAlert | undefined> {
+    const [updated] = await this.db.update(schema.frostAlerts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(schema.frostAlerts.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Environment threshold and alert operations
+  async getPlantEnvironmentThresholds(plantId: string): Promise<PlantEnvironmentThresholdOverrides | undefined> {
+    const [thresholds] = await this.db.select().from(schema.plantEnvironmentThresholds)
+      .where(eq(schema.plantEnvironmentThresholds.plantId, parseInt(plantId)));
+    return thresholds;
+  }
+
+  async getPlantEnvironmentThresholdsByUserId(userId: string): Promise<PlantEnvironmentThresholdOverrides[]> {
+    const rows = await this.db
+      .select({ thresholds: schema.plantEnvironmentThresholds })
+      .from(schema.plantEnvironmentThresholds)
+      .innerJoin(schema.plants, eq(schema.plantEnvironmentThresholds.plantId, schema.plants.id))
+      .where(eq(schema.plants.userId, parseInt(userId)));
+    return rows.map(row => row.thresholds);
+  }
+
+  // Only the limits present in the update change; null ones go back to the species default
+  async upsertPlantEnvironmentThresholds(plantId: string, thresholds: UpdatePlantEnvironmentThresholds): Promise<PlantEnvironmentThresholdOverrides> {
+    const [saved] = await this.db.insert(schema.plantEnvironmentThresholds)
+      .values({ ...thresholds, plantId: parseInt(plantId) })
+      .onConflictDoUpdate({
+        target: schema.plantEnvironmentThresholds.plantId,
+        set: { ...thresholds, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getEnvironmentAlertsByUserId(userId: string, status?: EnvironmentAlert['status']): Promise<(EnvironmentAlert & { plantName: string })[]> {
+    const rows = await this.db
+      .select({ alert: schema.environmentAlerts, plantName: schema.plants.name })
+      .from(schema.environmentAlerts)
+      .innerJoin(schema.plants, eq(schema.environmentAlerts.plantId, schema.plants.id))
+      .where(and(
+        eq(schema.environmentAlerts.userId, parseInt(userId)),
+        status ? eq(schema.environmentAlerts.status, status) : undefined
+      ))
+      .orderBy(desc(schema.environmentAlerts.triggeredAt));
+    return rows.map(row => ({ ...row.alert, plantName: row.plantName }));
+  }
+
+  async getLatestResolvedEnvironmentAlert(plantId: number, metric: EnvironmentMetric, direction: EnvironmentAlertDirection, since: Date): Promise<EnvironmentAlert | undefined> {
+    const [alert] = await this.db.select().from(schema.environmentAlerts)
+      .where(and(
+        eq(schema.environmentAlerts.plantId, plantId),
+        eq(schema.environmentAlerts.metric, metric),
+        eq(schema.environmentAlerts.direction, direction),
+        eq(schema.environmentAlerts.status, 'resolved'),
+        gte(schema.environmentAlerts.resolvedAt, since)
+      ))
+      .orderBy(desc(schema.environmentAlerts.resolvedAt))
+      .limit(1);
+    return alert;
+  }
+
+  async getActiveEnvironmentAlert(plantId: number, metric: EnvironmentMetric): Promise<EnvironmentAlert | undefined> {
+    const [alert] = await this.db.select().from(schema.environmentAlerts)
+      .where(and(
+        eq(schema.environmentAlerts.plantId, plantId),
+        eq(schema.environmentAlerts.metric, metric),
+        eq(schema.environmentAlerts.status, 'active')
+      ));
+    return alert;
+  }
+
+  // The partial unique index allows one active alert per plant and metric; a second insert is skipped
+  async createEnvironmentAlert(alert: InsertEnvironmentAlert): Promise<EnvironmentAlert | undefined> {
+    const [newAlert] = await this.db.insert(schema.environmentAlerts).values(alert).onConflictDoNothing().returning();
+    return newAlert;
+  }
+
+  async updateEnvironmentAlert(id: number, updates: Partial<Pick<EnvironmentAlert, 'status' | 'threshold' | 'worstValue' | 'lastValue' | 'resolvedAt' | 'recommendationId'>>): Promise<EnvironmentAlert | undefined> {
+    const [updated] = await this.db.update(schema.environmentAlerts)
+      .set(updates)
+      .where(eq(schema.environmentAlerts.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Notification operations
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    return this.db.query.notificationPreferences.findFirst({
+      where: eq(schema.notificationPreferences.userId, parseInt(userId)),
+    });
+  }
+
+  async upsertNotificationPreferences(userId: string, prefs: UpdateNotificationPreferences): Promise<NotificationPreferences> {
+    // Fields left undefined keep their stored value; explicit nulls clear them
+    const changes = Object.fromEntries(
+      Object.entries(prefs).filter(([, value]) => value !== undefined)
+    ) as UpdateNotificationPreferences;
+    const [saved] = await this.db.insert(schema.notificationPreferences)
+      .values({ ...changes, userId: parseInt(userId) })
+      .onConflictDoUpdate({
+        target: schema.notificationPreferences.userId,
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getPushSubscriptionsByUserId(userId: string): Promise<PushSubscription[]> {
+    return this.db.select().from(schema.pushSubscriptions)
+      .where(eq(schema.pushSubscriptions.userId, parseInt(userId)));
+  }
+
+  async savePushSubscription(userId: string, subscription: InsertPushSubscription): Promise<PushSubscription> {
+    const values = {
+      userId: parseInt(userId),
+      endpoint: subscription.endpoint,
+      p256dh: subscription.keys.p256dh,
+      auth: subscription.keys.auth,
+    };
+    // Browsers reuse the endpoint when re-subscribing, so refresh keys/owner in place
+    const [saved] = await this.db.insert(schema.pushSubscriptions)
+      .values(values)
+      .onConflictDoUpdate({ target: schema.pushSubscriptions.endpoint, set: values })
+      .returning();
+    return saved;
+  }
+
+  async deletePushSubscription(endpoint: string, userId?: string): Promise<void> {
+    const conditions = [eq(schema.pushSubscriptions.endpoint, endpoint)];
+    if (userId) conditions.push(eq(schema.pushSubscriptions.userId, parseInt(userId)));
+    await this.db.delete(schema.pushSubscriptions).where(and(...conditions));
+  }
+
+  async getDueCareTasksForNotification(dueBefore: Date): Promise<DueCareTask[]> {
+    const rows = await this.db
+      .select({
+        task: schema.plantCareTasks,
+        plantName: schema.plants.name,
+        userId: schema.users.id,
+        email: schema.users.email,
+      })
+      .from(schema.plantCareTasks)
+      .innerJoin(schema.plants, eq(schema.plantCareTasks.plantId, schema.plants.id))
+      .innerJoin(schema.users, eq(schema.plants.userId, schema.users.id))
+      .where(and(
+        eq(schema.plantCareTasks.status, 'pending'),
+        lte(schema.plantCareTasks.dueDate, dueBefore)
+      ))
+      .orderBy(asc(schema.plantCareTasks.dueDate));
+    return rows.map(row => ({ ...row, task: this.toPlantCareTask(row.task) }));
+  }
+
+  async getDeliveredTaskIds(taskIds: string[], channel: string): Promise<string[]> {
+    if (taskIds.length === 0) return [];
+    const rows = await this.db.select({ taskId: schema.notificationDeliveries.taskId })
+      .from(schema.notificationDeliveries)
+      .where(and(
+        inArray(schema.notificationDeliveries.taskId, taskIds),
+        eq(schema.notificationDeliveries.channel, channel)
+      ));
+    return rows.map(row => row.taskId);
+  }
+
+  async recordNotificationDeliveries(userId: string, taskIds: string[], channel: string): Promise<void> {
+    if (taskIds.length === 0) return;
+    await this.db.insert(schema.notificationDeliveries)
+      .values(taskIds.map(taskId => ({ userId: parseInt(userId), taskId, channel })))
+      .onConflictDoNothing();
+  }
+
+  // Calendar feed token operations
+  async getCalendarFeedToken(userId: string): Promise<CalendarFeedToken | undefined> {
+    return this.db.query.calendarFeedTokens.findFirst({
+      where: eq(schema.calendarFeedTokens.userId, parseInt(userId)),
+    });
+  }
+
+  async rotateCalendarFeedToken(userId: string): Promise<CalendarFeedToken> {
+    // Replacing the token invalidates every existing subscription URL
+    const token = randomBytes(24).toString('hex');
+    const [saved] = await this.db.insert(schema.calendarFeedTokens)
+      .values({ userId: parseInt(userId), token })
+      .onConflictDoUpdate({
+        target: schema.calendarFeedTokens.userId,
+        set: { token, createdAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getUserByCalendarFeedToken(token: string): Promise<User | undefined> {
+    const [row] = await this.db
+      .select({ user: schema.users })
+      .from(schema.calendarFeedTokens)
+      .innerJoin(schema.users, eq(schema.calendarFeedTokens.userId, schema.users.id))
+      .where(eq(schema.calendarFeedTokens.token, token))
+      .limit(1);
+    return row?.user;
+  }
+
+  // Plant photo operations
+  async getPlantPhotos(plantId: string): Promise<PlantPhoto[]> {
+    // Newest first for the timeline
+    return this.db.select().from(schema.plantPhotos)
+      .where(eq(schema.plantPhotos.plantId, parseInt(plantId)))
+      .orderBy(desc(schema.plantPhotos.takenAt), desc(schema.plantPhotos.id));
+  }
+
+  async getPlantPhotoById(id: string): Promise<PlantPhoto | undefined> {
+    return this.db.query.plantPhotos.findFirst({
+      where: eq(schema.plantPhotos.id, parseInt(id)),
+    });
+  }
+
+  async createPlantPhoto(photo: InsertPlantPhoto): Promise<PlantPhoto> {
+    const [newPhoto] = await this.db.insert(schema.plantPhotos).values(photo).returning();
+    return newPhoto;
+  }
+
+  async deletePlantPhoto(id: string): Promise<PlantPhoto | undefined> {
+    const [deleted] = await this.db.delete(schema.plantPhotos)
+      .where(eq(schema.plantPhotos.id, parseInt(id)))
+      .returning();
+    return deleted;
+  }
+
+  // Growth measurement operations
+  async getPlantMeasurements(plantId: string): Promise<PlantMeasurement[]> {
+    // Oldest first, which is what charts and growth-rate calculations want
+    return this.db.select().from(schema.plantMeasurements)
+      .where(eq(schema.plantMeasurements.plantId, parseInt(plantId)))
+      .orderBy(asc(schema.plantMeasurements.measuredAt), asc(schema.plantMeasurements.id));
+  }
+
+  async getPlantMeasurementsByUserId(userId: string): Promise<PlantMeasurement[]> {
+    return this.db.select().from(schema.plantMeasurements)
+      .where(eq(schema.plantMeasurements.userId, parseInt(userId)))
+      .orderBy(asc(schema.plantMeasurements.measuredAt), asc(schema.plantMeasurements.id));
+  }
+
+  async getPlantMeasurementById(id: string): Promise<PlantMeasurement | undefined> {
+    return this.db.query.plantMeasurements.findFirst({
+      where: eq(schema.plantMeasurements.id, parseInt(id)),
+    });
+  }
+
+  async createPlantMeasurement(plantId: string, userId: string, measurement: InsertPlantMeasurement): Promise<PlantMeasurement> {
+    const [created] = await this.db.insert(schema.plantMeasurements).values({
+      ...measurement,
+      plantId: parseInt(plantId),
+      userId: parseInt(userId),
+    }).returning();
+    return created;
+  }
+
+  async updatePlantMeasurement(id: string, updates: UpdatePlantMeasurement): Promise<PlantMeasurement | undefined> {
+    const changes = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    if (Object.keys(changes).length === 0) return this.getPlantMeasurementById(id);
+    const [updated] = await this.db.update(schema.plantMeasurements)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(schema.plantMeasurements.id, parseInt(id)))
+      .returning();
+    return updated;
+  }
+
+  async deletePlantMeasurement(id: string): Promise<PlantMeasurement | undefined> {
+    const [deleted] = await this.db.delete(schema.plantMeasurements)
+      .where(eq(schema.plantMeasurements.id, parseInt(id)))
+      .returning();
+    return deleted;
+  }
+
+  // Plant assistant conversation operations
+  async getPlantConversations(plantId: string, userId: string): Promise<PlantConversation[]> {
+    return this.db.select().from(schema.plantConversations)
+      .where(and(
+        eq(schema.plantConversations.plantId, parseInt(plantId)),
+        eq(schema.plantConversations.userId, parseInt(userId))
+      ))
+      .orderBy(desc(schema.plantConversations.updatedAt));
+  }
+
+  async getPlantConversationById(id: string): Promise<PlantConversation | undefined> {
+    return this.db.query.plantConversations.findFirst({
+      where: eq(schema.plantConversations.id, parseInt(id)),
+    });
+  }
+
+  async createPlantConversation(plantId: string, userId: string, title: string): Promise<PlantConversation> {
+    const [created] = await this.db.insert(schema.plantConversations).values({
+      plantId: parseInt(plantId),
+      userId: parseInt(userId),
+      title,
+    }).returning();
+    return created;
+  }
+
+  async deletePlantConversation(id: string): Promise<PlantConversation | undefined> {
+    // Messages go with it via ON DELETE CASCADE
+    const [deleted] = await this.db.delete(schema.plantConversations)
+      .where(eq(schema.plantConversations.id, parseInt(id)))
+      .returning();
+    return deleted;
+  }
+
+  async getPlantChatMessages(conversationId: string): Promise<PlantChatMessage[]> {
+    return this.db.select().from(schema.plantChatMessages)
+      .where(eq(schema.plantChatMessages.conversationId, parseInt(conversationId)))
+      .orderBy(asc(schema.plantChatMessages.createdAt), asc(schema.plantChatMessages.id));
+  }
+
+  async addPlantChatMessage(conversationId: string, role: ChatRole, content: string): Promise<PlantChatMessage> {
+    return this.db.transaction(async (tx) => {
+      const [message] = await tx.insert(schema.plantChatMessages).values({
+        conversationId: parseInt(conversationId),
+        role,
+        content,
+      }).returning();
+      await tx.update(schema.plantConversations)
+        .set({ updatedAt: new Date() })
+        .where(eq(schema.plantConversations.id, parseInt(conversationId)));
+      return message;
+    });
+  }
+
+  // AI response cache and usage operations
+  async getCachedAiResponse(promptHash: string, now: Date): Promise<string | undefined> {
+    const [row] = await this.db.select({ response: schema.aiResponseCache.response })
+      .from(schema.aiResponseCache)
+      .where(and(
+        eq(schema.aiResponseCache.promptHash, promptHash),
+        gt(schema.aiResponseCache.expiresAt, now)
+      ));
+    return row?.response;
+  }
+
+  async saveCachedAiResponse(promptHash: string, response: string, expiresAt: Date): Promise<void> {
+    await this.db.insert(schema.aiResponseCache)
+      .values({ promptHash, response, expiresAt })
+      .onConflictDoUpdate({
+        target: schema.aiResponseCache.promptHash,
+        set: { response, expiresAt, createdAt: new Date() },
+      });
+  }
+
+  async recordAiUsage(entry: AiUsageEntry): Promise<void> {
+    await this.db.insert(schema.aiUsage).values(entry);
+  }
+
+  async getAiTokensUsedSince(userId: number, since: Date): Promise<number> {
+    const [row] = await this.db.select({
+      total: sql<number>`coalesce(sum(${schema.aiUsage.promptTokens} + ${schema.aiUsage.completionTokens}), 0)`.mapWith(Number),
+    })
+      .from(schema.aiUsage)
+      .where(and(
+        eq(schema.aiUsage.userId, userId),
+        gte(schema.aiUsage.createdAt, since)
+      ));
+    return row?.total ?? 0;
+  }
+
+  // Background job operations
+  async enqueueJob(job: { type: string; payload: Record<string, unknown>; userId?: number | null; maxAttempts?: number; runAt?: Date }): Promise<Job> {
+    const [created] = await this.db.insert(schema.jobs).values({
+      type: job.type,
+      payload: job.payload,
+      userId: job.userId ?? null,
+      maxAttempts: job.maxAttempts,
+      runAt: job.runAt ?? new Date(),
+    }).returning();
+    return created;
+  }
+
+  async getJobById(id: string): Promise<Job | undefined> {
+    return this.db.query.jobs.findFirst({
+      where: eq(schema.jobs.id, parseInt(id)),
+    });
+  }
+
+  // A pending or running job of this type for the user, so repeated requests don't pile up duplicates
+  // A null userId looks for system jobs (recurring maintenance with no owner)
+  async findActiveJob(type: string, userId: number | null): Promise<Job | undefined> {
+    return this.db.query.jobs.findFirst({
+      where: and(
+        eq(schema.jobs.type, type),
+        userId === null ? isNull(schema.jobs.userId) : eq(schema.jobs.userId, userId),
+        inArray(schema.jobs.status, ['pending', 'running'])
+      ),
+      orderBy: [desc(schema.jobs.createdAt)],
+    });
+  }
+
+  /**
+   * Atomically take the oldest due pending job and mark it running. SKIP LOCKED lets several
+   * workers poll the same table without ever claiming the same job twice.
+   */
+  async claimNextJob(now: Date): Promise<Job | undefined> {
+    const next = this.db.select({ id: schema.jobs.id }).from(schema.jobs)
+      .where(and(
+        eq(schema.jobs.status, 'pending'),
+        lte(schema.jobs.runAt, now)
+      ))
+      .orderBy(asc(schema.jobs.runAt), asc(schema.jobs.id))
+      .limit(1)
+      .for('update', { skipLocked: true });
+    const [claimed] = await this.db.update(schema.jobs)
+      .set({
+        status: 'running',
+        attempts: sql`${schema.jobs.attempts} + 1`,
+        lockedAt: now,
+        updatedAt: now,
+      })
+      .where(inArray(schema.jobs.id, next))
+      .returning();
+    return claimed;
+  }
+
+  async completeJob(id: number, result: unknown): Promise<void> {
+    const now = new Date();
+    await this.db.update(schema.jobs)
+      .set({ status: 'completed', result, lastError: null, lockedAt: null, updatedAt: now, completedAt: now })
+      .where(eq(schema.jobs.id, id));
+  }
+
+  // retryAt null means the job has used its attempts and is failed for good
+  async failJob(id: number, error: string, retryAt: Date | null): Promise<void> {
+    const now = new Date();
+    await this.db.update(schema.jobs)
+      .set(retryAt
+        ? { status: 'pending', runAt: retryAt, lastError: error, lockedAt: null, updatedAt: now }
+        : { status: 'failed', lastError: error, lockedAt: null, updatedAt: now, completedAt: now })
+      .where(eq(schema.jobs.id, id));
+  }
+
+  // Jobs whose worker died mid-run go back to pending; the attempt they used still counts
+  async releaseStaleJobs(lockedBefore: Date): Promise<number> {
+    const released = await this.db.update(schema.jobs)
+      .set({ status: 'pending', lockedAt: null, updatedAt: new Date() })
+      .where(and(
+        eq(schema.jobs.status, 'running'),
+        lt(schema.jobs.lockedAt, lockedBefore)
+      ))
+      .returning({ id: schema.jobs.id });
+    return released.length;
+  }
+
   // Recommendations operations
-  async getRecommendationsByUserId(userId: string): Promise<Recommendation[]> {
+  async getRecommendationsByUserId(userId: string, filter?: RecommendationFilter): Promise<Recommendation[]> {
+    const conditions = [eq(schema.recommendations.userId, parseInt(userId))];
+    if (filter?.status) conditions.push(inArray(schema.recommendations.status, filter.status));
+    if (filter?.plantId) conditions.push(eq(schema.recommendations.plantId, filter.plantId));
+    if (filter?.type) conditions.push(eq(schema.recommendations.recommendationType, filter.type));
+
     const result = await this.db.query.recommendations.findMany({
-      where: eq(schema.recommendations.userId, parseInt(userId)),
+      where: and(...conditions),
       orderBy: [desc(schema.recommendations.createdAt)],
     });
     return result.map(rec => ({
@@ -580,6 +1668,98 @@ export class DbStorage implements IStorage {
     })) as Recommendation[];
   }
 
+  async getRecommendationById(id: string): Promise<Recommendation | undefined> {
+    return this.db.query.recommendations.findFirst({
+      where: eq(schema.recommendations.id, parseInt(id)),
+    });
+  }
+
+  async updateRecommendationMessage(id: number, message: string, expiresAt?: Date): Promise<Recommendation | undefined> {
+    const [updated] = await this.db.update(schema.recommendations)
+      .set(expiresAt ? { message, expiresAt } : { message })
+      .where(eq(schema.recommendations.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Retire advice whose cause has gone away; recommendations the owner already acted on keep their status
+  async expireRecommendation(id: number): Promise<void> {
+    await this.db.update(schema.recommendations)
+      .set({ status: 'expired', snoozedUntil: null })
+      .where(and(
+        eq(schema.recommendations.id, id),
+        inArray(schema.recommendations.status, ['active', 'snoozed'])
+      ));
+  }
+
+  // Bring back a recommendation expired by expireRecommendation, with a fresh expiry
+  async reactivateRecommendation(id: number): Promise<void> {
+    const [recommendation] = await this.db.select().from(schema.recommendations)
+      .where(and(eq(schema.recommendations.id, id), eq(schema.recommendations.status, 'expired')));
+    if (!recommendation) return;
+    await this.db.update(schema.recommendations)
+      .set({ status: 'active', expiresAt: recommendationExpiry(recommendation.recommendationType, null) })
+      .where(eq(schema.recommendations.id, id));
+  }
+
+  async dismissRecommendation(id: string): Promise<Recommendation | undefined> {
+    const [updated] = await this.db.update(schema.recommendations)
+      .set({ status: 'dismissed', snoozedUntil: null })
+      .where(eq(schema.recommendations.id, parseInt(id)))
+      .returning();
+    return updated;
+  }
+
+  async snoozeRecommendation(id: string, until: Date): Promise<Recommendation | undefined> {
+    const [updated] = await this.db.update(schema.recommendations)
+      .set({ status: 'snoozed', snoozedUntil: until })
+      .where(eq(schema.recommendations.id, parseInt(id)))
+      .returning();
+    return updated;
+  }
+
+  async setRecommendationFeedback(id: string, feedback: RecommendationFeedback, comment: string | null): Promise<Recommendation | undefined> {
+    const [updated] = await this.db.update(schema.recommendations)
+      .set({ feedback, feedbackComment: comment, feedbackAt: new Date() })
+      .where(eq(schema.recommendations.id, parseInt(id)))
+      .returning();
+    return updated;
+  }
+
+  // Wake snoozed recommendations whose snooze has passed, then expire active ones past their expiry.
+  // Advice for an environment alert that is still open stays up; it expires when the alert resolves.
+  async refreshRecommendationStatuses(userId: string, now: Date): Promise<void> {
+    await this.db.update(schema.recommendations)
+      .set({ status: 'active', snoozedUntil: null })
+      .where(and(
+        eq(schema.recommendations.userId, parseInt(userId)),
+        eq(schema.recommendations.status, 'snoozed'),
+        lte(schema.recommendations.snoozedUntil, now)
+      ));
+    await this.db.update(schema.recommendations)
+      .set({ status: 'expired' })
+      .where(and(
+        eq(schema.recommendations.userId, parseInt(userId)),
+        eq(schema.recommendations.status, 'active'),
+        lte(schema.recommendations.expiresAt, now),
+        notExists(this.db.select({ id: schema.environmentAlerts.id }).from(schema.environmentAlerts)
+          .where(and(
+            eq(schema.environmentAlerts.recommendationId, schema.recommendations.id),
+            eq(schema.environmentAlerts.status, 'active')
+          )))
+      ));
+  }
+
+  async getRatedRecommendationsForPlant(plantId: number, limit: number): Promise<Recommendation[]> {
+    return this.db.select().from(schema.recommendations)
+      .where(and(
+        eq(schema.recommendations.plantId, plantId),
+        isNotNull(schema.recommendations.feedback)
+      ))
+      .orderBy(desc(schema.recommendations.feedbackAt))
+      .limit(limit);
+  }
+
   async applyRecommendation(id: string): Promise<Recommendation | undefined> {
     const recommendation = await this.db.query.recommendations.findFirst({
       where: eq(schema.recommendations.id, parseInt(id)),
@@ -588,57 +1768,18 @@ export class DbStorage implements IStorage {
 
     const [recommendationUpdated] = await this.db
       .update(schema.recommendations)
-      .set({ applied: true })
+      .set({ applied: true, status: 'applied', snoozedUntil: null })
       .where(eq(schema.recommendations.id, parseInt(id)))
       .returning();
     
     if (!recommendationUpdated) return undefined;
     
-    if (recommendationUpdated.recommendationType === 'water' && recommendationUpdated.plantId) {
-      const plant = await this.getPlantById(recommendationUpdated.plantId.toString());
-      if (plant) {
-        await this.updatePlant(plant.id.toString(), { lastWatered: new Date() });
-        await this.createCareHistory({
-          plantId: plant.id,
-          actionType: 'water_recommended',
-        });
-        
-        const dueDate = new Date();
-        dueDate.setDate(dueDate.getDate() + 7);
-        await this.createPlantCareTask({
-          plantId: plant.id.toString(),
-          type: 'water',
-          dueDate: dueDate,
-          status: 'pending',
-        });
-      }
-    }
-    
-    if (recommendationUpdated.recommendationType === 'pruning' && recommendationUpdated.plantId) {
-      const plant = await this.getPlantById(recommendationUpdated.plantId.toString());
-      if (plant) {
-        const dueDate = new Date();
-        dueDate.setDate(dueDate.getDate() + 30);
-        await this.createPlantCareTask({
-          plantId: plant.id.toString(),
-          type: 'pruning',
-          dueDate: dueDate,
-          status: 'pending',
-        });
-      }
-    }
-    
-    if (recommendationUpdated.recommendationType === 'light' && recommendationUpdated.plantId) {
+    if (recommendationUpdated.plantId) {
       const plant = await this.getPlantById(recommendationUpdated.plantId.toString());
       if (plant) {
-        const dueDate = new Date();
-        dueDate.setDate(dueDate.getDate() + 1);
-        await this.createPlantCareTask({
-          plantId: plant.id.toString(),
-          type: 'light',
-          dueDate: dueDate,
-          status: 'pending',
-        });
+        for (const effect of planRecommendationEffects(recommendationUpdated, plant)) {
+          await this.applyRecommendationEffect(plant, effect);
+        }
       }
     }
     
@@ -650,42 +1791,127 @@ export class DbStorage implements IStorage {
     } as Recommendation;
   }
 
-  async generateRecommendations(userId: string): Promise<void> {
+  private async applyRecommendationEffect(plant: Plant, effect: RecommendationEffect): Promise<void> {
+    const plantId = plant.id.toString();
+    switch (effect.kind) {
+      case 'schedule_task': {
+        // Move the pending task of this type rather than stacking a second one
+        const taskType = normalizeCareTaskType(effect.taskType);
+        const [pending] = await this.db.select().from(schema.plantCareTasks)
+          .where(and(
+            eq(schema.plantCareTasks.plantId, plantId),
+            inArray(schema.plantCareTasks.type, taskType === 'watering' ? ['watering', 'water'] : [taskType]),
+            eq(schema.plantCareTasks.status, 'pending')
+          ))
+          .limit(1);
+        if (pending) {
+          await this.updatePlantCareTask(pending.id, { dueDate: effect.dueDate, notes: effect.notes });
+        } else {
+          await this.createPlantCareTask({ plantId, type: taskType, dueDate: effect.dueDate, status: 'pending', notes: effect.notes });
+        }
+        break;
+      }
+      case 'set_care_interval': {
+        const override = (await this.getCareScheduleRules(plantId)).find(rule => rule.taskType === effect.taskType);
+        if (effect.taskType === 'watering') {
+          await this.updatePlant(plantId, { waterFrequencyDays: effect.days });
+          // A user-set interval would otherwise keep winning over the plant's frequency
+          if (override?.intervalDays) {
+            await this.upsertCareScheduleRule({ plantId: plant.id, taskType: 'watering', intervalDays: effect.days });
+          }
+        } else {
+          // Only the interval changes; whether the rule runs is still the owner's choice or the plant data's
+          await this.upsertCareScheduleRule({ plantId: plant.id, taskType: effect.taskType, intervalDays: effect.days });
+        }
+        break;
+      }
+      case 'log_care_history':
+        await this.createCareHistory({ plantId: plant.id, actionType: effect.actionType, notes: effect.notes });
+        break;
+      case 'refresh_health':
+        await this.updatePlantHealthMetrics(plantId);
+        break;
+    }
+  }
+
+  /**
+   * With resumeSince (a retried run's start), plants that already got AI recommendations since then
+   * are skipped, so a retry after a partial failure only redoes the plants that failed.
+   */
+  async generateRecommendations(userId: string, options: { resumeSince?: Date } = {}): Promise<RecommendationRunSummary> {
     // 1. Fetch all plants for the user
     const userPlants = await this.db
       .select()
       .from(schema.plants)
       .where(eq(schema.plants.userId, parseInt(userId)));
 
-    // 2. Fetch the latest environment reading for the user
-    const latestEnvironment = await this.getLatestEnvironmentReadingByUserId(userId);
-
-    if (!latestEnvironment) {
-      console.warn(`[DbStorage] No environment data found for user ${userId}. Cannot generate recommendations.`);
-      return;
-    }
-
+    const location = resolveLocation(await this.getUserProfile(userId));
     const now = new Date();
+    const summary: RecommendationRunSummary = { plants: userPlants.length, created: 0, failed: 0, skipped: 0 };
+    let plantsWithoutReadings = 0;
+
+    const donePlantIds = new Set<number>();
+    if (options.resumeSince) {
+      const done = await this.db
+        .selectDistinct({ plantId: schema.recommendations.plantId })
+        .from(schema.recommendations)
+        .where(and(
+          eq(schema.recommendations.userId, parseInt(userId)),
+          inArray(schema.recommendations.recommendationType, [...schema.AI_RECOMMENDATION_TYPES]),
+          gte(schema.recommendations.createdAt, options.resumeSince)
+        ));
+      done.forEach(row => row.plantId !== null && donePlantIds.add(row.plantId));
+    }
 
     for (const plant of userPlants) {
+      if (donePlantIds.has(plant.id)) {
+        summary.skipped++;
+        continue;
+      }
       try {
-        const aiRecommendations = await generatePlantRecommendations(plant, latestEnvironment);
+        // 2. Each plant is judged on its own sensor, its location's reading or the user's latest reading
+        const environment = await this.getEnvironmentForPlant(plant);
+        if (!environment) {
+          plantsWithoutReadings++;
+          continue;
+        }
+        // Advice stays valid for a while after the reading it was based on
+        const readingTime = environment.readingTimestamp ? new Date(environment.readingTimestamp) : now;
 
-        // 4. Store the generated recommendations
+        const pastFeedback = await this.getRatedRecommendationsForPlant(plant.id, RECOMMENDATION_FEEDBACK_IN_PROMPT);
+        const aiRecommendations = await generatePlantRecommendations(plant, environment, location, parseInt(userId), pastFeedback);
+
+        // 4. Store the generated recommendations, replacing any still-open advice of the same type
         for (const rec of aiRecommendations) {
+          await this.db.update(schema.recommendations)
+            .set({ status: 'expired', snoozedUntil: null })
+            .where(and(
+              eq(schema.recommendations.plantId, plant.id),
+              eq(schema.recommendations.recommendationType, rec.recommendationType),
+              inArray(schema.recommendations.status, ['active', 'snoozed'])
+            ));
           await this.db.insert(schema.recommendations).values({
             userId: parseInt(userId),
             plantId: plant.id,
             recommendationType: rec.recommendationType,
             message: rec.message,
             applied: false,
+            status: 'active',
+            environmentReadingId: environment.id,
+            expiresAt: recommendationExpiry(rec.recommendationType, readingTime, now),
             createdAt: now,
           });
+          summary.created++;
         }
       } catch (error) {
+        summary.failed++;
         console.error(`[DbStorage] Error generating AI recommendations for plant ${plant.id}:`, error);
       }
     }
+    if (plantsWithoutReadings > 0) {
+      console.warn(`[DbStorage] No environment data for ${plantsWithoutReadings} of user ${userId}'s plants; skipped them.`);
+    }
+    return summary;
   }
 
   // Care history operations
@@ -744,32 +1970,83 @@ export class DbStorage implements IStorage {
     } as PlantHealthMetric;
   }
 
+  /**
+   * Recompute a plant's health from its watering, light and task data (or apply explicit values
+   * when given), store it as the current metrics and record it as today's snapshot.
+   */
   async updatePlantHealthMetrics(plantId: string, metrics?: Partial<InsertPlantHealthMetric>): Promise<PlantHealthMetric | undefined> {
-    const currentMetrics = await this.getPlantHealthMetrics(plantId);
-    let newMetricsData: InsertPlantHealthMetric;
-
-    if (currentMetrics) {
-      newMetricsData = { 
-        plantId: parseInt(plantId),
-        waterLevel: metrics?.waterLevel ?? currentMetrics.waterLevel,
-        lightLevel: metrics?.lightLevel ?? currentMetrics.lightLevel,
-        overallHealth: metrics?.overallHealth ?? currentMetrics.overallHealth,
-      };
-      const [updated] = await this.db.update(schema.plantHealthMetrics)
-        .set({ ...newMetricsData, updatedAt: new Date() })
-        .where(eq(schema.plantHealthMetrics.plantId, parseInt(plantId)))
-        .returning();
-      return updated ? { ...updated, updatedAt: new Date(updated.updatedAt!) } as PlantHealthMetric : undefined;
-    } else {
-      newMetricsData = { 
-        plantId: parseInt(plantId),
-        waterLevel: metrics?.waterLevel ?? 100,
-        lightLevel: metrics?.lightLevel ?? 100,
-        overallHealth: metrics?.overallHealth ?? 100,
-      };
-      const [created] = await this.db.insert(schema.plantHealthMetrics).values(newMetricsData).returning();
-      return created ? { ...created, updatedAt: new Date(created.updatedAt!) } as PlantHealthMetric : undefined;
-    }
+    const numericPlantId = parseInt(plantId);
+    const plant = await this.getPlantById(plantId);
+    if (!plant) return undefined;
+
+    const [tasks, [latestLight]] = await Promise.all([
+      this.db.select().from(schema.plantCareTasks).where(eq(schema.plantCareTasks.plantId, plantId)),
+      this.db.select({ lightLevel: schema.environmentReadings.lightLevel })
+        .from(schema.environmentReadings)
+        .where(and(
+          eq(schema.environmentReadings.userId, plant.userId),
+          sql`${schema.environmentReadings.lightLevel} IS NOT NULL`
+        ))
+        .orderBy(desc(schema.environmentReadings.readingTimestamp))
+        .limit(1),
+    ]);
+    const score = computeHealthScore({ plant, tasks, lightReading: latestLight?.lightLevel });
+    const values = {
+      waterLevel: metrics?.waterLevel ?? score.waterLevel,
+      lightLevel: metrics?.lightLevel ?? score.lightLevel,
+      overallHealth: metrics?.overallHealth ?? score.overallHealth,
+    };
+
+    const [current] = await this.db.insert(schema.plantHealthMetrics)
+      .values({ plantId: numericPlantId, ...values })
+      .onConflictDoUpdate({
+        target: schema.plantHealthMetrics.plantId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+
+    const snapshotDate = toDateKey(new Date());
+    await this.db.insert(schema.plantHealthSnapshots)
+      .values({ plantId: numericPlantId, snapshotDate, ...values, factors: score.factors })
+      .onConflictDoUpdate({
+        target: [schema.plantHealthSnapshots.plantId, schema.plantHealthSnapshots.snapshotDate],
+        set: { ...values, factors: score.factors, updatedAt: new Date() },
+      });
+
+    return current ? { ...current, updatedAt: new Date(current.updatedAt!) } as PlantHealthMetric : undefined;
+  }
+
+  async getPlantHealthHistory(plantId: string, since: Date): Promise<PlantHealthSnapshot[]> {
+    return this.db.select().from(schema.plantHealthSnapshots)
+      .where(and(
+        eq(schema.plantHealthSnapshots.plantId, parseInt(plantId)),
+        gte(schema.plantHealthSnapshots.snapshotDate, toDateKey(since))
+      ))
+      .orderBy(asc(schema.plantHealthSnapshots.snapshotDate));
+  }
+
+  async getHealthHistoryByUserId(userId: string, since: Date): Promise<(PlantHealthSnapshot & { plantName: string })[]> {
+    const rows = await this.db
+      .select({ snapshot: schema.plantHealthSnapshots, plantName: schema.plants.name })
+      .from(schema.plantHealthSnapshots)
+      .innerJoin(schema.plants, eq(schema.plantHealthSnapshots.plantId, schema.plants.id))
+      .where(and(
+        eq(schema.plants.userId, parseInt(userId)),
+        gte(schema.plantHealthSnapshots.snapshotDate, toDateKey(since))
+      ))
+      .orderBy(asc(schema.plantHealthSnapshots.snapshotDate));
+    return rows.map(row => ({ ...row.snapshot, plantName: row.plantName }));
+  }
+
+  async getAllPlantIds(): Promise<number[]> {
+    const rows = await this.db.select({ id: schema.plants.id }).from(schema.plants);
+    return rows.map(row => row.id);
+  }
+
+  async getUserIdsWithOutdoorPlants(): Promise<number[]> {
+    const rows = await this.db.selectDistinct({ userId: schema.plants.userId }).from(schema.plants)
+      .where(eq(schema.plants.indoor, false));
+    return rows.map(row => row.userId);
   }
 
   // AI Care Tips operations
@@ -829,12 +2106,13 @@ export class DbStorage implements IStorage {
 
     // 2. Plants Needing Care (example: overdue for watering)
     const userPlantsForCareCheck = await this.db
-      .select({ id: schema.plants.id, lastWatered: schema.plants.lastWatered, waterFrequencyDays: schema.plants.waterFrequencyDays })
+      .select({ id: schema.plants.id, lastWatered: schema.plants.lastWatered, waterFrequencyDays: schema.plants.waterFrequencyDays, locationId: schema.plants.locationId })
       .from(schema.plants)
       .where(eq(schema.plants.userId, parseInt(userId)));
     
     let plantsNeedingCare = 0;
     const now = new Date();
+    const overduePlantIds = new Set<number>();
     for (const plant of userPlantsForCareCheck) {
       if (plant.lastWatered && plant.waterFrequencyDays) {
         const lastWateredTime = new Date(plant.lastWatered).getTime();
@@ -842,6 +2120,7 @@ export class DbStorage implements IStorage {
         
         if (now.getTime() > overdueTime) {
           plantsNeedingCare++;
+          overduePlantIds.add(plant.id);
         }
       }
     }
@@ -856,6 +2135,7 @@ export class DbStorage implements IStorage {
         dueDate: schema.plantCareTasks.dueDate,
         completedAt: schema.plantCareTasks.completedAt,
         lastCareDate: schema.plantCareTasks.lastCareDate,
+        notes: schema.plantCareTasks.notes,
         createdAt: schema.plantCareTasks.createdAt,
         updatedAt: schema.plantCareTasks.updatedAt,
         plantName: schema.plants.name 
@@ -878,6 +2158,7 @@ export class DbStorage implements IStorage {
       dueDate: task.dueDate ? new Date(task.dueDate) : new Date(),
       completedAt: task.completedAt ? new Date(task.completedAt) : null,
       lastCareDate: task.lastCareDate ? new Date(task.lastCareDate) : null,
+      notes: task.notes ?? null,
       createdAt: task.createdAt ? new Date(task.createdAt) : new Date(),
       updatedAt: task.updatedAt ? new Date(task.updatedAt) : new Date(),
       plantName: task.plantName ?? 'Unknown Plant',
@@ -908,11 +2189,36 @@ export class DbStorage implements IStorage {
       plantName: activity.plantName ?? 'Unknown Plant',
     }));
 
+    // 5. Per-location breakdown, with plants that have no location grouped last
+    const userLocations = await this.getPlantLocationsByUserId(userId);
+    const latestReadings = await Promise.all(userLocations.map(loc => this.getLatestEnvironmentReadingByUserId(userId, loc.id)));
+    const locationStats = (locationId: number | null): Pick<LocationStats, 'plantCount' | 'plantsNeedingCare'> => {
+      const inLocation = userPlantsForCareCheck.filter(plant => (plant.locationId ?? null) === locationId);
+      return { plantCount: inLocation.length, plantsNeedingCare: inLocation.filter(plant => overduePlantIds.has(plant.id)).length };
+    };
+    const locations: LocationStats[] = userLocations.map((loc, index) => {
+      const reading = latestReadings[index];
+      return {
+        locationId: loc.id,
+        name: loc.name,
+        isIndoor: loc.isIndoor,
+        ...locationStats(loc.id),
+        latestReading: reading
+          ? { temperature: reading.temperature, humidity: reading.humidity, lightLevel: reading.lightLevel, readingTimestamp: reading.readingTimestamp }
+          : null,
+      };
+    });
+    const unassigned = locationStats(null);
+    if (userLocations.length > 0 && unassigned.plantCount > 0) {
+      locations.push({ locationId: null, name: 'No location', isIndoor: null, ...unassigned, latestReading: null });
+    }
+
     return {
       totalPlants,
       plantsNeedingCare,
       upcomingTasks,
       recentActivities,
+      locations,
     };
   }
 
@@ -924,6 +2230,8 @@ export class DbStorage implements IStorage {
         userId: parseInt(recommendation.userId.toString()),
         plantId: recommendation.plantId ? parseInt(recommendation.plantId.toString()) : null,
         applied: false,
+        status: 'active',
+        expiresAt: recommendation.expiresAt ?? recommendationExpiry(recommendation.recommendationType, null),
         createdAt: new Date(),
       })
       .returning();
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, timestamp, boolean, real, jsonb, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, real, jsonb, unique, uniqueIndex, date } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -16,10 +17,175 @@ export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
 });
 
+// Per-user location and display preferences, one row per user
+export const userProfiles = pgTable("user_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }).unique(),
+  locationName: text("location_name"), // e.g. "Pune, India"
+  latitude: real("latitude"),
+  longitude: real("longitude"),
+  timezone: text("timezone"), // IANA name, e.g. "Asia/Kolkata"
+  unitPreference: text("unit_preference").notNull().default("metric"), // 'metric' | 'imperial'
+  hardinessZone: text("hardiness_zone"), // USDA zone, e.g. "10a"
+  updatedAt: timestamp("updated_at").defaultNow().$onUpdate(() => new Date()),
+});
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const insertUserProfileSchema = createInsertSchema(userProfiles).omit({
+  id: true,
+  updatedAt: true,
+}).extend({
+  locationName: z.string().trim().max(120).optional().nullable(),
+  latitude: z.number().min(-90).max(90).optional().nullable(),
+  longitude: z.number().min(-180).max(180).optional().nullable(),
+  timezone: z.string().refine(isValidTimezone, { message: "Unknown IANA timezone" }).optional().nullable(),
+  unitPreference: z.enum(['metric', 'imperial']).optional(),
+  hardinessZone: z.string().regex(/^(1[0-3]|[1-9])[ab]?$/, "USDA zone must look like '7' or '10b'").optional().nullable(),
+});
+
+// Body accepted by PUT /api/profile/location; coordinates only make sense as a pair
+export const updateUserProfileSchema = insertUserProfileSchema.omit({ userId: true }).refine(
+  (profile) => (profile.latitude == null) === (profile.longitude == null),
+  { message: "latitude and longitude must be provided together", path: ["longitude"] },
+);
+
+// Which channels a user wants care-task digests on, and when not to send them
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }).unique(),
+  emailEnabled: boolean("email_enabled").notNull().default(true),
+  pushEnabled: boolean("push_enabled").notNull().default(false),
+  webhookEnabled: boolean("webhook_enabled").notNull().default(false),
+  webhookUrl: text("webhook_url"),
+  quietHoursStart: text("quiet_hours_start"), // "HH:MM" in the user's profile timezone
+  quietHoursEnd: text("quiet_hours_end"), // "HH:MM"; may be earlier than start to wrap past midnight
+  updatedAt: timestamp("updated_at").defaultNow().$onUpdate(() => new Date()),
+});
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM (24h)");
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences).omit({
+  id: true,
+  updatedAt: true,
+}).extend({
+  emailEnabled: z.boolean().optional(),
+  pushEnabled: z.boolean().optional(),
+  webhookEnabled: z.boolean().optional(),
+  // The server also checks that the host resolves to a public address before saving and sending
+  webhookUrl: z.string().url().refine(url => url.startsWith('https://'), "Webhook URL must use https").optional().nullable(),
+  quietHoursStart: timeOfDaySchema.optional().nullable(),
+  quietHoursEnd: timeOfDaySchema.optional().nullable(),
+});
+
+// Body accepted by PUT /api/notifications/preferences
+export const updateNotificationPreferencesSchema = insertNotificationPreferencesSchema.omit({ userId: true }).refine(
+  (prefs) => (prefs.quietHoursStart == null) === (prefs.quietHoursEnd == null),
+  { message: "quietHoursStart and quietHoursEnd must be set together", path: ["quietHoursEnd"] },
+);
+
+// Browser Web Push subscriptions (one per browser/device)
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  endpoint: text("endpoint").notNull().unique(),
+  p256dh: text("p256dh").notNull(),
+  auth: text("auth").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Shape of PushSubscription.toJSON() as sent by the browser
+export const insertPushSubscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+// Secret token that authenticates a user's ICS calendar subscription (calendar apps can't sign in)
+export const calendarFeedTokens = pgTable("calendar_feed_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }).unique(),
+  token: text("token").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Perenual species details shared by every user's plants, so each species is fetched once rather
+// than once per user. Entries older than CACHE_DURATION_DAYS are refreshed in the background.
+export const speciesCatalog = pgTable("species_catalog", {
+  id: serial("id").primaryKey(),
+  perenualId: integer("perenual_id").notNull().unique(),
+  commonName: text("common_name"),
+  scientificName: text("scientific_name").array(),
+  payload: jsonb("payload").notNull(), // species/details response as Perenual returned it
+  lastApiSync: timestamp("last_api_sync").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const LOCATION_KINDS = ['room', 'balcony', 'garden_bed', 'greenhouse', 'other'] as const;
+export const LIGHT_EXPOSURES = ['low', 'medium', 'bright_indirect', 'full_sun'] as const;
+
+// Where a user keeps plants (a room, balcony, garden bed, ...). Plants and environment readings can
+// belong to one; readings without a location apply to the whole user.
+export const plantLocations = pgTable("plant_locations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  kind: text("kind").notNull().default("room"), // one of LOCATION_KINDS
+  lightExposure: text("light_exposure"), // one of LIGHT_EXPOSURES; stands in for the light level when readings have none
+  isIndoor: boolean("is_indoor").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userLocationNameUnique: unique("user_location_name_unique").on(table.userId, table.name),
+}));
+
+export const insertPlantLocationSchema = createInsertSchema(plantLocations).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Location name is required").max(60),
+  kind: z.enum(LOCATION_KINDS).default('room'),
+  lightExposure: z.enum(LIGHT_EXPOSURES).optional().nullable(),
+  isIndoor: z.boolean().default(true),
+});
+
+export const updatePlantLocationSchema = insertPlantLocationSchema.partial();
+
+// Query params for GET /api/species/search
+export const speciesSearchQuerySchema = z.object({
+  q: z.string().trim().min(2, { message: 'Search text must be at least 2 characters' }).max(100),
+  limit: z.coerce.number().int().min(1).max(25).default(10),
+});
+
+// One ranked hit from GET /api/species/search, best match first
+export interface SpeciesCandidate {
+  perenualId: number;
+  commonName: string | null;
+  scientificName: string[];
+  otherNames: string[];
+  cycle: string | null;
+  imageUrl: string | null;
+  cached: boolean; // already in the shared species catalog
+  score: number;
+}
+
 // Plant schema
 export const plants = pgTable("plants", {
   // Perenual API data fields
   perenual_id: integer("perenual_id"), // Perenual API species ID - uniqueness will be handled by composite key
+  speciesId: integer("species_id").references(() => speciesCatalog.id, { onDelete: "set null" }), // catalog entry the fields below were copied from
+  needsEnrichment: boolean("needs_enrichment").notNull().default(false), // added while Perenual was unavailable; species fields still to fetch
+  userOverrides: text("user_overrides").array(), // species fields the owner set by hand; species refreshes leave these alone
+  locationId: integer("location_id").references(() => plantLocations.id, { onDelete: "set null" }),
   scientific_name: text("scientific_name").array(),
   other_name: text("other_name").array(),
   family: text("family"),
@@ -134,14 +300,147 @@ export const insertPlantSchema = basePlantSchema.extend({
   notes: z.string().optional().nullable(),
 });
 
+// Species-level plant columns the owner may set by hand (custom plants, or corrections to Perenual data).
+// Fields set this way are listed in plants.userOverrides.
+export const OVERRIDABLE_PLANT_FIELDS = [
+  'species', 'scientific_name', 'other_name', 'family', 'origin', 'type', 'dimensions', 'cycle',
+  'watering_general_benchmark', 'sunlight', 'pruning_month', 'hardiness', 'flowers', 'flowering_season',
+  'soil', 'pest_susceptibility', 'cones', 'fruits', 'edible_fruit', 'fruiting_season', 'leaf', 'edible_leaf',
+  'growth_rate', 'maintenance', 'medicinal', 'poisonous_to_humans', 'poisonous_to_pets', 'drought_tolerant',
+  'salt_tolerant', 'thorny', 'invasive', 'rare', 'tropical', 'cuisine', 'indoor', 'care_level', 'description',
+  'api_image_url',
+] as const;
+export type OverridablePlantField = typeof OVERRIDABLE_PLANT_FIELDS[number];
+
+// Columns the server manages; clients can't set them on create or edit
+const serverManagedPlantFields = {
+  userId: true,
+  perenual_id: true,
+  speciesId: true,
+  needsEnrichment: true,
+  userOverrides: true,
+  last_api_sync: true,
+} as const;
+
+// Body for POST /api/plants when the plant is entered by hand instead of looked up on Perenual
+export const createCustomPlantSchema = insertPlantSchema.omit(serverManagedPlantFields);
+
+// Body for PUT /api/plants/:id. clearOverrides hands the listed fields back to the species data.
+export const updatePlantSchema = insertPlantSchema.omit(serverManagedPlantFields).partial().extend({
+  clearOverrides: z.array(z.enum(OVERRIDABLE_PLANT_FIELDS)).optional(),
+});
+
+// The overridable fields present in a create or edit body
+export function overriddenFieldsIn(body: Record<string, unknown>): OverridablePlantField[] {
+  return OVERRIDABLE_PLANT_FIELDS.filter(field => body[field] !== undefined);
+}
+
+// Species data to copy onto a plant, minus the fields its owner has overridden
+export function withoutOverriddenFields<T extends Record<string, unknown>>(fields: T, overrides: string[] | null | undefined): Partial<T> {
+  if (!overrides || overrides.length === 0) return fields;
+  return Object.fromEntries(Object.entries(fields).filter(([field]) => !overrides.includes(field))) as Partial<T>;
+}
+
 // Environment readings schema
+// A soil or climate sensor that posts readings with its own API key (sensors can't sign in with
+// Clerk). Only a hash of the key is stored; the key itself is shown once, when created or rotated.
+export const sensorDevices = pgTable("sensor_devices", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  apiKeyHash: text("api_key_hash").notNull().unique(), // sha256 of the key, hex
+  apiKeyPrefix: text("api_key_prefix").notNull(), // first characters of the key, to tell keys apart in the UI
+  // Where readings go when they don't say; a reading can name its own plant or location instead
+  locationId: integer("location_id").references(() => plantLocations.id, { onDelete: "set null" }),
+  plantId: integer("plant_id").references(() => plants.id, { onDelete: "set null" }),
+  lastSeenAt: timestamp("last_seen_at"), // last authenticated ingestion call
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userDeviceNameUnique: unique("user_device_name_unique").on(table.userId, table.name),
+}));
+
+export const insertSensorDeviceSchema = createInsertSchema(sensorDevices).pick({
+  name: true,
+  locationId: true,
+  plantId: true,
+}).extend({
+  name: z.string().trim().min(1, "Device name is required").max(60),
+  locationId: z.number().int().positive().optional().nullable(),
+  plantId: z.number().int().positive().optional().nullable(),
+});
+
+export const updateSensorDeviceSchema = insertSensorDeviceSchema.partial();
+
+export const SENSOR_MEASUREMENTS = ['temperature', 'humidity', 'lux', 'soilMoisture'] as const;
+
+// JSON fields read when a mapping doesn't name its own; these are Zigbee2MQTT's names
+export const DEFAULT_MQTT_JSON_FIELDS: Record<typeof SENSOR_MEASUREMENTS[number], string> = {
+  temperature: 'temperature',
+  humidity: 'humidity',
+  lux: 'illuminance_lux',
+  soilMoisture: 'soil_moisture',
+};
+
+// An MQTT topic the bridge subscribes to, and how its messages become readings for a sensor device.
+// "json" payloads (Zigbee2MQTT) carry several measurements; "value" payloads (Home Assistant
+// statestream) carry a single number for `measurement`.
+export const mqttTopicMappings = pgTable("mqtt_topic_mappings", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  deviceId: integer("device_id").notNull().references(() => sensorDevices.id, { onDelete: "cascade" }),
+  topic: text("topic").notNull(), // MQTT topic filter under the user's prefix; + and # wildcards allowed after it
+  payloadFormat: text("payload_format").notNull().default("json"), // 'json' | 'value'
+  fields: jsonb("fields"), // json: { measurement: dotted path }, over DEFAULT_MQTT_JSON_FIELDS
+  measurement: text("measurement"), // value: one of SENSOR_MEASUREMENTS
+  temperatureUnit: text("temperature_unit").notNull().default("C"),
+  soilMoistureUnit: text("soil_moisture_unit").notNull().default("percent"),
+  // Override the device's plant / location for readings from this topic
+  plantId: integer("plant_id").references(() => plants.id, { onDelete: "set null" }),
+  locationId: integer("location_id").references(() => plantLocations.id, { onDelete: "set null" }),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userTopicUnique: unique("user_mqtt_topic_unique").on(table.userId, table.topic),
+}));
+
+// "+" must fill a whole level and "#" must be the whole last level
+const isValidMqttTopicFilter = (topic: string) =>
+  !topic.includes('\u0000') && topic.split('/').every((level, index, levels) =>
+    (!level.includes('+') || level === '+') && (!level.includes('#') || (level === '#' && index === levels.length - 1)));
+
+const mqttTopicMappingFields = z.object({
+  deviceId: z.number().int().positive(),
+  topic: z.string().trim().min(1).max(200).refine(isValidMqttTopicFilter, 'Not a valid MQTT topic filter'),
+  payloadFormat: z.enum(['json', 'value']).default('json'),
+  fields: z.record(z.enum(SENSOR_MEASUREMENTS), z.string().trim().min(1).max(100)).optional().nullable(),
+  measurement: z.enum(SENSOR_MEASUREMENTS).optional().nullable(),
+  temperatureUnit: z.enum(['C', 'F']).default('C'),
+  soilMoistureUnit: z.enum(['percent', 'fraction']).default('percent'),
+  plantId: z.number().int().positive().optional().nullable(),
+  locationId: z.number().int().positive().optional().nullable(),
+  enabled: z.boolean().default(true),
+});
+
+// Body of POST /api/mqtt/mappings; PUT bodies are merged over the stored mapping and checked with this too
+export const insertMqttTopicMappingSchema = mqttTopicMappingFields.superRefine((mapping, ctx) => {
+  if (mapping.payloadFormat === 'value' && !mapping.measurement) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['measurement'], message: 'Value payloads need the measurement they carry' });
+  }
+});
+
+export const updateMqttTopicMappingSchema = mqttTopicMappingFields.partial();
+
 export const environmentReadings = pgTable("environment_readings", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   temperature: real("temperature"),
   humidity: real("humidity"),
   lightLevel: text("light_level"),
+  lux: real("lux"), // measured illuminance, from sensors; lightLevel is derived from it
   soil_moisture_0_to_10cm: real("soil_moisture_0_to_10cm"), // Volumetric water content (m³/m³)
+  locationId: integer("location_id").references(() => plantLocations.id, { onDelete: "set null" }), // null: applies to the whole user
+  plantId: integer("plant_id").references(() => plants.id, { onDelete: "cascade" }), // set for readings from one plant's pot
+  deviceId: integer("device_id").references(() => sensorDevices.id, { onDelete: "set null" }), // null: entered by hand
   readingTimestamp: timestamp("reading_timestamp").defaultNow(),
 });
 
@@ -150,6 +449,93 @@ export const insertEnvironmentReadingSchema = createInsertSchema(environmentRead
   readingTimestamp: true,
 });
 
+// Most readings one POST /api/sensor-readings call may carry
+export const SENSOR_BATCH_MAX_READINGS = 200; // keeps bodies under express.json's 100kb limit
+
+// Body of POST /api/sensor-readings. Readings are validated one by one (sensorReadingSchema), so a
+// bad reading doesn't cost the rest of the batch.
+export const sensorReadingBatchSchema = z.object({
+  readings: z.array(z.unknown()).min(1, "At least one reading is required").max(SENSOR_BATCH_MAX_READINGS),
+});
+
+/**
+ * One reading from a sensor. Temperature may be sent in °C or °F and soil moisture as a percentage
+ * or a fraction; ranges are checked in the unit given. At least one measurement is required.
+ */
+export const sensorReadingSchema = z.object({
+  timestamp: z.coerce.date().optional(), // when it was measured; defaults to when it arrives
+  temperature: z.number().finite().optional(),
+  temperatureUnit: z.enum(['C', 'F']).default('C'),
+  humidity: z.number().min(0).max(100).optional(), // relative humidity, %
+  lux: z.number().min(0).max(200_000).optional(),
+  soilMoisture: z.number().min(0).optional(),
+  soilMoistureUnit: z.enum(['percent', 'fraction']).default('percent'),
+  plantId: z.number().int().positive().optional(),
+  locationId: z.number().int().positive().optional(),
+}).superRefine((reading, ctx) => {
+  const [minTemperature, maxTemperature] = reading.temperatureUnit === 'F' ? [-40, 185] : [-40, 85];
+  if (reading.temperature !== undefined && (reading.temperature < minTemperature || reading.temperature > maxTemperature)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['temperature'],
+      message: `Temperature must be between ${minTemperature} and ${maxTemperature} °${reading.temperatureUnit}`,
+    });
+  }
+  const maxMoisture = reading.soilMoistureUnit === 'fraction' ? 1 : 100;
+  if (reading.soilMoisture !== undefined && reading.soilMoisture > maxMoisture) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['soilMoisture'], message: `Soil moisture must be at most ${maxMoisture} (${reading.soilMoistureUnit})` });
+  }
+  if ([reading.temperature, reading.humidity, reading.lux, reading.soilMoisture].every(value => value === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'A reading needs at least one of temperature, humidity, lux or soilMoisture' });
+  }
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Widest from/to range allowed per bucket size, to keep responses to a few hundred points
+const MAX_HISTORY_RANGE_DAYS = { hour: 31, day: 366, week: 366 * 3 } as const;
+
+// Query params for GET /api/environment/history; defaults to daily averages over the last 7 days
+export const environmentHistoryQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  bucket: z.enum(['hour', 'day', 'week']).default('day'),
+  aggregation: z.enum(['min', 'max', 'avg']).default('avg'),
+  locationId: z.coerce.number().int().positive().optional(), // only readings from this location
+}).transform(query => {
+  const to = query.to ?? new Date();
+  const from = query.from ?? new Date(to.getTime() - 7 * DAY_MS);
+  return { ...query, from, to };
+}).superRefine((query, ctx) => {
+  if (query.from >= query.to) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['from'], message: '"from" must be before "to"' });
+  } else if (query.to.getTime() - query.from.getTime() > MAX_HISTORY_RANGE_DAYS[query.bucket] * DAY_MS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['from'],
+      message: `Range is too long for ${query.bucket} buckets (max ${MAX_HISTORY_RANGE_DAYS[query.bucket]} days)`,
+    });
+  }
+});
+
+// One aggregated bucket of environment readings; metrics are null when no reading in the bucket had them
+export interface EnvironmentHistoryPoint {
+  bucketStart: Date;
+  temperature: number | null;
+  humidity: number | null;
+  soilMoisture: number | null;
+  readings: number;
+}
+
+// Per-location summary in GET /api/dashboard-stats; locationId null covers plants with no location
+export interface LocationStats {
+  locationId: number | null;
+  name: string;
+  isIndoor: boolean | null;
+  plantCount: number;
+  plantsNeedingCare: number;
+  latestReading: Pick<EnvironmentReading, 'temperature' | 'humidity' | 'lightLevel' | 'readingTimestamp'> | null;
+}
+
 // Plant care tasks schema (new)
 export const plantCareTasks = pgTable("plant_care_tasks", {
   id: text("id").primaryKey(), // UUID
@@ -159,6 +545,7 @@ export const plantCareTasks = pgTable("plant_care_tasks", {
   status: text("status").notNull(), // 'pending', 'completed', 'skipped'
   completedAt: timestamp("completed_at"),
   lastCareDate: timestamp("last_care_date"),
+  notes: text("notes"), // Why the task was created or moved, e.g. a weather deferral
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -171,6 +558,34 @@ export const insertPlantCareTaskSchema = createInsertSchema(plantCareTasks).omit
   lastCareDate: true,
 });
 
+// Per-plant recurrence rules for care tasks. Rows only hold user overrides;
+// anything left null is derived from the plant's Perenual fields at schedule time.
+export const careScheduleRules = pgTable("care_schedule_rules", {
+  id: serial("id").primaryKey(),
+  plantId: integer("plant_id").notNull().references(() => plants.id, { onDelete: "cascade" }),
+  taskType: text("task_type").notNull(), // 'watering', 'fertilizing', 'pruning', 'repotting', 'misting'
+  intervalDays: integer("interval_days"), // null = derive from plant data
+  enabled: boolean("enabled"), // null = derive from plant data
+  updatedAt: timestamp("updated_at").defaultNow().$onUpdate(() => new Date()),
+}, (table) => {
+  return {
+    plantTaskTypeUniqueConstraint: unique("care_schedule_rules_plant_task_type_unique").on(table.plantId, table.taskType),
+  };
+});
+
+export const insertCareScheduleRuleSchema = createInsertSchema(careScheduleRules).omit({
+  id: true,
+  updatedAt: true,
+}).extend({
+  taskType: z.enum(['watering', 'fertilizing', 'pruning', 'repotting', 'misting']),
+  intervalDays: z.number().int().positive().max(730).optional().nullable(),
+  enabled: z.boolean().optional().nullable(),
+});
+
+// 'snoozed' returns to 'active' once snoozedUntil passes; 'active' becomes 'expired' once expiresAt passes
+export const RECOMMENDATION_STATUSES = ['active', 'applied', 'dismissed', 'snoozed', 'expired'] as const;
+export const RECOMMENDATION_FEEDBACK = ['up', 'down'] as const;
+
 // AI Recommendations schema
 export const recommendations = pgTable("recommendations", {
   id: serial("id").primaryKey(),
@@ -178,12 +593,328 @@ export const recommendations = pgTable("recommendations", {
   plantId: integer("plant_id").references(() => plants.id, { onDelete: "cascade" }),
   recommendationType: text("recommendation_type").notNull(), // water, light, etc.
   message: text("message").notNull(),
-  applied: boolean("applied").default(false),
+  applied: boolean("applied").default(false), // kept in step with status === 'applied'
+  status: text("status", { enum: RECOMMENDATION_STATUSES }).notNull().default("active"),
+  environmentReadingId: integer("environment_reading_id").references(() => environmentReadings.id, { onDelete: "set null" }), // the reading that prompted it
+  expiresAt: timestamp("expires_at"),
+  snoozedUntil: timestamp("snoozed_until"),
+  feedback: text("feedback", { enum: RECOMMENDATION_FEEDBACK }), // thumbs up/down from the owner
+  feedbackComment: text("feedback_comment"),
+  feedbackAt: timestamp("feedback_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Types the AI may recommend; 'frost' is raised by the frost alert check and 'environment' by the
+// threshold alerts on environment readings, never by the model
+export const AI_RECOMMENDATION_TYPES = ['water', 'light', 'pruning', 'fertilize', 'repot', 'humidity'] as const;
+export const RECOMMENDATION_TYPES = [...AI_RECOMMENDATION_TYPES, 'frost', 'environment'] as const;
+export const recommendationTypeSchema = z.enum(RECOMMENDATION_TYPES);
+
 export const insertRecommendationSchema = createInsertSchema(recommendations).omit({
   id: true,
+}).extend({
+  recommendationType: recommendationTypeSchema,
+});
+
+// Query params for GET /api/recommendations. status is a comma-separated list and defaults to 'active'.
+export const recommendationFilterSchema = z.object({
+  status: z.string().default('active').transform(value => value.split(',').map(part => part.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(RECOMMENDATION_STATUSES)).min(1)),
+  plantId: z.coerce.number().int().positive().optional(),
+  type: recommendationTypeSchema.optional(),
+});
+
+// Body for PUT /api/recommendations/:id/snooze: either a number of days or a date to snooze until
+export const snoozeRecommendationSchema = z.object({
+  days: z.number().int().min(1).max(90).optional(),
+  until: z.coerce.date().optional(),
+}).refine(body => (body.days === undefined) !== (body.until === undefined), {
+  message: 'Provide either "days" or "until"',
+});
+
+export const recommendationFeedbackSchema = z.object({
+  feedback: z.enum(RECOMMENDATION_FEEDBACK),
+  comment: z.string().trim().max(500).optional().nullable(),
+});
+
+// Shape every AI recommendation must have before it is stored
+export const aiRecommendationSchema = z.object({
+  recommendationType: z.enum(AI_RECOMMENDATION_TYPES),
+  message: z.string().trim().min(10).max(500),
+});
+
+export const aiRecommendationsResponseSchema = z.object({
+  recommendations: z.array(aiRecommendationSchema).min(1).max(5),
+});
+
+export const CARE_TIP_CATEGORIES = ['Watering', 'Light', 'Fertilizing', 'Pruning', 'Repotting', 'Humidity', 'Temperature', 'Pests', 'General'] as const;
+
+export const aiCareTipSchema = z.object({
+  category: z.enum(CARE_TIP_CATEGORIES),
+  tip: z.string().trim().min(10).max(400),
+});
+
+export const aiCareTipsResponseSchema = z.object({
+  tips: z.array(aiCareTipSchema).min(1).max(5),
+});
+
+// The dashboard tip is plain text: one or two sentences, no JSON or markdown
+export const aiDashboardTipSchema = z.string().trim().min(10).max(400).refine(
+  text => !text.startsWith('{') && !text.includes('```'),
+  { message: 'Tip must be plain text' },
+);
+
+// Frost alerts for outdoor plants. One row per plant per cold event (a run of consecutive
+// forecast nights below what the plant tolerates); re-checks extend the row instead of duplicating it.
+export const frostAlerts = pgTable("frost_alerts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  plantId: integer("plant_id").notNull().references(() => plants.id, { onDelete: "cascade" }),
+  eventStart: timestamp("event_start").notNull(), // first cold night
+  eventEnd: timestamp("event_end").notNull(), // last cold night
+  forecastMinC: real("forecast_min_c").notNull(), // coldest forecast minimum in the event
+  toleranceC: real("tolerance_c").notNull(), // coldest temperature the plant's hardiness zone survives
+  action: text("action").notNull(), // 'cover' | 'bring_inside'
+  recommendationId: integer("recommendation_id").references(() => recommendations.id, { onDelete: "set null" }),
+  taskId: text("task_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().$onUpdate(() => new Date()),
+}, (table) => {
+  return {
+    plantEventUniqueConstraint: unique("frost_alerts_plant_event_unique").on(table.plantId, table.eventStart),
+  };
+});
+
+export const insertFrostAlertSchema = createInsertSchema(frostAlerts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// What per-plant thresholds are set on. Light is in lux; soil moisture is volumetric (m³/m³).
+export const ENVIRONMENT_METRICS = ['temperature', 'humidity', 'soilMoisture', 'light'] as const;
+export const ENVIRONMENT_ALERT_DIRECTIONS = ['low', 'high'] as const;
+export const ENVIRONMENT_ALERT_STATUSES = ['active', 'resolved'] as const;
+
+// Headlines for threshold alerts, used in their recommendations and in the UI
+export const ENVIRONMENT_ALERT_LABELS: Record<EnvironmentMetric, Record<EnvironmentAlertDirection, string>> = {
+  temperature: { low: 'Too cold', high: 'Too warm' },
+  humidity: { low: 'Air too dry', high: 'Air too humid' },
+  soilMoisture: { low: 'Soil too dry', high: 'Soil too wet' },
+  light: { low: 'Too little light', high: 'Too much light' },
+};
+
+// The owner's own limits for a plant. A null column means the default derived from the species data.
+export const plantEnvironmentThresholds = pgTable("plant_environment_thresholds", {
+  id: serial("id").primaryKey(),
+  plantId: integer("plant_id").notNull().unique().references(() => plants.id, { onDelete: "cascade" }),
+  minTemperature: real("min_temperature"), // °C
+  maxTemperature: real("max_temperature"),
+  minHumidity: real("min_humidity"), // % relative humidity
+  maxHumidity: real("max_humidity"),
+  minSoilMoisture: real("min_soil_moisture"), // m³/m³
+  maxSoilMoisture: real("max_soil_moisture"),
+  minLux: real("min_lux"), // compared with the day's brightest reading
+  maxLux: real("max_lux"),
+  updatedAt: timestamp("updated_at").defaultNow().$onUpdate(() => new Date()),
+});
+
+const thresholdLimit = (max: number) => z.number().min(0).max(max).nullable().optional();
+
+// Body for PUT /api/plants/:id/thresholds. null puts a limit back to the species default.
+export const updatePlantEnvironmentThresholdsSchema = z.object({
+  minTemperature: z.number().min(-40).max(60).nullable().optional(),
+  maxTemperature: z.number().min(-40).max(60).nullable().optional(),
+  minHumidity: thresholdLimit(100),
+  maxHumidity: thresholdLimit(100),
+  minSoilMoisture: thresholdLimit(1),
+  maxSoilMoisture: thresholdLimit(1),
+  minLux: thresholdLimit(200_000),
+  maxLux: thresholdLimit(200_000),
+});
+
+/**
+ * One breach of a plant's threshold, open until readings come back inside it by a margin, so a
+ * value hovering at the limit raises a single alert rather than one per reading.
+ */
+export const environmentAlerts = pgTable("environment_alerts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  plantId: integer("plant_id").notNull().references(() => plants.id, { onDelete: "cascade" }),
+  metric: text("metric", { enum: ENVIRONMENT_METRICS }).notNull(),
+  direction: text("direction", { enum: ENVIRONMENT_ALERT_DIRECTIONS }).notNull(),
+  status: text("status", { enum: ENVIRONMENT_ALERT_STATUSES }).notNull().default("active"),
+  threshold: real("threshold").notNull(), // the limit that was crossed
+  triggerValue: real("trigger_value").notNull(),
+  worstValue: real("worst_value").notNull(), // furthest past the limit while active
+  lastValue: real("last_value").notNull(),
+  environmentReadingId: integer("environment_reading_id").references(() => environmentReadings.id, { onDelete: "set null" }), // the reading that raised it
+  recommendationId: integer("recommendation_id").references(() => recommendations.id, { onDelete: "set null" }),
+  triggeredAt: timestamp("triggered_at").notNull(),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  // At most one open alert per plant and metric, even when batches for the same plant overlap
+  activePlantMetricUnique: uniqueIndex("environment_alerts_active_plant_metric_unique")
+    .on(table.plantId, table.metric)
+    .where(sql`${table.status} = 'active'`),
+}));
+
+export const insertEnvironmentAlertSchema = createInsertSchema(environmentAlerts).omit({
+  id: true,
+  createdAt: true,
+});
+
+// One row per care task per channel once it has been notified, so digests never repeat a task
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  taskId: text("task_id").notNull().references(() => plantCareTasks.id, { onDelete: "cascade" }),
+  channel: text("channel").notNull(), // 'email' | 'push' | 'webhook'
+  sentAt: timestamp("sent_at").defaultNow(),
+}, (table) => {
+  return {
+    taskChannelUniqueConstraint: unique("notification_deliveries_task_channel_unique").on(table.taskId, table.channel),
+  };
+});
+
+// User-uploaded plant photos. Files live in the photo storage backend under storageKey/thumbnailKey.
+export const plantPhotos = pgTable("plant_photos", {
+  id: serial("id").primaryKey(),
+  plantId: integer("plant_id").notNull().references(() => plants.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key").notNull(),
+  contentType: text("content_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  width: integer("width"),
+  height: integer("height"),
+  caption: text("caption"),
+  takenAt: timestamp("taken_at").defaultNow(), // when the photo was taken; defaults to upload time
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertPlantPhotoSchema = createInsertSchema(plantPhotos).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Form fields accepted alongside the uploaded file
+export const plantPhotoUploadFieldsSchema = z.object({
+  caption: z.string().trim().max(500).optional(),
+  takenAt: z.coerce.date().optional(),
+});
+
+// Growth measurements for a plant. Standard metrics get their own columns so they can be charted
+// and compared; anything else goes in customMetrics as { name, value, unit } entries.
+export const plantMeasurements = pgTable("plant_measurements", {
+  id: serial("id").primaryKey(),
+  plantId: integer("plant_id").notNull().references(() => plants.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  measuredAt: timestamp("measured_at").notNull().defaultNow(),
+  heightCm: real("height_cm"),
+  leafCount: integer("leaf_count"),
+  stemDiameterMm: real("stem_diameter_mm"),
+  flowerCount: integer("flower_count"),
+  customMetrics: jsonb("custom_metrics").$type<CustomMetric[]>().default([]),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().$onUpdate(() => new Date()),
+});
+
+export const customMetricSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  value: z.number().finite(),
+  unit: z.string().trim().max(20).optional().nullable(),
+});
+
+const measurementFieldsSchema = z.object({
+  measuredAt: z.coerce.date().optional(),
+  heightCm: z.number().nonnegative().optional().nullable(),
+  leafCount: z.number().int().nonnegative().optional().nullable(),
+  stemDiameterMm: z.number().nonnegative().optional().nullable(),
+  flowerCount: z.number().int().nonnegative().optional().nullable(),
+  customMetrics: z.array(customMetricSchema).max(20).optional(),
+  notes: z.string().max(1000).optional().nullable(),
+});
+
+const hasAnyMetric = (data: z.infer<typeof measurementFieldsSchema>) =>
+  data.heightCm != null || data.leafCount != null || data.stemDiameterMm != null ||
+  data.flowerCount != null || (data.customMetrics?.length ?? 0) > 0;
+
+// Request body for recording a measurement; at least one metric is required
+export const insertPlantMeasurementSchema = measurementFieldsSchema.refine(hasAnyMetric, {
+  message: "Provide at least one measurement",
+});
+
+export const updatePlantMeasurementSchema = measurementFieldsSchema.partial();
+
+// Assistant chat about one plant. Conversations are kept so a user can pick one up again later.
+export const plantConversations = pgTable("plant_conversations", {
+  id: serial("id").primaryKey(),
+  plantId: integer("plant_id").notNull().references(() => plants.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  title: text("title").notNull(), // the first question, shortened
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(), // bumped on every message, for "most recent" ordering
+});
+
+export const CHAT_ROLES = ['user', 'assistant'] as const;
+
+export const plantChatMessages = pgTable("plant_chat_messages", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull().references(() => plantConversations.id, { onDelete: "cascade" }),
+  role: text("role", { enum: CHAT_ROLES }).notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Request body for POST /api/plants/:plantId/chat; omit conversationId to start a new conversation
+export const plantChatRequestSchema = z.object({
+  conversationId: z.number().int().positive().optional(),
+  message: z.string().trim().min(1).max(2000),
+});
+
+// One row per LLM call (or cache hit), for per-user daily token quotas and cost tracking.
+// userId is null for calls not made on behalf of a user.
+export const aiUsage = pgTable("ai_usage", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  feature: text("feature").notNull(), // the LlmTask kind: recommendations, care_tip, dashboard_tip, chat
+  provider: text("provider").notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  cached: boolean("cached").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Background jobs, claimed by the worker with FOR UPDATE SKIP LOCKED so several instances can share
+// the queue. Failed attempts are retried with backoff until maxAttempts; results/errors stay for polling.
+export const JOB_STATUSES = ['pending', 'running', 'completed', 'failed'] as const;
+
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // handler name, e.g. 'generate_recommendations'
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }), // owner, for the status endpoint
+  status: text("status", { enum: JOB_STATUSES }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(), // not picked up before this (delays and backoff)
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  result: jsonb("result"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Validated LLM replies keyed by a hash of the provider and prompt, reused until they expire
+export const aiResponseCache = pgTable("ai_response_cache", {
+  promptHash: text("prompt_hash").primaryKey(),
+  response: text("response").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Care history schema
@@ -215,6 +946,23 @@ export const insertPlantHealthMetricsSchema = createInsertSchema(plantHealthMetr
   updatedAt: true,
 });
 
+// Daily health history; one row per plant per day, overwritten by later recomputes that day
+export const plantHealthSnapshots = pgTable("plant_health_snapshots", {
+  id: serial("id").primaryKey(),
+  plantId: integer("plant_id").notNull().references(() => plants.id, { onDelete: "cascade" }),
+  snapshotDate: date("snapshot_date", { mode: "string" }).notNull(), // YYYY-MM-DD
+  waterLevel: integer("water_level").notNull(),
+  lightLevel: integer("light_level").notNull(),
+  overallHealth: integer("overall_health").notNull(),
+  factors: jsonb("factors"), // inputs behind the score, see healthScoreService
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow().$onUpdate(() => new Date()),
+}, (table) => {
+  return {
+    plantDateUniqueConstraint: unique("plant_health_snapshots_plant_date_unique").on(table.plantId, table.snapshotDate),
+  };
+});
+
 // AI Care Tips schema
 export const aiCareTips = pgTable("ai_care_tips", {
   id: serial("id").primaryKey(),
@@ -237,17 +985,96 @@ export const insertAiCareTipSchema = createInsertSchema(aiCareTips).omit({
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type UserProfile = typeof userProfiles.$inferSelect;
+export type InsertUserProfile = z.infer<typeof insertUserProfileSchema>;
+export type UpdateUserProfile = z.infer<typeof updateUserProfileSchema>;
+
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+
+export type CalendarFeedToken = typeof calendarFeedTokens.$inferSelect;
+
+export type SpeciesCatalogEntry = typeof speciesCatalog.$inferSelect;
+export type InsertSpeciesCatalogEntry = typeof speciesCatalog.$inferInsert;
+export type SpeciesSearchQuery = z.infer<typeof speciesSearchQuerySchema>;
+
+export type PlantLocation = typeof plantLocations.$inferSelect;
+export type InsertPlantLocation = z.infer<typeof insertPlantLocationSchema>;
+export type UpdatePlantLocation = z.infer<typeof updatePlantLocationSchema>;
+export type LocationKind = typeof LOCATION_KINDS[number];
+export type LightExposure = typeof LIGHT_EXPOSURES[number];
+
 export type Plant = typeof plants.$inferSelect;
 export type InsertPlant = z.infer<typeof insertPlantSchema>;
+export type CreateCustomPlant = z.infer<typeof createCustomPlantSchema>;
+export type UpdatePlant = z.infer<typeof updatePlantSchema>;
 
 export type EnvironmentReading = typeof environmentReadings.$inferSelect;
 export type InsertEnvironmentReading = z.infer<typeof insertEnvironmentReadingSchema>;
 
+export type SensorDevice = typeof sensorDevices.$inferSelect;
+export type InsertSensorDevice = z.infer<typeof insertSensorDeviceSchema>;
+export type UpdateSensorDevice = z.infer<typeof updateSensorDeviceSchema>;
+// A device as returned by the API: never includes the key hash
+export type SensorDeviceSummary = Omit<SensorDevice, 'apiKeyHash'>;
+export type SensorReading = z.infer<typeof sensorReadingSchema>;
+export type SensorMeasurement = typeof SENSOR_MEASUREMENTS[number];
+
+export type MqttTopicMapping = typeof mqttTopicMappings.$inferSelect;
+export type InsertMqttTopicMapping = z.infer<typeof insertMqttTopicMappingSchema>;
+export type UpdateMqttTopicMapping = z.infer<typeof updateMqttTopicMappingSchema>;
+export type EnvironmentHistoryQuery = z.infer<typeof environmentHistoryQuerySchema>;
+
 export type PlantCareTask = typeof plantCareTasks.$inferSelect;
 export type InsertPlantCareTask = z.infer<typeof insertPlantCareTaskSchema>;
 
+export type CareScheduleRule = typeof careScheduleRules.$inferSelect;
+export type InsertCareScheduleRule = z.infer<typeof insertCareScheduleRuleSchema>;
+
 export type Recommendation = typeof recommendations.$inferSelect;
 export type InsertRecommendation = z.infer<typeof insertRecommendationSchema>;
+export type RecommendationType = z.infer<typeof recommendationTypeSchema>;
+export type RecommendationStatus = typeof RECOMMENDATION_STATUSES[number];
+export type RecommendationFeedback = typeof RECOMMENDATION_FEEDBACK[number];
+export type RecommendationFilter = z.infer<typeof recommendationFilterSchema>;
+export type AiRecommendation = z.infer<typeof aiRecommendationSchema>;
+export type AiCareTipOutput = z.infer<typeof aiCareTipSchema>;
+
+export type FrostAlert = typeof frostAlerts.$inferSelect;
+export type InsertFrostAlert = z.infer<typeof insertFrostAlertSchema>;
+
+export type EnvironmentMetric = typeof ENVIRONMENT_METRICS[number];
+export type EnvironmentAlertDirection = typeof ENVIRONMENT_ALERT_DIRECTIONS[number];
+export type PlantEnvironmentThresholdOverrides = typeof plantEnvironmentThresholds.$inferSelect;
+export type UpdatePlantEnvironmentThresholds = z.infer<typeof updatePlantEnvironmentThresholdsSchema>;
+// Limits in force for each metric; null means no limit on that side
+export type EnvironmentThresholds = Record<EnvironmentMetric, { min: number | null; max: number | null }>;
+export type EnvironmentAlert = typeof environmentAlerts.$inferSelect;
+export type InsertEnvironmentAlert = z.infer<typeof insertEnvironmentAlertSchema>;
+
+export type PlantPhoto = typeof plantPhotos.$inferSelect;
+export type InsertPlantPhoto = z.infer<typeof insertPlantPhotoSchema>;
+
+export type PlantMeasurement = typeof plantMeasurements.$inferSelect;
+export type InsertPlantMeasurement = z.infer<typeof insertPlantMeasurementSchema>;
+export type UpdatePlantMeasurement = z.infer<typeof updatePlantMeasurementSchema>;
+export type CustomMetric = z.infer<typeof customMetricSchema>;
+
+export type PlantConversation = typeof plantConversations.$inferSelect;
+export type PlantChatMessage = typeof plantChatMessages.$inferSelect;
+export type ChatRole = typeof CHAT_ROLES[number];
+export type PlantChatRequest = z.infer<typeof plantChatRequestSchema>;
+
+export type AiUsage = typeof aiUsage.$inferSelect;
+
+export type Job = typeof jobs.$inferSelect;
+export type JobStatus = typeof JOB_STATUSES[number];
 
 export type CareHistory = typeof careHistory.$inferSelect;
 export type InsertCareHistory = z.infer<typeof insertCareHistorySchema>;
@@ -255,6 +1082,8 @@ export type InsertCareHistory = z.infer<typeof insertCareHistorySchema>;
 export type PlantHealthMetric = typeof plantHealthMetrics.$inferSelect;
 export type InsertPlantHealthMetric = z.infer<typeof insertPlantHealthMetricsSchema>;
 
+export type PlantHealthSnapshot = typeof plantHealthSnapshots.$inferSelect;
+
 export type AiCareTip = typeof aiCareTips.$inferSelect;
 export type InsertAiCareTip = z.infer<typeof insertAiCareTipSchema>;
 
@@ -266,6 +1095,23 @@ export interface PlantData {
   species: string | null;
   waterFrequencyDays: number | null;
   lastWatered: Date | null;
+  // Perenual fields, used by the rule-based advisor when no LLM is available
+  watering_general_benchmark?: unknown;
+  sunlight?: string[] | null;
+  indoor?: boolean | null;
+  drought_tolerant?: boolean | null;
+  tropical?: boolean | null;
+}
+
+// Interface for the user's location context passed to AI prompts and weather lookups
+export interface LocationContext {
+  locationName: string | null;
+  latitude: number;
+  longitude: number;
+  timezone: string | null;
+  unitPreference: 'metric' | 'imperial';
+  hardinessZone: string | null;
+  isDefault: boolean; // true when the user has not saved coordinates yet
 }
 
 // Interface for environment data used by Gemini service